@@ -0,0 +1,275 @@
+/**
+ * Componente de consulta da auditoria
+ * Busca e filtra eventos (ação, alvo, período, texto) e exibe o diff antes/depois
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Eye, Filter, RefreshCw, Search } from 'lucide-react';
+import { useAuditLogs, type AuditLogFilters } from '@/hooks/useAuditLogs';
+import type { AuditAction, AuditLog, AuditTargetType } from '@/lib/appwrite';
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  'goal.create': 'Meta criada',
+  'goal.update': 'Meta editada',
+  'goal.activate': 'Meta ativada',
+  'goal.deactivate': 'Meta desativada',
+  'goal.delete': 'Meta removida',
+  'contestation.create': 'Contestação aberta',
+  'contestation.resolve': 'Contestação resolvida',
+  'contestation.dismiss': 'Contestação dispensada',
+  'contestation.respond': 'Contestação respondida',
+  'user.create': 'Usuário criado',
+  'user.update': 'Usuário editado',
+  'user.delete': 'Usuário removido',
+  'login.unlock': 'Login desbloqueado',
+  'mfa.enable': '2FA ativado',
+  'mfa.disable': '2FA desativado',
+  'mfa.reset': '2FA resetado',
+  'password.change': 'Senha alterada',
+  'password.reset': 'Senha redefinida',
+  'settings.update': 'Configuração alterada',
+  'delegation.create': 'Delegação criada',
+  'delegation.revoke': 'Delegação revogada',
+  'role.create': 'Role personalizado criado',
+  'role.update': 'Role personalizado atualizado',
+  'role.delete': 'Role personalizado removido',
+  'session.revoke': 'Sessão encerrada',
+  'session.force_logout': 'Logout forçado',
+  'data.backfill': 'Migração de dados',
+  'reward.close': 'Fechamento de recompensas',
+  'reward.approve': 'Recompensa aprovada',
+  'reward.reject': 'Recompensa rejeitada',
+  'reward.release': 'Recompensa liberada',
+  'reward.pay': 'Recompensa paga'
+};
+
+const targetTypeLabels: Record<AuditTargetType, string> = {
+  goal: 'Metas',
+  contestation: 'Contestações',
+  user: 'Usuários',
+  login: 'Logins',
+  settings: 'Configurações',
+  delegation: 'Delegações',
+  role: 'Roles personalizados',
+  data: 'Dados',
+  reward: 'Recompensas'
+};
+
+const parseJson = (value?: string) => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export function AuditLogViewer() {
+  const { logs, total, nextCursor, loading, error, fetchLogs } = useAuditLogs();
+  const [filters, setFilters] = useState<AuditLogFilters>({ action: 'all', targetType: 'all' });
+  const [search, setSearch] = useState('');
+  const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null);
+
+  useEffect(() => {
+    fetchLogs(filters);
+  }, [filters, fetchLogs]);
+
+  const updateFilter = (field: keyof AuditLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilter('q', search);
+  };
+
+  const selectedDiff = selectedLog ? (parseJson(selectedLog.diff) as Record<string, { from: unknown; to: unknown }>) || {} : {};
+
+  return (
+    <div className="space-y-6">
+      {/* Filtros */}
+      <div className="flex flex-col lg:flex-row gap-4 p-4 bg-gray-50 rounded-lg">
+        <form onSubmit={handleSearch} className="flex items-center gap-2 flex-1">
+          <Search className="w-4 h-4 text-gray-500" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Buscar na descrição (ex: nome da meta, e-mail)"
+            className="bg-white"
+          />
+        </form>
+
+        <div className="flex items-center gap-2">
+          <Filter className="w-4 h-4 text-gray-500" />
+          <Select value={filters.targetType} onValueChange={(value) => updateFilter('targetType', value)}>
+            <SelectTrigger className="bg-white w-44">
+              <SelectValue placeholder="Tipo de alvo" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os alvos</SelectItem>
+              {Object.entries(targetTypeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Select value={filters.action} onValueChange={(value) => updateFilter('action', value)}>
+          <SelectTrigger className="bg-white w-52">
+            <SelectValue placeholder="Ação" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas as ações</SelectItem>
+            {Object.entries(auditActionLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className="bg-white"
+            aria-label="Data inicial"
+          />
+          <span className="text-gray-500 text-sm">até</span>
+          <Input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className="bg-white"
+            aria-label="Data final"
+          />
+        </div>
+
+        <Button variant="outline" onClick={() => fetchLogs(filters)} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Atualizar
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="text-sm text-gray-600">
+        Mostrando {logs.length} de {total} eventos
+      </div>
+
+      {/* Tabela de eventos */}
+      <div className="border rounded-lg overflow-hidden bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="font-semibold">Data</TableHead>
+              <TableHead className="font-semibold">Autor</TableHead>
+              <TableHead className="font-semibold">Ação</TableHead>
+              <TableHead className="font-semibold">Descrição</TableHead>
+              <TableHead className="font-semibold text-center">Detalhes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {logs.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                  {loading ? 'Carregando eventos...' : 'Nenhum evento encontrado com os filtros aplicados'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              logs.map((log) => (
+                <TableRow key={log.$id} className="hover:bg-gray-50">
+                  <TableCell className="text-gray-600 whitespace-nowrap">
+                    {new Date(log.timestamp).toLocaleString('pt-BR')}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{log.actorName}</div>
+                    <div className="text-xs text-gray-500">{log.actorRole}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={log.action.endsWith('.delete') ? 'destructive' : 'outline'}>
+                      {auditActionLabels[log.action] || log.action}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-gray-700">{log.summary}</TableCell>
+                  <TableCell className="text-center">
+                    <Button variant="outline" size="sm" onClick={() => setSelectedLog(log)}>
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {nextCursor && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => fetchLogs(filters, nextCursor)} disabled={loading}>
+            {loading ? 'Carregando...' : 'Carregar mais'}
+          </Button>
+        </div>
+      )}
+
+      {/* Detalhes do evento */}
+      <Dialog open={!!selectedLog} onOpenChange={(open) => !open && setSelectedLog(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selectedLog ? auditActionLabels[selectedLog.action] || selectedLog.action : ''}</DialogTitle>
+          </DialogHeader>
+          {selectedLog && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-2 text-gray-700">
+                <div><span className="font-medium">Autor:</span> {selectedLog.actorName} ({selectedLog.actorId})</div>
+                <div><span className="font-medium">Data:</span> {new Date(selectedLog.timestamp).toLocaleString('pt-BR')}</div>
+                <div><span className="font-medium">Alvo:</span> {selectedLog.targetType}</div>
+                <div><span className="font-medium">ID:</span> {selectedLog.targetId}</div>
+              </div>
+
+              {Object.keys(selectedDiff).length === 0 ? (
+                <p className="text-gray-500">Nenhuma alteração de campos registrada.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Campo</TableHead>
+                      <TableHead>Antes</TableHead>
+                      <TableHead>Depois</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(selectedDiff).map(([field, change]) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-medium">{field}</TableCell>
+                        <TableCell className="text-red-700 break-all">{formatValue(change.from)}</TableCell>
+                        <TableCell className="text-green-700 break-all">{formatValue(change.to)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * Painel de integridade das respostas
+ * Verifica todas as submissões contra o schema do checklist e lista os registros que não decodificam
+ */
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SearchCheck } from 'lucide-react';
+import { useChecklistReport } from '@/hooks/useChecklistReport';
+
+export function ChecklistIntegrityPanel() {
+  const { invalid, scanned, loading, error, runReport } = useChecklistReport();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {scanned === null
+            ? 'Nenhuma verificação executada nesta sessão'
+            : `${invalid.length} de ${scanned} submissão(ões) com respostas inválidas`}
+        </p>
+        <Button variant="outline" size="sm" onClick={runReport} disabled={loading} className="flex items-center gap-2">
+          <SearchCheck className={`w-4 h-4 ${loading ? 'animate-pulse' : ''}`} />
+          {loading ? 'Verificando...' : 'Verificar'}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {scanned !== null && (
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className="font-semibold">Submissão</TableHead>
+                <TableHead className="font-semibold">Colaborador</TableHead>
+                <TableHead className="font-semibold">Data</TableHead>
+                <TableHead className="font-semibold">Problema</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invalid.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-6 text-gray-500">
+                    Todas as submissões seguem o schema das respostas
+                  </TableCell>
+                </TableRow>
+              ) : (
+                invalid.map((record) => (
+                  <TableRow key={record.submissionId} className="hover:bg-gray-50">
+                    <TableCell className="font-mono text-xs">{record.submissionId}</TableCell>
+                    <TableCell>{record.userName || record.userProfileId || '—'}</TableCell>
+                    <TableCell className="text-gray-600 whitespace-nowrap">
+                      {new Date(record.date).toLocaleString('pt-BR')}
+                    </TableCell>
+                    <TableCell className="text-red-700 text-sm">{record.error}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
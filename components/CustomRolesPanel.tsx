@@ -0,0 +1,264 @@
+/**
+ * Painel de permissões (admin)
+ * Matriz de permissões dos roles padrão e personalizados e formulário
+ * para criar/editar roles personalizados (ex.: "Leitor RH", "Aprovador Financeiro")
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, Pencil, RefreshCw, Trash2 } from 'lucide-react';
+import { useFeedback } from '@/components/FeedbackProvider';
+import type { useCustomRoles } from '@/hooks/useCustomRoles';
+import { permissionGroups, permissionLabels, type CustomRole, type Permission } from '@/lib/permissions';
+import { Role } from '@/lib/roles';
+
+interface CustomRolesPanelProps {
+  customRoles: ReturnType<typeof useCustomRoles>; // estado compartilhado com a atribuição de roles na lista de usuários
+}
+
+export const roleDisplayNames: Record<Role, string> = {
+  [Role.ADMIN]: 'Administrador',
+  [Role.MANAGER]: 'Gestor',
+  [Role.COLLABORATOR]: 'Colaborador'
+};
+
+const BASE_ROLES = [Role.ADMIN, Role.MANAGER, Role.COLLABORATOR];
+
+export function CustomRolesPanel({ customRoles }: CustomRolesPanelProps) {
+  const { roles, defaults, loading, error, fetchRoles, createRole, updateRole, deleteRole } = customRoles;
+  const { confirm, toastSuccess, toastError } = useFeedback();
+
+  const [editingRole, setEditingRole] = useState<CustomRole | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [baseRole, setBaseRole] = useState<Role>(Role.COLLABORATOR);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  // Formulário novo começa com as permissões padrão do role base
+  useEffect(() => {
+    if (defaults) {
+      setPermissions(prev => (prev.length > 0 ? prev : defaults[Role.COLLABORATOR]));
+    }
+  }, [defaults]);
+
+  const resetForm = () => {
+    setEditingRole(null);
+    setName('');
+    setDescription('');
+    setBaseRole(Role.COLLABORATOR);
+    setPermissions(defaults ? defaults[Role.COLLABORATOR] : []);
+  };
+
+  const startEditing = (role: CustomRole) => {
+    setEditingRole(role);
+    setName(role.name);
+    setDescription(role.description || '');
+    setBaseRole(role.baseRole);
+    setPermissions(role.permissions);
+  };
+
+  const handleBaseRoleChange = (value: string) => {
+    setBaseRole(value as Role);
+    if (!editingRole && defaults) {
+      setPermissions(defaults[value as Role]);
+    }
+  };
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setPermissions(prev => (checked ? [...prev, permission] : prev.filter(item => item !== permission)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data = { name, description, baseRole, permissions };
+      if (editingRole) {
+        await updateRole(editingRole.$id, data);
+        toastSuccess('Role atualizado com sucesso!');
+      } else {
+        await createRole(data);
+        toastSuccess('Role criado com sucesso!');
+      }
+      resetForm();
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao salvar role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: CustomRole) => {
+    const confirmed = await confirm({
+      title: 'Excluir Role',
+      description: `Excluir o role "${role.name}"? Usuários vinculados precisam ser desvinculados antes.`,
+      confirmText: 'Excluir',
+      cancelText: 'Cancelar',
+      danger: true
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteRole(role.$id);
+      if (editingRole?.$id === role.$id) resetForm();
+      toastSuccess('Role excluído.');
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao excluir role');
+    }
+  };
+
+  // Colunas da matriz: roles padrão seguidos dos personalizados
+  const columns = [
+    ...BASE_ROLES.map(role => ({ key: role, label: roleDisplayNames[role], permissions: defaults?.[role] || [], custom: null })),
+    ...roles.map(role => ({ key: role.$id, label: role.name, permissions: role.permissions, custom: role }))
+  ];
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+        <h3 className="font-semibold">{editingRole ? `Editar "${editingRole.name}"` : 'Novo role personalizado'}</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="custom-role-name">Nome</Label>
+            <Input
+              id="custom-role-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Aprovador Financeiro"
+              className="bg-white"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Role base</Label>
+            <Select value={baseRole} onValueChange={handleBaseRoleChange}>
+              <SelectTrigger className="bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={Role.MANAGER}>{roleDisplayNames[Role.MANAGER]}</SelectItem>
+                <SelectItem value={Role.COLLABORATOR}>{roleDisplayNames[Role.COLLABORATOR]}</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">Define o painel usado pelo usuário.</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="custom-role-description">Descrição (opcional)</Label>
+          <Textarea
+            id="custom-role-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="bg-white"
+            rows={2}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {permissionGroups.map(group => (
+            <div key={group.label} className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">{group.label}</p>
+              {group.permissions.map(permission => (
+                <div key={permission} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`custom-role-${permission}`}
+                    checked={permissions.includes(permission)}
+                    onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                    disabled={saving}
+                  />
+                  <Label htmlFor={`custom-role-${permission}`} className="text-sm font-normal">
+                    {permissionLabels[permission]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={saving || !name.trim() || permissions.length === 0}>
+            {saving ? 'Salvando...' : editingRole ? 'Salvar alterações' : 'Criar role'}
+          </Button>
+          {editingRole && (
+            <Button type="button" variant="outline" onClick={resetForm} disabled={saving}>
+              Cancelar
+            </Button>
+          )}
+        </div>
+      </form>
+
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">{roles.length} role(s) personalizado(s)</p>
+        <Button variant="outline" size="sm" onClick={fetchRoles} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Atualizar
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="font-semibold">Permissão</TableHead>
+              {columns.map(column => (
+                <TableHead key={column.key} className="font-semibold text-center whitespace-nowrap">
+                  <div className="flex flex-col items-center gap-1">
+                    <span>{column.label}</span>
+                    {column.custom ? (
+                      <div className="flex gap-1">
+                        <Badge variant="outline">{roleDisplayNames[column.custom.baseRole]}</Badge>
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(column.custom!)} title="Editar">
+                          <Pencil className="w-3 h-3" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(column.custom!)} title="Excluir" className="text-red-600 hover:text-red-700">
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="secondary">Padrão</Badge>
+                    )}
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {permissionGroups.flatMap(group => group.permissions).map(permission => (
+              <TableRow key={permission} className="hover:bg-gray-50">
+                <TableCell className="font-medium whitespace-nowrap">{permissionLabels[permission]}</TableCell>
+                {columns.map(column => (
+                  <TableCell key={column.key} className="text-center">
+                    {column.permissions.includes(permission) && <Check className="w-4 h-4 text-green-600 mx-auto" />}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Painel de submissões duplicadas
+ * Lista as cópias gravadas pelo mesmo autor, com as mesmas respostas, logo após o original (ex.: duplo toque em "Salvar")
+ */
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SearchCheck } from 'lucide-react';
+import { useDuplicateSubmissionsReport } from '@/hooks/useDuplicateSubmissionsReport';
+
+export function DuplicateSubmissionsPanel() {
+  const { groups, scanned, loading, error, runReport } = useDuplicateSubmissionsReport();
+  const duplicateCount = groups.reduce((total, group) => total + group.duplicateIds.length, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {scanned === null
+            ? 'Nenhuma verificação executada nesta sessão'
+            : `${duplicateCount} cópia(s) em ${groups.length} grupo(s) entre ${scanned} submissão(ões)`}
+        </p>
+        <Button variant="outline" size="sm" onClick={runReport} disabled={loading} className="flex items-center gap-2">
+          <SearchCheck className={`w-4 h-4 ${loading ? 'animate-pulse' : ''}`} />
+          {loading ? 'Verificando...' : 'Verificar'}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {scanned !== null && (
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className="font-semibold">Original</TableHead>
+                <TableHead className="font-semibold">Cópias</TableHead>
+                <TableHead className="font-semibold">Colaborador</TableHead>
+                <TableHead className="font-semibold">Data</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-6 text-gray-500">
+                    Nenhuma submissão duplicada encontrada
+                  </TableCell>
+                </TableRow>
+              ) : (
+                groups.map((group) => (
+                  <TableRow key={group.keptId} className="hover:bg-gray-50">
+                    <TableCell className="font-mono text-xs">{group.keptId}</TableCell>
+                    <TableCell className="font-mono text-xs text-red-700">{group.duplicateIds.join(', ')}</TableCell>
+                    <TableCell>{group.userName || group.userProfileId || '—'}</TableCell>
+                    <TableCell className="text-gray-600 whitespace-nowrap">
+                      {new Date(group.date).toLocaleString('pt-BR')}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
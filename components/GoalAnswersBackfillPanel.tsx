@@ -0,0 +1,75 @@
+/**
+ * Painel da migração das respostas por meta
+ * Simula e executa o preenchimento de goal_answers a partir das submissões antigas
+ */
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { DatabaseZap, FlaskConical } from 'lucide-react';
+import { useFeedback } from '@/components/FeedbackProvider';
+import { useGoalAnswersBackfill } from '@/hooks/useGoalAnswersBackfill';
+
+export function GoalAnswersBackfillPanel() {
+  const { result, loading, runBackfill } = useGoalAnswersBackfill();
+  const { confirm, toastSuccess, toastError } = useFeedback();
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun) {
+      const confirmed = await confirm({
+        title: 'Migrar Respostas',
+        description: 'Gravar as respostas por meta de todas as submissões que ainda não foram migradas?',
+        confirmText: 'Migrar',
+        cancelText: 'Cancelar'
+      });
+      if (!confirmed) return;
+    }
+
+    try {
+      const data = await runBackfill(dryRun);
+      toastSuccess(dryRun
+        ? `Simulação concluída: ${data.created} registro(s) a gravar`
+        : `Migração concluída: ${data.created} registro(s) gravado(s)`);
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao migrar respostas');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => handleRun(true)} disabled={loading} className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4" />
+          Simular
+        </Button>
+        <Button size="sm" onClick={() => handleRun(false)} disabled={loading} className="flex items-center gap-2">
+          <DatabaseZap className={`w-4 h-4 ${loading ? 'animate-pulse' : ''}`} />
+          {loading ? 'Processando...' : 'Migrar'}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+          <div className="rounded-lg border p-3">
+            <p className="text-gray-600">Submissões verificadas</p>
+            <p className="text-lg font-semibold">{result.scannedSubmissions}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-gray-600">{result.dryRun ? 'Registros a gravar' : 'Registros gravados'}</p>
+            <p className="text-lg font-semibold text-green-700">{result.created}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-gray-600">Já migrados</p>
+            <p className="text-lg font-semibold">{result.alreadyMigrated}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-gray-600">Inválidos / rejeitados</p>
+            <p className="text-lg font-semibold text-red-700">
+              {result.invalidSubmissions.length} / {result.rejectedAnswers.length}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,12 +6,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
-import { GoalType, GoalPeriod, Sector, GoalScope } from '@/lib/appwrite';
+import { GoalType, GoalPeriod, Sector, GoalScope, AchievementRule } from '@/lib/appwrite';
 import { useAllProfiles } from '@/hooks/useAllProfiles';
 import ChecklistManager from "./ChecklistManager";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { formatCurrency, parseCurrencyInput, isValidCurrencyValue, reaisToCentavos, centavosToReais } from '@/lib/currency';
-import { ChevronRight, Target, CheckSquare, Percent, List } from "lucide-react";
+import { ChevronRight, Target, CheckSquare, Percent, List, Plus, Trash2 } from "lucide-react";
+import { MAX_PERIOD_DAYS, THRESHOLD_ACHIEVEMENT_RULES, achievementRuleDisplayNames, getAvailableAchievementRules } from '@/lib/achievement-rules';
+import { EXAMPLE_REWARD_TIERS, MAX_REWARD_TIERS, describeRewardTiers, supportsRewardTiers, type RewardTier } from '@/lib/reward-tiers';
 
 // Objetos para renderização dos nomes legíveis
 export const sectorDisplayNames: Record<Sector, string> = {
@@ -71,6 +73,10 @@ export interface GoalFormData {
   hasMonetaryReward: boolean;
   monetaryValue: string; // String para facilitar input formatado
   currency: string;
+  rewardTiers: RewardTier[]; // faixas de pagamento (vazio = regra padrão)
+  // Atingimento
+  achievementRule: AchievementRule | ''; // vazio = padrão do período
+  achievementThreshold: string; // N dias ou X% dos dias úteis
   // Comprovação
   requireProof?: boolean;
 }
@@ -145,6 +151,13 @@ export function GoalForm({ formData, handleInputChange, isEdit = false, onStepCh
     setStep("type");
   };
 
+  // Atualiza um campo de uma faixa de pagamento (campo vazio fica NaN até ser preenchido)
+  const updateRewardTier = (index: number, field: keyof RewardTier, value: string) => {
+    handleInputChange('rewardTiers', formData.rewardTiers.map((tier, position) =>
+      position === index ? { ...tier, [field]: value === '' ? NaN : Number(value) } : tier
+    ));
+  };
+
   // Interface para itens de checklist
   interface ChecklistItem {
     id: string;
@@ -445,6 +458,49 @@ export function GoalForm({ formData, handleInputChange, isEdit = false, onStepCh
                     </p>
                   </div>
                 )}
+
+                {/* Regra de atingimento */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="achievementRule">Regra de Atingimento</Label>
+                    <Select
+                      value={formData.achievementRule || 'default'}
+                      onValueChange={(value) => handleInputChange('achievementRule', value === 'default' ? '' : value)}
+                    >
+                      <SelectTrigger id="achievementRule">
+                        <SelectValue placeholder="Padrão do período" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">
+                          Padrão do período ({formData.period === GoalPeriod.DAILY ? 'todos os dias' : 'ao menos 1 dia'})
+                        </SelectItem>
+                        {getAvailableAchievementRules(formData.type).map(rule => (
+                          <SelectItem key={rule} value={rule}>{achievementRuleDisplayNames[rule]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {formData.achievementRule && THRESHOLD_ACHIEVEMENT_RULES.includes(formData.achievementRule) && (
+                    <div className="space-y-2">
+                      <Label htmlFor="achievementThreshold">
+                        {formData.achievementRule === AchievementRule.MIN_DAYS ? 'Mínimo de Dias *' : 'Mínimo de Dias Úteis (%) *'}
+                      </Label>
+                      <Input
+                        id="achievementThreshold"
+                        type="number"
+                        value={formData.achievementThreshold}
+                        onChange={(e) => handleInputChange('achievementThreshold', e.target.value)}
+                        placeholder={formData.achievementRule === AchievementRule.MIN_DAYS ? '15' : '80'}
+                        min="1"
+                        max={formData.achievementRule === AchievementRule.MIN_DAYS ? String(MAX_PERIOD_DAYS[formData.period || GoalPeriod.YEARLY]) : '100'}
+                      />
+                    </div>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Define quando a meta conta como atingida no período (recompensas e painéis)
+                </p>
               </div>
             </div>
 
@@ -549,6 +605,79 @@ export function GoalForm({ formData, handleInputChange, isEdit = false, onStepCh
                           </p>
                         </div>
                       )}
+
+                      {/* Faixas de pagamento (metas numéricas e de porcentagem) */}
+                      {supportsRewardTiers(formData.type) && (
+                        <div className="space-y-3 border-t border-green-200 pt-4">
+                          <div className="flex items-center space-x-2">
+                            <Switch
+                              id="useRewardTiers"
+                              checked={formData.rewardTiers.length > 0}
+                              onCheckedChange={(checked) => handleInputChange('rewardTiers', checked ? EXAMPLE_REWARD_TIERS : [])}
+                            />
+                            <Label htmlFor="useRewardTiers" className="text-green-700 font-medium">
+                              Pagar por faixas de atingimento
+                            </Label>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {formData.rewardTiers.length > 0
+                              ? 'Cada faixa paga um percentual do valor a partir de um percentual do alvo; abaixo da primeira faixa nada é pago.'
+                              : 'Sem faixas: metas numéricas pagam proporcionalmente ao progresso (até 100%) e as demais pagam o valor integral ao atingir o alvo.'}
+                          </p>
+
+                          {formData.rewardTiers.map((tier, index) => (
+                            <div key={index} className="flex flex-wrap items-center gap-2 text-sm text-green-800">
+                              <span>A partir de</span>
+                              <Input
+                                type="number"
+                                min={0}
+                                value={Number.isNaN(tier.minPercent) ? '' : tier.minPercent}
+                                onChange={(e) => updateRewardTier(index, 'minPercent', e.target.value)}
+                                className="w-24 bg-white"
+                                aria-label={`Atingimento mínimo da faixa ${index + 1}`}
+                              />
+                              <span>% do alvo, paga</span>
+                              <Input
+                                type="number"
+                                min={0}
+                                value={Number.isNaN(tier.payoutPercent) ? '' : tier.payoutPercent}
+                                onChange={(e) => updateRewardTier(index, 'payoutPercent', e.target.value)}
+                                className="w-24 bg-white"
+                                aria-label={`Pagamento da faixa ${index + 1}`}
+                              />
+                              <span>% do valor</span>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleInputChange('rewardTiers', formData.rewardTiers.filter((_, position) => position !== index))}
+                                aria-label={`Remover faixa ${index + 1}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          ))}
+
+                          {formData.rewardTiers.length > 0 && (
+                            <>
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleInputChange('rewardTiers', [...formData.rewardTiers, { minPercent: NaN, payoutPercent: NaN }])}
+                                disabled={formData.rewardTiers.length >= MAX_REWARD_TIERS}
+                                className="flex items-center gap-2"
+                              >
+                                <Plus className="w-4 h-4" />
+                                Adicionar faixa
+                              </Button>
+                              <p className="text-xs text-green-700">{describeRewardTiers(formData.rewardTiers.filter(tier =>
+                                !Number.isNaN(tier.minPercent) && !Number.isNaN(tier.payoutPercent)
+                              ))}</p>
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -0,0 +1,45 @@
+/**
+ * Proteção de sessão ociosa
+ * Aplica o tempo limite de inatividade nas páginas autenticadas e exibe o aviso
+ * com contagem regressiva antes de encerrar a sessão
+ */
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Clock } from 'lucide-react';
+import { useInactivityTimeout, type SessionEndReason } from '@/hooks/useInactivityTimeout';
+
+interface InactivityGuardProps {
+  enabled: boolean; // usuário autenticado
+  onSessionEnd: (reason: SessionEndReason) => void; // normalmente o logout do useAuth
+}
+
+export function InactivityGuard({ enabled, onSessionEnd }: InactivityGuardProps) {
+  const { secondsLeft, warningOpen, stayActive } = useInactivityTimeout({ enabled, onSessionEnd });
+
+  return (
+    <Dialog open={warningOpen} onOpenChange={(open) => !open && stayActive()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5 text-amber-600" />
+            Sessão prestes a expirar
+          </DialogTitle>
+          <DialogDescription>
+            Por inatividade, sua sessão será encerrada em {secondsLeft ?? 0} segundo(s).
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onSessionEnd('idle')}>
+            Sair agora
+          </Button>
+          <Button onClick={stayActive}>
+            Continuar conectado
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
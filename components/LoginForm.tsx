@@ -1,6 +1,7 @@
 /**
  * Componente de formulário de login
- * Suporta login admin especial e autenticação via Appwrite
+ * Suporta login admin especial e autenticação via Appwrite,
+ * com segunda etapa de verificação (TOTP) quando exigida
  */
 
 'use client';
@@ -8,21 +9,52 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { useAuth } from '@/hooks/useAuth';
+import { MfaLoginStep } from '@/components/MfaLoginStep';
+import { useAuth, type MfaStep } from '@/hooks/useAuth';
+import type { UserProfile } from '@/lib/appwrite';
 import { Role } from '@/lib/roles';
+import { PASSWORD_CHANGE_ROUTE } from '@/lib/route-access';
 
-export function LoginForm() {
+// Redirecionar diretamente para as páginas específicas por role
+// (ou para a troca de senha obrigatória do primeiro acesso)
+const redirectByRole = (profile?: UserProfile | null) => {
+  if (profile?.mustChangePassword) {
+    window.location.href = PASSWORD_CHANGE_ROUTE;
+  } else if (profile?.role === Role.ADMIN) {
+    window.location.href = '/admin';
+  } else if (profile?.role === Role.MANAGER) {
+    window.location.href = '/home/manager';
+  } else if (profile?.role === Role.COLLABORATOR) {
+    window.location.href = '/home/collaborator';
+  } else {
+    window.location.href = '/login';
+  }
+};
+
+// Mensagens exibidas quando a sessão anterior foi encerrada (ver useAuth.logout)
+const sessionEndMessages: Record<string, string> = {
+  idle: 'Sua sessão foi encerrada por inatividade. Entre novamente para continuar.',
+  revoked: 'Sua sessão foi encerrada em outro dispositivo ou por um administrador.'
+};
+
+interface LoginFormProps {
+  sessionEndReason?: string;
+}
+
+export function LoginForm({ sessionEndReason }: LoginFormProps = {}) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mfaStep, setMfaStep] = useState<MfaStep | null>(null);
   
-  const { login } = useAuth();
+  const { login, verifyMfa, startMfaEnrollment, activateMfaEnrollment, cancelMfa } = useAuth();
   const router = useRouter();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -31,24 +63,17 @@ export function LoginForm() {
     setError(null);
 
     try {
-      const { user, profile } = await login(email, password);
+      const result = await login(email, password);
+      if (result.mfaRequired) {
+        setMfaStep(result.mfaRequired);
+        return;
+      }
       
       // Não resetar o loading aqui, deixar ativo durante o redirecionamento
       // para prevenir múltiplos cliques
       
       // Adicionar pequeno delay para garantir que os estados sejam atualizados
-      setTimeout(() => {
-        // Redirecionar diretamente para as páginas específicas por role
-        if (profile?.role === Role.ADMIN) {
-          window.location.href = '/admin';
-        } else if (profile?.role === Role.MANAGER) {
-          window.location.href = '/home/manager';
-        } else if (profile?.role === Role.COLLABORATOR) {
-          window.location.href = '/home/collaborator';
-        } else {
-          window.location.href = '/login';
-        }
-      }, 500);
+      setTimeout(() => redirectByRole(result.profile), 500);
     } catch (error: any) {
       setError(error.message);
     } finally {
@@ -127,69 +152,97 @@ export function LoginForm() {
                   </p>
                 </div>
 
-                <form onSubmit={handleSubmit} className="space-y-8">
-                  <div className="space-y-3">
-                    <Label htmlFor="email" className="text-gray-700 font-medium text-base">
-                      E-mail
-                    </Label>
-                    <div className="relative">
-                      <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
-                        <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 12a4 4 0 10-8 0 4 4 0 008 0zm0 0v1.5a2.5 2.5 0 005 0V12a9 9 0 10-9 9m4.5-1.206a8.959 8.959 0 01-4.5 1.207" />
-                        </svg>
+                {mfaStep ? (
+                  <MfaLoginStep
+                    step={mfaStep}
+                    verifyMfa={verifyMfa}
+                    startMfaEnrollment={startMfaEnrollment}
+                    activateMfaEnrollment={activateMfaEnrollment}
+                    onComplete={redirectByRole}
+                    onCancel={async () => {
+                      await cancelMfa();
+                      setMfaStep(null);
+                      setPassword('');
+                    }}
+                  />
+                ) : (
+                  <form onSubmit={handleSubmit} className="space-y-8">
+                    <div className="space-y-3">
+                      <Label htmlFor="email" className="text-gray-700 font-medium text-base">
+                        E-mail
+                      </Label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                          <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 12a4 4 0 10-8 0 4 4 0 008 0zm0 0v1.5a2.5 2.5 0 005 0V12a9 9 0 10-9 9m4.5-1.206a8.959 8.959 0 01-4.5 1.207" />
+                          </svg>
+                        </div>
+                        <Input
+                          id="email"
+                          type="email"
+                          value={email}
+                          onChange={(e) => setEmail(e.target.value)}
+                          required
+                          disabled={loading}
+                          className="pl-12 h-12 text-base border-gray-300 focus:border-bovia-primary focus:ring-bovia-primary"
+                          placeholder="Digite seu e-mail"
+                        />
                       </div>
-                      <Input
-                        id="email"
-                        type="email"
-                        value={email}
-                        onChange={(e) => setEmail(e.target.value)}
-                        required
-                        disabled={loading}
-                        className="pl-12 h-12 text-base border-gray-300 focus:border-bovia-primary focus:ring-bovia-primary"
-                        placeholder="Digite seu e-mail"
-                      />
                     </div>
-                  </div>
                   
-                  <div className="space-y-3">
-                    <Label htmlFor="password" className="text-gray-700 font-medium text-base">
-                      Senha
-                    </Label>
-                    <div className="relative">
-                      <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
-                        <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-                        </svg>
+                    <div className="space-y-3">
+                      <Label htmlFor="password" className="text-gray-700 font-medium text-base">
+                        Senha
+                      </Label>
+                      <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                          <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                          </svg>
+                        </div>
+                        <Input
+                          id="password"
+                          type="password"
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          required
+                          disabled={loading}
+                          className="pl-12 h-12 text-base border-gray-300 focus:border-bovia-primary focus:ring-bovia-primary"
+                          placeholder="Digite sua senha"
+                        />
+                      </div>
+                      <div className="text-right">
+                        <Link href="/forgot-password" className="text-sm text-bovia-primary hover:underline">
+                          Esqueceu a senha?
+                        </Link>
                       </div>
-                      <Input
-                        id="password"
-                        type="password"
-                        value={password}
-                        onChange={(e) => setPassword(e.target.value)}
-                        required
-                        disabled={loading}
-                        className="pl-12 h-12 text-base border-gray-300 focus:border-bovia-primary focus:ring-bovia-primary"
-                        placeholder="Digite sua senha"
-                      />
                     </div>
-                  </div>
                   
-                  {error && (
-                    <Alert className="border-red-200 bg-red-50">
-                      <AlertDescription className="text-red-700">
-                        {error}
-                      </AlertDescription>
-                    </Alert>
-                  )}
+                    {!error && sessionEndReason && sessionEndMessages[sessionEndReason] && (
+                      <Alert className="border-amber-200 bg-amber-50">
+                        <AlertDescription className="text-amber-800">
+                          {sessionEndMessages[sessionEndReason]}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {error && (
+                      <Alert className="border-red-200 bg-red-50">
+                        <AlertDescription className="text-red-700">
+                          {error}
+                        </AlertDescription>
+                      </Alert>
+                    )}
                   
-                  <Button 
-                    type="submit" 
-                    className="w-full bg-bovia-primary hover:bg-bovia-dark text-white font-semibold py-4 text-lg transition-all duration-200 transform hover:scale-105 shadow-lg"
-                    disabled={loading}
-                  >
-                    {loading ? 'Entrando...' : 'Entrar'}
-                  </Button>
-                </form>
+                    <Button 
+                      type="submit" 
+                      className="w-full bg-bovia-primary hover:bg-bovia-dark text-white font-semibold py-4 text-lg transition-all duration-200 transform hover:scale-105 shadow-lg"
+                      disabled={loading}
+                    >
+                      {loading ? 'Entrando...' : 'Entrar'}
+                    </Button>
+                  </form>
+                )}
 
                 {/* Versão mobile do logo */}
                 <div className="lg:hidden text-center mt-10">
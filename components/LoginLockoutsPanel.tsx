@@ -0,0 +1,118 @@
+/**
+ * Painel de bloqueios de login
+ * Lista e-mails/IPs bloqueados por excesso de tentativas e permite desbloqueio manual
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LockOpen, RefreshCw } from 'lucide-react';
+import { useFeedback } from '@/components/FeedbackProvider';
+import { useLoginLockouts } from '@/hooks/useLoginLockouts';
+import type { LoginAttemptRecord } from '@/lib/appwrite';
+
+// A chave é `<escopo>:<valor>` (ex.: email:joao@empresa.com)
+const formatKey = (record: LoginAttemptRecord) => record.key.slice(record.key.indexOf(':') + 1);
+
+const isLocked = (record: LoginAttemptRecord) =>
+  !!record.lockedUntil && new Date(record.lockedUntil).getTime() > Date.now();
+
+export function LoginLockoutsPanel() {
+  const { lockouts, loading, error, fetchLockouts, unlock } = useLoginLockouts();
+  const { confirm, toastSuccess, toastError } = useFeedback();
+
+  useEffect(() => {
+    fetchLockouts();
+  }, [fetchLockouts]);
+
+  const handleUnlock = async (record: LoginAttemptRecord) => {
+    const confirmed = await confirm({
+      title: 'Desbloquear Login',
+      description: `Liberar novas tentativas de login para "${formatKey(record)}"?`,
+      confirmText: 'Desbloquear',
+      cancelText: 'Cancelar'
+    });
+    if (!confirmed) return;
+
+    try {
+      await unlock(record.$id);
+      toastSuccess('Login desbloqueado com sucesso!');
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao desbloquear login');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {lockouts.length} registro(s) com bloqueio ativo ou falhas recentes
+        </p>
+        <Button variant="outline" size="sm" onClick={fetchLockouts} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Atualizar
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="font-semibold">Tipo</TableHead>
+              <TableHead className="font-semibold">E-mail / IP</TableHead>
+              <TableHead className="font-semibold">Situação</TableHead>
+              <TableHead className="font-semibold">Última tentativa</TableHead>
+              <TableHead className="font-semibold text-center">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lockouts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                  {loading ? 'Carregando bloqueios...' : 'Nenhum bloqueio de login no momento'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              lockouts.map((record) => (
+                <TableRow key={record.$id} className="hover:bg-gray-50">
+                  <TableCell>
+                    <Badge variant="outline">{record.scope === 'email' ? 'E-mail' : 'IP'}</Badge>
+                  </TableCell>
+                  <TableCell className="font-medium">{formatKey(record)}</TableCell>
+                  <TableCell>
+                    {isLocked(record) ? (
+                      <Badge variant="destructive">
+                        Bloqueado até {new Date(record.lockedUntil!).toLocaleTimeString('pt-BR')}
+                      </Badge>
+                    ) : (
+                      <span className="text-gray-700">{record.failures} falha(s)</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-gray-600 whitespace-nowrap">
+                    {new Date(record.lastAttemptAt).toLocaleString('pt-BR')}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Button variant="outline" size="sm" onClick={() => handleUnlock(record)} className="flex items-center gap-2 mx-auto">
+                      <LockOpen className="w-4 h-4" />
+                      Desbloquear
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * Painel de delegações de gestor
+ * Gestor delega os próprios setores a um substituto por período definido;
+ * o admin vê todas as delegações vigentes e pode criar em nome de um gestor
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, UserX } from 'lucide-react';
+import { useFeedback } from '@/components/FeedbackProvider';
+import { SectorCheckboxGroup } from '@/components/SectorCheckboxGroup';
+import { useDelegations } from '@/hooks/useDelegations';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { ManagerDelegation, Sector, UserProfile } from '@/lib/appwrite';
+import { Role } from '@/lib/roles';
+import { getOwnManagedSectors } from '@/lib/sectors';
+
+interface ManagerDelegationsPanelProps {
+  mode: 'manager' | 'admin';
+  profile?: UserProfile | null; // gestor logado (modo gestor)
+  profiles: UserProfile[]; // candidatos a substituto (e gestores, no modo admin)
+}
+
+const isActive = (delegation: ManagerDelegation) => new Date(delegation.startsAt).getTime() <= Date.now();
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('pt-BR');
+
+export function ManagerDelegationsPanel({ mode, profile, profiles }: ManagerDelegationsPanelProps) {
+  const { delegations, loading, error, fetchDelegations, createDelegation, revokeDelegation } = useDelegations();
+  const { confirm, toastSuccess, toastError } = useFeedback();
+  const { can } = usePermissions(profile ?? null);
+
+  const [managerProfileId, setManagerProfileId] = useState('');
+  const [delegateProfileId, setDelegateProfileId] = useState('');
+  const [sectors, setSectors] = useState<Sector[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchDelegations();
+  }, [fetchDelegations]);
+
+  const managers = useMemo(() => profiles.filter(p => p.role === Role.MANAGER), [profiles]);
+  const manager = mode === 'admin' ? managers.find(p => p.$id === managerProfileId) : profile;
+  const ownSectors = manager ? getOwnManagedSectors(manager) : [];
+  const candidates = profiles.filter(p => p.role !== Role.ADMIN && p.$id !== manager?.$id);
+
+  const resetForm = () => {
+    setDelegateProfileId('');
+    setSectors([]);
+    setStartDate('');
+    setEndDate('');
+    setReason('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!delegateProfileId || !startDate || !endDate) return;
+
+    setSaving(true);
+    try {
+      // Período em dias inteiros: do início do primeiro ao fim do último dia
+      await createDelegation({
+        ...(mode === 'admin' ? { managerProfileId } : {}),
+        delegateProfileId,
+        sectors,
+        startsAt: new Date(`${startDate}T00:00:00`).toISOString(),
+        endsAt: new Date(`${endDate}T23:59:59`).toISOString(),
+        reason
+      });
+      toastSuccess('Delegação criada com sucesso!');
+      resetForm();
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao criar delegação');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (delegation: ManagerDelegation) => {
+    const confirmed = await confirm({
+      title: 'Revogar Delegação',
+      description: `Encerrar agora a delegação de ${delegation.managerName} para ${delegation.delegateName}?`,
+      confirmText: 'Revogar',
+      cancelText: 'Cancelar',
+      danger: true
+    });
+    if (!confirmed) return;
+
+    try {
+      await revokeDelegation(delegation.$id);
+      toastSuccess('Delegação revogada.');
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao revogar delegação');
+    }
+  };
+
+  const canRevoke = (delegation: ManagerDelegation) =>
+    mode === 'admin' || delegation.managerProfileId === profile?.$id;
+
+  const canCreate = mode === 'admin' || (profile?.role === Role.MANAGER && can('delegations.manage'));
+
+  return (
+    <div className="space-y-6">
+      {canCreate && (
+        <form onSubmit={handleCreate} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+          {mode === 'admin' && (
+            <div className="space-y-2">
+              <Label>Gestor</Label>
+              <Select value={managerProfileId} onValueChange={(value) => { setManagerProfileId(value); setSectors([]); }}>
+                <SelectTrigger className="bg-white">
+                  <SelectValue placeholder="Selecione o gestor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {managers.map(p => (
+                    <SelectItem key={p.$id} value={p.$id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Substituto</Label>
+            <Select value={delegateProfileId} onValueChange={setDelegateProfileId} disabled={!manager}>
+              <SelectTrigger className="bg-white">
+                <SelectValue placeholder="Selecione quem assumirá a gestão" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map(p => (
+                  <SelectItem key={p.$id} value={p.$id}>
+                    {p.name} ({p.sector})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {ownSectors.length > 1 && (
+            <div className="space-y-2">
+              <Label>Setores delegados</Label>
+              <SectorCheckboxGroup
+                value={sectors}
+                onChange={setSectors}
+                options={ownSectors}
+                disabled={saving}
+                idPrefix="delegation-sector"
+              />
+              <p className="text-xs text-gray-500">Nenhum selecionado: todos os setores do gestor.</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="delegation-start">Início</Label>
+              <Input
+                id="delegation-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="bg-white"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delegation-end">Fim</Label>
+              <Input
+                id="delegation-end"
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="bg-white"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="delegation-reason">Motivo (opcional)</Label>
+            <Textarea
+              id="delegation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex: férias de 01/07 a 15/07"
+              className="bg-white"
+              rows={2}
+            />
+          </div>
+
+          <Button type="submit" disabled={saving || !manager || !delegateProfileId || !startDate || !endDate}>
+            {saving ? 'Salvando...' : 'Delegar gestão'}
+          </Button>
+        </form>
+      )}
+
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">{delegations.length} delegação(ões) ativa(s) ou agendada(s)</p>
+        <Button variant="outline" size="sm" onClick={fetchDelegations} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Atualizar
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="font-semibold">Gestor</TableHead>
+              <TableHead className="font-semibold">Substituto</TableHead>
+              <TableHead className="font-semibold">Setores</TableHead>
+              <TableHead className="font-semibold">Período</TableHead>
+              <TableHead className="font-semibold">Situação</TableHead>
+              <TableHead className="font-semibold text-center">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {delegations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                  {loading ? 'Carregando delegações...' : 'Nenhuma delegação vigente'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              delegations.map(delegation => (
+                <TableRow key={delegation.$id} className="hover:bg-gray-50">
+                  <TableCell className="font-medium">{delegation.managerName}</TableCell>
+                  <TableCell>{delegation.delegateName}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {delegation.sectors.map(sector => (
+                        <Badge key={sector} variant="outline">{sector}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-gray-600 whitespace-nowrap">
+                    {formatDate(delegation.startsAt)} a {formatDate(delegation.endsAt)}
+                  </TableCell>
+                  <TableCell>
+                    {isActive(delegation)
+                      ? <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Ativa</Badge>
+                      : <Badge variant="secondary">Agendada</Badge>}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {canRevoke(delegation) && (
+                      <Button variant="outline" size="sm" onClick={() => handleRevoke(delegation)} className="flex items-center gap-2 mx-auto text-red-600 hover:text-red-700 hover:bg-red-50">
+                        <UserX className="w-4 h-4" />
+                        Revogar
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Campos do segundo fator
+ * Entrada do código de 6 dígitos (InputOTP) e lista de códigos de recuperação
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+import { Check, Copy } from 'lucide-react';
+
+const MFA_CODE_LENGTH = 6;
+
+interface MfaCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function MfaCodeInput({ value, onChange, onComplete, disabled }: MfaCodeInputProps) {
+  return (
+    <div className="flex justify-center">
+      <InputOTP
+        maxLength={MFA_CODE_LENGTH}
+        value={value}
+        onChange={(next) => onChange(next.replace(/\D/g, ''))}
+        onComplete={onComplete}
+        disabled={disabled}
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        autoFocus
+      >
+        <InputOTPGroup>
+          <InputOTPSlot index={0} />
+          <InputOTPSlot index={1} />
+          <InputOTPSlot index={2} />
+        </InputOTPGroup>
+        <InputOTPSeparator />
+        <InputOTPGroup>
+          <InputOTPSlot index={3} />
+          <InputOTPSlot index={4} />
+          <InputOTPSlot index={5} />
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+}
+
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Guarde estes códigos em local seguro. Cada um pode ser usado uma única vez caso você perca o acesso ao aplicativo autenticador.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-sm text-center">
+        {codes.map(code => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={handleCopy} className="flex items-center gap-2">
+        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        {copied ? 'Copiado!' : 'Copiar códigos'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Cadastro do segundo fator
+ * Exibe o QR code para o aplicativo autenticador, confirma o primeiro código
+ * e mostra os códigos de recuperação (usado no login e nas configurações)
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MfaCodeInput, RecoveryCodesList } from '@/components/MfaCodeInput';
+import type { MfaSetupData } from '@/hooks/useAuth';
+
+interface MfaEnrollmentProps {
+  onStart: () => Promise<MfaSetupData>;
+  onActivate: (code: string) => Promise<string[]>;
+  onFinish: () => void;
+  finishLabel?: string;
+}
+
+export function MfaEnrollment({ onStart, onActivate, onFinish, finishLabel = 'Concluir' }: MfaEnrollmentProps) {
+  const [setup, setSetup] = useState<MfaSetupData | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startedRef = useRef(false);
+
+  // O cadastro é iniciado uma única vez ao montar (cada início gera um novo segredo)
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+    onStart()
+      .then(setSetup)
+      .catch(err => setError(err instanceof Error ? err.message : 'Erro ao iniciar o cadastro'));
+  }, [onStart]);
+
+  const handleActivate = async (value: string = code) => {
+    if (value.length < 6) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setRecoveryCodes(await onActivate(value));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Código inválido');
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-6">
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">
+            Verificação em duas etapas ativada com sucesso!
+          </AlertDescription>
+        </Alert>
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button type="button" className="w-full" onClick={onFinish}>
+          {finishLabel}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <ol className="text-sm text-gray-600 space-y-1 list-decimal list-inside">
+        <li>Abra o aplicativo autenticador (Google Authenticator, Authy, Microsoft Authenticator)</li>
+        <li>Escaneie o QR code abaixo ou digite a chave manualmente</li>
+        <li>Informe o código de 6 dígitos exibido no aplicativo</li>
+      </ol>
+
+      {setup ? (
+        <div className="flex flex-col items-center gap-3">
+          <Image src={setup.qrCode} alt="QR code para o aplicativo autenticador" width={220} height={220} unoptimized />
+          <code className="text-xs bg-gray-100 px-3 py-1 rounded break-all">{setup.secret}</code>
+        </div>
+      ) : (
+        !error && <p className="text-center text-gray-500 text-sm">Gerando QR code...</p>
+      )}
+
+      <MfaCodeInput value={code} onChange={setCode} onComplete={handleActivate} disabled={loading || !setup} />
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-700">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button type="button" className="w-full" onClick={() => handleActivate()} disabled={loading || code.length < 6}>
+        {loading ? 'Verificando...' : 'Ativar verificação em duas etapas'}
+      </Button>
+    </div>
+  );
+}
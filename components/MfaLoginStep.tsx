@@ -0,0 +1,137 @@
+/**
+ * Segunda etapa do login
+ * Pede o código do aplicativo autenticador (ou de recuperação) ou conduz o
+ * cadastro obrigatório quando a política exige o segundo fator
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShieldCheck } from 'lucide-react';
+import { MfaCodeInput } from '@/components/MfaCodeInput';
+import { MfaEnrollment } from '@/components/MfaEnrollment';
+import type { MfaSetupData, MfaStep } from '@/hooks/useAuth';
+import type { UserProfile } from '@/lib/appwrite';
+
+interface MfaLoginStepProps {
+  step: MfaStep;
+  verifyMfa: (code: string) => Promise<{ profile: UserProfile }>;
+  startMfaEnrollment: () => Promise<MfaSetupData>;
+  activateMfaEnrollment: (code: string) => Promise<{ profile: UserProfile; recoveryCodes: string[] }>;
+  onComplete: (profile: UserProfile) => void;
+  onCancel: () => void;
+}
+
+export function MfaLoginStep({
+  step,
+  verifyMfa,
+  startMfaEnrollment,
+  activateMfaEnrollment,
+  onComplete,
+  onCancel
+}: MfaLoginStepProps) {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrolledProfile, setEnrolledProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = async (value: string = code) => {
+    if (!value.trim()) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { profile } = await verifyMfa(value);
+      onComplete(profile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Código inválido');
+      setCode('');
+      setLoading(false);
+    }
+  };
+
+  const handleActivate = async (value: string) => {
+    const { profile, recoveryCodes } = await activateMfaEnrollment(value);
+    setEnrolledProfile(profile);
+    return recoveryCodes;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-2">
+        <ShieldCheck className="w-10 h-10 text-bovia-primary mx-auto" />
+        <h3 className="text-2xl font-bold text-bovia-primary">Verificação em duas etapas</h3>
+        <p className="text-gray-600">
+          {step === 'enroll'
+            ? 'Seu perfil exige a verificação em duas etapas. Cadastre um aplicativo autenticador para continuar.'
+            : useRecoveryCode
+              ? 'Informe um dos seus códigos de recuperação.'
+              : 'Informe o código de 6 dígitos do seu aplicativo autenticador.'}
+        </p>
+      </div>
+
+      {step === 'enroll' ? (
+        <MfaEnrollment
+          onStart={startMfaEnrollment}
+          onActivate={handleActivate}
+          onFinish={() => enrolledProfile && onComplete(enrolledProfile)}
+          finishLabel="Continuar para o sistema"
+        />
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleVerify();
+          }}
+          className="space-y-6"
+        >
+          {useRecoveryCode ? (
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="XXXXX-XXXXX"
+              className="h-12 text-center font-mono text-base"
+              disabled={loading}
+              autoFocus
+            />
+          ) : (
+            <MfaCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={loading} />
+          )}
+
+          {error && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-700">{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full bg-bovia-primary hover:bg-bovia-dark text-white font-semibold py-4 text-lg"
+            disabled={loading || !code.trim()}
+          >
+            {loading ? 'Verificando...' : 'Verificar'}
+          </Button>
+
+          <button
+            type="button"
+            className="w-full text-sm text-bovia-primary hover:underline"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+              setError(null);
+            }}
+          >
+            {useRecoveryCode ? 'Usar código do aplicativo' : 'Perdeu o acesso ao aplicativo? Use um código de recuperação'}
+          </button>
+        </form>
+      )}
+
+      <Button type="button" variant="ghost" className="w-full" onClick={onCancel} disabled={loading}>
+        Voltar ao login
+      </Button>
+    </div>
+  );
+}
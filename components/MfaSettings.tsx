@@ -0,0 +1,158 @@
+/**
+ * Configurações do segundo fator do usuário logado
+ * Ativação com QR code, desativação e geração de novos códigos de recuperação
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound, ShieldCheck, ShieldOff } from 'lucide-react';
+import { useFeedback } from '@/components/FeedbackProvider';
+import { MfaCodeInput, RecoveryCodesList } from '@/components/MfaCodeInput';
+import { MfaEnrollment } from '@/components/MfaEnrollment';
+import { useMfa } from '@/hooks/useMfa';
+
+type PendingAction = 'disable' | 'regenerate';
+
+export function MfaSettings() {
+  const { status, loading, error, fetchStatus, startEnrollment, activate, disable, regenerateRecoveryCodes } = useMfa();
+  const { toastSuccess, toastError } = useFeedback();
+  const [enrolling, setEnrolling] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const closeAction = () => {
+    setPendingAction(null);
+    setCode('');
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction || code.length < 6) return;
+    setSubmitting(true);
+    try {
+      if (pendingAction === 'disable') {
+        await disable(code);
+        toastSuccess('Verificação em duas etapas desativada');
+      } else {
+        setNewRecoveryCodes(await regenerateRecoveryCodes(code));
+        toastSuccess('Novos códigos de recuperação gerados');
+      }
+      closeAction();
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Código inválido');
+      setCode('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!status) {
+    return (
+      <p className="text-sm text-gray-500">
+        {loading ? 'Carregando...' : error || 'Não foi possível carregar a verificação em duas etapas'}
+      </p>
+    );
+  }
+
+  if (enrolling) {
+    return (
+      <MfaEnrollment
+        onStart={startEnrollment}
+        onActivate={activate}
+        onFinish={() => {
+          setEnrolling(false);
+          fetchStatus();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          {status.enabled ? (
+            <ShieldCheck className="w-6 h-6 text-green-600" />
+          ) : (
+            <ShieldOff className="w-6 h-6 text-gray-400" />
+          )}
+          <div>
+            <div className="font-medium flex items-center gap-2">
+              Verificação em duas etapas
+              <Badge variant={status.enabled ? 'default' : 'outline'}>{status.enabled ? 'Ativa' : 'Inativa'}</Badge>
+              {status.required && <Badge variant="secondary">Obrigatória</Badge>}
+            </div>
+            <p className="text-sm text-gray-600">
+              {status.enabled
+                ? `Ativa desde ${status.enabledAt ? new Date(status.enabledAt).toLocaleDateString('pt-BR') : '—'} · ${status.recoveryCodesRemaining} código(s) de recuperação restante(s)`
+                : 'Proteja sua conta com um código do aplicativo autenticador a cada login'}
+            </p>
+          </div>
+        </div>
+
+        {!status.enabled && (
+          <Button onClick={() => setEnrolling(true)} className="flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4" />
+            Ativar
+          </Button>
+        )}
+      </div>
+
+      {status.enabled && !pendingAction && (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPendingAction('regenerate')} className="flex items-center gap-2">
+            <KeyRound className="w-4 h-4" />
+            Gerar novos códigos de recuperação
+          </Button>
+          {!status.required && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPendingAction('disable')}
+              className="flex items-center gap-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <ShieldOff className="w-4 h-4" />
+              Desativar
+            </Button>
+          )}
+        </div>
+      )}
+
+      {pendingAction && (
+        <div className="space-y-4 p-4 border rounded-lg">
+          <p className="text-sm text-gray-600">
+            {pendingAction === 'disable'
+              ? 'Informe o código do aplicativo autenticador para desativar a verificação em duas etapas.'
+              : 'Informe o código do aplicativo autenticador. Os códigos de recuperação atuais deixarão de valer.'}
+          </p>
+          <MfaCodeInput value={code} onChange={setCode} disabled={submitting} />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={closeAction} disabled={submitting}>
+              Cancelar
+            </Button>
+            <Button size="sm" onClick={handleConfirmAction} disabled={submitting || code.length < 6}>
+              {submitting ? 'Verificando...' : 'Confirmar'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {newRecoveryCodes && (
+        <Alert className="border-amber-200 bg-amber-50">
+          <AlertDescription>
+            <RecoveryCodesList codes={newRecoveryCodes} />
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Campos de nova senha com confirmação
+ * Exibe os requisitos da política de senha (lib/password-policy.ts)
+ */
+
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PASSWORD_REQUIREMENTS } from '@/lib/password-policy';
+
+interface NewPasswordFieldsProps {
+  password: string;
+  confirmation: string;
+  onPasswordChange: (value: string) => void;
+  onConfirmationChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function NewPasswordFields({
+  password,
+  confirmation,
+  onPasswordChange,
+  onConfirmationChange,
+  disabled
+}: NewPasswordFieldsProps) {
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="new-password">Nova senha</Label>
+        <Input
+          id="new-password"
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => onPasswordChange(e.target.value)}
+          disabled={disabled}
+          required
+        />
+        <ul className="text-xs text-gray-500 list-disc list-inside">
+          {PASSWORD_REQUIREMENTS.map(requirement => (
+            <li key={requirement}>{requirement}</li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirm-password">Confirmar nova senha</Label>
+        <Input
+          id="confirm-password"
+          type="password"
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(e) => onConfirmationChange(e.target.value)}
+          disabled={disabled}
+          required
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Situação da fila offline do colaborador
+ * Exibe a conexão, os envios guardados no aparelho (pendentes ou rejeitados) e a última sincronização
+ */
+
+import { format } from 'date-fns';
+import { CheckCircle, CloudOff, RefreshCw, Trash2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useFeedback } from '@/components/FeedbackProvider';
+import type { QueuedSubmission } from '@/lib/offline-queue';
+
+interface OfflineQueueStatusProps {
+  queued: QueuedSubmission[];
+  syncing: boolean;
+  isOnline: boolean;
+  lastSync: { count: number; at: Date } | null;
+  onSync: () => void;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const countFiles = (entry: QueuedSubmission) =>
+  Object.values(entry.goalFiles).reduce((total, files) => total + files.length, 0);
+
+export const OfflineQueueStatus: React.FC<OfflineQueueStatusProps> = ({
+  queued,
+  syncing,
+  isOnline,
+  lastSync,
+  onSync,
+  onRetry,
+  onDiscard
+}) => {
+  const { confirm } = useFeedback();
+
+  if (queued.length === 0) {
+    if (!isOnline) {
+      return (
+        <div className="flex items-center gap-2 p-3 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+          <CloudOff className="w-4 h-4" />
+          Sem conexão. Você pode continuar preenchendo: o envio fica guardado neste aparelho.
+        </div>
+      );
+    }
+    if (lastSync) {
+      return (
+        <div className="flex items-center gap-2 p-3 rounded-lg border border-green-200 bg-green-50 text-sm text-green-800">
+          <CheckCircle className="w-4 h-4" />
+          {lastSync.count === 1 ? '1 envio sincronizado' : `${lastSync.count} envios sincronizados`} às {format(lastSync.at, 'HH:mm')}.
+        </div>
+      );
+    }
+    return null;
+  }
+
+  const handleDiscard = async (entry: QueuedSubmission) => {
+    const confirmed = await confirm({
+      title: 'Descartar envio',
+      description: `O progresso preenchido em ${format(new Date(entry.date), 'dd/MM/yyyy HH:mm')} e seus anexos serão apagados deste aparelho.`,
+      confirmText: 'Descartar',
+      cancelText: 'Cancelar',
+      danger: true
+    });
+    if (confirmed) onDiscard(entry.id);
+  };
+
+  return (
+    <Card className="border-amber-200 bg-amber-50">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 text-amber-900">
+            <CloudOff className="w-5 h-5" />
+            <div>
+              <p className="font-semibold text-sm">
+                {queued.length === 1 ? '1 envio guardado neste aparelho' : `${queued.length} envios guardados neste aparelho`}
+              </p>
+              <p className="text-xs text-amber-800">
+                {isOnline
+                  ? 'Os envios são sincronizados automaticamente.'
+                  : 'Sem conexão. O envio será feito automaticamente quando a conexão voltar.'}
+              </p>
+            </div>
+          </div>
+          <Button size="sm" variant="outline" onClick={onSync} disabled={syncing || !isOnline}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+            {syncing ? 'Sincronizando...' : 'Sincronizar agora'}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {queued.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between gap-3 p-2 rounded border border-amber-200 bg-white text-sm">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{format(new Date(entry.date), 'dd/MM/yyyy HH:mm')}</span>
+                  {entry.status === 'failed'
+                    ? <Badge variant="destructive">Rejeitado</Badge>
+                    : <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-300">Pendente</Badge>}
+                </div>
+                <p className="text-xs text-gray-600">
+                  {Object.keys(entry.answers).length} meta(s) · {countFiles(entry)} anexo(s)
+                  {entry.status === 'failed' && entry.lastError ? ` · ${entry.lastError}` : ''}
+                </p>
+              </div>
+              {entry.status === 'failed' && (
+                <div className="flex items-center gap-2">
+                  <Button size="sm" variant="outline" onClick={() => onRetry(entry.id)} disabled={syncing || !isOnline}>
+                    Tentar novamente
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDiscard(entry)} aria-label="Descartar envio">
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
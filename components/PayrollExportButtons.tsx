@@ -0,0 +1,45 @@
+/**
+ * Botões de exportação da folha de recompensas (CSV e largura fixa)
+ * Exportam o mês fechado informado, de um setor ou da empresa toda
+ */
+
+'use client';
+
+import { FileSpreadsheet, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useFeedback } from '@/components/FeedbackProvider';
+import { usePayrollExport } from '@/hooks/usePayrollExport';
+import type { Sector } from '@/lib/appwrite';
+import type { PayrollExportFormat } from '@/lib/payroll-export';
+
+interface PayrollExportButtonsProps {
+  closingPeriod: string; // AAAA-MM
+  sector?: Sector; // ausente: empresa toda
+}
+
+export function PayrollExportButtons({ closingPeriod, sector }: PayrollExportButtonsProps) {
+  const { exporting, downloadPayroll } = usePayrollExport();
+  const { toastSuccess, toastError } = useFeedback();
+
+  const handleExport = async (format: PayrollExportFormat) => {
+    try {
+      const filename = await downloadPayroll(closingPeriod, format, sector);
+      toastSuccess(`Folha exportada: ${filename}`);
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao exportar a folha');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={!!exporting || !closingPeriod} className="flex items-center gap-2">
+        <FileSpreadsheet className={`w-4 h-4 ${exporting === 'csv' ? 'animate-pulse' : ''}`} />
+        Exportar CSV
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => handleExport('fixed')} disabled={!!exporting || !closingPeriod} className="flex items-center gap-2">
+        <FileText className={`w-4 h-4 ${exporting === 'fixed' ? 'animate-pulse' : ''}`} />
+        Exportar largura fixa
+      </Button>
+    </div>
+  );
+}
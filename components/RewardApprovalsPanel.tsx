@@ -0,0 +1,249 @@
+/**
+ * Painel de aprovação das recompensas fechadas
+ * Modo "approve": o gestor aprova ou rejeita em lote as recompensas apuradas do setor no mês.
+ * Modo "release": fila do financeiro com as aprovadas e liberadas, para liberar, registrar o pagamento ou rejeitar
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, subMonths } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BadgeCheck, Banknote, RefreshCw, Send, XCircle } from 'lucide-react';
+import { useFeedback } from '@/components/FeedbackProvider';
+import { sectorDisplayNames } from '@/components/GoalForm';
+import { PayrollExportButtons } from '@/components/PayrollExportButtons';
+import { RewardStatusBadge } from '@/components/RewardStatusBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { useRewardApprovals } from '@/hooks/useRewardApprovals';
+import type { RewardStatus, Sector } from '@/lib/appwrite';
+import type { RewardAction, RewardItem } from '@/lib/reward-approvals';
+import { formatCurrency } from '@/lib/currency';
+import { formatPeriodDisplay } from '@/lib/rewards';
+
+const formatDay = (value: string) => new Date(value).toLocaleDateString('pt-BR');
+
+// Status exibidos em cada modo e status aceitos por cada ação (a API valida novamente)
+const visibleStatuses: Record<'approve' | 'release', RewardStatus[]> = {
+  approve: ['earned', 'approved', 'released', 'paid', 'rejected'],
+  release: ['approved', 'released']
+};
+
+const actionSources: Record<RewardAction, RewardStatus[]> = {
+  approve: ['earned'],
+  reject: ['earned', 'approved', 'released'],
+  release: ['approved'],
+  pay: ['released']
+};
+
+const actionLabels: Record<RewardAction, string> = {
+  approve: 'aprovada(s)',
+  reject: 'rejeitada(s)',
+  release: 'liberada(s)',
+  pay: 'marcada(s) como paga(s)'
+};
+
+interface RewardApprovalsPanelProps {
+  mode: 'approve' | 'release';
+  sector?: Sector; // modo "approve": setor do gestor
+}
+
+export function RewardApprovalsPanel({ mode, sector }: RewardApprovalsPanelProps) {
+  const { items, loading, actionInProgress, error, fetchItems, applyAction } = useRewardApprovals();
+  const { profile } = useAuth();
+  const { confirm, toastSuccess, toastError } = useFeedback();
+  // O gestor decide mês a mês; a fila do financeiro abre com os últimos meses
+  const [closingPeriod, setClosingPeriod] = useState(mode === 'approve' ? format(subMonths(new Date(), 1), 'yyyy-MM') : '');
+  const [reason, setReason] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    fetchItems({ closingPeriod: closingPeriod || undefined, sector });
+    setSelected(new Set());
+  }, [fetchItems, closingPeriod, sector]);
+
+  const visibleItems = items.filter(item => visibleStatuses[mode].includes(item.status));
+  const selectedItems = visibleItems.filter(item => selected.has(item.key));
+  const eligible = (action: RewardAction) => selectedItems.filter(item => actionSources[action].includes(item.status));
+  const actions: RewardAction[] = mode === 'approve' ? ['approve', 'reject'] : ['release', 'pay', 'reject'];
+  // A própria recompensa aparece na lista, mas só outra pessoa decide sobre ela
+  const selectable = (item: RewardItem) =>
+    item.profileId !== profile?.$id && actions.some(action => actionSources[action].includes(item.status));
+  const selectableItems = visibleItems.filter(selectable);
+  const total = (list: RewardItem[]) => list.reduce((sum, item) => sum + item.amount, 0);
+
+  const toggle = (key: string, checked: boolean) => {
+    setSelected(previous => {
+      const next = new Set(previous);
+      if (checked) next.add(key); else next.delete(key);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => setSelected(checked ? new Set(selectableItems.map(item => item.key)) : new Set());
+
+  const handleAction = async (action: RewardAction) => {
+    const targets = eligible(action);
+    if (action === 'reject' && !reason.trim()) {
+      toastError('Informe o motivo da rejeição');
+      return;
+    }
+
+    const confirmed = await confirm({
+      title: 'Confirmar Recompensas',
+      description: `${targets.length} recompensa(s) no total de ${formatCurrency(total(targets), true)} serão ${actionLabels[action]}.`,
+      confirmText: 'Confirmar',
+      cancelText: 'Cancelar',
+      danger: action === 'reject'
+    });
+    if (!confirmed) return;
+
+    try {
+      const result = await applyAction(action, targets, action === 'reject' ? reason.trim() : undefined);
+      setSelected(new Set());
+      if (action === 'reject') setReason('');
+      if (result.failed.length > 0) {
+        toastError(`${result.updated.length} atualizada(s); ${result.failed.length} não puderam ser alteradas: ${result.failed[0].error}`);
+      } else {
+        toastSuccess(`${result.updated.length} recompensa(s) ${actionLabels[action]}`);
+      }
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao atualizar as recompensas');
+    }
+  };
+
+  const actionButtons: Record<RewardAction, { label: string; icon: typeof Send; variant?: 'outline' | 'destructive' }> = {
+    approve: { label: 'Aprovar', icon: BadgeCheck },
+    release: { label: 'Liberar', icon: Send },
+    pay: { label: 'Marcar como pagas', icon: Banknote, variant: 'outline' },
+    reject: { label: 'Rejeitar', icon: XCircle, variant: 'destructive' }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 items-center">
+        <Input
+          type="month"
+          value={closingPeriod}
+          onChange={(e) => setClosingPeriod(e.target.value)}
+          className="bg-white w-44"
+          aria-label="Mês do fechamento"
+        />
+        {mode === 'release' && closingPeriod && <PayrollExportButtons closingPeriod={closingPeriod} />}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fetchItems({ closingPeriod: closingPeriod || undefined, sector })}
+          disabled={loading}
+          className="flex items-center gap-2"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Atualizar
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap gap-2 items-center">
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Motivo da rejeição"
+          maxLength={500}
+          className="bg-white flex-1 min-w-48"
+        />
+        {actions.map(action => {
+          const { label, icon: Icon, variant } = actionButtons[action];
+          const count = eligible(action).length;
+          return (
+            <Button
+              key={action}
+              size="sm"
+              variant={variant}
+              onClick={() => handleAction(action)}
+              disabled={!!actionInProgress || count === 0}
+              className="flex items-center gap-2"
+            >
+              <Icon className={`w-4 h-4 ${actionInProgress === action ? 'animate-pulse' : ''}`} />
+              {label}{count > 0 ? ` (${count})` : ''}
+            </Button>
+          );
+        })}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        {visibleItems.length} recompensa(s) · {formatCurrency(total(visibleItems), true)}
+        {selectedItems.length > 0 && ` · ${selectedItems.length} selecionada(s): ${formatCurrency(total(selectedItems), true)}`}
+      </p>
+
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={selectableItems.length > 0 && selectableItems.every(item => selected.has(item.key))}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  disabled={selectableItems.length === 0}
+                  aria-label="Selecionar todas"
+                />
+              </TableHead>
+              <TableHead className="font-semibold">Colaborador</TableHead>
+              <TableHead className="font-semibold">Meta</TableHead>
+              <TableHead className="font-semibold">Período</TableHead>
+              <TableHead className="font-semibold">Status</TableHead>
+              <TableHead className="font-semibold text-right">Valor</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleItems.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                  {loading
+                    ? 'Carregando...'
+                    : mode === 'approve' ? 'Nenhuma recompensa fechada neste mês' : 'Nenhuma recompensa aguardando o financeiro'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleItems.map((item) => (
+                <TableRow key={item.key} className="hover:bg-gray-50">
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.has(item.key)}
+                      onCheckedChange={(checked) => toggle(item.key, checked === true)}
+                      disabled={!selectable(item)}
+                      aria-label={`Selecionar ${item.userName} - ${item.goalTitle}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{item.userName}</div>
+                    <div className="text-xs text-gray-500">{sectorDisplayNames[item.sector]} · {item.closingPeriod}</div>
+                  </TableCell>
+                  <TableCell>{item.goalTitle}</TableCell>
+                  <TableCell className="text-gray-600 whitespace-nowrap">
+                    {formatPeriodDisplay(item.periodType)}: {formatDay(item.periodStart)} a {formatDay(item.periodEnd)}
+                  </TableCell>
+                  <TableCell>
+                    <RewardStatusBadge status={item.status} outdated={item.outdated} />
+                    {item.status === 'rejected' && item.approval?.rejectionReason && (
+                      <div className="text-xs text-gray-500 mt-1">{item.approval.rejectionReason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-medium whitespace-nowrap">{formatCurrency(item.amount, true)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
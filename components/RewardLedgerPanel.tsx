@@ -0,0 +1,177 @@
+/**
+ * Painel do razão de recompensas
+ * Fecha um mês encerrado (por setor ou todos), grava os ajustes de novas apurações, lista os lançamentos
+ * e exporta a folha do mês fechado
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { format, subMonths } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Lock, RefreshCw } from 'lucide-react';
+import { useFeedback } from '@/components/FeedbackProvider';
+import { sectorDisplayNames } from '@/components/GoalForm';
+import { PayrollExportButtons } from '@/components/PayrollExportButtons';
+import { useRewardLedger } from '@/hooks/useRewardLedger';
+import { Sector } from '@/lib/appwrite';
+import { formatCurrency } from '@/lib/currency';
+import { formatPeriodDisplay } from '@/lib/rewards';
+
+const formatDay = (value: string) => new Date(value).toLocaleDateString('pt-BR');
+
+export function RewardLedgerPanel() {
+  const { closings, entries, loading, closingInProgress, error, fetchLedger, closePeriod } = useRewardLedger();
+  const { confirm, toastSuccess, toastError } = useFeedback();
+  const [closingPeriod, setClosingPeriod] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [sector, setSector] = useState<Sector | 'all'>('all');
+  const [reason, setReason] = useState('');
+  const [loaded, setLoaded] = useState(false);
+
+  const selectedSector = sector === 'all' ? undefined : sector;
+  const balance = entries.reduce((total, entry) => total + entry.amount, 0);
+  const sortedEntries = [...entries].sort((a, b) =>
+    a.userName.localeCompare(b.userName) || a.goalTitle.localeCompare(b.goalTitle) || (a.$createdAt || '').localeCompare(b.$createdAt || '')
+  );
+
+  const handleLoad = async () => {
+    await fetchLedger(closingPeriod, selectedSector);
+    setLoaded(true);
+  };
+
+  const handleClose = async () => {
+    const confirmed = await confirm({
+      title: 'Fechar Recompensas',
+      description: `Apurar as recompensas de ${closingPeriod} (${selectedSector ? sectorDisplayNames[selectedSector] : 'todos os setores'})? ` +
+        'Os lançamentos gravados não podem ser alterados; um mês já fechado recebe apenas ajustes.',
+      confirmText: 'Fechar',
+      cancelText: 'Cancelar'
+    });
+    if (!confirmed) return;
+
+    try {
+      const results = await closePeriod(closingPeriod, selectedSector, reason.trim() || undefined);
+      setLoaded(true);
+      const closingEntries = results.reduce((total, result) => total + result.closingEntries, 0);
+      const adjustments = results.reduce((total, result) => total + result.adjustments, 0);
+      toastSuccess(`Fechamento concluído: ${closingEntries} lançamento(s) e ${adjustments} ajuste(s)`);
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao fechar recompensas');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 items-center">
+        <Input
+          type="month"
+          value={closingPeriod}
+          onChange={(e) => setClosingPeriod(e.target.value)}
+          className="bg-white w-44"
+          aria-label="Mês do fechamento"
+        />
+        <Select value={sector} onValueChange={(value) => setSector(value as Sector | 'all')}>
+          <SelectTrigger className="bg-white w-52">
+            <SelectValue placeholder="Setor" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os setores</SelectItem>
+            {Object.values(Sector).map(value => (
+              <SelectItem key={value} value={value}>{sectorDisplayNames[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Motivo dos ajustes (opcional)"
+          maxLength={500}
+          className="bg-white flex-1 min-w-48"
+        />
+        <Button variant="outline" size="sm" onClick={handleLoad} disabled={loading || !closingPeriod} className="flex items-center gap-2">
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Consultar
+        </Button>
+        <Button size="sm" onClick={handleClose} disabled={closingInProgress || !closingPeriod} className="flex items-center gap-2">
+          <Lock className={`w-4 h-4 ${closingInProgress ? 'animate-pulse' : ''}`} />
+          {closingInProgress ? 'Fechando...' : 'Fechar mês'}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loaded && (
+        <>
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <p className="text-sm text-gray-600">
+              {closings.length === 0
+                ? 'Mês ainda não fechado para os setores selecionados'
+                : `Fechado para ${closings.length} setor(es): ${closings.map(closing =>
+                    `${sectorDisplayNames[closing.sector]} em ${new Date(closing.closedAt).toLocaleString('pt-BR')} por ${closing.closedByName}`
+                  ).join('; ')}`}
+              {entries.length > 0 && ` · Saldo: ${formatCurrency(balance, true)}`}
+            </p>
+            {closings.length > 0 && <PayrollExportButtons closingPeriod={closingPeriod} sector={selectedSector} />}
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50">
+                  <TableHead className="font-semibold">Colaborador</TableHead>
+                  <TableHead className="font-semibold">Meta</TableHead>
+                  <TableHead className="font-semibold">Período</TableHead>
+                  <TableHead className="font-semibold">Lançamento</TableHead>
+                  <TableHead className="font-semibold text-right">Valor</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedEntries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                      Nenhum lançamento neste mês
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sortedEntries.map((entry) => (
+                    <TableRow key={entry.$id} className="hover:bg-gray-50">
+                      <TableCell>
+                        <div className="font-medium">{entry.userName}</div>
+                        <div className="text-xs text-gray-500">{sectorDisplayNames[entry.sector]}</div>
+                      </TableCell>
+                      <TableCell>{entry.goalTitle}</TableCell>
+                      <TableCell className="text-gray-600 whitespace-nowrap">
+                        {formatPeriodDisplay(entry.periodType)}: {formatDay(entry.periodStart)} a {formatDay(entry.periodEnd)}
+                      </TableCell>
+                      <TableCell>
+                        {entry.entryType === 'closing'
+                          ? <Badge variant="outline">Fechamento</Badge>
+                          : <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-300">Ajuste</Badge>}
+                        <div className="text-xs text-gray-500 mt-1">
+                          Regras v{entry.ruleVersion} · {entry.createdByName}
+                          {entry.reason ? ` · ${entry.reason}` : ''}
+                        </div>
+                      </TableCell>
+                      <TableCell className={`text-right font-medium whitespace-nowrap ${entry.amount < 0 ? 'text-red-700' : ''}`}>
+                        {formatCurrency(entry.amount, true)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
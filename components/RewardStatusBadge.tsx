@@ -0,0 +1,40 @@
+/**
+ * Selo do status de aprovação de uma recompensa (apurada, aprovada, liberada, paga ou rejeitada)
+ */
+
+import { Badge } from '@/components/ui/badge';
+import type { RewardStatus } from '@/lib/appwrite';
+
+export const rewardStatusLabels: Record<RewardStatus, string> = {
+  earned: 'Aguardando aprovação',
+  approved: 'Aprovada',
+  released: 'Liberada',
+  paid: 'Paga',
+  rejected: 'Rejeitada'
+};
+
+const rewardStatusStyles: Record<RewardStatus, string> = {
+  earned: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  approved: 'bg-blue-100 text-blue-800 border-blue-300',
+  released: 'bg-purple-100 text-purple-800 border-purple-300',
+  paid: 'bg-green-100 text-green-800 border-green-300',
+  rejected: 'bg-red-100 text-red-800 border-red-300'
+};
+
+interface RewardStatusBadgeProps {
+  status: RewardStatus | null; // null: período ainda não fechado
+  outdated?: boolean;
+  title?: string;
+}
+
+export function RewardStatusBadge({ status, outdated, title }: RewardStatusBadgeProps) {
+  if (!status) {
+    return <Badge variant="outline" className="bg-gray-100 text-gray-700 border-gray-300" title={title}>Em apuração</Badge>;
+  }
+  return (
+    <Badge variant="outline" className={rewardStatusStyles[status]} title={title}>
+      {rewardStatusLabels[status]}
+      {outdated && ' · valor revisado'}
+    </Badge>
+  );
+}
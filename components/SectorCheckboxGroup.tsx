@@ -0,0 +1,49 @@
+/**
+ * Seleção múltipla de setores (caixas de seleção)
+ * Usada nos setores adicionais de gestores e nas delegações
+ */
+
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Sector } from '@/lib/appwrite';
+import { sectorDisplayNames } from './GoalForm';
+
+interface SectorCheckboxGroupProps {
+  value: Sector[];
+  onChange: (value: Sector[]) => void;
+  options?: Sector[]; // padrão: todos os setores
+  disabled?: boolean;
+  idPrefix?: string;
+}
+
+export function SectorCheckboxGroup({
+  value,
+  onChange,
+  options = Object.values(Sector),
+  disabled,
+  idPrefix = 'sector'
+}: SectorCheckboxGroupProps) {
+  const toggle = (sector: Sector, checked: boolean) => {
+    onChange(checked ? [...value, sector] : value.filter(item => item !== sector));
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {options.map(sector => (
+        <div key={sector} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-${sector}`}
+            checked={value.includes(sector)}
+            onCheckedChange={(checked) => toggle(sector, checked === true)}
+            disabled={disabled}
+          />
+          <Label htmlFor={`${idPrefix}-${sector}`} className="text-sm font-normal">
+            {sectorDisplayNames[sector]}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -13,10 +13,12 @@ import { useSectorGoals, type CreateSectorGoalData, type UpdateSectorGoalData }
 import { useAllProfiles } from '@/hooks/useAllProfiles';
 import { Sector, GoalType, GoalPeriod, GoalScope, type SectorGoal } from '@/lib/appwrite';
 import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Role } from '@/lib/roles';
-import { Query } from 'appwrite';
 import { GoalForm, GoalFormData, goalPeriodDisplayNames, sectorDisplayNames, goalScopeDisplayNames } from './GoalForm';
 import { centavosToReais, formatCurrency, reaisToCentavos, parseCurrencyInput } from '@/lib/currency';
+import { THRESHOLD_ACHIEVEMENT_RULES, describeAchievementRule, validateAchievementRule } from '@/lib/achievement-rules';
+import { describeRewardTiers, getGoalRewardTiers, parseRewardTiers, serializeRewardTiers, supportsRewardTiers, validateRewardTiers } from '@/lib/reward-tiers';
 
 const initialFormData: GoalFormData = {
   title: '',
@@ -35,12 +37,17 @@ const initialFormData: GoalFormData = {
   hasMonetaryReward: false,
   monetaryValue: '',
   currency: 'BRL',
+  rewardTiers: [],
+  // Atingimento
+  achievementRule: '',
+  achievementThreshold: '',
   // Comprovação
   requireProof: true
 };
 
 export function SectorGoalsManager() {
   const { user, profile } = useAuth();
+  const { can } = usePermissions(profile);
   const { goals, loading, error, createGoal, updateGoal, deleteGoal, toggleGoalStatus, refetch, fetchGoals } = useSectorGoals();
   const { profiles, loading: profilesLoading, error: profilesError } = useAllProfiles('all');
   
@@ -135,21 +142,10 @@ export function SectorGoalsManager() {
         fetchGoals();
       } else {
         // Se for colaborador, carrega apenas metas do seu setor e suas metas individuais
-        const queries = [
-          Query.or([
-            Query.equal('scope', GoalScope.SECTOR),
-            Query.and([
-              Query.equal('scope', GoalScope.INDIVIDUAL),
-              Query.equal('assignedUserId', profile.userId)
-            ])
-          ])
-        ];
-        
-        if (profile.sector) {
-          queries.push(Query.equal('sectorId', profile.sector));
-        }
-        
-        fetchGoals(queries);
+        fetchGoals({
+          visibleToUserId: profile.userId,
+          ...(profile.sector ? { sectorId: profile.sector } : {})
+        });
       }
     }
   }, [profile?.role, profile?.sector, profile?.userId]); // Removemos fetchGoals da dependência
@@ -173,6 +169,29 @@ export function SectorGoalsManager() {
     });
   };
 
+  // Faixas de pagamento só valem para metas individuais numéricas ou de porcentagem com recompensa
+  const hasRewardTiers = () =>
+    formData.hasMonetaryReward && formData.scope === GoalScope.INDIVIDUAL && supportsRewardTiers(formData.type) && formData.rewardTiers.length > 0;
+
+  const getRewardTiersError = () => hasRewardTiers() ? validateRewardTiers(formData.rewardTiers) : null;
+
+  // null remove as faixas de uma meta editada
+  const getRewardTiersPayload = () => hasRewardTiers() ? serializeRewardTiers(formData.rewardTiers) : null;
+
+  // Regra vazia volta ao padrão do período; o limite só é enviado nas regras que o usam
+  const getAchievementPayload = () => {
+    const achievementRule = formData.achievementRule || null;
+    const achievementThreshold = achievementRule && THRESHOLD_ACHIEVEMENT_RULES.includes(achievementRule)
+      ? Number(formData.achievementThreshold)
+      : null;
+    return { achievementRule, achievementThreshold };
+  };
+
+  const getAchievementRuleError = () => {
+    const { achievementRule, achievementThreshold } = getAchievementPayload();
+    return validateAchievementRule(formData.type, achievementRule, achievementThreshold, formData.period);
+  };
+
   const handleCreateGoal = async () => {
     if (!user?.$id) {
       toast.error('Usuário não autenticado');
@@ -205,6 +224,18 @@ export function SectorGoalsManager() {
       }
     }
 
+    const tiersError = getRewardTiersError();
+    if (tiersError) {
+      toast.error(tiersError);
+      return;
+    }
+
+    const ruleError = getAchievementRuleError();
+    if (ruleError) {
+      toast.error(ruleError);
+      return;
+    }
+
     // Validações específicas por tipo
     if ((formData.type === GoalType.NUMERIC || formData.type === GoalType.PERCENTAGE) && !formData.targetValue) {
       toast.error('Preencha o valor alvo para este tipo de meta');
@@ -249,6 +280,9 @@ export function SectorGoalsManager() {
         monetaryValue: formData.hasMonetaryReward && formData.monetaryValue 
           ? reaisToCentavos(parseCurrencyInput(formData.monetaryValue))
           : undefined,
+        rewardTiers: getRewardTiersPayload(),
+        // Atingimento
+        ...getAchievementPayload(),
         // Comprovação
         requireProof: formData.requireProof
       };
@@ -266,6 +300,18 @@ export function SectorGoalsManager() {
   const handleEditGoal = async () => {
     if (!editingGoal?.$id) return;
 
+    const tiersError = getRewardTiersError();
+    if (tiersError) {
+      toast.error(tiersError);
+      return;
+    }
+
+    const ruleError = getAchievementRuleError();
+    if (ruleError) {
+      toast.error(ruleError);
+      return;
+    }
+
     try {
       const updateData: UpdateSectorGoalData = {
         title: formData.title,
@@ -289,6 +335,9 @@ export function SectorGoalsManager() {
         monetaryValue: formData.hasMonetaryReward && formData.monetaryValue 
           ? reaisToCentavos(parseCurrencyInput(formData.monetaryValue))
           : undefined,
+        rewardTiers: getRewardTiersPayload(),
+        // Atingimento
+        ...getAchievementPayload(),
         // Comprovação
         requireProof: formData.requireProof
       };
@@ -339,6 +388,10 @@ export function SectorGoalsManager() {
       hasMonetaryReward: goal.hasMonetaryReward || false,
       monetaryValue: goal.monetaryValue ? String(centavosToReais(goal.monetaryValue)) : '',
       currency: goal.currency || 'BRL',
+      rewardTiers: parseRewardTiers(goal.rewardTiers),
+      // Atingimento
+      achievementRule: goal.achievementRule || '',
+      achievementThreshold: goal.achievementThreshold ? String(goal.achievementThreshold) : '',
       // Comprovação
       requireProof: goal.requireProof ?? true
     });
@@ -362,7 +415,7 @@ export function SectorGoalsManager() {
         </div>
         <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
           <DialogTrigger asChild>
-            <Button onClick={resetForm} className="bg-blue-600 hover:bg-blue-700">
+            <Button onClick={resetForm} className="bg-blue-600 hover:bg-blue-700" disabled={!can('goals.create')}>
               <Plus className="h-4 w-4 mr-2" />
               Nova Meta
             </Button>
@@ -537,11 +590,13 @@ export function SectorGoalsManager() {
                             handleEditClick(goal);
                           }}
                           className="text-gray-600 hover:text-blue-600"
+                          disabled={!can('goals.update')}
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
                                                  <Switch 
                            checked={goal.isActive} 
+                           disabled={!can('goals.update')}
                            onCheckedChange={(checked) => {
                              handleToggleStatus(goal.$id!, goal.isActive);
                            }}
@@ -554,6 +609,7 @@ export function SectorGoalsManager() {
                               size="sm" 
                               className="text-red-600 hover:text-red-700 hover:bg-red-50"
                               onClick={(e) => e.stopPropagation()}
+                              disabled={!can('goals.delete')}
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
@@ -611,9 +667,19 @@ export function SectorGoalsManager() {
                         <span className="text-green-700 font-semibold">
                           {formatCurrency(centavosToReais(goal.monetaryValue))} - {goalPeriodDisplayNames[goal.period]}
                         </span>
+                        {getGoalRewardTiers(goal).length > 0 && (
+                          <span className="text-xs text-green-700">({describeRewardTiers(getGoalRewardTiers(goal))})</span>
+                        )}
                       </div>
                     )}
 
+                    {/* Regra de atingimento */}
+                    <div className="flex items-center gap-2 text-sm text-gray-600 bg-gray-50 px-3 py-2 rounded-lg">
+                      <Target className="h-4 w-4 text-gray-500" />
+                      <span className="font-medium">Atingimento:</span>
+                      <span>{describeAchievementRule(goal)}</span>
+                    </div>
+
                     {/* Descrição completa */}
                     {goal.description && (
                       <div className="text-sm text-gray-600 bg-gray-50 px-3 py-2 rounded-lg">
@@ -0,0 +1,112 @@
+/**
+ * Painel de políticas de segurança (admin)
+ * Define quais perfis são obrigados a usar a verificação em duas etapas
+ * e o tempo limite de inatividade das sessões
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Save } from 'lucide-react';
+import { useFeedback } from '@/components/FeedbackProvider';
+import { useSecuritySettings } from '@/hooks/useSecuritySettings';
+import { INACTIVITY_TIMEOUT_LIMITS } from '@/lib/appwrite';
+
+const roleLabels: Record<string, string> = {
+  admin: 'Administrador',
+  manager: 'Gestores'
+};
+
+export function SecuritySettingsPanel() {
+  const { settings, mfaEligibleRoles, loading, error, fetchSettings, updateSettings } = useSecuritySettings();
+  const { toastSuccess, toastError } = useFeedback();
+  const [requiredRoles, setRequiredRoles] = useState<string[]>([]);
+  const [timeoutMinutes, setTimeoutMinutes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  useEffect(() => {
+    if (settings) {
+      setRequiredRoles(settings.mfaRequiredRoles);
+      setTimeoutMinutes(String(settings.inactivityTimeoutMinutes));
+    }
+  }, [settings]);
+
+  const toggleRole = (role: string, checked: boolean) => {
+    setRequiredRoles(prev => (checked ? [...prev, role] : prev.filter(item => item !== role)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateSettings({ mfaRequiredRoles: requiredRoles, inactivityTimeoutMinutes: Number(timeoutMinutes) });
+      toastSuccess('Política de segurança salva!');
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao salvar política');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div>
+        <p className="font-medium">Verificação em duas etapas obrigatória</p>
+        <p className="text-sm text-gray-600">
+          Perfis marcados precisarão cadastrar um aplicativo autenticador no próximo login.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        {mfaEligibleRoles.map(role => (
+          <div key={role} className="flex items-center gap-2">
+            <Checkbox
+              id={`mfa-required-${role}`}
+              checked={requiredRoles.includes(role)}
+              onCheckedChange={(checked) => toggleRole(role, checked === true)}
+              disabled={loading || saving}
+            />
+            <Label htmlFor={`mfa-required-${role}`}>{roleLabels[role] || role}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="inactivity-timeout" className="font-medium">Tempo limite de inatividade (minutos)</Label>
+        <p className="text-sm text-gray-600">
+          Sessões sem atividade são encerradas após esse tempo, com aviso um minuto antes.
+          Use 0 para desativar ou um valor entre {INACTIVITY_TIMEOUT_LIMITS.min} e {INACTIVITY_TIMEOUT_LIMITS.max}.
+        </p>
+        <Input
+          id="inactivity-timeout"
+          type="number"
+          min={0}
+          max={INACTIVITY_TIMEOUT_LIMITS.max}
+          value={timeoutMinutes}
+          onChange={(e) => setTimeoutMinutes(e.target.value)}
+          disabled={loading || saving}
+          className="w-32"
+        />
+      </div>
+
+      <Button onClick={handleSave} disabled={loading || saving || !settings} className="flex items-center gap-2">
+        <Save className="w-4 h-4" />
+        {saving ? 'Salvando...' : 'Salvar política'}
+      </Button>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { SectorCheckboxGroup } from '@/components/SectorCheckboxGroup';
 import { Sector } from '@/lib/appwrite';
 import { Role } from '@/lib/roles';
 
@@ -21,6 +22,7 @@ interface UserFormProps {
     email: string;
     password: string;
     sector: Sector;
+    managedSectors: Sector[];
     role: Role;
   }) => Promise<boolean>;
   loading?: boolean;
@@ -33,6 +35,7 @@ export function UserForm({ onSubmitAction, loading, error }: UserFormProps) {
   const [password, setPassword] = useState('');
   const [sector, setSector] = useState<Sector | ''>('');
   const [role, setRole] = useState<Role | ''>('');
+  const [managedSectors, setManagedSectors] = useState<Sector[]>([]);
 
   const handleSectorChange = (value: string) => {
     setSector(value as Sector);
@@ -54,6 +57,7 @@ export function UserForm({ onSubmitAction, loading, error }: UserFormProps) {
       email,
       password,
       sector: sector as Sector,
+      managedSectors: role === Role.MANAGER ? managedSectors.filter(item => item !== sector) : [],
       role: role as Role
     });
     
@@ -64,6 +68,7 @@ export function UserForm({ onSubmitAction, loading, error }: UserFormProps) {
       setPassword('');
       setSector('');
       setRole('');
+      setManagedSectors([]);
     }
   };
 
@@ -100,7 +105,7 @@ export function UserForm({ onSubmitAction, loading, error }: UserFormProps) {
           </div>
           
           <div className="space-y-2">
-            <Label htmlFor="password">Senha</Label>
+            <Label htmlFor="password">Senha provisória</Label>
             <Input
               id="password"
               type="password"
@@ -109,6 +114,9 @@ export function UserForm({ onSubmitAction, loading, error }: UserFormProps) {
               required
               disabled={loading}
             />
+            <p className="text-xs text-gray-500">
+              O usuário deverá trocar esta senha no primeiro acesso.
+            </p>
           </div>
           
           <div className="space-y-2">
@@ -153,6 +161,22 @@ export function UserForm({ onSubmitAction, loading, error }: UserFormProps) {
             </Select>
           </div>
           
+          {role === Role.MANAGER && (
+            <div className="space-y-2">
+              <Label>Setores adicionais (opcional)</Label>
+              <SectorCheckboxGroup
+                value={managedSectors}
+                onChange={setManagedSectors}
+                options={Object.values(Sector).filter(item => item !== sector)}
+                disabled={loading}
+                idPrefix="user-managed-sector"
+              />
+              <p className="text-xs text-gray-500">
+                Gestores de mais de uma área alternam entre os setores no painel.
+              </p>
+            </div>
+          )}
+          
           {error && (
             <Alert className="border-red-200 bg-red-50">
               <AlertDescription className="text-red-700">
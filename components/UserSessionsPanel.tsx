@@ -0,0 +1,169 @@
+/**
+ * Lista de sessões ativas
+ * "Minhas sessões" (sem `profileId`) ou sessões de um usuário no painel admin,
+ * com encerramento individual e logout forçado em todos os dispositivos
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LogOut, Monitor, RefreshCw, X } from 'lucide-react';
+import { useFeedback } from '@/components/FeedbackProvider';
+import { useUserSessions } from '@/hooks/useUserSessions';
+import type { ActiveSession } from '@/lib/appwrite';
+
+interface UserSessionsPanelProps {
+  profileId?: string; // admin: sessões de outro usuário
+  userName?: string;
+  onCurrentSessionRevoked?: () => void; // encerrar a própria sessão atual equivale a sair
+}
+
+const formatDateTime = (value?: string) => (value ? format(new Date(value), 'dd/MM/yyyy HH:mm') : '-');
+
+export function UserSessionsPanel({ profileId, userName, onCurrentSessionRevoked }: UserSessionsPanelProps) {
+  const { sessions, loading, error, fetchSessions, revokeSession, forceLogout } = useUserSessions(profileId);
+  const { confirm, toastSuccess, toastError } = useFeedback();
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    const confirmed = await confirm({
+      title: 'Encerrar Sessão',
+      description: session.current
+        ? 'Esta é a sessão atual. Você será desconectado deste dispositivo.'
+        : `Encerrar a sessão em "${session.device}"?`,
+      confirmText: 'Encerrar',
+      cancelText: 'Cancelar',
+      danger: true
+    });
+    if (!confirmed) return;
+
+    setRevokingId(session.id);
+    try {
+      await revokeSession(session.id);
+      if (session.current && !profileId) {
+        onCurrentSessionRevoked?.();
+        return;
+      }
+      toastSuccess('Sessão encerrada.');
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao encerrar sessão');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleForceLogout = async () => {
+    const confirmed = await confirm({
+      title: 'Forçar Logout',
+      description: `Encerrar todas as sessões de ${userName || 'este usuário'}? Ele precisará entrar novamente em todos os dispositivos.`,
+      confirmText: 'Forçar logout',
+      cancelText: 'Cancelar',
+      danger: true
+    });
+    if (!confirmed) return;
+
+    setRevokingId('all');
+    try {
+      await forceLogout();
+      toastSuccess('Todas as sessões foram encerradas.');
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao forçar logout');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-between items-center gap-2">
+        <p className="text-sm text-gray-600">{sessions.length} sessão(ões) ativa(s)</p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={fetchSessions} disabled={loading} className="flex items-center gap-2">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Atualizar
+          </Button>
+          {profileId && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleForceLogout}
+              disabled={revokingId !== null}
+              className="flex items-center gap-2 text-red-600 hover:text-red-700"
+            >
+              <LogOut className="w-4 h-4" />
+              Forçar logout
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="font-semibold">Dispositivo</TableHead>
+              <TableHead className="font-semibold">IP</TableHead>
+              <TableHead className="font-semibold">Última atividade</TableHead>
+              <TableHead className="font-semibold">Início</TableHead>
+              <TableHead className="font-semibold text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-gray-500 py-6">
+                  {loading ? 'Carregando sessões...' : 'Nenhuma sessão ativa'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              sessions.map(session => (
+                <TableRow key={session.id} className="hover:bg-gray-50">
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Monitor className="w-4 h-4 text-gray-500" />
+                      <span>{session.device}</span>
+                      {session.current && <Badge variant="secondary">Esta sessão</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {session.ip}
+                    {session.location && <span className="text-gray-500"> · {session.location}</span>}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDateTime(session.lastActivityAt)}</TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDateTime(session.createdAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(session)}
+                      disabled={revokingId !== null}
+                      title="Encerrar sessão"
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -4,13 +4,13 @@
  */
 
 import { useState, useEffect } from 'react';
-import { databases } from '@/lib/appwrite';
 import { UserProfile } from '@/lib/appwrite';
-import { Query } from 'appwrite';
+import { getRepositories, isDemoMode } from '@/lib/repositories';
 
-export function useAllProfiles(sectorFilter?: string) {
-  const [profiles, setProfiles] = useState<UserProfile[]>([]);
-  const [loading, setLoading] = useState(true);
+// initialProfiles: perfis pré-carregados no servidor; a revalidação não exibe carregamento
+export function useAllProfiles(sectorFilter?: string, initialProfiles?: UserProfile[]) {
+  const [profiles, setProfiles] = useState<UserProfile[]>(initialProfiles ?? []);
+  const [loading, setLoading] = useState(!initialProfiles);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -36,7 +36,7 @@ export function useAllProfiles(sectorFilter?: string) {
 
   async function fetchAllProfiles() {
     try {
-      setLoading(true);
+      if (!initialProfiles) setLoading(true);
       setError(null);
 
       // Tentar cache primeiro
@@ -49,30 +49,16 @@ export function useAllProfiles(sectorFilter?: string) {
       }
 
       console.log('🚀 useAllProfiles - Iniciando busca de perfis...');
-      console.log('📂 DATABASE_ID:', process.env.NEXT_PUBLIC_APPWRITE_DATABASE_ID);
-      console.log('📂 PROFILES_COLLECTION_ID:', process.env.NEXT_PUBLIC_APPWRITE_PROFILES_COLLECTION_ID);
       console.log('🔍 sectorFilter:', sectorFilter);
 
-      const queries = [];
-      if (sectorFilter && sectorFilter !== 'all') {
-        queries.push(Query.equal('sector', sectorFilter));
-      }
-
-      console.log('📋 Queries preparadas:', queries);
-
-      const response = await databases.listDocuments(
-        process.env.NEXT_PUBLIC_APPWRITE_DATABASE_ID!,
-        process.env.NEXT_PUBLIC_APPWRITE_PROFILES_COLLECTION_ID!,
-        queries.length > 0 ? [...queries, Query.limit(200)] : [Query.limit(200)]
+      let docs = await getRepositories().profiles.list(
+        sectorFilter && sectorFilter !== 'all' ? { sectors: [sectorFilter] } : {}
       );
 
-      console.log('✅ Resposta do Appwrite:', response);
-      console.log('👥 Documentos encontrados:', response.documents.length);
-
-      let docs = response.documents as unknown as UserProfile[];
+      console.log('👥 Documentos encontrados:', docs.length);
 
-      // Fallback: se nenhum perfil for retornado, tentar via API admin
-      if (!docs || docs.length === 0) {
+      // Fallback: se nenhum perfil for retornado, tentar via API admin (não existe no modo demonstração)
+      if (docs.length === 0 && !isDemoMode) {
         try {
           const params = new URLSearchParams();
           if (sectorFilter && sectorFilter !== 'all') {
@@ -0,0 +1,71 @@
+/**
+ * Hook para consultar a auditoria (somente admin)
+ * Busca eventos via /api/admin/audit com filtros e paginação por cursor
+ */
+
+import { useCallback, useState } from 'react';
+import type { AuditLog } from '@/lib/appwrite';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export interface AuditLogFilters {
+  action?: string;
+  targetType?: string;
+  actorId?: string;
+  targetId?: string;
+  from?: string; // yyyy-MM-dd
+  to?: string; // yyyy-MM-dd
+  q?: string;
+}
+
+interface AuditLogResponse {
+  logs: AuditLog[];
+  total: number;
+  nextCursor: string | null;
+}
+
+const buildQueryString = (filters: AuditLogFilters, cursor?: string | null) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value && value !== 'all') params.set(key, value);
+  });
+  // Datas do filtro cobrem o dia inteiro
+  if (filters.from) params.set('from', `${filters.from}T00:00:00`);
+  if (filters.to) params.set('to', `${filters.to}T23:59:59.999`);
+  if (cursor) params.set('cursor', cursor);
+  return params.toString();
+};
+
+export function useAuditLogs() {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLogs = useCallback(async (filters: AuditLogFilters, cursor?: string | null) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiRequest<AuditLogResponse>(`/api/admin/audit?${buildQueryString(filters, cursor)}`);
+      setLogs(prev => (cursor ? [...prev, ...data.logs] : data.logs));
+      setTotal(data.total);
+      setNextCursor(data.nextCursor);
+      logger.data.load('eventos de auditoria', data.logs.length);
+    } catch (err) {
+      logger.api.error('audit', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao carregar auditoria');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    logs,
+    total,
+    nextCursor,
+    loading,
+    error,
+    fetchLogs
+  };
+}
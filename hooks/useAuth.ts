@@ -6,10 +6,13 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { account, databases, DATABASE_ID, USER_PROFILES_COLLECTION, UserProfile, Sector } from '@/lib/appwrite';
-import { Models, Query } from 'appwrite';
+import { account, UserProfile } from '@/lib/appwrite';
+import { Models } from 'appwrite';
+import { getRepositories, isDemoMode } from '@/lib/repositories';
 import { Role } from '@/lib/roles';
 import { logger } from '@/lib/logger';
+import { apiRequest } from '@/lib/api-client';
+import type { SessionEndReason } from './useInactivityTimeout';
 
 interface AuthState {
   user: Models.User<Models.Preferences> | null;
@@ -18,11 +21,150 @@ interface AuthState {
   error: string | null;
 }
 
-export function useAuth() {
+interface AdminSessionResponse {
+  user: Models.User<Models.Preferences>;
+  profile: UserProfile;
+}
+
+// Etapa de segundo fator pendente após a senha (ver lib/mfa.ts)
+export type MfaStep = 'verify' | 'enroll';
+
+export type LoginResult =
+  | { user: Models.User<Models.Preferences>; profile: UserProfile; mfaRequired?: undefined }
+  | { mfaRequired: MfaStep };
+
+export interface MfaSetupData {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data URL do QR code
+}
+
+// Monta o usuário sintético (admin ou modo demonstração), sem conta no Appwrite
+const buildSyntheticUser = ($id: string, email: string, name: string) => {
+  const now = new Date().toISOString();
+  return {
+    $id,
+    email,
+    name,
+    emailVerification: true,
+    phoneVerification: false,
+    prefs: {},
+    $createdAt: now,
+    $updatedAt: now,
+    registration: now,
+    status: true,
+    labels: [],
+    passwordUpdate: now,
+    phone: '',
+    accessedAt: now,
+    mfa: false,
+    targets: []
+  } as unknown as Models.User<Models.Preferences>;
+};
+
+const toAdminSession = (data: any): AdminSessionResponse => ({
+  user: buildSyntheticUser('admin', data.user.email, 'Administrador'),
+  profile: data.profile as UserProfile
+});
+
+// Tenta autenticar como admin; retorna null quando não são credenciais admin
+const requestAdminLogin = async (email: string, password: string): Promise<AdminSessionResponse | { mfaRequired: MfaStep } | null> => {
+  const response = await fetch('/api/admin/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password })
+  });
+
+  if (response.status === 401) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Erro ao autenticar administrador');
+  }
+
+  const data = await response.json();
+  return data.mfaRequired ? { mfaRequired: data.mfaRequired as MfaStep } : toAdminSession(data);
+};
+
+type UserLoginResponse =
+  | { userId: string; secret: string; mfaRequired?: undefined; profile?: undefined }
+  | { mfaRequired: MfaStep; profile?: undefined }
+  | { profile: UserProfile; mfaRequired?: undefined }; // modo demonstração: cookie já emitido, sem sessão Appwrite
+
+// Confere a senha no servidor (atraso/bloqueio) e recebe o token de uso único da sessão Appwrite
+// ou `mfaRequired`, quando a sessão só é aberta depois do segundo fator
+const requestUserLogin = async (email: string, password: string): Promise<UserLoginResponse> => {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password })
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Não foi possível fazer login');
+  }
+  return data;
+};
+
+// Restaura a sessão admin a partir do cookie HttpOnly (validado no servidor)
+const fetchAdminSession = async (): Promise<AdminSessionResponse | null> => {
+  try {
+    const response = await fetch('/api/admin/session');
+    if (!response.ok) return null;
+    return toAdminSession(await response.json());
+  } catch {
+    return null;
+  }
+};
+
+// Modo demonstração: restaura o login a partir do cookie (não há sessão Appwrite)
+const fetchDemoSession = async (): Promise<AdminSessionResponse | null> => {
+  const response = await fetch('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({})
+  });
+  if (!response.ok) return null;
+  const { profile } = await response.json();
+  return { user: buildSyntheticUser(profile.userId, profile.email, profile.name), profile };
+};
+
+// Espelha a sessão Appwrite em um cookie first-party usado pelo middleware
+// Retorna `mfaRequired` quando o servidor exige o segundo fator antes de emitir o cookie
+// e `loginRequired` quando a sessão não pode ser renovada (encerrada no servidor ou aberta fora do login do app)
+const syncUserSession = async (afterLogin: boolean = false): Promise<{ mfaRequired?: MfaStep; loginRequired?: boolean }> => {
+  const { jwt } = await account.createJWT();
+  const response = await fetch('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jwt, afterLogin })
+  });
+
+  if (response.status === 401 && !afterLogin) {
+    return { loginRequired: true };
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Falha ao validar sessão no servidor');
+  }
+
+  return response.json();
+};
+
+interface UseAuthOptions {
+  // Perfil pré-carregado no servidor (getServerSideProps): a página renderiza sem esperar a verificação da sessão
+  initialProfile?: UserProfile | null;
+}
+
+export function useAuth({ initialProfile = null }: UseAuthOptions = {}) {
   const [state, setState] = useState<AuthState>({
     user: null,
-    profile: null,
-    loading: true,
+    profile: initialProfile,
+    loading: !initialProfile,
     error: null
   });
 
@@ -30,14 +172,9 @@ export function useAuth() {
     try {
       logger.api.request(`profiles/${userId.slice(0, 8)}...`);
       
-      const profiles = await databases.listDocuments(
-        DATABASE_ID,
-        USER_PROFILES_COLLECTION,
-        [Query.equal('userId', userId)]
-      );
+      const profile = await getRepositories().profiles.findByUserId(userId);
       
-      if (profiles.documents.length > 0) {
-        const profile = profiles.documents[0] as unknown as UserProfile;
+      if (profile) {
         logger.auth.profile(profile.sector, profile.role);
         return profile;
       }
@@ -50,55 +187,35 @@ export function useAuth() {
     }
   };
 
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
       
-      // Admin login especial
-      const adminEmail = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
-      const adminPassword = process.env.NEXT_PUBLIC_ADMIN_PASSWORD;
-      
-      if (adminEmail && adminPassword && email === adminEmail && password === adminPassword) {
+      // Admin login: o servidor valida as credenciais e emite o cookie de sessão
+      const adminSession = await requestAdminLogin(email, password);
+      if (adminSession && 'mfaRequired' in adminSession) {
+        setState(prev => ({ ...prev, loading: false }));
+        return adminSession;
+      }
+      if (adminSession) {
         logger.auth.login('Administrador');
-        // Salvar na sessionStorage que é admin para persistir na navegação
-        sessionStorage.setItem('isAdminLogin', 'true');
-        
-        const adminUser = {
-          $id: 'admin',
-          email: adminEmail,
-          name: 'Administrador',
-          emailVerification: true,
-          phoneVerification: false,
-          prefs: {},
-          $createdAt: new Date().toISOString(),
-          $updatedAt: new Date().toISOString(),
-          registration: new Date().toISOString(),
-          status: true,
-          labels: [],
-          passwordUpdate: new Date().toISOString(),
-          phone: '',
-          accessedAt: new Date().toISOString(),
-          mfa: false,
-          targets: []
-        } as unknown as Models.User<Models.Preferences>;
-        
-        const adminProfile: UserProfile = {
-          $id: 'admin',
-          userId: 'admin',
-          name: 'Administrador',
-          email: 'admin@admin.com',
-          sector: Sector.TI,
-          role: Role.ADMIN,
-          $createdAt: new Date().toISOString(),
-          $updatedAt: new Date().toISOString()
-        };
-        
-        setState(prev => ({ ...prev, user: adminUser, profile: adminProfile, loading: false }));
-        return { user: adminUser, profile: adminProfile };
+        setState(prev => ({ ...prev, ...adminSession, loading: false }));
+        return adminSession;
       }
       
-      // Login normal via Appwrite
-      const session = await account.createEmailPasswordSession(email, password);
+      // Login normal: senha conferida no servidor, que devolve o token para abrir a sessão Appwrite
+      const loginToken = await requestUserLogin(email, password);
+      if (loginToken.profile) {
+        const user = buildSyntheticUser(loginToken.profile.userId, loginToken.profile.email, loginToken.profile.name);
+        logger.auth.login(user.email);
+        setState(prev => ({ ...prev, user, profile: loginToken.profile, loading: false }));
+        return { user, profile: loginToken.profile };
+      }
+      if (loginToken.mfaRequired) {
+        setState(prev => ({ ...prev, loading: false }));
+        return { mfaRequired: loginToken.mfaRequired };
+      }
+      await account.createSession(loginToken.userId, loginToken.secret);
       const user = await account.get();
       logger.auth.login(user.email);
       const profile = await fetchUserProfile(user.$id);
@@ -107,6 +224,12 @@ export function useAuth() {
         throw new Error('Perfil de usuário não encontrado. Entre em contato com o administrador.');
       }
       
+      const sync = await syncUserSession(true);
+      if (sync.mfaRequired) {
+        setState(prev => ({ ...prev, loading: false }));
+        return { mfaRequired: sync.mfaRequired };
+      }
+
       setState(prev => ({ ...prev, user, profile, loading: false }));
       
       return { user, profile };
@@ -116,10 +239,56 @@ export function useAuth() {
     }
   };
 
-  const logout = async () => {
+  // Conclui o login após o segundo fator (resposta admin traz o perfil; usuário recebe o token da sessão Appwrite)
+  const finishMfaLogin = async (data: any) => {
+    if (data.profile) {
+      const adminSession = toAdminSession(data);
+      logger.auth.login('Administrador');
+      setState(prev => ({ ...prev, ...adminSession, loading: false, error: null }));
+      return adminSession;
+    }
+
+    // A sessão Appwrite só existe a partir daqui; a sincronização vincula o cookie já emitido a ela
+    await account.createSession(data.loginToken.userId, data.loginToken.secret);
+    await syncUserSession();
+    const user = await account.get();
+    const profile = await fetchUserProfile(user.$id);
+    if (!profile) {
+      throw new Error('Perfil de usuário não encontrado. Entre em contato com o administrador.');
+    }
+    logger.auth.login(user.email);
+    setState(prev => ({ ...prev, user, profile, loading: false, error: null }));
+    return { user, profile };
+  };
+
+  // Segunda etapa do login: código do aplicativo ou código de recuperação
+  const verifyMfa = async (code: string) => {
+    const data = await apiRequest('/api/auth/mfa/verify', { method: 'POST', body: { code } });
+    return finishMfaLogin(data);
+  };
+
+  // Cadastro obrigatório durante o login
+  const startMfaEnrollment = () => apiRequest<MfaSetupData>('/api/auth/mfa/setup', { method: 'POST' });
+
+  const activateMfaEnrollment = async (code: string) => {
+    const data = await apiRequest('/api/auth/mfa/activate', { method: 'POST', body: { code } });
+    const session = await finishMfaLogin(data);
+    return { ...session, recoveryCodes: data.recoveryCodes as string[] };
+  };
+
+  // Desiste da segunda etapa: descarta o desafio e uma eventual sessão Appwrite (o login normal só a cria após o código)
+  const cancelMfa = async () => {
+    await fetch('/api/auth/mfa/verify', { method: 'DELETE' }).catch(() => undefined);
+    await account.deleteSession('current').catch(() => undefined);
+    setState({ user: null, profile: null, loading: false, error: null });
+  };
+
+  // `reason` informa à tela de login por que a sessão terminou (inatividade ou encerrada remotamente)
+  const logout = async (reason?: SessionEndReason) => {
     try {
-      // Limpar a sessão admin se existir
-      sessionStorage.removeItem('isAdminLogin');
+      // Encerrar a sessão admin (cookie HttpOnly) se existir
+      await fetch('/api/admin/session', { method: 'DELETE' }).catch(() => undefined);
+      await fetch('/api/auth/session', { method: 'DELETE' }).catch(() => undefined);
       
       try {
         // Tentar fazer logout do Appwrite se não for admin
@@ -133,7 +302,7 @@ export function useAuth() {
       logger.auth.logout();
       
       // Redirecionar para login
-      window.location.href = '/login';
+      window.location.href = reason ? `/login?reason=${reason}` : '/login';
     } catch (error) {
       logger.auth.error('Falha no logout');
     }
@@ -142,44 +311,18 @@ export function useAuth() {
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        // Verificar primeiro se é admin login da sessionStorage
-        const isAdminLogin = sessionStorage.getItem('isAdminLogin') === 'true';
+        // Verificar primeiro se há sessão admin válida no servidor
+        const adminSession = await fetchAdminSession();
         
-        if (isAdminLogin) {
+        if (adminSession) {
           logger.ui.navigate('admin session');
-          const adminEmail = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
-          
-          const adminUser = {
-            $id: 'admin',
-            email: adminEmail || 'admin@example.com',
-            name: 'Administrador',
-            emailVerification: true,
-            phoneVerification: false,
-            prefs: {},
-            $createdAt: new Date().toISOString(),
-            $updatedAt: new Date().toISOString(),
-            registration: new Date().toISOString(),
-            status: true,
-            labels: [],
-            passwordUpdate: new Date().toISOString(),
-            phone: '',
-            accessedAt: new Date().toISOString(),
-            mfa: false,
-            targets: []
-          } as unknown as Models.User<Models.Preferences>;
-          
-          const adminProfile: UserProfile = {
-            $id: 'admin',
-            userId: 'admin',
-            name: 'Administrador',
-            email: 'admin@admin.com',
-            sector: Sector.TI,
-            role: Role.ADMIN,
-            $createdAt: new Date().toISOString(),
-            $updatedAt: new Date().toISOString()
-          };
-          
-          setState({ user: adminUser, profile: adminProfile, loading: false, error: null });
+          setState({ ...adminSession, loading: false, error: null });
+          return;
+        }
+
+        if (isDemoMode) {
+          const demoSession = await fetchDemoSession();
+          setState({ user: null, profile: null, ...demoSession, loading: false, error: null });
           return;
         }
         
@@ -197,6 +340,17 @@ export function useAuth() {
               logger.auth.error('Perfil não encontrado');
               setState({ user: null, profile: null, loading: false, error: 'Perfil de usuário não encontrado' });
             } else {
+              // Renova o cookie usado pelo middleware; se o servidor exigir o segundo
+              // fator (sessão expirada) ou um novo login, encerra a sessão Appwrite e volta ao login
+              const sync = await syncUserSession().catch(() => {
+                logger.auth.error('Falha ao renovar sessão no servidor');
+                return {} as { mfaRequired?: MfaStep; loginRequired?: boolean };
+              });
+              if (sync.mfaRequired || sync.loginRequired) {
+                await account.deleteSession('current').catch(() => undefined);
+                setState({ user: null, profile: null, loading: false, error: null });
+                return;
+              }
               setState({ user, profile, loading: false, error: null });
             }
           } else {
@@ -219,7 +373,12 @@ export function useAuth() {
     ...state,
     login,
     logout,
-    isAuthenticated: !!state.user,
+    verifyMfa,
+    startMfaEnrollment,
+    activateMfaEnrollment,
+    cancelMfa,
+    // Com perfil pré-carregado, autenticado até a verificação da sessão dizer o contrário
+    isAuthenticated: !!state.user || !!state.profile,
     isAdmin: state.profile?.role === Role.ADMIN,
     isManager: state.profile?.role === Role.MANAGER,
     isCollaborator: state.profile?.role === Role.COLLABORATOR
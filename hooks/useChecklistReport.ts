@@ -0,0 +1,40 @@
+/**
+ * Hook do relatório de integridade das respostas (somente admin)
+ * Consulta /api/admin/checklist-report sob demanda (a verificação percorre todas as submissões)
+ */
+
+import { useCallback, useState } from 'react';
+import type { InvalidChecklistRecord } from '@/lib/checklist-schema';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export function useChecklistReport() {
+  const [invalid, setInvalid] = useState<InvalidChecklistRecord[]>([]);
+  const [scanned, setScanned] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiRequest<{ scanned: number; invalid: InvalidChecklistRecord[] }>('/api/admin/checklist-report');
+      setScanned(data.scanned);
+      setInvalid(data.invalid);
+      logger.data.load('submissões com respostas inválidas', data.invalid.length);
+    } catch (err) {
+      logger.api.error('checklist-report', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao verificar respostas');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    invalid,
+    scanned,
+    loading,
+    error,
+    runReport
+  };
+}
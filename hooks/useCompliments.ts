@@ -1,21 +1,24 @@
-import { useCallback, useEffect, useState } from 'react';
-import { databases, DATABASE_ID, COMPLIMENTS_COLLECTION, type Compliment, type CreateComplimentData, Query } from '@/lib/appwrite';
+import { useCallback, useState } from 'react';
+import { COMPLIMENTS_COLLECTION, type Compliment, type CreateComplimentData } from '@/lib/appwrite';
+import { getRepositories } from '@/lib/repositories';
+import { applyRealtimeChange, type RealtimeChange } from '@/lib/realtime';
+import { useRealtimeCollection } from './useRealtimeCollection';
 
 export function useCompliments() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [compliments, setCompliments] = useState<Compliment[] | null>(null);
+  // Colaborador cujos elogios estão carregados (assinatura em tempo real)
+  const [collaboratorId, setCollaboratorId] = useState<string | null>(null);
+  // Elogios recebidos em tempo real e ainda não vistos
+  const [newComplimentIds, setNewComplimentIds] = useState<Set<string>>(new Set());
 
   const fetchComplimentsForUser = useCallback(async (collaboratorId: string) => {
+    setCollaboratorId(collaboratorId);
     setLoading(true);
     setError(null);
     try {
-      const res = await databases.listDocuments(DATABASE_ID, COMPLIMENTS_COLLECTION, [
-        Query.equal('collaboratorId', collaboratorId),
-        Query.orderDesc('$createdAt'),
-        Query.limit(20)
-      ]);
-      setCompliments(res.documents as unknown as Compliment[]);
+      setCompliments(await getRepositories().compliments.listByCollaborator(collaboratorId, { limit: 20 }));
     } catch (e: any) {
       setError(e.message || 'Erro ao buscar elogios');
     } finally {
@@ -27,15 +30,7 @@ export function useCompliments() {
     setLoading(true);
     setError(null);
     try {
-      const payload = {
-        managerId: data.managerId,
-        collaboratorId: data.collaboratorId,
-        message: data.message,
-        presetKey: data.presetKey || null,
-        isRead: false,
-      } as any;
-      const doc = await databases.createDocument(DATABASE_ID, COMPLIMENTS_COLLECTION, 'unique()', payload);
-      return doc as unknown as Compliment;
+      return await getRepositories().compliments.create(data);
     } catch (e: any) {
       setError(e.message || 'Erro ao criar elogio');
       throw e;
@@ -47,18 +42,11 @@ export function useCompliments() {
   const markComplimentsAsRead = useCallback(async (collaboratorId: string) => {
     try {
       // Buscar elogios não lidos do colaborador
-      const unreadCompliments = await databases.listDocuments(DATABASE_ID, COMPLIMENTS_COLLECTION, [
-        Query.equal('collaboratorId', collaboratorId),
-        Query.equal('isRead', false),
-        Query.limit(100)
-      ]);
+      const { compliments: repository } = getRepositories();
+      const unreadCompliments = await repository.listByCollaborator(collaboratorId, { unreadOnly: true, limit: 100 });
 
       // Marcar todos como lidos
-      const updatePromises = unreadCompliments.documents.map(doc =>
-        databases.updateDocument(DATABASE_ID, COMPLIMENTS_COLLECTION, doc.$id, { isRead: true })
-      );
-
-      await Promise.all(updatePromises);
+      await repository.markAsRead(unreadCompliments.map(compliment => compliment.$id));
 
       // Atualizar estado local
       setCompliments(prev => 
@@ -69,6 +57,33 @@ export function useCompliments() {
     }
   }, []);
 
+  // Novos elogios do colaborador carregado chegam sem recarregar a página
+  const handleRealtimeChange = useCallback((change: RealtimeChange<Compliment>) => {
+    if (change.action !== 'delete' && change.document.collaboratorId !== collaboratorId) return;
+    setCompliments(prev => (prev ? applyRealtimeChange(prev, change) : prev));
+    if (change.action === 'create') {
+      setNewComplimentIds(prev => new Set(prev).add(change.document.$id));
+    }
+  }, [collaboratorId]);
+
+  const markComplimentsSeen = useCallback(() => {
+    setNewComplimentIds(prev => (prev.size === 0 ? prev : new Set()));
+  }, []);
+
+  const resync = useCallback(() => {
+    if (collaboratorId) {
+      getRepositories().compliments.listByCollaborator(collaboratorId, { limit: 20 })
+        .then(setCompliments)
+        .catch((e: any) => console.error('Erro ao ressincronizar elogios:', e));
+    }
+  }, [collaboratorId]);
+
+  useRealtimeCollection<Compliment>(COMPLIMENTS_COLLECTION, {
+    enabled: !!collaboratorId,
+    onChange: handleRealtimeChange,
+    onResync: resync
+  });
+
   return {
     loading,
     error,
@@ -76,6 +91,8 @@ export function useCompliments() {
     fetchComplimentsForUser,
     createCompliment,
     markComplimentsAsRead,
+    newComplimentIds,
+    markComplimentsSeen,
   };
 }
 
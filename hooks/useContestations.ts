@@ -1,17 +1,34 @@
 /**
  * Hook para gerenciar contestações de metas
- * Permite criar, listar e atualizar contestações
+ * Permite criar, listar e atualizar contestações; mudanças de outros usuários chegam em tempo real
  */
 
 import { useState, useEffect } from 'react';
-import { databases, ID, Query } from '@/lib/appwrite';
-import { DATABASE_ID, CONTESTATIONS_COLLECTION } from '@/lib/appwrite';
-import { Contestation, CreateContestationData } from '@/lib/appwrite';
+import { CONTESTATIONS_COLLECTION, Contestation, CreateContestationData } from '@/lib/appwrite';
+import { getRepositories } from '@/lib/repositories';
+import { applyRealtimeChange, type RealtimeChange } from '@/lib/realtime';
+import { useRealtimeCollection } from './useRealtimeCollection';
+
+// Versão do registro: o servidor atualiza updatedAt a cada escrita
+const revisionOf = (contestation: Pick<Contestation, 'createdAt' | 'updatedAt'>) =>
+  contestation.updatedAt ?? contestation.createdAt;
 
 export const useContestations = () => {
   const [contestations, setContestations] = useState<Contestation[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Contestações criadas ou alteradas por outros usuários e ainda não vistas
+  const [newContestationIds, setNewContestationIds] = useState<Set<string>>(new Set());
+
+  // Remove o destaque de "nova" (todas ou apenas as informadas)
+  const markContestationsSeen = (ids?: string[]) => {
+    setNewContestationIds(prev => {
+      if (!ids) return prev.size === 0 ? prev : new Set();
+      const next = new Set(prev);
+      ids.forEach(id => next.delete(id));
+      return next;
+    });
+  };
 
   // Buscar todas as contestações
   const fetchContestations = async () => {
@@ -19,13 +36,7 @@ export const useContestations = () => {
       setLoading(true);
       setError(null);
       
-      const response = await databases.listDocuments(
-        DATABASE_ID,
-        CONTESTATIONS_COLLECTION,
-        [Query.limit(500)]
-      );
-      
-      setContestations(response.documents as unknown as Contestation[]);
+      setContestations(await getRepositories().contestations.list());
     } catch (err) {
       console.error('Erro ao buscar contestações:', err);
       setError('Erro ao carregar contestações');
@@ -40,16 +51,7 @@ export const useContestations = () => {
       setLoading(true);
       setError(null);
       
-      const response = await databases.listDocuments(
-        DATABASE_ID,
-        CONTESTATIONS_COLLECTION,
-        [
-          Query.equal('collaboratorId', collaboratorId),
-          Query.limit(100)
-        ]
-      );
-      
-      return response.documents as unknown as Contestation[];
+      return await getRepositories().contestations.list({ collaboratorId });
     } catch (err) {
       console.error('Erro ao buscar contestações do colaborador:', err);
       setError('Erro ao carregar contestações');
@@ -65,16 +67,7 @@ export const useContestations = () => {
       setLoading(true);
       setError(null);
       
-      const response = await databases.listDocuments(
-        DATABASE_ID,
-        CONTESTATIONS_COLLECTION,
-        [
-          Query.equal('managerId', managerId),
-          Query.limit(100)
-        ]
-      );
-      
-      return response.documents as unknown as Contestation[];
+      return await getRepositories().contestations.list({ managerId });
     } catch (err) {
       console.error('Erro ao buscar contestações do gestor:', err);
       setError('Erro ao carregar contestações');
@@ -90,21 +83,14 @@ export const useContestations = () => {
       setLoading(true);
       setError(null);
       
-      const response = await databases.createDocument(
-        DATABASE_ID,
-        CONTESTATIONS_COLLECTION,
-        ID.unique(),
-        {
-          ...data,
-          status: 'pending',
-          createdAt: new Date().toISOString()
-        }
-      );
+      // Escrita via API para registrar auditoria no servidor (em memória no modo demonstração)
+      const contestation = await getRepositories().contestations.create(data);
       
-      // Atualizar lista local
-      setContestations(prev => [response as unknown as Contestation, ...prev]);
+      // Atualizar lista local (o evento em tempo real pode ter chegado antes da resposta)
+      setContestations(prev => applyRealtimeChange(prev, { action: 'create', document: contestation }));
+      markContestationsSeen([contestation.$id]);
       
-      return response as unknown as Contestation;
+      return contestation;
     } catch (err) {
       console.error('Erro ao criar contestação:', err);
       setError('Erro ao criar contestação');
@@ -123,26 +109,20 @@ export const useContestations = () => {
       setLoading(true);
       setError(null);
       
-      const response = await databases.updateDocument(
-        DATABASE_ID,
-        CONTESTATIONS_COLLECTION,
-        contestationId,
-        {
-          ...updates,
-          ...(updates.status === 'resolved' && { resolvedAt: new Date().toISOString() })
-        }
-      );
+      // O servidor define resolvedAt/updatedAt e registra auditoria
+      const updated = await getRepositories().contestations.update(contestationId, updates);
       
       // Atualizar lista local
       setContestations(prev => 
         prev.map(contestation => 
           contestation.$id === contestationId 
-            ? response as unknown as Contestation 
+            ? updated 
             : contestation
         )
       );
+      markContestationsSeen([contestationId]);
       
-      return response as unknown as Contestation;
+      return updated;
     } catch (err) {
       console.error('Erro ao atualizar contestação:', err);
       setError('Erro ao atualizar contestação');
@@ -176,6 +156,25 @@ export const useContestations = () => {
     fetchContestations();
   }, []);
 
+  // Mudanças em tempo real; as que já estão na lista local (escritas por este usuário) não são destacadas
+  const handleRealtimeChange = (change: RealtimeChange<Contestation>) => {
+    const { action, document } = change;
+    const current = contestations.find(contestation => contestation.$id === document.$id);
+    setContestations(prev => applyRealtimeChange(prev, change));
+
+    if (action === 'delete') {
+      markContestationsSeen([document.$id]);
+    } else if (!current || revisionOf(current) !== revisionOf(document)) {
+      setNewContestationIds(prev => new Set(prev).add(document.$id));
+    }
+  };
+
+  useRealtimeCollection<Contestation>(CONTESTATIONS_COLLECTION, {
+    enabled: true,
+    onChange: handleRealtimeChange,
+    onResync: fetchContestations
+  });
+
   return {
     contestations,
     loading,
@@ -186,6 +185,8 @@ export const useContestations = () => {
     createContestation,
     updateContestation,
     isGoalContested,
-    getPendingContestations
+    getPendingContestations,
+    newContestationIds,
+    markContestationsSeen
   };
 };
@@ -0,0 +1,70 @@
+/**
+ * Hook dos roles personalizados (somente admin)
+ * Lista os roles e a matriz padrão; cria, edita e remove via /api/admin/roles
+ */
+
+import { useCallback, useState } from 'react';
+import type { CustomRole, Permission } from '@/lib/permissions';
+import type { Role } from '@/lib/roles';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export interface CustomRoleData {
+  name: string;
+  description?: string;
+  baseRole: Role;
+  permissions: Permission[];
+}
+
+export function useCustomRoles() {
+  const [roles, setRoles] = useState<CustomRole[]>([]);
+  const [defaults, setDefaults] = useState<Record<Role, Permission[]> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRoles = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiRequest<{ roles: CustomRole[]; defaults: Record<Role, Permission[]> }>('/api/admin/roles');
+      setRoles(data.roles);
+      setDefaults(data.defaults);
+      logger.data.load('roles personalizados', data.roles.length);
+    } catch (err) {
+      logger.api.error('roles', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao carregar roles personalizados');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createRole = useCallback(async (data: CustomRoleData) => {
+    const { role } = await apiRequest<{ role: CustomRole }>('/api/admin/roles', { method: 'POST', body: data });
+    setRoles(prev => [...prev, role].sort((a, b) => a.name.localeCompare(b.name)));
+    logger.data.save('role personalizado');
+    return role;
+  }, []);
+
+  const updateRole = useCallback(async (roleId: string, data: CustomRoleData) => {
+    const { role } = await apiRequest<{ role: CustomRole }>('/api/admin/roles', { method: 'PATCH', body: { roleId, ...data } });
+    setRoles(prev => prev.map(item => (item.$id === roleId ? role : item)));
+    logger.data.save('role personalizado');
+    return role;
+  }, []);
+
+  const deleteRole = useCallback(async (roleId: string) => {
+    await apiRequest('/api/admin/roles', { method: 'DELETE', body: { roleId } });
+    setRoles(prev => prev.filter(item => item.$id !== roleId));
+  }, []);
+
+  return {
+    roles,
+    defaults,
+    loading,
+    error,
+    fetchRoles,
+    createRole,
+    updateRole,
+    deleteRole
+  };
+}
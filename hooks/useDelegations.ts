@@ -0,0 +1,67 @@
+/**
+ * Hook de delegações de gestor
+ * Lista as delegações vigentes e os setores geridos pelo usuário logado,
+ * cria e revoga delegações via /api/delegations
+ */
+
+import { useCallback, useState } from 'react';
+import type { ManagerDelegation, Sector } from '@/lib/appwrite';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export interface CreateDelegationData {
+  managerProfileId?: string; // obrigatório apenas para o admin
+  delegateProfileId: string;
+  sectors: Sector[];
+  startsAt: string;
+  endsAt: string;
+  reason?: string;
+}
+
+// initialManagedSectors: setores geridos resolvidos no servidor (lib/server-helpers.ts)
+export function useDelegations(initialManagedSectors: Sector[] = []) {
+  const [delegations, setDelegations] = useState<ManagerDelegation[]>([]);
+  const [managedSectors, setManagedSectors] = useState<Sector[]>(initialManagedSectors);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDelegations = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiRequest<{ delegations: ManagerDelegation[]; managedSectors: Sector[] }>('/api/delegations');
+      setDelegations(data.delegations);
+      setManagedSectors(data.managedSectors);
+      logger.data.load('delegações', data.delegations.length);
+    } catch (err) {
+      logger.api.error('delegations', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao carregar delegações');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createDelegation = useCallback(async (data: CreateDelegationData) => {
+    const { delegation } = await apiRequest<{ delegation: ManagerDelegation }>('/api/delegations', {
+      method: 'POST',
+      body: data
+    });
+    setDelegations(prev => [...prev, delegation]);
+    return delegation;
+  }, []);
+
+  const revokeDelegation = useCallback(async (delegationId: string) => {
+    await apiRequest(`/api/delegations/${delegationId}`, { method: 'DELETE' });
+    setDelegations(prev => prev.filter(delegation => delegation.$id !== delegationId));
+  }, []);
+
+  return {
+    delegations,
+    managedSectors,
+    loading,
+    error,
+    fetchDelegations,
+    createDelegation,
+    revokeDelegation
+  };
+}
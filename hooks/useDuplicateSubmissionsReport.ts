@@ -0,0 +1,40 @@
+/**
+ * Hook do relatório de submissões duplicadas (somente admin)
+ * Consulta /api/admin/duplicate-submissions sob demanda (a verificação percorre todas as submissões)
+ */
+
+import { useCallback, useState } from 'react';
+import type { DuplicateSubmissionGroup } from '@/lib/submission-duplicates';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export function useDuplicateSubmissionsReport() {
+  const [groups, setGroups] = useState<DuplicateSubmissionGroup[]>([]);
+  const [scanned, setScanned] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiRequest<{ scanned: number; groups: DuplicateSubmissionGroup[] }>('/api/admin/duplicate-submissions');
+      setScanned(data.scanned);
+      setGroups(data.groups);
+      logger.data.load('grupos de submissões duplicadas', data.groups.length);
+    } catch (err) {
+      logger.api.error('duplicate-submissions', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao procurar duplicadas');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    groups,
+    scanned,
+    loading,
+    error,
+    runReport
+  };
+}
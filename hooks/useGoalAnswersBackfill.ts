@@ -0,0 +1,38 @@
+/**
+ * Hook da migração das respostas por meta (somente admin)
+ * Simula ou executa o preenchimento de goal_answers via /api/admin/goal-answers-backfill
+ */
+
+import { useCallback, useState } from 'react';
+import type { GoalAnswersBackfillResult } from '@/lib/goal-answers';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export function useGoalAnswersBackfill() {
+  const [result, setResult] = useState<GoalAnswersBackfillResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const runBackfill = useCallback(async (dryRun: boolean) => {
+    setLoading(true);
+    try {
+      const data = await apiRequest<{ result: GoalAnswersBackfillResult }>('/api/admin/goal-answers-backfill', {
+        method: 'POST',
+        body: { dryRun }
+      });
+      setResult(data.result);
+      logger.data.save(dryRun ? 'simulação da migração' : 'migração das respostas');
+      return data.result;
+    } catch (err) {
+      logger.api.error('goal-answers-backfill', err instanceof Error ? err.message : 'Erro desconhecido');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    result,
+    loading,
+    runBackfill
+  };
+}
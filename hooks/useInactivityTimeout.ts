@@ -0,0 +1,137 @@
+/**
+ * Hook do tempo limite de inatividade
+ * Acompanha a atividade do usuário (compartilhada entre abas), envia heartbeat ao
+ * servidor enquanto há uso e avisa antes de encerrar a sessão ociosa
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiRequestError, apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export type SessionEndReason = 'idle' | 'revoked';
+
+// Aviso exibido antes do encerramento por inatividade
+export const INACTIVITY_WARNING_SECONDS = 60;
+
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+const ACTIVITY_STORAGE_KEY = 'metas:last-activity';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
+interface InactivityTimeoutOptions {
+  enabled: boolean;
+  onSessionEnd: (reason: SessionEndReason) => void;
+}
+
+export function useInactivityTimeout({ enabled, onSessionEnd }: InactivityTimeoutOptions) {
+  const [timeoutMinutes, setTimeoutMinutes] = useState(0); // 0 = desativado (valor vem do servidor)
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null); // contagem regressiva do aviso
+
+  const lastActivityRef = useRef(Date.now());
+  const lastHeartbeatRef = useRef(0);
+  const warningRef = useRef(false);
+  const endedRef = useRef(false);
+  const onSessionEndRef = useRef(onSessionEnd);
+
+  useEffect(() => {
+    onSessionEndRef.current = onSessionEnd;
+  }, [onSessionEnd]);
+
+  const endSession = useCallback((reason: SessionEndReason) => {
+    if (endedRef.current) return;
+    endedRef.current = true;
+    setSecondsLeft(null);
+    onSessionEndRef.current(reason);
+  }, []);
+
+  const registerActivity = useCallback(() => {
+    const now = Date.now();
+    lastActivityRef.current = now;
+    try {
+      localStorage.setItem(ACTIVITY_STORAGE_KEY, String(now));
+    } catch {
+      // armazenamento indisponível: a atividade vale apenas para esta aba
+    }
+  }, []);
+
+  // Renova a sessão no servidor e obtém o tempo limite configurado
+  const sendHeartbeat = useCallback(async () => {
+    lastHeartbeatRef.current = Date.now();
+    try {
+      const data = await apiRequest<{ inactivityTimeoutMinutes: number }>('/api/auth/session', { method: 'PATCH' });
+      setTimeoutMinutes(data.inactivityTimeoutMinutes);
+    } catch (err) {
+      if (err instanceof ApiRequestError && err.status === 401) {
+        endSession(err.code === 'session_idle' ? 'idle' : 'revoked');
+        return;
+      }
+      logger.api.error('session', err instanceof Error ? err.message : 'Erro desconhecido');
+    }
+  }, [endSession]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    endedRef.current = false;
+    registerActivity();
+    sendHeartbeat();
+
+    // Durante o aviso, só o botão "Continuar conectado" mantém a sessão
+    const handleActivity = () => {
+      if (!warningRef.current && Date.now() - lastActivityRef.current > 1000) {
+        registerActivity();
+      }
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === ACTIVITY_STORAGE_KEY && event.newValue) {
+        lastActivityRef.current = Math.max(lastActivityRef.current, Number(event.newValue));
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(eventName => window.addEventListener(eventName, handleActivity, { passive: true }));
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      ACTIVITY_EVENTS.forEach(eventName => window.removeEventListener(eventName, handleActivity));
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [enabled, registerActivity, sendHeartbeat]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      if (lastActivityRef.current > lastHeartbeatRef.current && now - lastHeartbeatRef.current >= HEARTBEAT_INTERVAL_MS) {
+        sendHeartbeat();
+      }
+
+      if (timeoutMinutes <= 0) return;
+
+      const remaining = Math.ceil((lastActivityRef.current + timeoutMinutes * 60 * 1000 - now) / 1000);
+      if (remaining <= 0) {
+        endSession('idle');
+      } else if (remaining <= INACTIVITY_WARNING_SECONDS) {
+        warningRef.current = true;
+        setSecondsLeft(remaining);
+      } else if (warningRef.current) {
+        // Atividade em outra aba dispensa o aviso
+        warningRef.current = false;
+        setSecondsLeft(null);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [enabled, timeoutMinutes, sendHeartbeat, endSession]);
+
+  const stayActive = useCallback(() => {
+    warningRef.current = false;
+    setSecondsLeft(null);
+    registerActivity();
+    sendHeartbeat();
+  }, [registerActivity, sendHeartbeat]);
+
+  return {
+    timeoutMinutes,
+    secondsLeft,
+    warningOpen: secondsLeft !== null,
+    stayActive
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Hook para gerenciar bloqueios de login (somente admin)
+ * Lista e desbloqueia registros via /api/admin/lockouts
+ */
+
+import { useCallback, useState } from 'react';
+import type { LoginAttemptRecord } from '@/lib/appwrite';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export function useLoginLockouts() {
+  const [lockouts, setLockouts] = useState<LoginAttemptRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLockouts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiRequest<{ lockouts: LoginAttemptRecord[] }>('/api/admin/lockouts');
+      setLockouts(data.lockouts);
+      logger.data.load('bloqueios de login', data.lockouts.length);
+    } catch (err) {
+      logger.api.error('lockouts', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao carregar bloqueios');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const unlock = useCallback(async (recordId: string) => {
+    await apiRequest('/api/admin/lockouts', { method: 'DELETE', body: { recordId } });
+    setLockouts(prev => prev.filter(record => record.$id !== recordId));
+  }, []);
+
+  return {
+    lockouts,
+    loading,
+    error,
+    fetchLockouts,
+    unlock
+  };
+}
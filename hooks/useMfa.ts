@@ -0,0 +1,67 @@
+/**
+ * Hook do segundo fator do usuário logado (gestores e admin)
+ * Consulta, cadastra, desativa e gera novos códigos de recuperação via /api/auth/mfa
+ */
+
+import { useCallback, useState } from 'react';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+import type { MfaSetupData } from '@/hooks/useAuth';
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export function useMfa() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setStatus(await apiRequest<MfaStatus>('/api/auth/mfa'));
+    } catch (err) {
+      logger.api.error('mfa', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao carregar verificação em duas etapas');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const startEnrollment = useCallback(
+    () => apiRequest<MfaSetupData>('/api/auth/mfa/setup', { method: 'POST' }),
+    []
+  );
+
+  const activate = useCallback(async (code: string) => {
+    const data = await apiRequest<{ recoveryCodes: string[] }>('/api/auth/mfa/activate', { method: 'POST', body: { code } });
+    return data.recoveryCodes;
+  }, []);
+
+  const disable = useCallback(async (code: string) => {
+    await apiRequest('/api/auth/mfa', { method: 'DELETE', body: { code } });
+    await fetchStatus();
+  }, [fetchStatus]);
+
+  const regenerateRecoveryCodes = useCallback(async (code: string) => {
+    const data = await apiRequest<{ recoveryCodes: string[] }>('/api/auth/mfa/recovery-codes', { method: 'POST', body: { code } });
+    await fetchStatus();
+    return data.recoveryCodes;
+  }, [fetchStatus]);
+
+  return {
+    status,
+    loading,
+    error,
+    fetchStatus,
+    startEnrollment,
+    activate,
+    disable,
+    regenerateRecoveryCodes
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Hook da fila offline de submissões
+ * Lista os envios guardados no aparelho e os sincroniza ao voltar a conexão (e ao abrir a página),
+ * em ordem de preenchimento; falhas de rede mantêm o item pendente
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  enqueueSubmission,
+  isOfflineQueueAvailable,
+  isRetryableError,
+  listQueuedSubmissions,
+  removeQueuedSubmission,
+  updateQueuedSubmission,
+  type NewQueuedSubmission,
+  type QueuedSubmission
+} from '@/lib/offline-queue';
+import { logger } from '@/lib/logger';
+
+interface OfflineQueueOptions {
+  profileId?: string;
+  // Envia um item da fila (idempotente pelo ID do item)
+  submit: (entry: QueuedSubmission) => Promise<unknown>;
+  onSynced?: (count: number) => void;
+}
+
+export function useOfflineQueue({ profileId, submit, onSynced }: OfflineQueueOptions) {
+  const [queued, setQueued] = useState<QueuedSubmission[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  // Última sincronização que enviou itens (exibida quando a fila esvazia)
+  const [lastSync, setLastSync] = useState<{ count: number; at: Date } | null>(null);
+
+  const syncingRef = useRef(false);
+  const submitRef = useRef(submit);
+  const onSyncedRef = useRef(onSynced);
+
+  useEffect(() => {
+    submitRef.current = submit;
+    onSyncedRef.current = onSynced;
+  }, [submit, onSynced]);
+
+  const refresh = useCallback(async () => {
+    if (!profileId || !isOfflineQueueAvailable()) return;
+    try {
+      setQueued(await listQueuedSubmissions(profileId));
+    } catch (error: any) {
+      logger.api.error('fila offline', error?.message || 'IndexedDB indisponível');
+    }
+  }, [profileId]);
+
+  const enqueue = useCallback(async (entry: NewQueuedSubmission) => {
+    await enqueueSubmission(entry);
+    await refresh();
+  }, [refresh]);
+
+  const syncNow = useCallback(async () => {
+    if (!profileId || !isOfflineQueueAvailable() || syncingRef.current) return 0;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    let synced = 0;
+    try {
+      for (const entry of await listQueuedSubmissions(profileId)) {
+        if (entry.status === 'failed') continue;
+        try {
+          await submitRef.current(entry);
+          await removeQueuedSubmission(entry.id);
+          synced++;
+        } catch (error: any) {
+          const lastError = error?.message || 'Erro desconhecido';
+          if (isRetryableError(error)) {
+            // Sem conexão: interrompe e tenta novamente no próximo evento online
+            await updateQueuedSubmission({ ...entry, attempts: entry.attempts + 1, lastError });
+            break;
+          }
+          await updateQueuedSubmission({ ...entry, status: 'failed', attempts: entry.attempts + 1, lastError });
+        }
+      }
+    } catch (error: any) {
+      logger.api.error('fila offline', error?.message || 'IndexedDB indisponível');
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await refresh();
+    }
+
+    if (synced > 0) {
+      logger.data.save(`${synced} submissão(ões) da fila offline`);
+      setLastSync({ count: synced, at: new Date() });
+      onSyncedRef.current?.(synced);
+    }
+    return synced;
+  }, [profileId, refresh]);
+
+  // Item rejeitado volta para a fila (ex.: após o gestor ajustar a meta)
+  const retry = useCallback(async (id: string) => {
+    const entry = queued.find(item => item.id === id);
+    if (!entry) return;
+    await updateQueuedSubmission({ ...entry, status: 'pending' });
+    await syncNow();
+  }, [queued, syncNow]);
+
+  const discard = useCallback(async (id: string) => {
+    await removeQueuedSubmission(id);
+    await refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!profileId) return;
+    setIsOnline(navigator.onLine);
+    refresh().then(() => {
+      if (navigator.onLine) syncNow();
+    });
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [profileId, refresh, syncNow]);
+
+  return {
+    queued,
+    syncing,
+    isOnline,
+    lastSync,
+    enqueue,
+    syncNow,
+    retry,
+    discard
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Hook da exportação da folha de recompensas (permissão rewards.release)
+ * Baixa o arquivo de /api/rewards/payroll-export e o salva no navegador
+ */
+
+import { useCallback, useState } from 'react';
+import type { Sector } from '@/lib/appwrite';
+import type { PayrollExportFormat } from '@/lib/payroll-export';
+import { apiDownload } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export function usePayrollExport() {
+  const [exporting, setExporting] = useState<PayrollExportFormat | null>(null);
+
+  const downloadPayroll = useCallback(async (closingPeriod: string, format: PayrollExportFormat, sector?: Sector) => {
+    setExporting(format);
+    try {
+      const params = new URLSearchParams({ closingPeriod, format, ...(sector ? { sector } : {}) });
+      const { blob, filename } = await apiDownload(`/api/rewards/payroll-export?${params}`);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      logger.data.save(`arquivo ${filename}`);
+      return filename;
+    } catch (err) {
+      logger.api.error('payroll-export', err instanceof Error ? err.message : 'Erro desconhecido');
+      throw err;
+    } finally {
+      setExporting(null);
+    }
+  }, []);
+
+  return {
+    exporting,
+    downloadPayroll
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Hook de permissões do usuário logado
+ * Começa com as permissões padrão do role e carrega as efetivas
+ * (role personalizado e delegações) de /api/auth/permissions
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { UserProfile } from '@/lib/appwrite';
+import { hasPermission, resolvePermissions, type Permission } from '@/lib/permissions';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export function usePermissions(profile: UserProfile | null) {
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchPermissions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await apiRequest<{ permissions: Permission[] }>('/api/auth/permissions');
+      setPermissions(data.permissions);
+    } catch (err) {
+      logger.api.error('permissions', err instanceof Error ? err.message : 'Erro desconhecido');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const role = profile?.role;
+  useEffect(() => {
+    if (!role) {
+      setPermissions([]);
+      return;
+    }
+    setPermissions(resolvePermissions(role));
+    fetchPermissions();
+  }, [role, fetchPermissions]);
+
+  const can = useCallback(
+    (permission: Permission | Permission[]) => !!role && hasPermission({ role, permissions }, permission),
+    [role, permissions]
+  );
+
+  return {
+    permissions,
+    loading,
+    can,
+    fetchPermissions
+  };
+}
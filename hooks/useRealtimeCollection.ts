@@ -0,0 +1,66 @@
+/**
+ * Hook de assinatura em tempo real de uma coleção
+ * Repassa as mudanças de documentos e, ao voltar a conexão ou a aba ficar visível,
+ * refaz a assinatura e pede uma ressincronização (eventos perdidos não são reenviados)
+ */
+
+import { useEffect, useRef } from 'react';
+import { isRealtimeAvailable, subscribeToCollection, type RealtimeChange } from '@/lib/realtime';
+import { logger } from '@/lib/logger';
+
+// Abas em segundo plano podem ter o socket suspenso; acima disso a lista é recarregada
+const RESYNC_AFTER_HIDDEN_MS = 30 * 1000;
+
+interface RealtimeCollectionOptions<T> {
+  enabled: boolean;
+  onChange: (change: RealtimeChange<T>) => void;
+  // Recarrega a lista completa (mudanças perdidas enquanto desconectado)
+  onResync?: () => void;
+}
+
+export function useRealtimeCollection<T>(collectionId: string, { enabled, onChange, onResync }: RealtimeCollectionOptions<T>) {
+  const onChangeRef = useRef(onChange);
+  const onResyncRef = useRef(onResync);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+    onResyncRef.current = onResync;
+  }, [onChange, onResync]);
+
+  useEffect(() => {
+    if (!enabled || !collectionId || !isRealtimeAvailable()) return;
+
+    let unsubscribe = subscribeToCollection<T>(collectionId, change => onChangeRef.current(change));
+    let hiddenAt: number | null = null;
+
+    // Nova assinatura recria o socket se o SDK desistiu de reconectar
+    const resubscribe = (reason: string) => {
+      unsubscribe();
+      unsubscribe = subscribeToCollection<T>(collectionId, change => onChangeRef.current(change));
+      logger.realtime.resync(collectionId, reason);
+      onResyncRef.current?.();
+    };
+
+    const handleOnline = () => resubscribe('conexão restabelecida');
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        hiddenAt = Date.now();
+      } else if (hiddenAt !== null) {
+        const hiddenFor = Date.now() - hiddenAt;
+        hiddenAt = null;
+        if (hiddenFor >= RESYNC_AFTER_HIDDEN_MS) {
+          resubscribe('aba visível novamente');
+        }
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      unsubscribe();
+    };
+  }, [collectionId, enabled]);
+}
@@ -0,0 +1,90 @@
+/**
+ * Hook da aprovação de recompensas
+ * Lista as recompensas fechadas com o status e aplica as ações em lote via /api/rewards/approvals
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import type { Sector } from '@/lib/appwrite';
+import type { RewardAction, RewardActionFailure, RewardItem } from '@/lib/reward-approvals';
+import { ApiRequestError, apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export interface RewardItemsFilters {
+  closingPeriod?: string; // AAAA-MM; ausente: últimos meses
+  sector?: Sector;
+  mine?: boolean; // apenas as recompensas do próprio usuário
+}
+
+export interface RewardActionResponse {
+  updated: RewardItem[];
+  failed: RewardActionFailure[];
+}
+
+export function useRewardApprovals() {
+  const [items, setItems] = useState<RewardItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [actionInProgress, setActionInProgress] = useState<RewardAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const lastFiltersRef = useRef<RewardItemsFilters>({});
+
+  const fetchItems = useCallback(async (filters: RewardItemsFilters = {}) => {
+    lastFiltersRef.current = filters;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        ...(filters.closingPeriod ? { closingPeriod: filters.closingPeriod } : {}),
+        ...(filters.sector ? { sector: filters.sector } : {}),
+        ...(filters.mine ? { mine: '1' } : {})
+      });
+      const data = await apiRequest<{ items: RewardItem[] }>(`/api/rewards/approvals?${params}`);
+      setItems(data.items);
+      logger.data.load('recompensas fechadas', data.items.length);
+    } catch (err) {
+      logger.api.error('reward-approvals', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao carregar as recompensas');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Ações são aplicadas por mês: as chaves selecionadas são agrupadas pelo mês do fechamento
+  const applyAction = useCallback(async (action: RewardAction, selected: RewardItem[], reason?: string) => {
+    setActionInProgress(action);
+    try {
+      const byPeriod = new Map<string, string[]>();
+      selected.forEach(item => byPeriod.set(item.closingPeriod, [...(byPeriod.get(item.closingPeriod) ?? []), item.key]));
+
+      const result: RewardActionResponse = { updated: [], failed: [] };
+      for (const [closingPeriod, keys] of Array.from(byPeriod.entries())) {
+        const data = await apiRequest<RewardActionResponse>('/api/rewards/approvals', {
+          method: 'POST',
+          body: { closingPeriod, action, keys, ...(reason ? { reason } : {}) }
+        });
+        result.updated.push(...data.updated);
+        result.failed.push(...data.failed);
+      }
+      logger.data.save(`${result.updated.length} recompensa(s) (${action})`);
+      await fetchItems(lastFiltersRef.current);
+      return result;
+    } catch (err) {
+      logger.api.error('reward-approvals', err instanceof Error ? err.message : 'Erro desconhecido');
+      // Conflito: outra pessoa decidiu antes; a lista é recarregada com o status atual
+      if (err instanceof ApiRequestError && err.status === 409) {
+        await fetchItems(lastFiltersRef.current);
+      }
+      throw err;
+    } finally {
+      setActionInProgress(null);
+    }
+  }, [fetchItems]);
+
+  return {
+    items,
+    loading,
+    actionInProgress,
+    error,
+    fetchItems,
+    applyAction
+  };
+}
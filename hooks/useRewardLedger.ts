@@ -0,0 +1,63 @@
+/**
+ * Hook do razão de recompensas (somente admin)
+ * Consulta os lançamentos de um mês e executa o fechamento via /api/admin/reward-ledger
+ */
+
+import { useCallback, useState } from 'react';
+import type { RewardClosing, RewardLedgerEntry, Sector } from '@/lib/appwrite';
+import type { RewardClosingResult } from '@/lib/reward-ledger';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export function useRewardLedger() {
+  const [closings, setClosings] = useState<RewardClosing[]>([]);
+  const [entries, setEntries] = useState<RewardLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [closingInProgress, setClosingInProgress] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLedger = useCallback(async (closingPeriod: string, sector?: Sector) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ closingPeriod, ...(sector ? { sector } : {}) });
+      const data = await apiRequest<{ closings: RewardClosing[]; entries: RewardLedgerEntry[] }>(`/api/admin/reward-ledger?${params}`);
+      setClosings(data.closings);
+      setEntries(data.entries);
+      logger.data.load('lançamentos do razão de recompensas', data.entries.length);
+    } catch (err) {
+      logger.api.error('reward-ledger', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao carregar o razão de recompensas');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const closePeriod = useCallback(async (closingPeriod: string, sector?: Sector, reason?: string) => {
+    setClosingInProgress(true);
+    try {
+      const data = await apiRequest<{ results: RewardClosingResult[] }>('/api/admin/reward-ledger', {
+        method: 'POST',
+        body: { closingPeriod, ...(sector ? { sectors: [sector] } : {}), ...(reason ? { reason } : {}) }
+      });
+      logger.data.save(`fechamento de recompensas ${closingPeriod}`);
+      await fetchLedger(closingPeriod, sector);
+      return data.results;
+    } catch (err) {
+      logger.api.error('reward-ledger', err instanceof Error ? err.message : 'Erro desconhecido');
+      throw err;
+    } finally {
+      setClosingInProgress(false);
+    }
+  }, [fetchLedger]);
+
+  return {
+    closings,
+    entries,
+    loading,
+    closingInProgress,
+    error,
+    fetchLedger,
+    closePeriod
+  };
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
-import { databases, DATABASE_ID, SECTOR_GOALS_COLLECTION, GoalScope } from '@/lib/appwrite';
-import { Query } from 'appwrite';
-import type { SectorGoal, Sector, GoalType, GoalPeriod } from '@/lib/appwrite';
+import { GoalScope } from '@/lib/appwrite';
+import type { SectorGoal, GoalType, GoalPeriod, AchievementRule } from '@/lib/appwrite';
+import { getRepositories, type GoalFilter } from '@/lib/repositories';
 import { logger } from '@/lib/logger';
 
 export interface CreateSectorGoalData {
@@ -21,34 +21,34 @@ export interface CreateSectorGoalData {
   hasMonetaryReward?: boolean; // Indica se possui recompensa monetária
   monetaryValue?: number; // Valor em centavos
   currency?: string; // Código da moeda
+  rewardTiers?: string | null; // Faixas de pagamento (JSON, lib/reward-tiers.ts); null remove as faixas
+  // Atingimento
+  achievementRule?: AchievementRule | null; // null volta ao padrão do período
+  achievementThreshold?: number | null; // N dias ou X% dos dias úteis
   // Comprovação
   requireProof?: boolean; // Exigir anexo de comprovação
 }
 
 export interface UpdateSectorGoalData extends Partial<CreateSectorGoalData> {}
 
-export function useSectorGoals() {
-  const [goals, setGoals] = useState<SectorGoal[]>([]);
+// initialGoals: metas pré-carregadas no servidor (lib/server-helpers.ts)
+export function useSectorGoals(initialGoals: SectorGoal[] = []) {
+  const [goals, setGoals] = useState<SectorGoal[]>(initialGoals);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Buscar todos os goals
-  const fetchGoals = useCallback(async (queries?: string[]) => {
+  const fetchGoals = useCallback(async (filter?: GoalFilter) => {
     setLoading(true);
     setError(null);
     try {
-      const response = await databases.listDocuments(
-        DATABASE_ID,
-        SECTOR_GOALS_COLLECTION,
-        queries ? [...queries, Query.limit(500)] : [Query.limit(500)]
-      );
-      setGoals(response.documents as unknown as SectorGoal[]);
+      setGoals(await getRepositories().goals.list(filter));
     } catch (err) {
       logger.api.error('sector-goals', `Erro ao buscar metas: ${err instanceof Error ? err.message : 'Erro desconhecido'}`);
       
-      // Verificar se é erro de atributo não encontrado
+      // Atributo ausente: schema do Appwrite desatualizado (npm run appwrite:migrate)
       if (err instanceof Error && err.message.includes('Attribute not found')) {
-        setError('Coleção de metas não configurada no Appwrite. Entre em contato com o administrador.');
+        setError('Banco de dados desatualizado. Entre em contato com o administrador para aplicar as migrações.');
       } else if (err instanceof Error && err.message.includes('not authorized')) {
         setError('Usuário não tem permissão para acessar as metas. Entre em contato com o administrador.');
       } else {
@@ -61,18 +61,13 @@ export function useSectorGoals() {
 
   // Buscar goals por setor
   const fetchGoalsBySector = useCallback(async (sectorId: string) => {
-    await fetchGoals([Query.equal('sectorId', sectorId)]);
+    await fetchGoals({ sectorId });
   }, [fetchGoals]);
 
   // Buscar goals ativos
   const fetchActiveGoals = useCallback(async () => {
     try {
-      const response = await databases.listDocuments(
-        DATABASE_ID,
-        SECTOR_GOALS_COLLECTION,
-        [Query.limit(500)]
-      );
-      setGoals(response.documents as unknown as SectorGoal[]);
+      setGoals(await getRepositories().goals.list());
     } catch (err) {
       logger.api.error('sector-goals', `Erro ao buscar goals ativos: ${err instanceof Error ? err.message : 'Erro desconhecido'}`);
       throw err;
@@ -82,43 +77,18 @@ export function useSectorGoals() {
   // Buscar goals por setor e ativas
   const fetchActiveGoalsBySector = useCallback(async (sectorId: string, userId?: string) => {
     try {
-      // Construir queries baseadas nos parâmetros
-      const queries = [
-        Query.equal('sectorId', sectorId),
-        Query.equal('isActive', true),
-      ];
-      
       // Se o userId for fornecido, busca metas setoriais OU metas individuais desse usuário específico
-      if (userId) {
-        queries.push(
-          Query.or([
-            Query.equal('scope', GoalScope.SECTOR),
-            Query.and([
-              Query.equal('scope', GoalScope.INDIVIDUAL),
-              Query.equal('assignedUserId', userId)
-            ])
-          ])
-        );
-      }
-      
-      const response = await databases.listDocuments(
-        DATABASE_ID,
-        SECTOR_GOALS_COLLECTION,
-        [...queries, Query.limit(500)]
-      );
-      
-      setGoals(response.documents as unknown as SectorGoal[]);
+      setGoals(await getRepositories().goals.list({
+        sectorId,
+        activeOnly: true,
+        ...(userId ? { visibleToUserId: userId } : {})
+      }));
     } catch (err) {
       logger.api.error('sector-goals', `Erro ao buscar goals do setor: ${err instanceof Error ? err.message : 'Erro desconhecido'}`);
       
       // Se falhar, tentar buscar todas
       try {
-        const fallbackResponse = await databases.listDocuments(
-          DATABASE_ID,
-          SECTOR_GOALS_COLLECTION,
-          [Query.limit(500)]
-        );
-        setGoals(fallbackResponse.documents as unknown as SectorGoal[]);
+        setGoals(await getRepositories().goals.list());
       } catch (fallbackErr) {
         throw err;
       }
@@ -130,18 +100,7 @@ export function useSectorGoals() {
     setLoading(true);
     setError(null);
     try {
-      // Agora podemos usar os campos scope e assignedUserId na query
-      const response = await databases.listDocuments(
-        DATABASE_ID,
-        SECTOR_GOALS_COLLECTION,
-        [
-          Query.equal('scope', GoalScope.INDIVIDUAL),
-          Query.equal('assignedUserId', userId),
-          Query.limit(500)
-        ]
-      );
-      
-      setGoals(response.documents as unknown as SectorGoal[]);
+      setGoals(await getRepositories().goals.list({ scope: GoalScope.INDIVIDUAL, assignedUserId: userId }));
     } catch (err) {
       logger.api.error('sector-goals', `Erro ao buscar metas individuais: ${err instanceof Error ? err.message : 'Erro desconhecido'}`);
       setError('Erro ao buscar metas individuais');
@@ -156,14 +115,8 @@ export function useSectorGoals() {
     setLoading(true);
     setError(null);
     try {
-      // Agora podemos enviar todos os campos diretamente
-      const response = await databases.createDocument(
-        DATABASE_ID,
-        SECTOR_GOALS_COLLECTION,
-        'unique()',
-        data
-      );
-      const newGoal = response as unknown as SectorGoal;
+      // Escrita via API para registrar auditoria no servidor (em memória no modo demonstração)
+      const newGoal = await getRepositories().goals.create(data);
       setGoals(prev => [...prev, newGoal]);
       return newGoal;
     } catch (err) {
@@ -180,14 +133,7 @@ export function useSectorGoals() {
     setLoading(true);
     setError(null);
     try {
-      // Agora podemos enviar todos os campos diretamente
-      const response = await databases.updateDocument(
-        DATABASE_ID,
-        SECTOR_GOALS_COLLECTION,
-        goalId,
-        data
-      );
-      const updatedGoal = response as unknown as SectorGoal;
+      const updatedGoal = await getRepositories().goals.update(goalId, data);
       setGoals(prev => prev.map(goal => 
         goal.$id === goalId ? updatedGoal : goal
       ));
@@ -206,11 +152,7 @@ export function useSectorGoals() {
     setLoading(true);
     setError(null);
     try {
-      await databases.deleteDocument(
-        DATABASE_ID,
-        SECTOR_GOALS_COLLECTION,
-        goalId
-      );
+      await getRepositories().goals.remove(goalId);
       setGoals(prev => prev.filter(goal => goal.$id !== goalId));
     } catch (err) {
       logger.api.error('sector-goals', `Erro ao deletar meta: ${err instanceof Error ? err.message : 'Erro desconhecido'}`);
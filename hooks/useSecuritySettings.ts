@@ -0,0 +1,51 @@
+/**
+ * Hook das configurações de segurança (somente admin)
+ * Política de segundo fator por role e reset do segundo fator de usuários
+ */
+
+import { useCallback, useState } from 'react';
+import type { SecuritySettings } from '@/lib/appwrite';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export function useSecuritySettings() {
+  const [settings, setSettings] = useState<SecuritySettings | null>(null);
+  const [mfaEligibleRoles, setMfaEligibleRoles] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await apiRequest<{ settings: SecuritySettings; mfaEligibleRoles: string[] }>('/api/admin/security');
+      setSettings(data.settings);
+      setMfaEligibleRoles(data.mfaEligibleRoles);
+    } catch (err) {
+      logger.api.error('security', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao carregar configurações de segurança');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const updateSettings = useCallback(async (changes: Partial<SecuritySettings>) => {
+    const data = await apiRequest<{ settings: SecuritySettings }>('/api/admin/security', { method: 'PUT', body: changes });
+    setSettings(data.settings);
+    logger.data.save('configurações de segurança');
+  }, []);
+
+  const resetUserMfa = useCallback(async (profileId: string) => {
+    await apiRequest('/api/admin/security', { method: 'DELETE', body: { profileId } });
+  }, []);
+
+  return {
+    settings,
+    mfaEligibleRoles,
+    loading,
+    error,
+    fetchSettings,
+    updateSettings,
+    resetUserMfa
+  };
+}
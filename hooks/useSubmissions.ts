@@ -4,50 +4,88 @@
  * Inclui funcionalidades para cálculo de recompensas monetárias
  */
 
-import { useEffect, useState } from 'react';
-import { databases, storage, DATABASE_ID, SUBMISSIONS_COLLECTION, PRINTS_BUCKET, Submission, ID } from '@/lib/appwrite';
-import { Query } from 'appwrite';
-import { format } from 'date-fns';
+import { useEffect, useRef, useState } from 'react';
+import { SUBMISSIONS_COLLECTION, type Submission, type Sector, type UserProfile } from '@/lib/appwrite';
+import { getRepositories, type SubmissionFilter } from '@/lib/repositories';
+import { format, startOfDay } from 'date-fns';
 import { useAuth } from './useAuth';
 import { Role } from '@/lib/roles';
 import { logger } from '@/lib/logger';
 import { calculateUserRewards, calculateMonthlyEarnings, type UserRewardStats } from '@/lib/rewards';
+import { getOwnManagedSectors } from '@/lib/sectors';
+import { encodeChecklist, type ChecklistAnswers } from '@/lib/checklist-schema';
+import type { SubmissionDraft } from '@/lib/submission-rules';
+import { applyRealtimeChange, type RealtimeChange } from '@/lib/realtime';
+import { useRealtimeCollection } from './useRealtimeCollection';
 
-export function useSubmissions() {
-  const { profile, loading: authLoading } = useAuth();
-  const [submissions, setSubmissions] = useState<Submission[]>([]);
-  const [loading, setLoading] = useState(true);
+// Envio com ID definido pelo cliente (fila offline): reenvios não duplicam submissão nem anexos
+export interface SubmissionWriteOptions {
+  id?: string;
+  date?: string; // momento do preenchimento (padrão: agora)
+}
+
+interface UseSubmissionsOptions {
+  // Setores visíveis no painel de gestão (próprios + delegados); padrão: setores do próprio gestor
+  sectors?: Sector[];
+  // Início do intervalo carregado (ver getSubmissionsRangeStart); padrão: todo o histórico
+  from?: Date;
+  // Dados pré-carregados no servidor (lib/server-helpers.ts); as buscas seguintes não exibem carregamento
+  initialProfile?: UserProfile | null;
+  initialSubmissions?: Submission[];
+}
+
+export function useSubmissions(options: UseSubmissionsOptions = {}) {
+  const { profile, loading: authLoading } = useAuth({ initialProfile: options.initialProfile });
+  const hydrated = !!options.initialSubmissions;
+  const [submissions, setSubmissions] = useState<Submission[]>(options.initialSubmissions ?? []);
+  const [loading, setLoading] = useState(!hydrated);
   const [error, setError] = useState<string | null>(null);
+  // Submissões de outros usuários recebidas em tempo real e ainda não vistas
+  const [newSubmissionIds, setNewSubmissionIds] = useState<Set<string>>(new Set());
+
+  // Escopo da última busca, usado para filtrar os eventos em tempo real (null = admin, vê tudo)
+  const scopeRef = useRef<Set<string> | null>(new Set());
+  const scopeProfilesRef = useRef<Map<string, UserProfile>>(new Map());
 
-  const fetchSubmissions = async () => {
+  const fromKey = options.from ? startOfDay(options.from).toISOString() : undefined;
+
+  const setScope = (profiles: UserProfile[] | null) => {
+    scopeRef.current = profiles ? new Set(profiles.map(p => p.$id)) : null;
+    scopeProfilesRef.current = new Map((profiles ?? []).map(p => [p.$id, p]));
+  };
+
+  // silent: recarrega sem exibir o carregamento (ressincronização em tempo real ou revalidação dos dados do servidor)
+  const fetchSubmissions = async (silent = hydrated) => {
     // Perfil ainda não carregado, não faz nada
     if (!profile) {
       setLoading(false);
       return;
     }
 
+    setScope([]);
+
     logger.api.request(`submissions/${profile.role}`);
 
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       
-      let queries = [];
+      let filter: SubmissionFilter | null = null;
+      const sectors = options.sectors ?? getOwnManagedSectors(profile);
       
-      if (profile.role === Role.COLLABORATOR) {
-        // Colaborador só vê as próprias submissões
-        // CORREÇÃO: usar o ID do perfil, não userId
-        queries.push(Query.equal('userProfile', profile.$id));
-      } else if (profile.role === Role.MANAGER) {
-        // Gestor vê todas as submissões do seu setor
-        // CORREÇÃO: Primeiro buscar todos os usuários do setor, depois suas submissões
+      if (options.sectors || profile.role === Role.MANAGER) {
+        // Gestor (ou substituto por delegação) vê todas as submissões dos setores que gere
+        // CORREÇÃO: Primeiro buscar todos os usuários dos setores, depois suas submissões
+        if (sectors.length === 0) {
+          setSubmissions([]);
+          setLoading(false);
+          return;
+        }
+
         try {
-          const profilesResponse = await databases.listDocuments(
-            DATABASE_ID,
-            'user_profiles', // Collection de perfis
-            [Query.equal('sector', profile.sector), Query.limit(200)]
-          );
+          const sectorProfiles = await getRepositories().profiles.list({ sectors });
           
-          const profileIds = profilesResponse.documents.map(p => p.$id);
+          const profileIds = sectorProfiles.map(p => p.$id);
+          setScope(sectorProfiles);
           
           if (profileIds.length === 0) {
             logger.data.empty('usuários no setor');
@@ -57,32 +95,35 @@ export function useSubmissions() {
           }
           
           // Agora buscar submissões desses perfis
-          queries.push(Query.equal('userProfile', profileIds));
+          filter = { profileIds };
         } catch (profileError) {
           logger.api.error('perfis do setor', 'Falha na requisição');
           setError('Erro ao carregar dados do setor');
           setLoading(false);
           return;
         }
+      } else if (profile.role === Role.COLLABORATOR) {
+        // Colaborador só vê as próprias submissões
+        // CORREÇÃO: usar o ID do perfil, não userId
+        filter = { profileIds: [profile.$id] };
+        setScope([profile]);
+      } else if (profile.role === Role.ADMIN) {
+        // ADMIN não tem filtro, busca tudo.
+        setScope(null);
       }
-      // ADMIN não tem filtro, busca tudo.
 
-      // Se não for admin e não tiver query, algo está errado.
-      if (queries.length === 0 && profile.role !== Role.ADMIN) {
+      // Se não for admin e não tiver filtro, algo está errado.
+      if (!filter && profile.role !== Role.ADMIN) {
         logger.data.empty('queries para perfil');
         setSubmissions([]);
         setLoading(false);
         return;
       }
       
-      const response = await databases.listDocuments(
-        DATABASE_ID,
-        SUBMISSIONS_COLLECTION,
-        queries ? [...queries, Query.limit(1000)] : [Query.limit(1000)]
-      );
+      const documents = await getRepositories().submissions.list({ ...filter, ...(fromKey ? { from: fromKey } : {}) });
       
-      logger.data.load('submissões', response.documents.length);
-      setSubmissions(response.documents as unknown as Submission[]);
+      logger.data.load('submissões', documents.length);
+      setSubmissions(documents);
     } catch (error: any) {
       logger.api.error('submissões', 'Falha na busca');
       setError(error.message);
@@ -91,32 +132,87 @@ export function useSubmissions() {
     }
   };
 
+  const sectorsKey = options.sectors?.join(',');
+
   useEffect(() => {
     // Roda o fetch apenas quando a autenticação terminar
     if (!authLoading) {
       fetchSubmissions();
     }
-  }, [profile, authLoading]); // Depende do profile e do status de loading da auth
+  }, [profile, authLoading, sectorsKey, fromKey]); // Depende do profile, dos setores, do intervalo e do status de loading da auth
+
+  // Mudanças em tempo real aplicadas à lista, respeitando o escopo e o intervalo carregados
+  const handleRealtimeChange = (change: RealtimeChange<Submission>) => {
+    const { action, document } = change;
+    if (action === 'delete') {
+      setSubmissions(prev => applyRealtimeChange(prev, change));
+      markSubmissionsSeen([document.$id]);
+      return;
+    }
+
+    // O relacionamento pode vir expandido (objeto) ou apenas com o ID
+    const author = document.userProfile as Submission['userProfile'] | string | null | undefined;
+    const authorId = typeof author === 'string' ? author : author?.$id;
+    const current = submissions.find(sub => sub.$id === document.$id);
+    if (!authorId) {
+      if (current) setSubmissions(prev => applyRealtimeChange(prev, { action, document: { ...document, userProfile: current.userProfile } }));
+      return;
+    }
+    if (scopeRef.current && !scopeRef.current.has(authorId)) return;
+    if (!current && fromKey && new Date(document.date) < new Date(fromKey)) return;
+
+    const userProfile = typeof author === 'object' && author?.name !== undefined
+      ? author
+      : scopeProfilesRef.current.get(authorId) ?? current?.userProfile ?? submissions.find(sub => sub.userProfile.$id === authorId)?.userProfile;
+    if (!userProfile) {
+      // Autor desconhecido localmente (ex.: admin): recarrega para obter o perfil expandido
+      fetchSubmissions(true);
+      return;
+    }
+
+    setSubmissions(prev => applyRealtimeChange(prev, { action, document: { ...document, userProfile } }));
+    if (action === 'create' && authorId !== profile?.$id) {
+      setNewSubmissionIds(prev => new Set(prev).add(document.$id));
+    }
+  };
+
+  useRealtimeCollection<Submission>(SUBMISSIONS_COLLECTION, {
+    enabled: !authLoading && !!profile,
+    onChange: handleRealtimeChange,
+    onResync: () => fetchSubmissions(true)
+  });
+
+  // Remove o destaque de "nova" (todas ou apenas as informadas)
+  const markSubmissionsSeen = (ids?: string[]) => {
+    setNewSubmissionIds(prev => {
+      if (!ids) return prev.size === 0 ? prev : new Set();
+      const next = new Set(prev);
+      ids.forEach(id => next.delete(id));
+      return next;
+    });
+  };
 
+  // Grava por POST /api/submissions: o servidor define o autor e aplica as regras das metas
   const createSubmission = async (
-    userProfileId: string,
-    answers: Record<string, boolean>,
+    answers: ChecklistAnswers,
     observation: string,
     printFile?: File,
-    goalFiles?: Record<string, File | File[] | FileList>
+    goalFiles?: Record<string, File | File[] | FileList>,
+    { id, date }: SubmissionWriteOptions = {}
   ) => {
     try {
+      // Valida as respostas antes de enviar anexos
+      encodeChecklist(answers);
+      const repository = getRepositories().submissions;
       let uploadedFileId: string | undefined = undefined;
       let goalFilesData: Record<string, string[]> = {};
+      let fileIndex = 0;
+      // IDs dos anexos derivados do ID da submissão para que o reenvio reaproveite os já enviados
+      const nextFileId = () => (id ? `${id}-f${fileIndex++}` : undefined);
 
       // Upload arquivo geral (compatibilidade)
       if (printFile) {
-        const uploadResponse = await storage.createFile(
-          PRINTS_BUCKET,
-          ID.unique(),
-          printFile
-        );
-        uploadedFileId = uploadResponse.$id;
+        uploadedFileId = await repository.uploadFile(printFile, id ? `${id}-p` : undefined);
       }
 
       // Upload arquivos por meta
@@ -131,65 +227,39 @@ export function useSubmissions() {
 
             const uploadedIds: string[] = [];
             for (const f of files) {
-              const uploadResponse = await storage.createFile(
-                PRINTS_BUCKET,
-                ID.unique(),
-                f
-              );
-              uploadedIds.push(uploadResponse.$id);
+              uploadedIds.push(await repository.uploadFile(f, nextFileId()));
             }
             if (uploadedIds.length > 0) {
               goalFilesData[goalId] = uploadedIds;
             }
           } catch (error) {
+            // Na fila offline a falha de rede interrompe o envio (será repetido); sem fila, segue sem o anexo
+            if (id) throw error;
             console.error(`Erro ao fazer upload do arquivo da meta ${goalId}:`, error);
           }
         }
       }
 
-      let submission;
-      try {
-        submission = await databases.createDocument(
-          DATABASE_ID,
-          SUBMISSIONS_COLLECTION,
-          ID.unique(),
-          {
-            userProfile: userProfileId,
-            date: new Date().toISOString(),
-            checklist: JSON.stringify(answers), // Usando checklist em vez de answers
-            observation: observation || '',
-            ...(uploadedFileId ? { printFileId: uploadedFileId } : {}),
-            ...(Object.keys(goalFilesData).length > 0 ? { goalFiles: JSON.stringify(goalFilesData) } : {})
-          }
-        );
-      } catch (err: any) {
-        // Fallback quando a collection ainda não tem o atributo goalFiles
-        const message = err?.message || '';
-        if (message.includes('Unknown attribute') && message.includes('goalFiles')) {
-          submission = await databases.createDocument(
-            DATABASE_ID,
-            SUBMISSIONS_COLLECTION,
-            ID.unique(),
-            {
-              userProfile: userProfileId,
-              date: new Date().toISOString(),
-              checklist: JSON.stringify(answers),
-              observation: observation || '',
-              ...(uploadedFileId ? { printFileId: uploadedFileId } : {})
-            }
-          );
-        } else {
-          throw err;
-        }
-      }
+      // Sem arquivo geral, o primeiro anexo das metas vale como comprovante (sem enviá-lo duas vezes)
+      const printFileId = uploadedFileId ?? Object.values(goalFilesData)[0]?.[0];
+      const body: SubmissionDraft = {
+        ...(id ? { id } : {}),
+        ...(date ? { date } : {}),
+        answers,
+        observation: observation || '',
+        ...(printFileId ? { printFileId } : {}),
+        ...(Object.keys(goalFilesData).length > 0 ? { goalFiles: goalFilesData } : {})
+      };
+      const submission = await repository.create(body, profile);
       
-      // Re-fetch para atualizar a lista
-      await fetchSubmissions();
+      // Re-fetch para atualizar a lista (sem tela de carregamento: pode vir da sincronização em segundo plano)
+      await fetchSubmissions(true);
       logger.data.save('submissão');
       return submission;
     } catch (error: any) {
       logger.form.error('submissão', error.message);
-      throw new Error(error.message);
+      // Erro original preservado: a fila offline distingue falha de rede de erro de validação
+      throw error;
     }
   };
 
@@ -248,6 +318,8 @@ export function useSubmissions() {
     getCompletionStats,
     calculateRewards,
     getMonthlyEarnings,
-    refetch: fetchSubmissions
+    newSubmissionIds,
+    markSubmissionsSeen,
+    refetch: () => fetchSubmissions()
   };
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+/**
+ * Hook de sessões ativas
+ * Sem `profileId`: sessões do usuário logado ("Minhas sessões");
+ * com `profileId`: sessões de outro usuário no painel admin (inclui logout forçado)
+ */
+
+import { useCallback, useState } from 'react';
+import type { ActiveSession } from '@/lib/appwrite';
+import { apiRequest } from '@/lib/api-client';
+import { logger } from '@/lib/logger';
+
+export function useUserSessions(profileId?: string) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const url = profileId ? `/api/admin/sessions?profileId=${encodeURIComponent(profileId)}` : '/api/auth/sessions';
+      const data = await apiRequest<{ sessions: ActiveSession[] }>(url);
+      setSessions(data.sessions);
+      logger.data.load('sessões', data.sessions.length);
+    } catch (err) {
+      logger.api.error('sessions', err instanceof Error ? err.message : 'Erro desconhecido');
+      setError(err instanceof Error ? err.message : 'Erro ao carregar sessões');
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId]);
+
+  const revokeSession = useCallback(async (sessionId: string) => {
+    if (profileId) {
+      await apiRequest('/api/admin/sessions', { method: 'DELETE', body: { profileId, sessionId } });
+    } else {
+      await apiRequest(`/api/auth/sessions/${sessionId}`, { method: 'DELETE' });
+    }
+    setSessions(prev => prev.filter(session => session.id !== sessionId));
+  }, [profileId]);
+
+  // Logout forçado em todos os dispositivos (somente admin)
+  const forceLogout = useCallback(async () => {
+    if (!profileId) return;
+    await apiRequest('/api/admin/sessions', { method: 'DELETE', body: { profileId } });
+    setSessions([]);
+  }, [profileId]);
+
+  return {
+    sessions,
+    loading,
+    error,
+    fetchSessions,
+    revokeSession,
+    forceLogout
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Inicialização do servidor Next.js
+ * Valida as variáveis do Appwrite antes de atender requisições, em vez de falhar
+ * depois com "Collection not found" ou "Attribute not found"
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { assertAppwriteEnv } = await import('./lib/appwrite-env');
+    assertAppwriteEnv();
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Regras de atingimento das metas
+ * Definem quando uma meta conta como atingida no período: todos os dias, ao menos N dias, ao menos X% dos dias
+ * úteis, soma dos valores alcançando o alvo ou última medição alcançando o alvo. Metas sem regra usam o padrão
+ * do período (diária: todos os dias; demais: ao menos 1 dia). Usadas por isGoalAchievedInPeriod (lib/rewards.ts)
+ */
+
+import { eachDayOfInterval, isWeekend } from 'date-fns';
+import { AchievementRule, GoalPeriod, GoalType, type SectorGoal } from './appwrite';
+
+export const achievementRuleDisplayNames: Record<AchievementRule, string> = {
+  [AchievementRule.ALL_DAYS]: 'Todos os dias do período',
+  [AchievementRule.MIN_DAYS]: 'Ao menos N dias',
+  [AchievementRule.WORKING_DAYS_PERCENT]: 'Ao menos X% dos dias úteis',
+  [AchievementRule.CUMULATIVE_TARGET]: 'Soma dos valores alcança o alvo',
+  [AchievementRule.LAST_MEASUREMENT]: 'Última medição alcança o alvo'
+};
+
+// Regras que dependem do limite informado na meta
+export const THRESHOLD_ACHIEVEMENT_RULES: AchievementRule[] = [AchievementRule.MIN_DAYS, AchievementRule.WORKING_DAYS_PERCENT];
+
+// Maior quantidade de dias de cada período (limite da regra "ao menos N dias")
+export const MAX_PERIOD_DAYS: Record<GoalPeriod, number> = {
+  [GoalPeriod.DAILY]: 1,
+  [GoalPeriod.WEEKLY]: 7,
+  [GoalPeriod.MONTHLY]: 31,
+  [GoalPeriod.QUARTERLY]: 92,
+  [GoalPeriod.YEARLY]: 366
+};
+
+export interface ResolvedAchievementRule {
+  rule: AchievementRule;
+  threshold: number; // N dias ou X% (0 nas regras sem limite)
+}
+
+// Apuração de um período usada pelas regras
+export interface AchievementStats {
+  daysAchieved: number;
+  totalDaysInPeriod: number;
+  workingDaysAchieved: number;
+  workingDaysInPeriod: number;
+  totalValue: number; // soma dos valores informados no período
+  lastValue?: number; // última medição do período
+  targetValue: number;
+}
+
+/**
+ * Regras disponíveis para o tipo da meta: as de valor só valem para metas numéricas (e porcentagem, na última medição)
+ */
+export const getAvailableAchievementRules = (type: GoalType | string | undefined): AchievementRule[] =>
+  Object.values(AchievementRule).filter(rule =>
+    rule === AchievementRule.CUMULATIVE_TARGET
+      ? type === GoalType.NUMERIC
+      : rule === AchievementRule.LAST_MEASUREMENT
+        ? type === GoalType.NUMERIC || type === GoalType.PERCENTAGE
+        : true
+  );
+
+/**
+ * Valida regra e limite da meta; devolve a mensagem do problema (null quando válidos)
+ * O mínimo de dias não pode passar da duração do período (sem período informado, do maior deles)
+ */
+export const validateAchievementRule = (
+  type: GoalType | string | undefined,
+  rule: AchievementRule | string | null | undefined,
+  threshold: number | null | undefined,
+  period?: GoalPeriod | string
+): string | null => {
+  if (rule === undefined || rule === null) return null;
+  if (!Object.values(AchievementRule).includes(rule as AchievementRule)) return 'Regra de atingimento inválida.';
+  if (type && !getAvailableAchievementRules(type).includes(rule as AchievementRule)) {
+    return 'A regra de atingimento escolhida não se aplica a este tipo de meta.';
+  }
+  const maxDays = MAX_PERIOD_DAYS[period as GoalPeriod] ?? MAX_PERIOD_DAYS[GoalPeriod.YEARLY];
+  if (rule === AchievementRule.MIN_DAYS && (!Number.isInteger(threshold) || threshold! < 1 || threshold! > maxDays)) {
+    return maxDays === 1
+      ? 'Em metas diárias, o mínimo de dias é 1.'
+      : `Informe a quantidade mínima de dias (1 a ${maxDays}).`;
+  }
+  if (rule === AchievementRule.WORKING_DAYS_PERCENT && (!Number.isInteger(threshold) || threshold! < 1 || threshold! > 100)) {
+    return 'Informe o percentual mínimo de dias úteis (1 a 100).';
+  }
+  return null;
+};
+
+/**
+ * Regra efetiva da meta: a configurada ou o padrão do período
+ */
+export const resolveAchievementRule = (goal: Pick<SectorGoal, 'period' | 'achievementRule' | 'achievementThreshold'>): ResolvedAchievementRule => {
+  if (goal.achievementRule) {
+    return {
+      rule: goal.achievementRule,
+      threshold: THRESHOLD_ACHIEVEMENT_RULES.includes(goal.achievementRule) ? goal.achievementThreshold || 1 : 0
+    };
+  }
+  return goal.period === GoalPeriod.DAILY
+    ? { rule: AchievementRule.ALL_DAYS, threshold: 0 }
+    : { rule: AchievementRule.MIN_DAYS, threshold: 1 };
+};
+
+/**
+ * Dias úteis (segunda a sexta) do intervalo
+ */
+export const countWorkingDays = (start: Date, end: Date): number =>
+  start > end ? 0 : eachDayOfInterval({ start, end }).filter(day => !isWeekend(day)).length;
+
+/**
+ * Aplica a regra à apuração do período
+ * progressPercent é o avanço em direção ao atingimento (0 a 100), usado nos painéis
+ */
+export const evaluateAchievementRule = (
+  { rule, threshold }: ResolvedAchievementRule,
+  stats: AchievementStats
+): { achieved: boolean; progressPercent: number } => {
+  const ratio = (value: number, required: number) => required > 0 ? value / required : 0;
+  let progress: number;
+
+  switch (rule) {
+    case AchievementRule.ALL_DAYS:
+      progress = ratio(stats.daysAchieved, stats.totalDaysInPeriod);
+      break;
+    case AchievementRule.MIN_DAYS:
+      progress = ratio(stats.daysAchieved, threshold);
+      break;
+    case AchievementRule.WORKING_DAYS_PERCENT: {
+      // Período sem dias úteis (ex.: janela só de fim de semana): nada é exigido e a regra está cumprida
+      const required = Math.ceil(stats.workingDaysInPeriod * threshold / 100);
+      progress = required > 0 ? ratio(stats.workingDaysAchieved, required) : 1;
+      break;
+    }
+    case AchievementRule.CUMULATIVE_TARGET:
+      progress = ratio(stats.totalValue, stats.targetValue);
+      break;
+    case AchievementRule.LAST_MEASUREMENT:
+      progress = ratio(stats.lastValue ?? 0, stats.targetValue);
+      break;
+    default:
+      progress = 0;
+  }
+
+  return { achieved: progress >= 1, progressPercent: Math.min(progress, 1) * 100 };
+};
+
+/**
+ * Descrição curta da regra efetiva (ex.: "Ao menos 3 dias", "Ao menos 80% dos dias úteis")
+ */
+export const describeAchievementRule = (goal: Pick<SectorGoal, 'period' | 'achievementRule' | 'achievementThreshold'>): string => {
+  const { rule, threshold } = resolveAchievementRule(goal);
+  if (rule === AchievementRule.MIN_DAYS) return threshold === 1 ? 'Ao menos 1 dia' : `Ao menos ${threshold} dias`;
+  if (rule === AchievementRule.WORKING_DAYS_PERCENT) return `Ao menos ${threshold}% dos dias úteis`;
+  return achievementRuleDisplayNames[rule];
+};
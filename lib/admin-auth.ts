@@ -0,0 +1,100 @@
+/**
+ * Autenticação administrativa (server-side only)
+ * Verifica credenciais admin contra segredos do servidor (senha com hash scrypt)
+ * e resolve a sessão admin a partir do cookie assinado
+ */
+
+import { createHash, scryptSync, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { UserProfile, Sector } from './appwrite';
+import { Role } from './roles';
+import { ADMIN_SESSION_COOKIE, readCookie, verifyAdminSessionToken, type AdminSessionPayload } from './admin-session';
+
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * Gera hash no formato `scrypt:<salt hex>:<hash hex>` para ADMIN_PASSWORD_HASH
+ */
+export const hashAdminPassword = (password: string): string => {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+};
+
+/**
+ * Compara a senha informada com o hash armazenado em tempo constante
+ */
+export const verifyAdminPasswordHash = (password: string, storedHash: string): boolean => {
+  const [algorithm, saltHex, hashHex] = storedHash.split(':');
+  if (algorithm !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const getAdminSecrets = () => {
+  const adminEmail = process.env.ADMIN_EMAIL;
+  const adminPasswordHash = process.env.ADMIN_PASSWORD_HASH;
+
+  if (!adminEmail || !adminPasswordHash) {
+    throw new Error('ADMIN_EMAIL e ADMIN_PASSWORD_HASH devem estar configurados no servidor.');
+  }
+
+  return { adminEmail, adminPasswordHash };
+};
+
+// Compara strings em tempo constante (digests de tamanho fixo evitam vazar o tamanho)
+const constantTimeEquals = (a: string, b: string): boolean => {
+  const digestA = createHash('sha256').update(a).digest();
+  const digestB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+};
+
+/**
+ * Verifica se o e-mail informado é o do administrador
+ */
+export const isAdminEmail = (email: string): boolean => {
+  const { adminEmail } = getAdminSecrets();
+  return constantTimeEquals((email || '').trim().toLowerCase(), adminEmail.trim().toLowerCase());
+};
+
+/**
+ * Valida e-mail e senha do administrador usando apenas variáveis server-only
+ */
+export const verifyAdminCredentials = (email: string, password: string): boolean => {
+  const { adminPasswordHash } = getAdminSecrets();
+
+  // Calcula o hash mesmo quando o e-mail não confere para não expor diferença de tempo
+  const passwordMatches = verifyAdminPasswordHash(password || '', adminPasswordHash);
+  const emailMatches = isAdminEmail(email);
+
+  return emailMatches && passwordMatches;
+};
+
+/**
+ * Perfil sintético do administrador (não existe documento no Appwrite)
+ */
+export const buildAdminProfile = (email: string): UserProfile => {
+  const now = new Date().toISOString();
+  return {
+    $id: 'admin',
+    userId: 'admin',
+    name: 'Administrador',
+    email,
+    sector: Sector.TI,
+    role: Role.ADMIN,
+    $createdAt: now,
+    $updatedAt: now
+  };
+};
+
+/**
+ * Resolve a sessão admin a partir do cookie da requisição
+ */
+export const getAdminSession = async (req: IncomingMessage): Promise<AdminSessionPayload | null> => {
+  const token = readCookie(req.headers.cookie, ADMIN_SESSION_COOKIE);
+  return verifyAdminSessionToken(token);
+};
@@ -0,0 +1,52 @@
+/**
+ * Sessão administrativa assinada
+ * Emite e valida o cookie HttpOnly do admin (ver lib/session-token.ts)
+ */
+
+import { readCookie, serializeSessionCookie, signSessionToken, verifySessionToken } from './session-token';
+
+export { readCookie };
+
+export const ADMIN_SESSION_COOKIE = 'metas_admin_session';
+
+// Duração padrão da sessão admin: 8 horas
+export const ADMIN_SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+export interface AdminSessionPayload {
+  sub: 'admin';
+  email: string;
+  iat: number; // emitido em (segundos)
+  exp: number; // expira em (segundos)
+}
+
+/**
+ * Gera o token assinado da sessão admin
+ */
+export const createAdminSessionToken = async (
+  email: string,
+  ttlSeconds: number = ADMIN_SESSION_TTL_SECONDS
+): Promise<string> => {
+  return signSessionToken({ sub: 'admin', email }, ttlSeconds);
+};
+
+/**
+ * Valida assinatura e expiração do token admin
+ * Retorna o payload quando válido ou null caso contrário
+ */
+export const verifyAdminSessionToken = async (token: string | undefined | null): Promise<AdminSessionPayload | null> => {
+  const payload = await verifySessionToken<AdminSessionPayload>(token);
+  if (!payload || payload.sub !== 'admin') return null;
+  return payload;
+};
+
+/**
+ * Monta o header Set-Cookie da sessão admin
+ */
+export const serializeAdminSessionCookie = (token: string, maxAgeSeconds: number = ADMIN_SESSION_TTL_SECONDS): string => {
+  return serializeSessionCookie(ADMIN_SESSION_COOKIE, token, maxAgeSeconds);
+};
+
+/**
+ * Monta o header Set-Cookie que remove a sessão admin
+ */
+export const clearAdminSessionCookie = (): string => serializeAdminSessionCookie('', 0);
@@ -0,0 +1,183 @@
+/**
+ * Camada de autorização para API routes
+ * Resolve o autor da requisição (sessão admin ou sessão de usuário),
+ * exige os roles ou permissões necessários e padroniza erros 401/403
+ */
+
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import type { IncomingMessage } from 'http';
+import { adminDatabases } from './appwrite-server';
+import { DATABASE_ID, USER_PROFILES_COLLECTION, type ManagerDelegation, type Sector, type UserProfile } from './appwrite';
+import { Role } from './roles';
+import { getAdminSession } from './admin-auth';
+import { getUserSessionFromCookie } from './user-session';
+import { resolveManagerScope } from './delegations';
+import { resolveProfilePermissions } from './custom-roles';
+import { getSessionActivity, isRevokedByForceLogout } from './session-activity';
+import { hasPermission, resolvePermissions, type Permission } from './permissions';
+import { isDemoMode } from './repositories';
+import { buildDemoActor, findDemoProfile } from './demo-auth';
+
+export type ApiAuthErrorCode = 'unauthenticated' | 'forbidden' | 'session_error';
+
+export interface ApiAuthErrorBody {
+  error: string;
+  code: ApiAuthErrorCode;
+}
+
+/**
+ * Autor autenticado de uma requisição
+ */
+export interface ApiActor {
+  id: string; // profileId ('admin' para o administrador)
+  userId: string;
+  name: string;
+  email: string;
+  role: Role;
+  sector?: Sector;
+  managedSectors?: Sector[]; // setores geridos agora (próprios + delegados)
+  delegations?: ManagerDelegation[]; // delegações ativas recebidas
+  permissions?: Permission[]; // permissões efetivas (lib/permissions.ts)
+  sessionId?: string; // sessão Appwrite da requisição
+}
+
+export type AuthenticatedApiHandler<T = any> = (
+  req: NextApiRequest,
+  res: NextApiResponse<T>,
+  actor: ApiActor
+) => unknown | Promise<unknown>;
+
+export const sendAuthError = (res: NextApiResponse, status: 401 | 403 | 500, code: ApiAuthErrorCode, error: string) => {
+  res.status(status).json({ error, code } satisfies ApiAuthErrorBody);
+};
+
+/**
+ * Verifica se o autor pode gerir o setor (admin gere todos)
+ */
+export const canManageSector = (actor: ApiActor, sector: string): boolean =>
+  actor.role === Role.ADMIN || !!actor.managedSectors?.includes(sector as Sector);
+
+/**
+ * Verifica se o autor age em nome do gestor (o próprio ou por delegação ativa)
+ */
+export const actsForManager = (actor: ApiActor, managerProfileId: string): boolean =>
+  actor.id === managerProfileId || !!actor.delegations?.some(delegation => delegation.managerProfileId === managerProfileId);
+
+// Delegação ativa concede as permissões de gestor a quem a recebeu
+const isRoleAllowed = (roles: Role[], actor: ApiActor) =>
+  roles.includes(actor.role) || (roles.includes(Role.MANAGER) && !!actor.delegations?.length);
+
+/**
+ * Resolve o autor a partir dos cookies de sessão
+ * Para usuários comuns o perfil é relido do banco (role, setores e delegações atualizados);
+ * cookies emitidos antes de um logout forçado pelo admin são rejeitados, assim como os de uma sessão
+ * encerrada individualmente ("minhas sessões"), que não tem mais registro de atividade
+ */
+export const resolveApiActor = async (req: IncomingMessage): Promise<ApiActor | null> => {
+  const adminSession = await getAdminSession(req);
+  if (adminSession) {
+    return {
+      id: 'admin',
+      userId: 'admin',
+      name: 'Administrador',
+      email: adminSession.email,
+      role: Role.ADMIN,
+      permissions: resolvePermissions(Role.ADMIN)
+    };
+  }
+
+  const userSession = await getUserSessionFromCookie(req.headers.cookie);
+  if (!userSession) {
+    return null;
+  }
+
+  // Modo demonstração: perfis fixos de lib/repositories/demo-data.ts
+  if (isDemoMode) {
+    const profile = findDemoProfile(userSession.profileId);
+    return profile?.userId === userSession.sub ? buildDemoActor(profile) : null;
+  }
+
+  try {
+    const [profile, activity] = await Promise.all([
+      adminDatabases.getDocument(DATABASE_ID, USER_PROFILES_COLLECTION, userSession.profileId) as unknown as Promise<UserProfile>,
+      userSession.sid ? getSessionActivity(userSession.sid) : null
+    ]);
+
+    if (profile.userId !== userSession.sub || isRevokedByForceLogout(profile, userSession.iat)) {
+      return null;
+    }
+    if (userSession.sid && !activity) {
+      return null;
+    }
+
+    const scope = await resolveManagerScope(profile);
+    const permissions = await resolveProfilePermissions(profile, scope.delegations.length > 0);
+    return {
+      id: profile.$id,
+      userId: profile.userId,
+      name: profile.name,
+      email: profile.email,
+      role: profile.role,
+      sector: profile.sector,
+      managedSectors: scope.sectors,
+      delegations: scope.delegations,
+      permissions,
+      sessionId: userSession.sid
+    };
+  } catch (error: any) {
+    if (error?.code === 404) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Resolve o autor e aplica a regra de acesso antes de executar o handler
+ * - 401 `unauthenticated`: nenhuma sessão válida
+ * - 403 `forbidden`: autenticado, mas sem acesso à operação
+ */
+const withActor = <T = any>(isAllowed: (actor: ApiActor) => boolean, handler: AuthenticatedApiHandler<T>): NextApiHandler<T> => {
+  return async (req, res) => {
+    let actor: ApiActor | null;
+    try {
+      actor = await resolveApiActor(req);
+    } catch (error) {
+      console.error('Erro ao validar sessão na API:', error);
+      return sendAuthError(res, 500, 'session_error', 'Erro interno ao validar sessão');
+    }
+
+    if (!actor) {
+      return sendAuthError(res, 401, 'unauthenticated', 'Sessão ausente ou expirada');
+    }
+
+    if (!isAllowed(actor)) {
+      return sendAuthError(res, 403, 'forbidden', 'Seu perfil não tem permissão para esta operação');
+    }
+
+    return handler(req, res, actor);
+  };
+};
+
+/**
+ * Exige sessão válida com um dos roles permitidos
+ * Rotas que aceitam gestores também aceitam quem tem delegação ativa de um gestor
+ */
+export const withRoleAuth = <T = any>(roles: Role[], handler: AuthenticatedApiHandler<T>): NextApiHandler<T> => {
+  return withActor((actor) => isRoleAllowed(roles, actor), handler);
+};
+
+/**
+ * Exige sessão válida com a permissão (ou uma das permissões) informada
+ * Usado quando roles personalizados devem ganhar ou perder acesso à operação
+ */
+export const withPermission = <T = any>(permission: Permission | Permission[], handler: AuthenticatedApiHandler<T>): NextApiHandler<T> => {
+  return withActor((actor) => hasPermission(actor, permission), handler);
+};
+
+/**
+ * Exige sessão administrativa verificada (usado pelas rotas /api/admin/*)
+ */
+export const withAdminAuth = <T = any>(handler: AuthenticatedApiHandler<T>): NextApiHandler<T> => {
+  return withRoleAuth([Role.ADMIN], handler);
+};
@@ -0,0 +1,52 @@
+/**
+ * Cliente HTTP para as API routes internas
+ * Envia JSON, inclui cookies de sessão e converte erros da API em Error; `apiDownload` baixa arquivos
+ */
+
+export class ApiRequestError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export const apiRequest = async <T = any>(
+  url: string,
+  options: { method?: string; body?: unknown } = {}
+): Promise<T> => {
+  const response = await fetch(url, {
+    method: options.method || 'GET',
+    credentials: 'same-origin',
+    headers: options.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ApiRequestError(data.error || `Erro ${response.status} em ${url}`, response.status, data.code);
+  }
+
+  return data as T;
+};
+
+/**
+ * Baixa um arquivo gerado por uma API route (ex.: exportações) e devolve o conteúdo com o nome sugerido pelo servidor
+ */
+export const apiDownload = async (url: string): Promise<{ blob: Blob; filename: string }> => {
+  const response = await fetch(url, { credentials: 'same-origin' });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiRequestError(data.error || `Erro ${response.status} em ${url}`, response.status, data.code);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || 'download';
+  return { blob: await response.blob(), filename };
+};
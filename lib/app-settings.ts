@@ -0,0 +1,57 @@
+/**
+ * Configurações globais da aplicação (server-side only)
+ * Cada grupo de configurações é um documento da coleção app_settings
+ */
+
+import { adminDatabases } from './appwrite-server';
+import { APP_SETTINGS_COLLECTION, DATABASE_ID, INACTIVITY_TIMEOUT_LIMITS, type SecuritySettings } from './appwrite';
+import { isDemoMode } from './repositories';
+
+const SECURITY_SETTINGS_ID = 'security';
+
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  mfaRequiredRoles: [],
+  inactivityTimeoutMinutes: 30
+};
+
+export const isValidInactivityTimeout = (value: unknown): value is number =>
+  Number.isInteger(value) &&
+  ((value as number) === 0 || ((value as number) >= INACTIVITY_TIMEOUT_LIMITS.min && (value as number) <= INACTIVITY_TIMEOUT_LIMITS.max));
+
+const pickSecuritySettings = (data: Partial<SecuritySettings>): SecuritySettings => ({
+  mfaRequiredRoles: Array.isArray(data.mfaRequiredRoles) ? data.mfaRequiredRoles : DEFAULT_SECURITY_SETTINGS.mfaRequiredRoles,
+  inactivityTimeoutMinutes: isValidInactivityTimeout(data.inactivityTimeoutMinutes)
+    ? data.inactivityTimeoutMinutes
+    : DEFAULT_SECURITY_SETTINGS.inactivityTimeoutMinutes
+});
+
+/**
+ * Lê as configurações de segurança (valores padrão quando ainda não salvas ou no modo demonstração)
+ */
+export const getSecuritySettings = async (): Promise<SecuritySettings> => {
+  if (isDemoMode) return { ...DEFAULT_SECURITY_SETTINGS };
+  try {
+    const document = await adminDatabases.getDocument(DATABASE_ID, APP_SETTINGS_COLLECTION, SECURITY_SETTINGS_ID);
+    return pickSecuritySettings(document as unknown as Partial<SecuritySettings>);
+  } catch (error: any) {
+    if (error?.code === 404) return { ...DEFAULT_SECURITY_SETTINGS };
+    throw error;
+  }
+};
+
+/**
+ * Atualiza as configurações de segurança e retorna o estado anterior e o novo
+ */
+export const updateSecuritySettings = async (changes: Partial<SecuritySettings>) => {
+  const before = await getSecuritySettings();
+  const after = pickSecuritySettings({ ...before, ...changes });
+
+  try {
+    await adminDatabases.updateDocument(DATABASE_ID, APP_SETTINGS_COLLECTION, SECURITY_SETTINGS_ID, after);
+  } catch (error: any) {
+    if (error?.code !== 404) throw error;
+    await adminDatabases.createDocument(DATABASE_ID, APP_SETTINGS_COLLECTION, SECURITY_SETTINGS_ID, after, []);
+  }
+
+  return { before, after };
+};
@@ -0,0 +1,84 @@
+/**
+ * Variáveis de ambiente do Appwrite
+ * Lista única dos IDs usados por lib/appwrite.ts e pelo script de schema (scripts/appwrite-migrate.js);
+ * validada na inicialização do servidor (instrumentation.ts) e antes das migrações.
+ * CommonJS para poder ser carregado diretamente pelo Node nos scripts
+ */
+
+// Variável → recurso do Appwrite que ela identifica
+const APPWRITE_ID_VARIABLES = {
+  NEXT_PUBLIC_APPWRITE_PROJECT_ID: 'projeto',
+  NEXT_PUBLIC_APPWRITE_DATABASE_ID: 'banco de dados',
+  NEXT_PUBLIC_APPWRITE_PROFILES_COLLECTION_ID: 'coleção user_profiles',
+  NEXT_PUBLIC_APPWRITE_SECTOR_GOALS_COLLECTION_ID: 'coleção sector_goals',
+  NEXT_PUBLIC_APPWRITE_SUBMISSIONS_COLLECTION_ID: 'coleção submissions',
+  NEXT_PUBLIC_APPWRITE_GOAL_ANSWERS_COLLECTION_ID: 'coleção goal_answers',
+  NEXT_PUBLIC_APPWRITE_CONTESTATIONS_COLLECTION_ID: 'coleção contestations',
+  NEXT_PUBLIC_APPWRITE_COMPLIMENTS_COLLECTION_ID: 'coleção compliments',
+  NEXT_PUBLIC_APPWRITE_AUDIT_LOGS_COLLECTION_ID: 'coleção audit_logs',
+  NEXT_PUBLIC_APPWRITE_LOGIN_ATTEMPTS_COLLECTION_ID: 'coleção login_attempts',
+  NEXT_PUBLIC_APPWRITE_USER_MFA_COLLECTION_ID: 'coleção user_mfa',
+  NEXT_PUBLIC_APPWRITE_APP_SETTINGS_COLLECTION_ID: 'coleção app_settings',
+  NEXT_PUBLIC_APPWRITE_PASSWORD_RESETS_COLLECTION_ID: 'coleção password_resets',
+  NEXT_PUBLIC_APPWRITE_MANAGER_DELEGATIONS_COLLECTION_ID: 'coleção manager_delegations',
+  NEXT_PUBLIC_APPWRITE_CUSTOM_ROLES_COLLECTION_ID: 'coleção custom_roles',
+  NEXT_PUBLIC_APPWRITE_SESSION_ACTIVITY_COLLECTION_ID: 'coleção session_activity',
+  NEXT_PUBLIC_APPWRITE_REWARD_LEDGER_COLLECTION_ID: 'coleção reward_ledger',
+  NEXT_PUBLIC_APPWRITE_REWARD_CLOSINGS_COLLECTION_ID: 'coleção reward_closings',
+  NEXT_PUBLIC_APPWRITE_REWARD_APPROVALS_COLLECTION_ID: 'coleção reward_approvals',
+  NEXT_PUBLIC_APPWRITE_PRINTS_BUCKET_ID: 'bucket de comprovações'
+};
+
+// Formato de IDs do Appwrite: até 36 caracteres (a-z, A-Z, 0-9, ponto, hífen, sublinhado), sem começar com especial
+const APPWRITE_ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,35}$/;
+
+// Modo demonstração sem Appwrite: os clientes do SDK são criados com estes valores e nunca chamados
+const DEMO_APPWRITE_ENDPOINT = 'http://localhost/v1';
+const DEMO_APPWRITE_PROJECT_ID = 'demo';
+
+/**
+ * Lista os problemas de configuração (vazia quando tudo está correto).
+ * No modo demonstração (NEXT_PUBLIC_DATA_SOURCE=memory) nenhuma variável é exigida; as definidas ainda são validadas
+ */
+const validateAppwriteEnv = (env = process.env) => {
+  const problems = [];
+  const demoMode = env.NEXT_PUBLIC_DATA_SOURCE === 'memory';
+
+  const endpoint = env.NEXT_PUBLIC_APPWRITE_ENDPOINT;
+  if (!endpoint) {
+    if (!demoMode) problems.push('NEXT_PUBLIC_APPWRITE_ENDPOINT não definida (URL da API)');
+  } else if (!/^https?:\/\/.+/.test(endpoint)) {
+    problems.push(`NEXT_PUBLIC_APPWRITE_ENDPOINT inválida: "${endpoint}" (use http(s)://.../v1)`);
+  }
+
+  for (const [name, resource] of Object.entries(APPWRITE_ID_VARIABLES)) {
+    const value = env[name];
+    if (!value) {
+      if (demoMode) continue;
+      problems.push(`${name} não definida (${resource})`);
+    } else if (!APPWRITE_ID_PATTERN.test(value)) {
+      problems.push(`${name} inválida: "${value}" (${resource})`);
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Interrompe a inicialização com a lista completa de variáveis ausentes ou inválidas
+ */
+const assertAppwriteEnv = (env = process.env) => {
+  const problems = validateAppwriteEnv(env);
+  if (problems.length > 0) {
+    throw new Error(`Configuração do Appwrite inválida:\n- ${problems.join('\n- ')}\nVerifique o .env.local (ver .env.local.example).`);
+  }
+};
+
+module.exports = {
+  APPWRITE_ID_VARIABLES,
+  APPWRITE_ID_PATTERN,
+  DEMO_APPWRITE_ENDPOINT,
+  DEMO_APPWRITE_PROJECT_ID,
+  validateAppwriteEnv,
+  assertAppwriteEnv
+};
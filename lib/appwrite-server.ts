@@ -4,16 +4,18 @@
  * USA O SDK NODE-APPWRITE
  */
 
-import { Client, Databases, Users, ID } from 'node-appwrite';
+import { Client, Databases, Storage, Users, ID } from 'node-appwrite';
+import { DEMO_APPWRITE_ENDPOINT, DEMO_APPWRITE_PROJECT_ID } from './appwrite-env';
 
-// Cliente admin (server-side only)
+// Cliente admin (server-side only); no modo demonstração é criado sem Appwrite e não é usado
 const adminClient = new Client()
-  .setEndpoint(process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT!)
-  .setProject(process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID!)
+  .setEndpoint(process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT || DEMO_APPWRITE_ENDPOINT)
+  .setProject(process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID || DEMO_APPWRITE_PROJECT_ID)
   .setKey(process.env.APPWRITE_KEY!);
 
 // Serviços admin
 const adminDatabases = new Databases(adminClient);
 const adminUsers = new Users(adminClient);
+const adminStorage = new Storage(adminClient);
 
-export { adminClient, adminDatabases, adminUsers, ID };
\ No newline at end of file
+export { adminClient, adminDatabases, adminUsers, adminStorage, ID };
\ No newline at end of file
@@ -5,10 +5,12 @@
 
 import { Client, Account, Databases, Storage, ID, Query } from 'appwrite';
 import { Role } from './roles';
+import { DEMO_APPWRITE_ENDPOINT, DEMO_APPWRITE_PROJECT_ID } from './appwrite-env';
 
-// Validação das variáveis de ambiente
-const APPWRITE_ENDPOINT = process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT;
-const APPWRITE_PROJECT_ID = process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID;
+// Validação das variáveis de ambiente (o modo demonstração roda sem Appwrite)
+const DEMO_MODE = process.env.NEXT_PUBLIC_DATA_SOURCE === 'memory';
+const APPWRITE_ENDPOINT = process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT || (DEMO_MODE ? DEMO_APPWRITE_ENDPOINT : undefined);
+const APPWRITE_PROJECT_ID = process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID || (DEMO_MODE ? DEMO_APPWRITE_PROJECT_ID : undefined);
 
 if (!APPWRITE_ENDPOINT || !APPWRITE_PROJECT_ID) {
   throw new Error('Missing required Appwrite environment variables. Please check your .env.local file.');
@@ -31,6 +33,18 @@ export const SUBMISSIONS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_SUBMISSIO
 export const SECTOR_GOALS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_SECTOR_GOALS_COLLECTION_ID!;
 export const CONTESTATIONS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_CONTESTATIONS_COLLECTION_ID!;
 export const COMPLIMENTS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_COMPLIMENTS_COLLECTION_ID!;
+export const AUDIT_LOGS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_AUDIT_LOGS_COLLECTION_ID!;
+export const LOGIN_ATTEMPTS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_LOGIN_ATTEMPTS_COLLECTION_ID!;
+export const USER_MFA_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_USER_MFA_COLLECTION_ID!;
+export const APP_SETTINGS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_APP_SETTINGS_COLLECTION_ID!;
+export const PASSWORD_RESETS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_PASSWORD_RESETS_COLLECTION_ID!;
+export const MANAGER_DELEGATIONS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_MANAGER_DELEGATIONS_COLLECTION_ID!;
+export const CUSTOM_ROLES_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_CUSTOM_ROLES_COLLECTION_ID!;
+export const SESSION_ACTIVITY_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_SESSION_ACTIVITY_COLLECTION_ID!;
+export const GOAL_ANSWERS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_GOAL_ANSWERS_COLLECTION_ID!;
+export const REWARD_LEDGER_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_REWARD_LEDGER_COLLECTION_ID!;
+export const REWARD_CLOSINGS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_REWARD_CLOSINGS_COLLECTION_ID!;
+export const REWARD_APPROVALS_COLLECTION = process.env.NEXT_PUBLIC_APPWRITE_REWARD_APPROVALS_COLLECTION_ID!;
 export const PRINTS_BUCKET = process.env.NEXT_PUBLIC_APPWRITE_PRINTS_BUCKET_ID!;
 
 // Enums
@@ -83,6 +97,15 @@ export enum GoalScope {
   INDIVIDUAL = 'individual'
 }
 
+// Regra de atingimento da meta no período (lib/achievement-rules.ts)
+export enum AchievementRule {
+  ALL_DAYS = 'all_days', // todos os dias do período
+  MIN_DAYS = 'min_days', // ao menos N dias
+  WORKING_DAYS_PERCENT = 'working_days_percent', // ao menos X% dos dias úteis
+  CUMULATIVE_TARGET = 'cumulative_target', // soma dos valores alcança o alvo (numéricas)
+  LAST_MEASUREMENT = 'last_measurement' // última medição alcança o alvo (numéricas e porcentagem)
+}
+
 export interface SectorGoal {
   $id?: string;
   $createdAt?: string;
@@ -104,6 +127,10 @@ export interface SectorGoal {
   monetaryValue?: number; // Valor em centavos para precisão
   currency?: string; // Código da moeda (default: BRL)
   hasMonetaryReward?: boolean; // Indica se possui recompensa monetária
+  rewardTiers?: string | null; // JSON com as faixas de pagamento (lib/reward-tiers.ts); ausente = regra padrão
+  // Atingimento
+  achievementRule?: AchievementRule | null; // ausente = padrão do período (diária: todos os dias; demais: 1 dia)
+  achievementThreshold?: number | null; // N dias (min_days) ou X% dos dias úteis (working_days_percent)
   // Comprovação
   requireProof?: boolean; // Se verdadeiro, exige anexo de comprovação no envio
 }
@@ -114,7 +141,11 @@ export interface UserProfile {
   name: string; // Campo para nome do usuário
   email: string; // Campo obrigatório para o Appwrite
   sector: Sector;
+  managedSectors?: Sector[]; // setores adicionais geridos (apenas gestores; `sector` é o principal)
   role: Role;
+  customRoleId?: string | null; // role personalizado (lib/permissions.ts); ausente = permissões padrão do role
+  mustChangePassword?: boolean; // senha definida pelo admin: troca obrigatória no próximo acesso
+  sessionsRevokedAt?: string | null; // logout forçado pelo admin: sessões emitidas antes disso são inválidas
   $createdAt: string;
   $updatedAt: string;
 }
@@ -131,6 +162,20 @@ export interface Submission {
   $updatedAt: string;
 }
 
+// Resposta de uma meta numa submissão (normalizada a partir do checklist, lib/goal-answers.ts)
+export interface GoalAnswerRecord {
+  $id: string;
+  submissionId: string;
+  goalId: string;
+  profileId: string; // autor da submissão
+  date: string; // mesma data da submissão
+  goalType: GoalType;
+  value: string; // JSON do valor validado pelo schema do checklist
+  numericValue?: number | null; // metas numéricas e de porcentagem (somatórios e filtros por faixa)
+  fileIds?: string[]; // comprovações anexadas à meta
+  $createdAt?: string;
+}
+
 export interface Contestation {
   $id: string;
   submissionId: string;
@@ -172,6 +217,207 @@ export interface CreateComplimentData {
   presetKey?: string;
 }
 
+// Auditoria (append-only, escrita apenas pelo servidor)
+export type AuditTargetType = 'goal' | 'contestation' | 'user' | 'login' | 'settings' | 'delegation' | 'role' | 'data' | 'reward';
+
+export type AuditAction =
+  | 'goal.create'
+  | 'goal.update'
+  | 'goal.activate'
+  | 'goal.deactivate'
+  | 'goal.delete'
+  | 'contestation.create'
+  | 'contestation.resolve'
+  | 'contestation.dismiss'
+  | 'contestation.respond'
+  | 'user.create'
+  | 'user.update'
+  | 'user.delete'
+  | 'login.unlock'
+  | 'mfa.enable'
+  | 'mfa.disable'
+  | 'mfa.reset'
+  | 'password.change'
+  | 'password.reset'
+  | 'settings.update'
+  | 'delegation.create'
+  | 'delegation.revoke'
+  | 'role.create'
+  | 'role.update'
+  | 'role.delete'
+  | 'session.revoke'
+  | 'session.force_logout'
+  | 'data.backfill'
+  | 'reward.close'
+  | 'reward.approve'
+  | 'reward.reject'
+  | 'reward.release'
+  | 'reward.pay';
+
+export interface AuditLog {
+  $id: string;
+  actorId: string; // profileId do autor ('admin' para o administrador)
+  actorName: string;
+  actorRole: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  summary: string; // descrição legível (indexada para busca)
+  diff: string; // JSON string: {campo: {from, to}}
+  before?: string; // JSON string do estado anterior
+  after?: string; // JSON string do estado posterior
+  timestamp: string;
+  $createdAt?: string;
+}
+
+// Controle de tentativas de login (por e-mail ou IP)
+export interface LoginAttemptRecord {
+  $id: string;
+  key: string; // 'email:<email>' ou 'ip:<endereço>'
+  scope: 'email' | 'ip';
+  failures: number; // falhas dentro da janela atual
+  lastAttemptAt: string;
+  lockedUntil?: string | null; // bloqueio temporário
+}
+
+// Segundo fator (TOTP) de gestores e admin; segredos cifrados, acesso apenas pelo servidor
+export interface UserMfaRecord {
+  $id: string; // userId do Appwrite ('admin' para o administrador)
+  subjectId: string;
+  enabled: boolean;
+  secret?: string | null; // segredo ativo (cifrado)
+  pendingSecret?: string | null; // segredo aguardando confirmação do cadastro (cifrado)
+  recoveryCodes: string[]; // hashes SHA-256 dos códigos de recuperação não usados
+  lastUsedStep?: number | null; // último passo TOTP aceito (impede reuso do código)
+  enabledAt?: string | null;
+}
+
+// Tokens de redefinição de senha (apenas o hash do token é armazenado)
+export interface PasswordResetToken {
+  $id: string;
+  userId: string;
+  email: string;
+  tokenHash: string;
+  expiresAt: string;
+  usedAt?: string | null;
+  $createdAt?: string;
+}
+
+// Delegação temporária das permissões de um gestor (férias, ausências)
+export interface ManagerDelegation {
+  $id: string;
+  managerProfileId: string; // gestor que delega
+  managerName: string;
+  delegateProfileId: string; // usuário que assume as permissões
+  delegateName: string;
+  sectors: Sector[]; // setores delegados (subconjunto dos setores do gestor)
+  startsAt: string;
+  endsAt: string;
+  reason?: string;
+  createdBy: string; // profileId do autor ('admin' quando criada pelo administrador)
+  revokedAt?: string | null;
+  $createdAt?: string;
+}
+
+// Configurações globais (documento único por chave, ex.: 'security')
+export interface SecuritySettings {
+  mfaRequiredRoles: string[]; // roles obrigados a usar o segundo fator
+  inactivityTimeoutMinutes: number; // encerra a sessão após esse tempo sem uso (0 = desativado)
+}
+
+// Limites do tempo de inatividade configurável (0 desativa)
+export const INACTIVITY_TIMEOUT_LIMITS = { min: 5, max: 480 };
+
+// Lançamento do razão de recompensas (imutável, escrito apenas pelo servidor; ver lib/reward-ledger.ts)
+export type RewardLedgerEntryType = 'closing' | 'adjustment';
+
+export interface RewardLedgerEntry {
+  $id: string;
+  closingPeriod: string; // mês do fechamento (AAAA-MM)
+  sector: Sector;
+  profileId: string;
+  userId: string;
+  userName: string;
+  goalId: string;
+  goalTitle: string;
+  periodType: GoalPeriod;
+  periodStart: string; // período da meta apurado
+  periodEnd: string;
+  amount: number; // centavos; ajustes podem ser negativos
+  entryType: RewardLedgerEntryType; // fechamento (valor apurado) ou ajuste (diferença apurada depois)
+  ruleVersion: number; // REWARD_RULES_VERSION usada no cálculo
+  details: string; // JSON com a apuração (dias atingidos, conclusão, valor atual, alvo)
+  adjustsEntryId?: string | null; // lançamento de fechamento corrigido pelo ajuste
+  reason?: string | null;
+  createdBy: string; // profileId do autor ('admin' para o administrador)
+  createdByName: string;
+  $createdAt?: string;
+}
+
+// Fechamento de um mês para um setor (ID do documento = `${closingPeriod}-${sector}`)
+export interface RewardClosing {
+  $id: string;
+  closingPeriod: string;
+  sector: Sector;
+  ruleVersion: number;
+  entriesCount: number;
+  totalAmount: number; // centavos
+  closedBy: string;
+  closedByName: string;
+  closedAt: string;
+}
+
+// Ciclo de vida de uma recompensa fechada: apurada → aprovada pelo gestor → liberada pelo financeiro → paga
+// (ou rejeitada com motivo). "earned" não é gravado: é a recompensa do razão ainda sem decisão
+export type RewardStatus = 'earned' | 'approved' | 'released' | 'paid' | 'rejected';
+
+// Decisão sobre um período apurado do razão. Cada decisão é um novo documento com o estado completo:
+// ID = rewardKeyId (ver lib/reward-ledger.ts) na primeira e `<rewardKeyId>.<n>` nas seguintes; vale a de maior n
+export interface RewardApproval {
+  $id: string;
+  closingPeriod: string;
+  sector: Sector;
+  profileId: string;
+  goalId: string;
+  periodStart: string;
+  periodEnd: string;
+  status: Exclude<RewardStatus, 'earned'>;
+  amount: number; // saldo do razão (centavos) no momento da última decisão
+  approvedBy?: string | null;
+  approvedByName?: string | null;
+  approvedAt?: string | null;
+  releasedBy?: string | null;
+  releasedByName?: string | null;
+  releasedAt?: string | null;
+  paidBy?: string | null;
+  paidByName?: string | null;
+  paidAt?: string | null;
+  rejectedBy?: string | null;
+  rejectedByName?: string | null;
+  rejectedAt?: string | null;
+  rejectionReason?: string | null;
+}
+
+// Última atividade de uma sessão Appwrite (ID do documento = ID da sessão)
+export interface SessionActivityRecord {
+  $id: string;
+  userId: string;
+  profileId: string;
+  lastActivityAt: string;
+}
+
+// Sessão ativa exibida em "Minhas sessões" e no painel admin
+export interface ActiveSession {
+  id: string; // ID da sessão Appwrite
+  device: string; // navegador e sistema operacional
+  ip: string;
+  location?: string;
+  createdAt: string;
+  expiresAt: string;
+  lastActivityAt?: string;
+  current: boolean; // sessão usada nesta requisição
+}
+
 export interface CreateSectorGoalData {
   title: string;
   description: string;
@@ -188,6 +434,10 @@ export interface CreateSectorGoalData {
   monetaryValue?: number; // Valor em centavos
   currency?: string; // Código da moeda
   hasMonetaryReward?: boolean; // Possui recompensa monetária
+  rewardTiers?: string | null; // JSON com as faixas de pagamento (lib/reward-tiers.ts)
+  // Atingimento
+  achievementRule?: AchievementRule | null;
+  achievementThreshold?: number | null;
   // Comprovação
   requireProof?: boolean; // Se verdadeiro, exige anexo de comprovação no envio
 }
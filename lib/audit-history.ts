@@ -0,0 +1,100 @@
+/**
+ * Estado passado de documentos auditados (server-side only)
+ * Cada alteração auditada guarda o documento anterior (`before`): o estado numa data é o `before` do primeiro
+ * evento posterior a ela, ou o documento atual quando nada mudou depois. Um `*.create` posterior indica que o
+ * documento ainda não existia. Metadados ($id, $createdAt) não entram nos snapshots e vêm de quem consulta
+ */
+
+import { Query } from 'node-appwrite';
+import { adminDatabases } from './appwrite-server';
+import { AUDIT_LOGS_COLLECTION, DATABASE_ID, type AuditAction, type AuditLog, type AuditTargetType } from './appwrite';
+import { chunkQueryValues, listAllDocuments } from './pagination';
+
+// Eventos por documento (targetId), em ordem cronológica
+export type AuditTrail = Map<string, AuditLog[]>;
+
+// `known` false quando a auditoria não basta para reconstruir o estado (snapshot truncado ou documento sem histórico)
+export interface HistoricalState<T> {
+  known: boolean;
+  state: T | null; // null: o documento não existia na data
+}
+
+const parseSnapshot = (json?: string | null): Record<string, any> | null => {
+  if (!json) return null;
+  try {
+    const value = JSON.parse(json);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null; // snapshot truncado pelo limite de tamanho da auditoria
+  }
+};
+
+/**
+ * Eventos de um tipo de alvo a partir de uma data, agrupados por documento
+ */
+export const loadAuditTrail = async (targetType: AuditTargetType, from: Date): Promise<AuditTrail> => {
+  const events = await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, AUDIT_LOGS_COLLECTION, page), [
+    Query.equal('targetType', targetType),
+    Query.greaterThanEqual('timestamp', from.toISOString())
+  ]) as unknown as AuditLog[];
+
+  const trail: AuditTrail = new Map();
+  [...events]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .forEach(event => trail.set(event.targetId, [...(trail.get(event.targetId) ?? []), event]));
+  return trail;
+};
+
+/**
+ * Documentos cujo estado antes ou depois de alguma alteração da trilha satisfaz o filtro (ex.: passaram pelo setor)
+ */
+export const findAuditedIds = (trail: AuditTrail, matches: (snapshot: Record<string, any>) => boolean): string[] =>
+  Array.from(trail.entries())
+    .filter(([, events]) => events.some(event => [event.before, event.after].some(json => {
+      const snapshot = parseSnapshot(json);
+      return !!snapshot && matches(snapshot);
+    })))
+    .map(([id]) => id);
+
+/**
+ * Último estado auditado de um documento removido (o `before` da remoção)
+ */
+export const lastAuditedState = <T>(trail: AuditTrail, id: string, metadata: Partial<T>): T | null => {
+  const events = trail.get(id) ?? [];
+  for (let index = events.length - 1; index >= 0; index--) {
+    const snapshot = parseSnapshot(events[index].after) ?? parseSnapshot(events[index].before);
+    if (snapshot) return { ...snapshot, ...metadata } as T;
+  }
+  return null;
+};
+
+/**
+ * Estado do documento em `at` a partir do documento atual (null se removido) e da sua trilha
+ */
+export const documentStateAt = <T>(trail: AuditTrail, id: string, current: T | null, at: Date, metadata: Partial<T>): HistoricalState<T> => {
+  const next = (trail.get(id) ?? []).find(event => new Date(event.timestamp) > at);
+  if (!next) {
+    // Nada mudou depois: o documento atual ou, se removido, a remoção foi anterior à data
+    return { known: true, state: current };
+  }
+  if (next.action.endsWith('.create')) {
+    return { known: true, state: null };
+  }
+  const before = parseSnapshot(next.before);
+  return before ? { known: true, state: { ...before, ...metadata } as T } : { known: false, state: null };
+};
+
+/**
+ * Momento da criação de documentos (timestamp do evento `*.create`), usado quando o $createdAt não existe mais
+ */
+export const findCreationTimes = async (action: AuditAction, targetIds: string[]): Promise<Map<string, string>> => {
+  const times = new Map<string, string>();
+  for (const chunk of chunkQueryValues(targetIds)) {
+    const events = await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, AUDIT_LOGS_COLLECTION, page), [
+      Query.equal('action', action),
+      Query.equal('targetId', chunk)
+    ]) as unknown as AuditLog[];
+    events.forEach(event => times.set(event.targetId, event.timestamp));
+  }
+  return times;
+};
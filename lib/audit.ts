@@ -0,0 +1,95 @@
+/**
+ * Registro de auditoria (server-side only)
+ * Grava eventos append-only com autor, ação, alvo e diff antes/depois
+ */
+
+import { adminDatabases, ID } from './appwrite-server';
+import { AUDIT_LOGS_COLLECTION, DATABASE_ID, type AuditAction, type AuditTargetType } from './appwrite';
+import type { ApiActor } from './api-auth';
+
+export type AuditDiff = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEventInput {
+  actor: ApiActor;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  summary: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+// Limite de tamanho dos atributos JSON no Appwrite
+const MAX_JSON_LENGTH = 10000;
+
+// Remove metadados do Appwrite ($id, $permissions, ...) e relacionamentos expandidos
+const sanitizeSnapshot = (data?: Record<string, any> | null): Record<string, any> | null => {
+  if (!data) return null;
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (key.startsWith('$')) continue;
+    result[key] = value && typeof value === 'object' && !Array.isArray(value) && '$id' in value
+      ? value.$id
+      : value;
+  }
+  return result;
+};
+
+const toJson = (value: unknown): string => {
+  const json = JSON.stringify(value ?? null);
+  return json.length > MAX_JSON_LENGTH ? `${json.slice(0, MAX_JSON_LENGTH - 3)}...` : json;
+};
+
+/**
+ * Calcula os campos alterados entre dois estados
+ */
+export const computeAuditDiff = (before?: Record<string, any> | null, after?: Record<string, any> | null): AuditDiff => {
+  const previous = sanitizeSnapshot(before) || {};
+  const next = sanitizeSnapshot(after) || {};
+  const diff: AuditDiff = {};
+
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  keys.forEach(key => {
+    const from = previous[key];
+    const to = next[key];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      diff[key] = { from: from ?? null, to: to ?? null };
+    }
+  });
+
+  return diff;
+};
+
+/**
+ * Grava um evento de auditoria
+ * Falhas são registradas no log do servidor sem desfazer a operação auditada
+ */
+export const recordAuditEvent = async (event: AuditEventInput): Promise<void> => {
+  const before = sanitizeSnapshot(event.before);
+  const after = sanitizeSnapshot(event.after);
+
+  try {
+    await adminDatabases.createDocument(
+      DATABASE_ID,
+      AUDIT_LOGS_COLLECTION,
+      ID.unique(),
+      {
+        actorId: event.actor.id,
+        actorName: event.actor.name,
+        actorRole: event.actor.role,
+        action: event.action,
+        targetType: event.targetType,
+        targetId: event.targetId,
+        summary: event.summary,
+        diff: toJson(computeAuditDiff(before, after)),
+        before: before ? toJson(before) : null,
+        after: after ? toJson(after) : null,
+        timestamp: new Date().toISOString()
+      },
+      // Sem permissões de documento: apenas a API key lê/escreve (append-only)
+      []
+    );
+  } catch (error) {
+    console.error(`Erro ao gravar auditoria (${event.action} ${event.targetType}/${event.targetId}):`, error);
+  }
+};
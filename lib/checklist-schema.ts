@@ -0,0 +1,194 @@
+/**
+ * Schema versionado das respostas de submissão (Submission.checklist)
+ * v1: {version: 1, answers: {goalId: {type, value}}}, com o valor validado pelo tipo da meta.
+ * Registros antigos (sem versão) são normalizados na leitura; registros inválidos são reportados
+ */
+
+import { z } from 'zod';
+import { GoalType, type Submission } from './appwrite';
+import { logger } from './logger';
+
+export const CHECKLIST_SCHEMA_VERSION = 1;
+
+// Valor da resposta por tipo de meta
+export const goalAnswerValueSchemas = {
+  [GoalType.TASK_COMPLETION]: z.boolean(),
+  [GoalType.NUMERIC]: z.number().finite().min(0),
+  [GoalType.PERCENTAGE]: z.number().finite().min(0).max(100),
+  [GoalType.BOOLEAN_CHECKLIST]: z.record(z.string(), z.boolean()) // itemId ('<goalId>-<índice>') → concluído
+};
+
+export const goalAnswerSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal(GoalType.TASK_COMPLETION), value: goalAnswerValueSchemas[GoalType.TASK_COMPLETION] }),
+  z.object({ type: z.literal(GoalType.NUMERIC), value: goalAnswerValueSchemas[GoalType.NUMERIC] }),
+  z.object({ type: z.literal(GoalType.PERCENTAGE), value: goalAnswerValueSchemas[GoalType.PERCENTAGE] }),
+  z.object({ type: z.literal(GoalType.BOOLEAN_CHECKLIST), value: goalAnswerValueSchemas[GoalType.BOOLEAN_CHECKLIST] })
+]);
+
+export const checklistV1Schema = z.object({
+  version: z.literal(1),
+  answers: z.record(z.string(), goalAnswerSchema)
+});
+
+// Formato sem versão: o valor era gravado direto (string numérica ou 'true'/'false', lista de itens ou itens soltos '<goalId>-<índice>')
+const legacyChecklistSchema = z.record(
+  z.string(),
+  z.union([z.boolean(), z.number(), z.string(), z.array(z.boolean()), z.record(z.string(), z.boolean())])
+);
+
+export type GoalAnswer = z.infer<typeof goalAnswerSchema>;
+export type ChecklistAnswers = Record<string, GoalAnswer>; // goalId → resposta tipada
+export type GoalAnswerValue = GoalAnswer['value'];
+
+export interface DecodedChecklist {
+  version: number; // 0 = registro sem versão
+  answers: Record<string, GoalAnswerValue>;
+}
+
+export type ChecklistDecodeResult = { ok: true; checklist: DecodedChecklist } | { ok: false; error: string };
+
+const LEGACY_ITEM_KEY = /^(.+)-(\d+)$/;
+
+export const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+
+const normalizeLegacy = (raw: z.infer<typeof legacyChecklistSchema>): ChecklistDecodeResult => {
+  const answers: Record<string, GoalAnswerValue> = {};
+  const addItem = (goalId: string, itemId: string, done: boolean) => {
+    const current = answers[goalId];
+    answers[goalId] = { ...(current && typeof current === 'object' ? current : {}), [itemId]: done };
+  };
+
+  for (const [key, rawValue] of Object.entries(raw)) {
+    const value = rawValue === 'true' || rawValue === 'false' ? rawValue === 'true' : rawValue;
+    if (typeof value === 'string') {
+      const numeric = Number(value);
+      if (value.trim() === '' || !Number.isFinite(numeric)) {
+        return { ok: false, error: `${key}: valor não numérico "${value}"` };
+      }
+      answers[key] = numeric;
+    } else if (Array.isArray(value)) {
+      value.forEach((done, index) => addItem(key, `${key}-${index}`, done));
+    } else if (typeof value === 'object') {
+      Object.entries(value).forEach(([itemId, done]) => addItem(key, itemId, done));
+    } else {
+      const itemKey = typeof value === 'boolean' ? LEGACY_ITEM_KEY.exec(key) : null;
+      if (itemKey) {
+        addItem(itemKey[1], key, value as boolean);
+      } else {
+        answers[key] = value;
+      }
+    }
+  }
+  return { ok: true, checklist: { version: 0, answers } };
+};
+
+/**
+ * Decodifica o JSON de Submission.checklist (v1 ou sem versão) para respostas normalizadas
+ */
+export const decodeChecklist = (raw: string): ChecklistDecodeResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'JSON inválido' };
+  }
+
+  if (parsed && typeof parsed === 'object' && 'version' in parsed) {
+    const result = checklistV1Schema.safeParse(parsed);
+    if (!result.success) {
+      return { ok: false, error: formatIssues(result.error) };
+    }
+    const answers = Object.fromEntries(Object.entries(result.data.answers).map(([goalId, answer]) => [goalId, answer.value]));
+    return { ok: true, checklist: { version: result.data.version, answers } };
+  }
+
+  const legacy = legacyChecklistSchema.safeParse(parsed);
+  if (!legacy.success) {
+    return { ok: false, error: formatIssues(legacy.error) };
+  }
+  return normalizeLegacy(legacy.data);
+};
+
+/**
+ * Valida as respostas e gera o JSON versionado gravado em Submission.checklist
+ */
+export const encodeChecklist = (answers: ChecklistAnswers): string => {
+  const result = checklistV1Schema.safeParse({ version: CHECKLIST_SCHEMA_VERSION, answers });
+  if (!result.success) {
+    throw new Error(`Respostas inválidas: ${formatIssues(result.error)}`);
+  }
+  return JSON.stringify(result.data);
+};
+
+// Registros inválidos já reportados nesta sessão (evita repetir o aviso a cada renderização)
+const reportedSubmissions = new Set<string>();
+
+const reportInvalidChecklist = (submissionId: string, error: string) => {
+  if (reportedSubmissions.has(submissionId)) return;
+  reportedSubmissions.add(submissionId);
+  logger.data.invalid('checklist', submissionId, error);
+};
+
+// Cache de decodificação: a mesma submissão é lida várias vezes por renderização
+const decodeCache = new Map<string, ChecklistDecodeResult>();
+const DECODE_CACHE_LIMIT = 5000;
+
+/**
+ * Respostas de uma submissão; registros que não decodificam são reportados e tratados como vazios
+ */
+export const getSubmissionAnswers = (submission: Pick<Submission, '$id' | 'checklist'>): Record<string, GoalAnswerValue> => {
+  let result = decodeCache.get(submission.checklist);
+  if (!result) {
+    if (decodeCache.size >= DECODE_CACHE_LIMIT) decodeCache.clear();
+    result = decodeChecklist(submission.checklist);
+    decodeCache.set(submission.checklist, result);
+  }
+
+  if (!result.ok) {
+    reportInvalidChecklist(submission.$id, result.error);
+    return {};
+  }
+  return result.checklist.answers;
+};
+
+export const hasGoalAnswer = (submission: Pick<Submission, '$id' | 'checklist'>, goalId: string): boolean =>
+  getSubmissionAnswers(submission)[goalId] !== undefined;
+
+// Leitura dos valores conforme o uso (somatório, conclusão, itens de checklist)
+export const answerToNumber = (value: GoalAnswerValue | undefined): number => (typeof value === 'number' ? value : 0);
+
+export const answerToBoolean = (value: GoalAnswerValue | undefined): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value > 0;
+  return !!value && Object.values(value).some(Boolean);
+};
+
+export const answerItems = (value: GoalAnswerValue | undefined): Record<string, boolean> =>
+  value && typeof value === 'object' ? value : {};
+
+export interface InvalidChecklistRecord {
+  submissionId: string;
+  userProfileId: string | null;
+  userName: string | null;
+  date: string;
+  error: string;
+}
+
+/**
+ * Lista as submissões cujo checklist não decodifica (relatório de integridade do admin)
+ */
+export const findInvalidChecklists = (submissions: Submission[]): InvalidChecklistRecord[] =>
+  submissions.flatMap(submission => {
+    const result = decodeChecklist(submission.checklist);
+    if (result.ok) return [];
+    // O relacionamento pode vir expandido (objeto) ou apenas com o ID
+    const author = submission.userProfile as Submission['userProfile'] | string | null;
+    return [{
+      submissionId: submission.$id,
+      userProfileId: typeof author === 'string' ? author : author?.$id ?? null,
+      userName: typeof author === 'object' && author ? author.name : null,
+      date: submission.date,
+      error: result.error
+    }];
+  });
@@ -0,0 +1,111 @@
+/**
+ * Roles personalizados (server-side only)
+ * Cadastro dos conjuntos de permissões configuráveis pelo admin e
+ * resolução das permissões efetivas de um perfil
+ */
+
+import { Query } from 'node-appwrite';
+import { adminDatabases, ID } from './appwrite-server';
+import { CUSTOM_ROLES_COLLECTION, DATABASE_ID, USER_PROFILES_COLLECTION, type UserProfile } from './appwrite';
+import { Role } from './roles';
+import { resolvePermissions, sanitizePermissions, type CustomRole, type Permission } from './permissions';
+
+export interface CustomRoleInput {
+  name: unknown;
+  description?: unknown;
+  baseRole: unknown;
+  permissions: unknown;
+}
+
+// Roles personalizados só se aplicam a gestores e colaboradores (o admin tem todas as permissões)
+const CUSTOMIZABLE_ROLES: Role[] = [Role.MANAGER, Role.COLLABORATOR];
+
+export const listCustomRoles = async (): Promise<CustomRole[]> => {
+  const response = await adminDatabases.listDocuments(DATABASE_ID, CUSTOM_ROLES_COLLECTION, [
+    Query.orderAsc('name'),
+    Query.limit(100)
+  ]);
+  return response.documents as unknown as CustomRole[];
+};
+
+export const getCustomRole = async (roleId: string): Promise<CustomRole | null> => {
+  try {
+    return await adminDatabases.getDocument(DATABASE_ID, CUSTOM_ROLES_COLLECTION, roleId) as unknown as CustomRole;
+  } catch (error: any) {
+    if (error?.code === 404) return null;
+    throw error;
+  }
+};
+
+/**
+ * Valida os dados do formulário
+ * Retorna a mensagem de erro de validação (string) ou os dados normalizados
+ */
+const validateInput = (input: CustomRoleInput): Omit<CustomRole, '$id'> | string => {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (name.length < 3 || name.length > 60) {
+    return 'O nome do role deve ter entre 3 e 60 caracteres.';
+  }
+
+  if (!CUSTOMIZABLE_ROLES.includes(input.baseRole as Role)) {
+    return 'Role base inválido: escolha gestor ou colaborador.';
+  }
+
+  const permissions = sanitizePermissions(input.permissions);
+  if (permissions.length === 0) {
+    return 'Selecione ao menos uma permissão.';
+  }
+
+  return {
+    name,
+    description: typeof input.description === 'string' ? input.description.trim().slice(0, 300) : '',
+    baseRole: input.baseRole as Role,
+    permissions
+  };
+};
+
+export const createCustomRole = async (input: CustomRoleInput): Promise<CustomRole | string> => {
+  const data = validateInput(input);
+  if (typeof data === 'string') return data;
+
+  const role = await adminDatabases.createDocument(DATABASE_ID, CUSTOM_ROLES_COLLECTION, ID.unique(), data, []);
+  return role as unknown as CustomRole;
+};
+
+/**
+ * Atualiza um role personalizado
+ * O role base não muda se houver usuários vinculados (o painel de cada um depende dele)
+ */
+export const updateCustomRole = async (current: CustomRole, input: CustomRoleInput): Promise<CustomRole | string> => {
+  const data = validateInput(input);
+  if (typeof data === 'string') return data;
+
+  if (data.baseRole !== current.baseRole && (await countProfilesWithRole(current.$id)) > 0) {
+    return 'Não é possível alterar o role base de um role atribuído a usuários.';
+  }
+
+  const role = await adminDatabases.updateDocument(DATABASE_ID, CUSTOM_ROLES_COLLECTION, current.$id, data);
+  return role as unknown as CustomRole;
+};
+
+export const deleteCustomRole = async (roleId: string): Promise<void> => {
+  await adminDatabases.deleteDocument(DATABASE_ID, CUSTOM_ROLES_COLLECTION, roleId);
+};
+
+export const countProfilesWithRole = async (roleId: string): Promise<number> => {
+  const response = await adminDatabases.listDocuments(DATABASE_ID, USER_PROFILES_COLLECTION, [
+    Query.equal('customRoleId', roleId),
+    Query.limit(1)
+  ]);
+  return response.total;
+};
+
+/**
+ * Permissões efetivas de um perfil (role personalizado + delegação ativa)
+ * Role personalizado removido ou com role base diferente é ignorado
+ */
+export const resolveProfilePermissions = async (profile: UserProfile, delegated = false): Promise<Permission[]> => {
+  const customRole = profile.customRoleId ? await getCustomRole(profile.customRoleId) : null;
+  const applicable = customRole?.baseRole === profile.role ? customRole : null;
+  return resolvePermissions(profile.role, applicable, delegated, profile.sector);
+};
@@ -0,0 +1,191 @@
+/**
+ * Delegação temporária de gestores (server-side only)
+ * Um gestor (ou o admin em seu nome) repassa a outro usuário as permissões de
+ * gestão de alguns dos seus setores por um período definido (férias, ausências)
+ */
+
+import { Query } from 'node-appwrite';
+import { adminDatabases, ID } from './appwrite-server';
+import {
+  DATABASE_ID,
+  MANAGER_DELEGATIONS_COLLECTION,
+  USER_PROFILES_COLLECTION,
+  type ManagerDelegation,
+  type Sector,
+  type UserProfile
+} from './appwrite';
+import { Role } from './roles';
+import { getOwnManagedSectors, sanitizeSectors } from './sectors';
+
+// Duração máxima de uma delegação
+export const DELEGATION_MAX_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Escopo de gestão de um perfil: setores próprios + setores recebidos por delegação ativa
+ */
+export interface ManagerScope {
+  sectors: Sector[];
+  delegations: ManagerDelegation[]; // delegações ativas recebidas
+}
+
+export interface DelegationInput {
+  manager: UserProfile;
+  delegateProfileId: unknown;
+  sectors: unknown;
+  startsAt: unknown;
+  endsAt: unknown;
+  reason?: unknown;
+  createdBy: string;
+}
+
+export const getProfileById = async (profileId: string): Promise<UserProfile | null> => {
+  try {
+    return await adminDatabases.getDocument(DATABASE_ID, USER_PROFILES_COLLECTION, profileId) as unknown as UserProfile;
+  } catch (error: any) {
+    if (error?.code === 404) return null;
+    throw error;
+  }
+};
+
+/**
+ * Delegações ativas agora recebidas pelo perfil
+ */
+export const listActiveDelegationsFor = async (delegateProfileId: string): Promise<ManagerDelegation[]> => {
+  const now = new Date().toISOString();
+  const response = await adminDatabases.listDocuments(DATABASE_ID, MANAGER_DELEGATIONS_COLLECTION, [
+    Query.equal('delegateProfileId', delegateProfileId),
+    Query.isNull('revokedAt'),
+    Query.lessThanEqual('startsAt', now),
+    Query.greaterThan('endsAt', now),
+    Query.limit(50)
+  ]);
+  return response.documents as unknown as ManagerDelegation[];
+};
+
+/**
+ * Resolve os setores que o perfil pode gerir neste momento
+ */
+export const resolveManagerScope = async (profile: UserProfile): Promise<ManagerScope> => {
+  const delegations = profile.role === Role.ADMIN ? [] : await listActiveDelegationsFor(profile.$id);
+  const sectors = new Set<Sector>(getOwnManagedSectors(profile));
+  delegations.forEach(delegation => delegation.sectors.forEach(sector => sectors.add(sector)));
+  return { sectors: Array.from(sectors), delegations };
+};
+
+/**
+ * Fim da delegação ativa mais longa (segundos desde epoch), usado no cookie de sessão
+ */
+export const getDelegatedUntil = (delegations: ManagerDelegation[]): number | undefined => {
+  if (delegations.length === 0) return undefined;
+  return Math.floor(Math.max(...delegations.map(delegation => new Date(delegation.endsAt).getTime())) / 1000);
+};
+
+/**
+ * Lista delegações não expiradas (ativas ou futuras), opcionalmente filtradas por participante
+ */
+export const listCurrentDelegations = async (profileId?: string): Promise<ManagerDelegation[]> => {
+  const baseQueries = [
+    Query.isNull('revokedAt'),
+    Query.greaterThan('endsAt', new Date().toISOString()),
+    Query.orderAsc('startsAt'),
+    Query.limit(100)
+  ];
+
+  if (!profileId) {
+    const response = await adminDatabases.listDocuments(DATABASE_ID, MANAGER_DELEGATIONS_COLLECTION, baseQueries);
+    return response.documents as unknown as ManagerDelegation[];
+  }
+
+  const [granted, received] = await Promise.all([
+    adminDatabases.listDocuments(DATABASE_ID, MANAGER_DELEGATIONS_COLLECTION, [Query.equal('managerProfileId', profileId), ...baseQueries]),
+    adminDatabases.listDocuments(DATABASE_ID, MANAGER_DELEGATIONS_COLLECTION, [Query.equal('delegateProfileId', profileId), ...baseQueries])
+  ]);
+  return [...granted.documents, ...received.documents] as unknown as ManagerDelegation[];
+};
+
+export const getDelegation = async (delegationId: string): Promise<ManagerDelegation | null> => {
+  try {
+    return await adminDatabases.getDocument(DATABASE_ID, MANAGER_DELEGATIONS_COLLECTION, delegationId) as unknown as ManagerDelegation;
+  } catch (error: any) {
+    if (error?.code === 404) return null;
+    throw error;
+  }
+};
+
+/**
+ * Valida e grava uma nova delegação
+ * Retorna a mensagem de erro de validação (string) ou a delegação criada
+ */
+export const createDelegation = async (input: DelegationInput): Promise<ManagerDelegation | string> => {
+  const { manager } = input;
+  if (manager.role !== Role.MANAGER) {
+    return 'Apenas gestores podem delegar permissões.';
+  }
+
+  if (typeof input.delegateProfileId !== 'string' || !input.delegateProfileId) {
+    return 'Selecione o usuário que receberá a delegação.';
+  }
+  if (input.delegateProfileId === manager.$id) {
+    return 'O gestor não pode delegar para si mesmo.';
+  }
+
+  const delegate = await getProfileById(input.delegateProfileId);
+  if (!delegate || delegate.role === Role.ADMIN) {
+    return 'Usuário de destino inválido.';
+  }
+
+  // Só os setores próprios do gestor podem ser delegados (sem redelegação)
+  const ownSectors = getOwnManagedSectors(manager);
+  const requested = sanitizeSectors(input.sectors);
+  const sectors = requested.length > 0 ? requested : ownSectors;
+  if (sectors.some(sector => !ownSectors.includes(sector))) {
+    return 'Só é possível delegar setores geridos pelo próprio gestor.';
+  }
+
+  const startsAt = new Date(String(input.startsAt));
+  const endsAt = new Date(String(input.endsAt));
+  if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+    return 'Informe o início e o fim da delegação.';
+  }
+  if (endsAt.getTime() <= startsAt.getTime() || endsAt.getTime() <= Date.now()) {
+    return 'O fim da delegação deve ser posterior ao início e ao momento atual.';
+  }
+  if (endsAt.getTime() - startsAt.getTime() > DELEGATION_MAX_DAYS * DAY_MS) {
+    return `A delegação pode durar no máximo ${DELEGATION_MAX_DAYS} dias.`;
+  }
+
+  const reason = typeof input.reason === 'string' ? input.reason.trim().slice(0, 500) : '';
+
+  const delegation = await adminDatabases.createDocument(
+    DATABASE_ID,
+    MANAGER_DELEGATIONS_COLLECTION,
+    ID.unique(),
+    {
+      managerProfileId: manager.$id,
+      managerName: manager.name,
+      delegateProfileId: delegate.$id,
+      delegateName: delegate.name,
+      sectors,
+      startsAt: startsAt.toISOString(),
+      endsAt: endsAt.toISOString(),
+      reason,
+      createdBy: input.createdBy
+    },
+    []
+  );
+  return delegation as unknown as ManagerDelegation;
+};
+
+/**
+ * Revoga uma delegação (mantém o registro para histórico)
+ */
+export const revokeDelegation = async (delegationId: string): Promise<ManagerDelegation> => {
+  return await adminDatabases.updateDocument(
+    DATABASE_ID,
+    MANAGER_DELEGATIONS_COLLECTION,
+    delegationId,
+    { revokedAt: new Date().toISOString() }
+  ) as unknown as ManagerDelegation;
+};
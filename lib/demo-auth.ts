@@ -0,0 +1,49 @@
+/**
+ * Autenticação do modo demonstração (NEXT_PUBLIC_DATA_SOURCE=memory, server-side only)
+ * Os perfis de lib/repositories/demo-data.ts entram com a senha DEMO_PASSWORD e recebem o mesmo
+ * cookie de sessão do login normal, sem sessão Appwrite, limitação de tentativas ou segundo fator
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { UserProfile } from './appwrite';
+import { createDemoSeed } from './repositories/demo-data';
+import { getOwnManagedSectors } from './sectors';
+import { resolvePermissions } from './permissions';
+import type { ApiActor } from './api-auth';
+
+// Senha única dos perfis de demonstração (sobrescrevível para apresentações públicas)
+export const DEMO_PASSWORD = process.env.DEMO_PASSWORD || 'demo1234';
+
+const demoProfiles = (): UserProfile[] => createDemoSeed().profiles || [];
+
+const sameSecret = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+/**
+ * Confere e-mail e senha de um perfil de demonstração; devolve o perfil ou null
+ */
+export const verifyDemoCredentials = (email: string, password: string): UserProfile | null => {
+  const profile = demoProfiles().find(item => item.email.toLowerCase() === email.trim().toLowerCase());
+  return profile && sameSecret(password, DEMO_PASSWORD) ? profile : null;
+};
+
+export const findDemoProfile = (profileId: string): UserProfile | null =>
+  demoProfiles().find(profile => profile.$id === profileId) || null;
+
+/**
+ * Autor das API routes para um perfil de demonstração (sem delegações nem perfis customizados)
+ */
+export const buildDemoActor = (profile: UserProfile): ApiActor => ({
+  id: profile.$id,
+  userId: profile.userId,
+  name: profile.name,
+  email: profile.email,
+  role: profile.role,
+  sector: profile.sector,
+  managedSectors: getOwnManagedSectors(profile),
+  delegations: [],
+  permissions: resolvePermissions(profile.role, null, false, profile.sector)
+});
@@ -0,0 +1,68 @@
+/**
+ * Envio de e-mails (server-side only)
+ * Transporte configurável por EMAIL_TRANSPORT:
+ * - `console`: apenas registra a mensagem no log do servidor (padrão fora de produção)
+ * - `smtp`: envia via SMTP (SMTP_HOST/SMTP_PORT/...); em desenvolvimento use
+ *   `npm run dev:smtp`, que sobe um servidor SMTP local que imprime as mensagens
+ */
+
+import nodemailer from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  send: (message: EmailMessage & { from: string }) => Promise<void>;
+}
+
+const consoleTransport: EmailTransport = {
+  send: async (message) => {
+    console.log(`📧 [EMAIL] Para: ${message.to} | Assunto: ${message.subject}\n${message.text}`);
+  }
+};
+
+const createSmtpTransport = (): EmailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || 1025,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined
+  });
+
+  return {
+    send: async (message) => {
+      await transporter.sendMail(message);
+    }
+  };
+};
+
+let transport: EmailTransport | null = null;
+
+const getEmailTransport = (): EmailTransport => {
+  if (transport) return transport;
+
+  const kind = process.env.EMAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console');
+  transport = kind === 'smtp' ? createSmtpTransport() : consoleTransport;
+  return transport;
+};
+
+/**
+ * Substitui o transporte (ex.: provedor transacional externo)
+ */
+export const setEmailTransport = (custom: EmailTransport) => {
+  transport = custom;
+};
+
+/**
+ * Envia um e-mail usando o transporte configurado
+ */
+export const sendEmail = async (message: EmailMessage) => {
+  const from = process.env.EMAIL_FROM || 'MetasTI <no-reply@metasti.local>';
+  await getEmailTransport().send({ ...message, from });
+};
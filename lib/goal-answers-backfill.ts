@@ -0,0 +1,88 @@
+/**
+ * Migração das respostas por meta (server-side only)
+ * Preenche goal_answers a partir do checklist/goalFiles das submissões existentes, uma página de submissões por vez.
+ * Pode ser executada mais de uma vez, inclusive em paralelo a outra execução ou a um reenvio: pares submissão+meta
+ * já gravados são ignorados e o ID determinístico (lib/goal-answers-store.ts) impede duplicatas
+ */
+
+import { Query } from 'node-appwrite';
+import { adminDatabases } from './appwrite-server';
+import {
+  DATABASE_ID,
+  GOAL_ANSWERS_COLLECTION,
+  SECTOR_GOALS_COLLECTION,
+  SUBMISSIONS_COLLECTION,
+  type GoalAnswerRecord,
+  type GoalType,
+  type SectorGoal,
+  type Submission
+} from './appwrite';
+import { decodeChecklist } from './checklist-schema';
+import { buildGoalAnswers, parseGoalFiles, typeDecodedAnswers, type GoalAnswersBackfillResult } from './goal-answers';
+import { writeGoalAnswer } from './goal-answers-store';
+import { forEachDocumentPage, listAllDocuments } from './pagination';
+
+// O relacionamento pode vir expandido (objeto) ou apenas com o ID
+const getAuthorId = (submission: Submission): string | null => {
+  const author = submission.userProfile as Submission['userProfile'] | string | null;
+  return typeof author === 'string' ? author : author?.$id ?? null;
+};
+
+// Pares submissão+meta já gravados para as submissões da página
+const listMigratedPairs = async (submissionIds: string[]): Promise<Set<string>> => {
+  const existing = submissionIds.length === 0 ? [] : await listAllDocuments(
+    page => adminDatabases.listDocuments(DATABASE_ID, GOAL_ANSWERS_COLLECTION, page),
+    [Query.equal('submissionId', submissionIds)]
+  ) as unknown as GoalAnswerRecord[];
+  return new Set(existing.map(record => `${record.submissionId}:${record.goalId}`));
+};
+
+export const backfillGoalAnswers = async ({ dryRun = false } = {}): Promise<GoalAnswersBackfillResult> => {
+  const goals = await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, SECTOR_GOALS_COLLECTION, page));
+  const goalTypes: Record<string, GoalType> = Object.fromEntries(
+    (goals as unknown as SectorGoal[]).map(goal => [goal.$id!, goal.type])
+  );
+
+  const result: GoalAnswersBackfillResult = {
+    dryRun,
+    scannedSubmissions: 0,
+    created: 0,
+    alreadyMigrated: 0,
+    invalidSubmissions: [],
+    rejectedAnswers: []
+  };
+
+  await forEachDocumentPage(page => adminDatabases.listDocuments(DATABASE_ID, SUBMISSIONS_COLLECTION, page), [], async documents => {
+    const submissions = documents as unknown as Submission[];
+    result.scannedSubmissions += submissions.length;
+    const migrated = await listMigratedPairs(submissions.map(submission => submission.$id));
+
+    for (const submission of submissions) {
+      const decoded = decodeChecklist(submission.checklist);
+      const profileId = getAuthorId(submission);
+      if (!decoded.ok || !profileId) {
+        result.invalidSubmissions.push(submission.$id);
+        continue;
+      }
+
+      const { answers, rejected } = typeDecodedAnswers(decoded.checklist.answers, goalTypes);
+      rejected.forEach(goalId => result.rejectedAnswers.push({ submissionId: submission.$id, goalId }));
+
+      const records = buildGoalAnswers(
+        { submissionId: submission.$id, profileId, date: submission.date },
+        answers,
+        parseGoalFiles(submission.goalFiles)
+      );
+      for (const record of records) {
+        // Já gravado: presente na listagem da página ou gravado depois dela (409 no ID determinístico)
+        if (migrated.has(`${record.submissionId}:${record.goalId}`) || (!dryRun && !(await writeGoalAnswer(record)))) {
+          result.alreadyMigrated++;
+          continue;
+        }
+        result.created++;
+      }
+    }
+  });
+
+  return result;
+};
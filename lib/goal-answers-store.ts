@@ -0,0 +1,26 @@
+/**
+ * Gravação de respostas por meta (server-side only)
+ * O ID do registro deriva do par submissão+meta: gravações concorrentes (migração e reenvio de uma submissão)
+ * colidem no mesmo documento em vez de duplicar a resposta
+ */
+
+import { createHash } from 'crypto';
+import { adminDatabases } from './appwrite-server';
+import { DATABASE_ID, GOAL_ANSWERS_COLLECTION } from './appwrite';
+import type { NewGoalAnswer } from './repositories/types';
+
+export const goalAnswerId = (submissionId: string, goalId: string) =>
+  createHash('sha256').update(`${submissionId}:${goalId}`).digest('hex').slice(0, 32);
+
+/**
+ * Grava o registro; devolve false quando ele já existia (409)
+ */
+export const writeGoalAnswer = async (record: NewGoalAnswer): Promise<boolean> => {
+  try {
+    await adminDatabases.createDocument(DATABASE_ID, GOAL_ANSWERS_COLLECTION, goalAnswerId(record.submissionId, record.goalId), record);
+    return true;
+  } catch (error: any) {
+    if (error?.code === 409) return false;
+    throw error;
+  }
+};
@@ -0,0 +1,106 @@
+/**
+ * Respostas normalizadas por meta (collection goal_answers)
+ * Cada submissão gera um registro por meta respondida, o que permite consultar os valores
+ * de uma meta num período sem baixar e decodificar o checklist de todas as submissões
+ */
+
+import { GoalType, type GoalAnswerRecord } from './appwrite';
+import { goalAnswerSchema, type ChecklistAnswers, type GoalAnswer, type GoalAnswerValue } from './checklist-schema';
+import type { NewGoalAnswer } from './repositories/types';
+
+// Resultado da migração (lib/goal-answers-backfill.ts)
+export interface GoalAnswersBackfillResult {
+  dryRun: boolean;
+  scannedSubmissions: number;
+  created: number; // registros gravados (ou a gravar, na simulação)
+  alreadyMigrated: number; // pares submissão+meta que já existiam
+  invalidSubmissions: string[]; // checklist não decodifica (ver relatório de integridade)
+  rejectedAnswers: { submissionId: string; goalId: string }[]; // valor incompatível com o tipo da meta
+}
+
+interface GoalAnswerSource {
+  submissionId: string;
+  profileId: string;
+  date: string;
+}
+
+/**
+ * Monta os registros por meta de uma submissão a partir das respostas tipadas
+ */
+export const buildGoalAnswers = (
+  source: GoalAnswerSource,
+  answers: ChecklistAnswers,
+  goalFiles: Record<string, string[]> = {}
+): NewGoalAnswer[] =>
+  Object.entries(answers).map(([goalId, answer]) => ({
+    submissionId: source.submissionId,
+    goalId,
+    profileId: source.profileId,
+    date: source.date,
+    goalType: answer.type,
+    value: JSON.stringify(answer.value),
+    numericValue: typeof answer.value === 'number' ? answer.value : null,
+    fileIds: goalFiles[goalId] || []
+  }));
+
+/**
+ * Valor validado de um registro; undefined quando não corresponde ao tipo da meta
+ */
+export const parseGoalAnswerValue = (record: Pick<GoalAnswerRecord, 'goalType' | 'value'>): GoalAnswerValue | undefined => {
+  try {
+    const result = goalAnswerSchema.safeParse({ type: record.goalType, value: JSON.parse(record.value) });
+    return result.success ? result.data.value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Tipo deduzido do valor quando a meta não existe mais (porcentagens viram numéricas)
+const inferGoalType = (value: GoalAnswerValue): GoalType => {
+  if (typeof value === 'boolean') return GoalType.TASK_COMPLETION;
+  if (typeof value === 'number') return GoalType.NUMERIC;
+  return GoalType.BOOLEAN_CHECKLIST;
+};
+
+/**
+ * Tipa respostas decodificadas (registros antigos não guardam o tipo) usando o tipo atual de cada meta.
+ * Respostas incompatíveis com o tipo da meta e com o tipo deduzido do valor são rejeitadas
+ */
+export const typeDecodedAnswers = (
+  answers: Record<string, GoalAnswerValue>,
+  goalTypes: Record<string, GoalType>
+): { answers: ChecklistAnswers; rejected: string[] } => {
+  const typed: ChecklistAnswers = {};
+  const rejected: string[] = [];
+
+  for (const [goalId, value] of Object.entries(answers)) {
+    const candidates = [goalTypes[goalId], inferGoalType(value)].filter(Boolean);
+    const answer = candidates
+      .map(type => goalAnswerSchema.safeParse({ type, value }))
+      .find(result => result.success);
+    if (answer?.success) {
+      typed[goalId] = answer.data as GoalAnswer;
+    } else {
+      rejected.push(goalId);
+    }
+  }
+  return { answers: typed, rejected };
+};
+
+/**
+ * Arquivos por meta de Submission.goalFiles ({goalId: fileId | fileIds})
+ */
+export const parseGoalFiles = (goalFiles?: string): Record<string, string[]> => {
+  if (!goalFiles) return {};
+  try {
+    const parsed = JSON.parse(goalFiles);
+    const result: Record<string, string[]> = {};
+    for (const [goalId, value] of Object.entries(parsed || {})) {
+      if (Array.isArray(value)) result[goalId] = value.filter((id): id is string => typeof id === 'string');
+      else if (typeof value === 'string') result[goalId] = [value];
+    }
+    return result;
+  } catch {
+    return {};
+  }
+};
@@ -0,0 +1,73 @@
+/**
+ * Sanitização de payloads de metas recebidos pelas API routes
+ * Mantém apenas atributos conhecidos da collection sector_goals e valida as faixas de pagamento e a regra de atingimento
+ */
+
+import type { CreateSectorGoalData, SectorGoal } from './appwrite';
+import { validateAchievementRule } from './achievement-rules';
+import { validateRewardTiers } from './reward-tiers';
+
+const GOAL_FIELDS = [
+  'title',
+  'description',
+  'sectorId',
+  'type',
+  'targetValue',
+  'unit',
+  'checklistItems',
+  'period',
+  'category',
+  'isActive',
+  'scope',
+  'assignedUserId',
+  'hasMonetaryReward',
+  'monetaryValue',
+  'currency',
+  'rewardTiers',
+  'achievementRule',
+  'achievementThreshold',
+  'requireProof'
+] as const;
+
+export type GoalPayload = Partial<CreateSectorGoalData & { isActive: boolean }>;
+
+export const pickGoalFields = (body: Record<string, any> | undefined): GoalPayload => {
+  const payload: Record<string, any> = {};
+  if (!body) return payload;
+  for (const field of GOAL_FIELDS) {
+    if (body[field] !== undefined) {
+      payload[field] = body[field];
+    }
+  }
+  return payload as GoalPayload;
+};
+
+/**
+ * Valida as faixas de pagamento do payload (string JSON ou null para remover)
+ * Devolve a mensagem de erro ou null quando o payload é aceito
+ */
+export const validateGoalRewardTiers = (payload: GoalPayload): string | null => {
+  const { rewardTiers } = payload;
+  if (rewardTiers === undefined || rewardTiers === null) return null;
+  if (typeof rewardTiers !== 'string') return 'Faixas de pagamento inválidas.';
+  try {
+    return validateRewardTiers(JSON.parse(rewardTiers));
+  } catch {
+    return 'Faixas de pagamento inválidas.';
+  }
+};
+
+/**
+ * Valida a regra de atingimento do payload contra o tipo e o período da meta
+ * Na edição, campos ausentes do payload vêm da meta atual (ex.: troca de período mantendo a regra)
+ */
+export const validateGoalAchievementRule = (payload: GoalPayload, current?: SectorGoal): string | null => {
+  const { type, period, achievementRule, achievementThreshold } = payload;
+  if (type === undefined && period === undefined && achievementRule === undefined && achievementThreshold === undefined) return null;
+  return validateAchievementRule(
+    type ?? current?.type,
+    achievementRule !== undefined ? achievementRule : current?.achievementRule,
+    achievementThreshold !== undefined ? achievementThreshold : current?.achievementThreshold,
+    period ?? current?.period
+  );
+};
@@ -85,7 +85,8 @@ class Logger {
   data = {
     load: (type: string, count: number) => this.formatMessage('info', 'DATA', `${type} carregados`, `${count} itens`),
     save: (type: string) => this.formatMessage('success', 'DATA', `${type} salvo com sucesso`),
-    empty: (type: string) => this.formatMessage('warning', 'DATA', `Nenhum ${type} encontrado`)
+    empty: (type: string) => this.formatMessage('warning', 'DATA', `Nenhum ${type} encontrado`),
+    invalid: (type: string, id: string, reason: string) => this.formatMessage('warning', 'DATA', `Registro de ${type} inválido: ${id}`, reason)
   };
 
   form = {
@@ -94,6 +95,12 @@ class Logger {
     error: (form: string, error: string) => this.formatMessage('error', 'FORM', `Erro no ${form}: ${error}`)
   };
 
+  realtime = {
+    subscribe: (channel: string) => this.formatMessage('debug', 'REALTIME', `Inscrito em ${channel}`),
+    event: (collection: string, action: string, id: string) => this.formatMessage('info', 'REALTIME', `${collection}: ${action}`, id),
+    resync: (collection: string, reason: string) => this.formatMessage('warning', 'REALTIME', `Ressincronizando ${collection}`, reason)
+  };
+
   ui = {
     navigate: (page: string) => this.formatMessage('info', 'UI', `Navegando para ${page}`),
     render: (component: string) => this.formatMessage('debug', 'UI', `Renderizando ${component}`),
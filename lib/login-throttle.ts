@@ -0,0 +1,240 @@
+/**
+ * Limitação de tentativas de login (server-side only)
+ * Contabiliza falhas por IP e por e-mail, aplica atrasos progressivos entre
+ * tentativas e bloqueio temporário após N falhas. Estado persistido no Appwrite
+ * para valer entre instâncias do servidor e ser visível no painel admin
+ */
+
+import { createHash } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { NextApiResponse } from 'next';
+import { Query } from 'node-appwrite';
+import { adminDatabases } from './appwrite-server';
+import { DATABASE_ID, LOGIN_ATTEMPTS_COLLECTION, type LoginAttemptRecord } from './appwrite';
+
+export const LOGIN_THROTTLE_CONFIG = {
+  maxEmailFailures: Number(process.env.LOGIN_MAX_FAILURES_PER_EMAIL) || 5,
+  // IP é compartilhado por máquinas do chão de fábrica (NAT), por isso o limite é maior
+  maxIpFailures: Number(process.env.LOGIN_MAX_FAILURES_PER_IP) || 50,
+  lockoutMinutes: Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15,
+  // Janela após a qual falhas antigas deixam de contar
+  failureWindowMinutes: 15,
+  // Atraso progressivo: 1s, 2s, 4s, ... até 30s
+  baseDelaySeconds: 1,
+  maxDelaySeconds: 30
+} as const;
+
+export type LoginThrottleScope = 'email' | 'ip';
+
+export interface LoginThrottleDecision {
+  allowed: boolean;
+  reason?: 'locked' | 'delay';
+  retryAfterSeconds?: number;
+  lockedUntil?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Responde 429 com Retry-After para tentativas bloqueadas/atrasadas
+ */
+export const sendLoginThrottled = (res: NextApiResponse, decision: LoginThrottleDecision) => {
+  const retryAfter = decision.retryAfterSeconds ?? 1;
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({
+    error: decision.reason === 'locked'
+      ? `Acesso temporariamente bloqueado por excesso de tentativas. Tente novamente em ${Math.ceil(retryAfter / 60)} minuto(s).`
+      : `Muitas tentativas seguidas. Aguarde ${retryAfter} segundo(s) e tente novamente.`,
+    code: decision.reason === 'locked' ? 'login_locked' : 'login_throttled',
+    retryAfterSeconds: retryAfter,
+    lockedUntil: decision.lockedUntil ?? null
+  });
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const buildKey = (scope: LoginThrottleScope, value: string) =>
+  `${scope}:${scope === 'email' ? normalizeEmail(value) : value}`;
+
+// IDs do Appwrite aceitam até 36 caracteres alfanuméricos
+const toDocumentId = (key: string) => createHash('sha256').update(key).digest('hex').slice(0, 36);
+
+const normalizeIp = (ip: string) => ip.trim().replace(/^::ffff:/, '');
+
+// Proxies reversos confiáveis (TRUSTED_PROXY_IPS, separados por vírgula): só eles podem informar o IP do cliente
+const getTrustedProxies = () => (process.env.TRUSTED_PROXY_IPS || '')
+  .split(',')
+  .map(normalizeIp)
+  .filter(Boolean);
+
+/**
+ * Obtém o IP do cliente
+ * X-Forwarded-For só é considerado quando a conexão vem de um proxy confiável; na cadeia, vale o último
+ * endereço que não é proxy confiável (os anteriores podem ter sido forjados pelo cliente)
+ */
+export const getClientIp = (req: IncomingMessage): string => {
+  const remote = normalizeIp(req.socket?.remoteAddress || '');
+  const trusted = getTrustedProxies();
+  if (!remote || !trusted.includes(remote)) return remote || 'unknown';
+
+  const forwarded = req.headers['x-forwarded-for'];
+  const chain = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '')
+    .split(',')
+    .map(normalizeIp)
+    .filter(Boolean);
+  for (let i = chain.length - 1; i >= 0; i--) {
+    if (!trusted.includes(chain[i])) return chain[i];
+  }
+  return chain[0] || remote;
+};
+
+const getRecord = async (key: string): Promise<LoginAttemptRecord | null> => {
+  try {
+    return await adminDatabases.getDocument(DATABASE_ID, LOGIN_ATTEMPTS_COLLECTION, toDocumentId(key)) as unknown as LoginAttemptRecord;
+  } catch (error: any) {
+    if (error?.code === 404) return null;
+    throw error;
+  }
+};
+
+const saveRecord = async (key: string, scope: LoginThrottleScope, data: Pick<LoginAttemptRecord, 'failures' | 'lastAttemptAt' | 'lockedUntil'>) => {
+  const documentId = toDocumentId(key);
+  try {
+    await adminDatabases.updateDocument(DATABASE_ID, LOGIN_ATTEMPTS_COLLECTION, documentId, data);
+  } catch (error: any) {
+    if (error?.code !== 404) throw error;
+    await adminDatabases.createDocument(DATABASE_ID, LOGIN_ATTEMPTS_COLLECTION, documentId, { key, scope, ...data }, []);
+  }
+};
+
+// Falhas que ainda estão dentro da janela de contagem
+const activeFailures = (record: LoginAttemptRecord | null, now: number) => {
+  if (!record || !record.lastAttemptAt) return 0;
+  const expired = now - new Date(record.lastAttemptAt).getTime() > LOGIN_THROTTLE_CONFIG.failureWindowMinutes * MINUTE_MS;
+  return expired ? 0 : record.failures;
+};
+
+const progressiveDelaySeconds = (failures: number) => {
+  if (failures <= 0) return 0;
+  const { baseDelaySeconds, maxDelaySeconds } = LOGIN_THROTTLE_CONFIG;
+  return Math.min(baseDelaySeconds * Math.pow(2, failures - 1), maxDelaySeconds);
+};
+
+// Atrasos progressivos valem apenas por e-mail; IP compartilhado só sofre bloqueio
+const evaluateRecord = (record: LoginAttemptRecord | null, now: number, applyDelay: boolean): LoginThrottleDecision => {
+  if (record?.lockedUntil && new Date(record.lockedUntil).getTime() > now) {
+    return {
+      allowed: false,
+      reason: 'locked',
+      lockedUntil: record.lockedUntil,
+      retryAfterSeconds: Math.ceil((new Date(record.lockedUntil).getTime() - now) / 1000)
+    };
+  }
+
+  const failures = activeFailures(record, now);
+  const delay = applyDelay ? progressiveDelaySeconds(failures) : 0;
+  if (delay > 0 && record?.lastAttemptAt) {
+    const nextAllowedAt = new Date(record.lastAttemptAt).getTime() + delay * 1000;
+    if (nextAllowedAt > now) {
+      return { allowed: false, reason: 'delay', retryAfterSeconds: Math.ceil((nextAllowedAt - now) / 1000) };
+    }
+  }
+
+  return { allowed: true };
+};
+
+const registerFailure = async (scope: LoginThrottleScope, value: string, record: LoginAttemptRecord | null, now: number) => {
+  const key = buildKey(scope, value);
+  const failures = activeFailures(record, now) + 1;
+  const limit = scope === 'email' ? LOGIN_THROTTLE_CONFIG.maxEmailFailures : LOGIN_THROTTLE_CONFIG.maxIpFailures;
+  const lockedUntil = failures >= limit
+    ? new Date(now + LOGIN_THROTTLE_CONFIG.lockoutMinutes * MINUTE_MS).toISOString()
+    : null;
+
+  await saveRecord(key, scope, {
+    failures: lockedUntil ? 0 : failures,
+    lastAttemptAt: new Date(now).toISOString(),
+    lockedUntil
+  });
+};
+
+/**
+ * Verifica o bloqueio e registra a tentativa como falha presumida
+ * A falha é desfeita por `registerLoginSuccess` quando o login é confirmado
+ */
+export const consumeLoginAttempt = async (email: string, ip: string): Promise<LoginThrottleDecision> => {
+  const now = Date.now();
+  const [emailRecord, ipRecord] = await Promise.all([
+    getRecord(buildKey('email', email)),
+    getRecord(buildKey('ip', ip))
+  ]);
+
+  const emailDecision = evaluateRecord(emailRecord, now, true);
+  if (!emailDecision.allowed) return emailDecision;
+  const ipDecision = evaluateRecord(ipRecord, now, false);
+  if (!ipDecision.allowed) return ipDecision;
+
+  await Promise.all([
+    registerFailure('email', email, emailRecord, now),
+    registerFailure('ip', ip, ipRecord, now)
+  ]);
+
+  return { allowed: true };
+};
+
+/**
+ * Bloqueio ativo do e-mail ou do IP, sem registrar tentativa (emissão do cookie de sessão)
+ */
+export const getLoginLockout = async (email: string, ip: string): Promise<LoginThrottleDecision> => {
+  const now = Date.now();
+  const records = await Promise.all([getRecord(buildKey('email', email)), getRecord(buildKey('ip', ip))]);
+  const locked = records
+    .map(record => evaluateRecord(record, now, false))
+    .find(decision => decision.reason === 'locked');
+  return locked ?? { allowed: true };
+};
+
+/**
+ * Login confirmado: zera as falhas do e-mail e devolve uma falha presumida do IP
+ */
+export const registerLoginSuccess = async (email: string, ip: string) => {
+  const now = new Date().toISOString();
+  const ipRecord = await getRecord(buildKey('ip', ip));
+
+  await Promise.all([
+    saveRecord(buildKey('email', email), 'email', { failures: 0, lastAttemptAt: now, lockedUntil: null }),
+    ipRecord && ipRecord.failures > 0
+      ? saveRecord(buildKey('ip', ip), 'ip', { failures: ipRecord.failures - 1, lastAttemptAt: ipRecord.lastAttemptAt, lockedUntil: ipRecord.lockedUntil ?? null })
+      : Promise.resolve()
+  ]);
+};
+
+/**
+ * Lista bloqueios ativos e registros com falhas recentes (painel admin)
+ */
+export const listLoginLockouts = async (): Promise<LoginAttemptRecord[]> => {
+  const since = new Date(Date.now() - LOGIN_THROTTLE_CONFIG.failureWindowMinutes * MINUTE_MS).toISOString();
+  const response = await adminDatabases.listDocuments(DATABASE_ID, LOGIN_ATTEMPTS_COLLECTION, [
+    Query.or([
+      Query.greaterThan('lockedUntil', new Date().toISOString()),
+      Query.and([Query.greaterThan('failures', 0), Query.greaterThan('lastAttemptAt', since)])
+    ]),
+    Query.orderDesc('lastAttemptAt'),
+    Query.limit(100)
+  ]);
+  return response.documents as unknown as LoginAttemptRecord[];
+};
+
+/**
+ * Remove o bloqueio de um registro (desbloqueio manual pelo admin)
+ */
+export const unlockLoginRecord = async (recordId: string): Promise<LoginAttemptRecord | null> => {
+  try {
+    const record = await adminDatabases.getDocument(DATABASE_ID, LOGIN_ATTEMPTS_COLLECTION, recordId) as unknown as LoginAttemptRecord;
+    await adminDatabases.deleteDocument(DATABASE_ID, LOGIN_ATTEMPTS_COLLECTION, recordId);
+    return record;
+  } catch (error: any) {
+    if (error?.code === 404) return null;
+    throw error;
+  }
+};
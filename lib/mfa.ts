@@ -0,0 +1,295 @@
+/**
+ * Segundo fator de autenticação (TOTP) - server-side only
+ * Cadastro com QR code, códigos de recuperação, política por role e a etapa
+ * intermediária do login (cookie de desafio entre a senha e o código)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { NextApiResponse } from 'next';
+import QRCode from 'qrcode';
+import { adminDatabases } from './appwrite-server';
+import { DATABASE_ID, USER_MFA_COLLECTION, type UserMfaRecord } from './appwrite';
+import { Role } from './roles';
+import { getSessionSecret, readCookie, serializeSessionCookie, signSessionToken, verifySessionToken } from './session-token';
+import { createAdminSessionToken, serializeAdminSessionCookie } from './admin-session';
+import { createUserSessionToken, serializeUserSessionCookie } from './user-session';
+import { buildAdminProfile } from './admin-auth';
+import { getSecuritySettings } from './app-settings';
+import { resolveApiActor, type ApiActor } from './api-auth';
+import { getDelegatedUntil, listActiveDelegationsFor } from './delegations';
+import { getSessionTtlSeconds, touchSessionActivity } from './session-activity';
+import { createLoginToken } from './user-login';
+import {
+  buildOtpAuthUrl,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotpCode
+} from './totp';
+
+// Roles que podem (ou podem ser obrigados a) usar o segundo fator
+export const MFA_ELIGIBLE_ROLES: Role[] = [Role.ADMIN, Role.MANAGER];
+
+export const MFA_CHALLENGE_COOKIE = 'metas_mfa_challenge';
+const MFA_CHALLENGE_AUDIENCE = 'mfa_challenge';
+
+// Tempo para concluir a segunda etapa do login: 5 minutos
+export const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export type MfaStep = 'verify' | 'enroll';
+
+/**
+ * Titular do segundo fator (admin ou usuário Appwrite)
+ */
+export interface MfaSubject {
+  sub: string; // userId do Appwrite ('admin' para o administrador)
+  kind: 'admin' | 'user';
+  profileId: string;
+  role: Role;
+  email: string;
+  name: string;
+  mustChangePassword?: boolean;
+  sessionId?: string; // sessão Appwrite já aberta (renovação de uma sessão existente)
+}
+
+export interface MfaChallengePayload extends MfaSubject {
+  step: MfaStep;
+  iat: number;
+  exp: number;
+}
+
+export const isMfaEligibleRole = (role: Role) => MFA_ELIGIBLE_ROLES.includes(role);
+
+// Segredos TOTP ficam cifrados (AES-256-GCM) com chave derivada de ADMIN_SESSION_SECRET
+const getEncryptionKey = () => createHash('sha256').update(`mfa:${getSessionSecret()}`).digest();
+
+const encryptSecret = (plain: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('hex')).join(':');
+};
+
+const decryptSecret = (stored: string): string => {
+  const [ivHex, tagHex, dataHex] = stored.split(':');
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(ivHex, 'hex'));
+  decipher.setAuthTag(Buffer.from(tagHex, 'hex'));
+  return Buffer.concat([decipher.update(Buffer.from(dataHex, 'hex')), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Busca o cadastro de segundo fator do titular
+ */
+export const getMfaRecord = async (subjectId: string): Promise<UserMfaRecord | null> => {
+  try {
+    return await adminDatabases.getDocument(DATABASE_ID, USER_MFA_COLLECTION, subjectId) as unknown as UserMfaRecord;
+  } catch (error: any) {
+    if (error?.code === 404) return null;
+    throw error;
+  }
+};
+
+const saveMfaRecord = async (subjectId: string, data: Partial<Omit<UserMfaRecord, '$id' | 'subjectId'>>) => {
+  try {
+    await adminDatabases.updateDocument(DATABASE_ID, USER_MFA_COLLECTION, subjectId, data);
+  } catch (error: any) {
+    if (error?.code !== 404) throw error;
+    await adminDatabases.createDocument(
+      DATABASE_ID,
+      USER_MFA_COLLECTION,
+      subjectId,
+      { subjectId, enabled: false, recoveryCodes: [], ...data },
+      []
+    );
+  }
+};
+
+/**
+ * Verifica se a política obriga o role a usar o segundo fator
+ */
+export const isMfaRequiredForRole = async (role: Role): Promise<boolean> => {
+  if (!isMfaEligibleRole(role)) return false;
+  const settings = await getSecuritySettings();
+  return settings.mfaRequiredRoles.includes(role);
+};
+
+/**
+ * Define a etapa de segundo fator exigida no login
+ * - `verify`: titular já cadastrado
+ * - `enroll`: política exige, mas o titular ainda não cadastrou
+ * - null: login concluído apenas com a senha
+ */
+export const resolveMfaStep = async (subject: MfaSubject): Promise<MfaStep | null> => {
+  if (!isMfaEligibleRole(subject.role)) return null;
+
+  const record = await getMfaRecord(subject.sub);
+  if (record?.enabled) return 'verify';
+
+  return (await isMfaRequiredForRole(subject.role)) ? 'enroll' : null;
+};
+
+/**
+ * Monta o cookie do desafio de segundo fator
+ */
+export const createMfaChallengeCookie = async (subject: MfaSubject, step: MfaStep): Promise<string> => {
+  const token = await signSessionToken({ ...subject, step }, MFA_CHALLENGE_TTL_SECONDS, MFA_CHALLENGE_AUDIENCE);
+  return serializeSessionCookie(MFA_CHALLENGE_COOKIE, token, MFA_CHALLENGE_TTL_SECONDS);
+};
+
+export const clearMfaChallengeCookie = (): string => serializeSessionCookie(MFA_CHALLENGE_COOKIE, '', 0);
+
+/**
+ * Lê o desafio pendente a partir do cookie da requisição
+ */
+export const getMfaChallenge = async (req: IncomingMessage): Promise<MfaChallengePayload | null> => {
+  const token = readCookie(req.headers.cookie, MFA_CHALLENGE_COOKIE);
+  return verifySessionToken<MfaChallengePayload>(token, MFA_CHALLENGE_AUDIENCE);
+};
+
+export const subjectFromActor = (actor: ApiActor): MfaSubject => ({
+  sub: actor.userId,
+  kind: actor.id === 'admin' ? 'admin' : 'user',
+  profileId: actor.id,
+  role: actor.role,
+  email: actor.email,
+  name: actor.name
+});
+
+// Autor dos eventos de auditoria gerados durante o login (ainda sem sessão)
+export const actorFromSubject = (subject: MfaSubject): ApiActor => ({
+  id: subject.profileId,
+  userId: subject.sub,
+  name: subject.name,
+  email: subject.email,
+  role: subject.role
+});
+
+/**
+ * Resolve o titular de uma operação de cadastro: desafio de login com etapa `enroll`
+ * (cadastro obrigatório) ou sessão ativa de um role elegível (cadastro voluntário)
+ */
+export const resolveEnrollmentSubject = async (req: IncomingMessage): Promise<{ subject: MfaSubject; challenge: MfaChallengePayload | null } | null> => {
+  const challenge = await getMfaChallenge(req);
+  if (challenge) {
+    return challenge.step === 'enroll' ? { subject: challenge, challenge } : null;
+  }
+
+  const actor = await resolveApiActor(req);
+  if (!actor || !isMfaEligibleRole(actor.role)) return null;
+  return { subject: subjectFromActor(actor), challenge: null };
+};
+
+/**
+ * Inicia o cadastro: gera um segredo pendente e o QR code para o aplicativo autenticador
+ */
+export const startMfaEnrollment = async (subject: MfaSubject) => {
+  const secret = generateTotpSecret();
+  await saveMfaRecord(subject.sub, { pendingSecret: encryptSecret(secret) });
+
+  const otpauthUrl = buildOtpAuthUrl(secret, subject.email);
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+
+  return { secret, otpauthUrl, qrCode };
+};
+
+/**
+ * Confirma o cadastro com o primeiro código do aplicativo
+ * Retorna os códigos de recuperação (exibidos uma única vez) ou null se o código for inválido
+ */
+export const activateMfa = async (subjectId: string, code: string): Promise<string[] | null> => {
+  const record = await getMfaRecord(subjectId);
+  if (!record?.pendingSecret) return null;
+
+  const step = verifyTotpCode(decryptSecret(record.pendingSecret), code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await saveMfaRecord(subjectId, {
+    enabled: true,
+    secret: record.pendingSecret,
+    pendingSecret: null,
+    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    lastUsedStep: step,
+    enabledAt: new Date().toISOString()
+  });
+
+  return recoveryCodes;
+};
+
+/**
+ * Valida um código TOTP ou de recuperação (códigos de recuperação são de uso único)
+ */
+export const verifyMfaCode = async (subjectId: string, code: string): Promise<'totp' | 'recovery' | null> => {
+  const record = await getMfaRecord(subjectId);
+  if (!record?.enabled || !record.secret) return null;
+
+  const step = verifyTotpCode(decryptSecret(record.secret), code);
+  if (step !== null) {
+    // Rejeita o reuso de um código já aceito
+    if (typeof record.lastUsedStep === 'number' && step <= record.lastUsedStep) return null;
+    await saveMfaRecord(subjectId, { lastUsedStep: step });
+    return 'totp';
+  }
+
+  const hashed = hashRecoveryCode(code || '');
+  if (record.recoveryCodes.includes(hashed)) {
+    await saveMfaRecord(subjectId, { recoveryCodes: record.recoveryCodes.filter(item => item !== hashed) });
+    return 'recovery';
+  }
+
+  return null;
+};
+
+/**
+ * Substitui os códigos de recuperação por um novo conjunto
+ */
+export const regenerateRecoveryCodes = async (subjectId: string): Promise<string[]> => {
+  const recoveryCodes = generateRecoveryCodes();
+  await saveMfaRecord(subjectId, { recoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+  return recoveryCodes;
+};
+
+/**
+ * Remove o segundo fator do titular (desativação ou reset pelo admin)
+ */
+export const removeMfa = async (subjectId: string): Promise<boolean> => {
+  try {
+    await adminDatabases.deleteDocument(DATABASE_ID, USER_MFA_COLLECTION, subjectId);
+    return true;
+  } catch (error: any) {
+    if (error?.code === 404) return false;
+    throw error;
+  }
+};
+
+/**
+ * Conclui o login após o segundo fator: emite a sessão (com a validade do tempo limite de inatividade) e remove o desafio
+ * Usuários recebem também o token de uso único para só então abrir a sessão Appwrite no navegador
+ */
+export const issueSessionForSubject = async (res: NextApiResponse, subject: MfaSubject) => {
+  const ttl = getSessionTtlSeconds((await getSecuritySettings()).inactivityTimeoutMinutes);
+
+  if (subject.kind === 'admin') {
+    const token = await createAdminSessionToken(subject.email, ttl);
+    res.setHeader('Set-Cookie', [serializeAdminSessionCookie(token, ttl), clearMfaChallengeCookie()]);
+    return {
+      user: { $id: 'admin', email: subject.email },
+      profile: buildAdminProfile(subject.email)
+    };
+  }
+
+  const token = await createUserSessionToken({
+    userId: subject.sub,
+    profileId: subject.profileId,
+    role: subject.role,
+    mustChangePassword: subject.mustChangePassword,
+    delegatedUntil: getDelegatedUntil(await listActiveDelegationsFor(subject.profileId)),
+    sessionId: subject.sessionId
+  }, ttl);
+  if (subject.sessionId) {
+    await touchSessionActivity(subject.sessionId, { userId: subject.sub, profileId: subject.profileId });
+  }
+  res.setHeader('Set-Cookie', [serializeUserSessionCookie(token, ttl), clearMfaChallengeCookie()]);
+  return { role: subject.role, ...(subject.sessionId ? {} : { loginToken: await createLoginToken(subject.sub) }) };
+};
@@ -0,0 +1,99 @@
+/**
+ * Fila offline de submissões (IndexedDB)
+ * Guarda respostas e anexos preenchidos sem conexão até a sincronização. Cada item já nasce com o
+ * ID definitivo da submissão, então reenvios não duplicam registros (ver SubmissionRepository.create)
+ */
+
+import type { ChecklistAnswers } from './checklist-schema';
+
+// pending: aguardando conexão; failed: rejeitado pelo servidor, aguarda o colaborador tentar de novo ou descartar
+export type QueuedSubmissionStatus = 'pending' | 'failed';
+
+export interface QueuedSubmission {
+  id: string; // ID da submissão no Appwrite
+  profileId: string;
+  answers: ChecklistAnswers;
+  observation: string;
+  printFile?: File; // apenas entradas antigas: o comprovante geral agora é o primeiro anexo das metas
+  goalFiles: Record<string, File[]>;
+  date: string; // momento do preenchimento (ISO)
+  status: QueuedSubmissionStatus;
+  attempts: number;
+  lastError?: string;
+}
+
+export type NewQueuedSubmission = Omit<QueuedSubmission, 'status' | 'attempts' | 'lastError'>;
+
+const DB_NAME = 'metasti-offline';
+const DB_VERSION = 1;
+const STORE = 'submissions';
+
+export const isOfflineQueueAvailable = () => typeof window !== 'undefined' && 'indexedDB' in window;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+// Executa uma operação e resolve quando a transação é concluída (gravação confirmada em disco)
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE, mode);
+    const request = operation(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Itens na fila (do colaborador informado), do preenchimento mais antigo ao mais recente
+ */
+export const listQueuedSubmissions = async (profileId?: string): Promise<QueuedSubmission[]> => {
+  const entries = await runRequest<QueuedSubmission[]>('readonly', store => store.getAll());
+  return entries
+    .filter(entry => !profileId || entry.profileId === profileId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const enqueueSubmission = async (entry: NewQueuedSubmission) => {
+  await runRequest('readwrite', store => store.put({ ...entry, status: 'pending', attempts: 0 } satisfies QueuedSubmission));
+};
+
+export const updateQueuedSubmission = async (entry: QueuedSubmission) => {
+  await runRequest('readwrite', store => store.put(entry));
+};
+
+export const removeQueuedSubmission = async (id: string) => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+/**
+ * Falhas que justificam manter o item pendente: sem conexão, fetch rejeitado,
+ * tempo esgotado, limite de requisições ou erro do servidor
+ */
+export const isRetryableError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true; // fetch rejeitado (rede indisponível)
+  // Appwrite informa `code`; a API (ApiRequestError) informa `status`
+  const { code: appwriteCode, status } = (error as { code?: unknown; status?: unknown } | null) ?? {};
+  const code = typeof status === 'number' ? status : appwriteCode;
+  return code === 0 || code === 408 || code === 429 || (typeof code === 'number' && code >= 500);
+};
@@ -0,0 +1,61 @@
+/**
+ * Paginação por cursor de listagens do Appwrite
+ * Busca página a página com Query.cursorAfter até esgotar os documentos,
+ * em vez de truncar o resultado num Query.limit fixo
+ */
+
+import { Query } from 'appwrite';
+
+// Documentos por requisição
+export const PAGE_SIZE = 100;
+
+// Máximo de valores aceitos pelo Appwrite num Query.equal
+export const QUERY_VALUES_LIMIT = 100;
+
+interface DocumentPage<T> {
+  documents: T[];
+}
+
+/**
+ * Percorre os documentos que atendem às queries página a página, sem mantê-los todos em memória
+ */
+export const forEachDocumentPage = async <T extends { $id: string }>(
+  fetchPage: (queries: string[]) => Promise<DocumentPage<T>>,
+  queries: string[],
+  onPage: (documents: T[]) => unknown | Promise<unknown>
+): Promise<void> => {
+  let cursor: string | null = null;
+
+  do {
+    const page: DocumentPage<T> = await fetchPage([
+      ...queries,
+      Query.limit(PAGE_SIZE),
+      ...(cursor ? [Query.cursorAfter(cursor)] : [])
+    ]);
+    await onPage(page.documents);
+    cursor = page.documents.length === PAGE_SIZE ? page.documents[page.documents.length - 1].$id : null;
+  } while (cursor);
+};
+
+/**
+ * Lista todos os documentos que atendem às queries (funciona com o SDK cliente e o node-appwrite)
+ */
+export const listAllDocuments = async <T extends { $id: string }>(
+  fetchPage: (queries: string[]) => Promise<DocumentPage<T>>,
+  queries: string[] = []
+): Promise<T[]> => {
+  const documents: T[] = [];
+  await forEachDocumentPage(fetchPage, queries, page => documents.push(...page));
+  return documents;
+};
+
+/**
+ * Divide uma lista de valores em blocos aceitos por Query.equal
+ */
+export const chunkQueryValues = <T>(values: T[], size = QUERY_VALUES_LIMIT): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+};
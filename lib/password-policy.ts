@@ -0,0 +1,27 @@
+/**
+ * Política de senha
+ * Regras compartilhadas entre formulários (cliente) e API routes (servidor)
+ */
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const PASSWORD_REQUIREMENTS = [
+  `Pelo menos ${PASSWORD_MIN_LENGTH} caracteres`,
+  'Letras e números'
+];
+
+/**
+ * Valida a nova senha; retorna a mensagem de erro ou null quando válida
+ */
+export const validatePassword = (password: string, currentPassword?: string): string | null => {
+  if (!password || password.length < PASSWORD_MIN_LENGTH) {
+    return `A senha deve ter pelo menos ${PASSWORD_MIN_LENGTH} caracteres.`;
+  }
+  if (!/[a-zA-Z]/.test(password) || !/\d/.test(password)) {
+    return 'A senha deve conter letras e números.';
+  }
+  if (currentPassword && password === currentPassword) {
+    return 'A nova senha deve ser diferente da senha atual.';
+  }
+  return null;
+};
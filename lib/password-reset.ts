@@ -0,0 +1,117 @@
+/**
+ * Redefinição de senha por token (server-side only)
+ * Gera tokens de uso único com validade curta, envia o link por e-mail e
+ * armazena apenas o hash SHA-256 do token
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { Query } from 'node-appwrite';
+import { adminDatabases, ID } from './appwrite-server';
+import { DATABASE_ID, PASSWORD_RESETS_COLLECTION, type PasswordResetToken } from './appwrite';
+import { sendEmail } from './email';
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Intervalo mínimo entre dois envios para o mesmo usuário
+const RESEND_COOLDOWN_MINUTES = 2;
+
+const MINUTE_MS = 60 * 1000;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * URL pública da aplicação usada nos links (APP_URL; Host apenas fora de produção)
+ */
+export const getAppUrl = (req: IncomingMessage): string => {
+  if (process.env.APP_URL) {
+    return process.env.APP_URL.replace(/\/$/, '');
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('APP_URL deve estar configurada para gerar links de redefinição de senha.');
+  }
+  return `http://${req.headers.host}`;
+};
+
+const hasRecentToken = async (userId: string) => {
+  const since = new Date(Date.now() - RESEND_COOLDOWN_MINUTES * MINUTE_MS).toISOString();
+  const recent = await adminDatabases.listDocuments(DATABASE_ID, PASSWORD_RESETS_COLLECTION, [
+    Query.equal('userId', userId),
+    Query.greaterThan('$createdAt', since),
+    Query.limit(1)
+  ]);
+  return recent.total > 0;
+};
+
+/**
+ * Gera o token e envia o link de redefinição
+ * Retorna false quando um link acabou de ser enviado (evita spam de e-mails)
+ */
+export const sendPasswordResetEmail = async (user: { userId: string; email: string; name?: string }, appUrl: string): Promise<boolean> => {
+  if (await hasRecentToken(user.userId)) {
+    return false;
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  await adminDatabases.createDocument(
+    DATABASE_ID,
+    PASSWORD_RESETS_COLLECTION,
+    ID.unique(),
+    {
+      userId: user.userId,
+      email: user.email,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * MINUTE_MS).toISOString(),
+      usedAt: null
+    },
+    []
+  );
+
+  const link = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+  await sendEmail({
+    to: user.email,
+    subject: 'Redefinição de senha - MetasTI',
+    text: [
+      `Olá${user.name ? `, ${user.name}` : ''}!`,
+      '',
+      'Recebemos uma solicitação para redefinir a sua senha no sistema de metas.',
+      `Acesse o link abaixo em até ${PASSWORD_RESET_TTL_MINUTES} minutos:`,
+      '',
+      link,
+      '',
+      'Se você não solicitou a redefinição, ignore este e-mail.'
+    ].join('\n'),
+    html: `<p>Olá${user.name ? `, ${user.name}` : ''}!</p>
+<p>Recebemos uma solicitação para redefinir a sua senha no sistema de metas.</p>
+<p><a href="${link}">Clique aqui para definir uma nova senha</a> (válido por ${PASSWORD_RESET_TTL_MINUTES} minutos).</p>
+<p>Se você não solicitou a redefinição, ignore este e-mail.</p>`
+  });
+
+  return true;
+};
+
+/**
+ * Valida e consome o token
+ * Retorna o registro quando válido ou null se inexistente, expirado ou já usado.
+ * O consumo remove o registro: entre duas confirmações simultâneas, só a que remove primeiro vale (a outra recebe 404)
+ */
+export const consumePasswordResetToken = async (token: string): Promise<PasswordResetToken | null> => {
+  const result = await adminDatabases.listDocuments(DATABASE_ID, PASSWORD_RESETS_COLLECTION, [
+    Query.equal('tokenHash', hashToken(token)),
+    Query.limit(1)
+  ]);
+
+  const record = result.documents[0] as unknown as PasswordResetToken | undefined;
+  if (!record || record.usedAt || new Date(record.expiresAt).getTime() <= Date.now()) {
+    return null;
+  }
+
+  try {
+    await adminDatabases.deleteDocument(DATABASE_ID, PASSWORD_RESETS_COLLECTION, record.$id);
+  } catch (error: any) {
+    if (error?.code === 404) return null;
+    throw error;
+  }
+
+  return record;
+};
@@ -0,0 +1,186 @@
+/**
+ * Exportação da folha de recompensas (server-side only)
+ * Gerada a partir do razão de recompensas (lib/reward-ledger.ts): só meses fechados são exportados e cada linha
+ * é o saldo de um colaborador numa meta e período, já com os ajustes. Entram apenas as recompensas liberadas
+ * pelo financeiro e ainda não pagas (lib/reward-approvals.ts). Dois formatos: CSV (planilhas) e
+ * largura fixa (importador da folha, layout em PAYROLL_FIXED_WIDTH_LAYOUT)
+ */
+
+import { Query } from 'node-appwrite';
+import { format } from 'date-fns';
+import { adminDatabases } from './appwrite-server';
+import { DATABASE_ID, USER_PROFILES_COLLECTION, Sector, type GoalPeriod, type RewardLedgerEntry, type UserProfile } from './appwrite';
+import { chunkQueryValues, listAllDocuments } from './pagination';
+import { listRewardLedger, rewardKey, rewardKeyId } from './reward-ledger';
+import { listRewardItems } from './reward-approvals';
+import { formatPeriodDisplay } from './rewards';
+
+export type PayrollExportFormat = 'csv' | 'fixed';
+
+export const PAYROLL_EXPORT_FORMATS: PayrollExportFormat[] = ['csv', 'fixed'];
+
+export interface PayrollRow {
+  closingPeriod: string;
+  employeeName: string;
+  email: string;
+  sector: Sector;
+  goalTitle: string;
+  periodType: GoalPeriod;
+  periodStart: string;
+  periodEnd: string;
+  amount: number; // centavos
+}
+
+export type PayrollExportResult =
+  | { ok: true; rows: PayrollRow[] }
+  | { ok: false; status: 422; code: string; error: string };
+
+type PayrollField = keyof Omit<PayrollRow, 'amount'> | 'recordType' | 'amountCentavos' | 'amountReais';
+
+/**
+ * Layout de largura fixa: um registro por linha (CRLF), campos na ordem abaixo.
+ * Texto alinhado à esquerda com espaços, sem acentos e truncado; números alinhados à direita com zeros.
+ * Registro de detalhe tipo "1"; o último registro (tipo "9") traz o mês, a quantidade de detalhes e o total em centavos
+ */
+export const PAYROLL_FIXED_WIDTH_LAYOUT: { field: PayrollField; width: number; numeric?: boolean }[] = [
+  { field: 'recordType', width: 1 },
+  { field: 'closingPeriod', width: 6 }, // AAAAMM
+  { field: 'sector', width: 20 },
+  { field: 'employeeName', width: 40 },
+  { field: 'email', width: 60 },
+  { field: 'goalTitle', width: 40 },
+  { field: 'periodType', width: 10 },
+  { field: 'periodStart', width: 8 }, // AAAAMMDD
+  { field: 'periodEnd', width: 8 }, // AAAAMMDD
+  { field: 'amountCentavos', width: 12, numeric: true },
+  { field: 'amountReais', width: 13, numeric: true } // 0000000123,45
+];
+
+const PAYROLL_LINE_WIDTH = PAYROLL_FIXED_WIDTH_LAYOUT.reduce((total, column) => total + column.width, 0);
+
+const formatReais = (centavos: number) => (centavos / 100).toFixed(2).replace('.', ',');
+
+/**
+ * Saldo de cada colaborador por meta e período (fechamento + ajustes); saldos zerados ficam de fora
+ */
+export const buildPayrollRows = (entries: RewardLedgerEntry[], emailsByProfileId: Map<string, string>): PayrollRow[] => {
+  const rows = new Map<string, PayrollRow>();
+  entries.forEach(entry => {
+    const key = [entry.profileId, entry.goalId, entry.periodStart, entry.periodEnd].join('|');
+    const row = rows.get(key);
+    if (row) {
+      row.amount += entry.amount;
+      return;
+    }
+    rows.set(key, {
+      closingPeriod: entry.closingPeriod,
+      employeeName: entry.userName,
+      email: emailsByProfileId.get(entry.profileId) || '',
+      sector: entry.sector,
+      goalTitle: entry.goalTitle,
+      periodType: entry.periodType,
+      periodStart: entry.periodStart,
+      periodEnd: entry.periodEnd,
+      amount: entry.amount
+    });
+  });
+
+  return Array.from(rows.values())
+    .filter(row => row.amount > 0)
+    .sort((a, b) =>
+      a.sector.localeCompare(b.sector) ||
+      a.employeeName.localeCompare(b.employeeName) ||
+      a.goalTitle.localeCompare(b.goalTitle) ||
+      a.periodStart.localeCompare(b.periodStart)
+    );
+};
+
+// CSV no padrão das planilhas em português: separador ";", decimal com vírgula e BOM para o Excel reconhecer UTF-8
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toPayrollCsv = (rows: PayrollRow[]): string => {
+  const header = ['Mês', 'Colaborador', 'E-mail', 'Setor', 'Meta', 'Período', 'Início', 'Fim', 'Valor (centavos)', 'Valor (R$)'];
+  const lines = rows.map(row => [
+    row.closingPeriod,
+    row.employeeName,
+    row.email,
+    row.sector,
+    row.goalTitle,
+    formatPeriodDisplay(row.periodType),
+    format(new Date(row.periodStart), 'yyyy-MM-dd'),
+    format(new Date(row.periodEnd), 'yyyy-MM-dd'),
+    row.amount,
+    formatReais(row.amount)
+  ]);
+  return `\uFEFF${[header, ...lines].map(line => line.map(csvCell).join(';')).join('\r\n')}\r\n`;
+};
+
+// Importadores de largura fixa contam bytes: apenas ASCII imprimível
+const toAscii = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7E]/g, ' ');
+
+const fixedCell = (value: string | number, width: number, numeric?: boolean) => {
+  const text = toAscii(String(value));
+  return numeric ? text.padStart(width, '0').slice(-width) : text.padEnd(width, ' ').slice(0, width);
+};
+
+export const toPayrollFixedWidth = (rows: PayrollRow[], closingPeriod: string): string => {
+  const month = closingPeriod.replace('-', '');
+  const details = rows.map(row => {
+    const values: Record<PayrollField, string | number> = {
+      recordType: '1',
+      closingPeriod: month,
+      employeeName: row.employeeName,
+      email: row.email,
+      sector: row.sector,
+      goalTitle: row.goalTitle,
+      periodType: row.periodType,
+      periodStart: format(new Date(row.periodStart), 'yyyyMMdd'),
+      periodEnd: format(new Date(row.periodEnd), 'yyyyMMdd'),
+      amountCentavos: row.amount,
+      amountReais: formatReais(row.amount)
+    };
+    return PAYROLL_FIXED_WIDTH_LAYOUT.map(column => fixedCell(values[column.field], column.width, column.numeric)).join('');
+  });
+
+  const total = rows.reduce((sum, row) => sum + row.amount, 0);
+  const trailer = `9${month}${fixedCell(rows.length, 6, true)}${fixedCell(total, 15, true)}`.padEnd(PAYROLL_LINE_WIDTH, ' ');
+  return `${[...details, trailer].join('\r\n')}\r\n`;
+};
+
+/**
+ * Linhas da folha de um mês fechado (um setor ou a empresa toda), só com as recompensas liberadas
+ * Recusa a exportação se algum dos setores ainda não foi fechado no mês
+ */
+export const buildPayrollExport = async (closingPeriod: string, sector?: Sector): Promise<PayrollExportResult> => {
+  const [{ closings, entries: ledger }, items] = await Promise.all([
+    listRewardLedger(closingPeriod, sector),
+    listRewardItems({ closingPeriod, sector })
+  ]);
+  const closedSectors = new Set(closings.map(closing => closing.sector));
+  const openSectors = (sector ? [sector] : Object.values(Sector)).filter(item => !closedSectors.has(item));
+  if (openSectors.length > 0) {
+    return {
+      ok: false,
+      status: 422,
+      code: 'period_not_closed',
+      error: `O mês ${closingPeriod} ainda não foi fechado para: ${openSectors.join(', ')}.`
+    };
+  }
+
+  const released = new Set(items.filter(item => item.status === 'released').map(item => item.key));
+  const entries = ledger.filter(entry => released.has(rewardKeyId(rewardKey(entry.profileId, entry.goalId, entry.periodStart, entry.periodEnd))));
+
+  const emailsByProfileId = new Map<string, string>();
+  const profileIds = Array.from(new Set(entries.map(entry => entry.profileId)));
+  for (const chunk of chunkQueryValues(profileIds)) {
+    const profiles = await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, USER_PROFILES_COLLECTION, page), [
+      Query.equal('$id', chunk)
+    ]) as unknown as UserProfile[];
+    profiles.forEach(profile => emailsByProfileId.set(profile.$id!, profile.email));
+  }
+
+  return { ok: true, rows: buildPayrollRows(entries, emailsByProfileId) };
+};
@@ -0,0 +1,152 @@
+/**
+ * Matriz de permissões (client e server)
+ * Cada role tem um conjunto padrão de permissões; perfis podem receber um role
+ * personalizado (ex.: "Leitor RH", "Aprovador Financeiro") que substitui esse conjunto.
+ * Gestores do setor FINANCEIRO recebem por padrão a liberação e o pagamento das recompensas.
+ * Toda verificação passa por `hasPermission` (API routes, hooks e páginas)
+ */
+
+import { Role } from './roles';
+import { Sector } from './appwrite';
+
+export const PERMISSIONS = [
+  'goals.view',
+  'goals.create',
+  'goals.update',
+  'goals.delete',
+  'submissions.create',
+  'submissions.view_team',
+  'contestations.create',
+  'contestations.resolve',
+  'contestations.respond',
+  'compliments.send',
+  'rewards.view',
+  'rewards.approve',
+  'rewards.release',
+  'delegations.manage',
+  'users.view',
+  'users.manage',
+  'audit.view',
+  'settings.manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const permissionLabels: Record<Permission, string> = {
+  'goals.view': 'Ver metas',
+  'goals.create': 'Criar metas',
+  'goals.update': 'Editar metas',
+  'goals.delete': 'Remover metas',
+  'submissions.create': 'Enviar checklist',
+  'submissions.view_team': 'Ver envios da equipe',
+  'contestations.create': 'Abrir contestações',
+  'contestations.resolve': 'Resolver contestações',
+  'contestations.respond': 'Responder contestações',
+  'compliments.send': 'Enviar elogios',
+  'rewards.view': 'Ver recompensas',
+  'rewards.approve': 'Aprovar recompensas',
+  'rewards.release': 'Liberar e pagar recompensas',
+  'delegations.manage': 'Delegar gestão',
+  'users.view': 'Ver usuários',
+  'users.manage': 'Gerenciar usuários',
+  'audit.view': 'Consultar auditoria',
+  'settings.manage': 'Alterar configurações'
+};
+
+// Agrupamento usado na exibição da matriz
+export const permissionGroups: { label: string; permissions: Permission[] }[] = [
+  { label: 'Metas', permissions: ['goals.view', 'goals.create', 'goals.update', 'goals.delete'] },
+  { label: 'Checklists', permissions: ['submissions.create', 'submissions.view_team'] },
+  { label: 'Contestações e elogios', permissions: ['contestations.create', 'contestations.resolve', 'contestations.respond', 'compliments.send'] },
+  { label: 'Recompensas', permissions: ['rewards.view', 'rewards.approve', 'rewards.release'] },
+  { label: 'Administração', permissions: ['delegations.manage', 'users.view', 'users.manage', 'audit.view', 'settings.manage'] }
+];
+
+// Permissões padrão de cada role (sem role personalizado)
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.ADMIN]: [...PERMISSIONS],
+  [Role.MANAGER]: [
+    'goals.view',
+    'goals.create',
+    'goals.update',
+    'goals.delete',
+    'submissions.view_team',
+    'contestations.create',
+    'contestations.resolve',
+    'compliments.send',
+    'rewards.view',
+    'rewards.approve',
+    'delegations.manage'
+  ],
+  [Role.COLLABORATOR]: [
+    'goals.view',
+    'submissions.create',
+    'contestations.respond',
+    'rewards.view'
+  ]
+};
+
+/**
+ * Role personalizado: conjunto de permissões aplicado sobre um role base
+ * (o role base define o painel e as rotas acessíveis)
+ */
+export interface CustomRole {
+  $id: string;
+  name: string;
+  description?: string;
+  baseRole: Role;
+  permissions: Permission[];
+  $createdAt?: string;
+  $updatedAt?: string;
+}
+
+export interface PermissionSubject {
+  role: Role;
+  permissions?: Permission[];
+}
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+
+/**
+ * Normaliza uma lista de permissões recebida do cliente
+ */
+export const sanitizePermissions = (value: unknown): Permission[] => {
+  if (!Array.isArray(value)) return [];
+  return PERMISSIONS.filter(permission => value.includes(permission));
+};
+
+// Acrescentadas ao padrão dos gestores do setor financeiro (fila do financeiro e exportação para a folha)
+const FINANCE_MANAGER_PERMISSIONS: Permission[] = ['rewards.release'];
+
+// Permissões recebidas junto com uma delegação ativa de gestor (sem redelegação)
+const DELEGATED_PERMISSIONS = DEFAULT_ROLE_PERMISSIONS[Role.MANAGER].filter(permission => permission !== 'delegations.manage');
+
+/**
+ * Permissões efetivas: o admin sempre tem todas; role personalizado substitui o padrão do role
+ * (inclusive o acréscimo do setor financeiro) e uma delegação ativa acrescenta as permissões de gestão
+ */
+export const resolvePermissions = (
+  role: Role,
+  customRole?: Pick<CustomRole, 'permissions'> | null,
+  delegated = false,
+  sector?: Sector
+): Permission[] => {
+  if (role === Role.ADMIN) return [...PERMISSIONS];
+  const granted = customRole
+    ? sanitizePermissions(customRole.permissions)
+    : role === Role.MANAGER && sector === Sector.FINANCEIRO
+      ? sanitizePermissions([...DEFAULT_ROLE_PERMISSIONS[role], ...FINANCE_MANAGER_PERMISSIONS])
+      : DEFAULT_ROLE_PERMISSIONS[role];
+  return delegated ? sanitizePermissions([...granted, ...DELEGATED_PERMISSIONS]) : [...granted];
+};
+
+/**
+ * Verifica se o sujeito tem a permissão (ou ao menos uma delas, quando recebe uma lista)
+ */
+export const hasPermission = (subject: PermissionSubject | null | undefined, permission: Permission | Permission[]): boolean => {
+  if (!subject) return false;
+  const granted = subject.permissions ?? resolvePermissions(subject.role);
+  const required = Array.isArray(permission) ? permission : [permission];
+  return required.some(item => granted.includes(item));
+};
@@ -0,0 +1,70 @@
+/**
+ * Atualizações em tempo real (Appwrite Realtime)
+ * Canais de documentos por coleção e leitura dos eventos recebidos (criação, atualização, remoção).
+ * Eventos ocorridos enquanto a conexão está caída não são reenviados: quem assina deve ressincronizar
+ */
+
+import type { RealtimeResponseEvent } from 'appwrite';
+import { client, DATABASE_ID } from './appwrite';
+import { isDemoMode } from './repositories';
+import { logger } from './logger';
+
+export type RealtimeAction = 'create' | 'update' | 'delete';
+
+export interface RealtimeChange<T> {
+  action: RealtimeAction;
+  document: T & { $id: string };
+}
+
+// Modo demonstração usa dados em memória: não há servidor para assinar
+export const isRealtimeAvailable = () => typeof window !== 'undefined' && !isDemoMode;
+
+export const documentsChannel = (collectionId: string) =>
+  `databases.${DATABASE_ID}.collections.${collectionId}.documents`;
+
+// Eventos no formato databases.<banco>.collections.<coleção>.documents.<id>.<ação>
+const DOCUMENT_EVENT = /\.documents\.[^.]+\.(create|update|delete)$/;
+
+export const parseRealtimeAction = (events: string[]): RealtimeAction | null => {
+  for (const event of events) {
+    const match = DOCUMENT_EVENT.exec(event);
+    if (match) return match[1] as RealtimeAction;
+  }
+  return null;
+};
+
+/**
+ * Assina as mudanças de documentos de uma coleção; retorna a função que cancela a assinatura
+ */
+export const subscribeToCollection = <T>(
+  collectionId: string,
+  onChange: (change: RealtimeChange<T>) => void
+): (() => void) => {
+  const channel = documentsChannel(collectionId);
+  logger.realtime.subscribe(channel);
+
+  return client.subscribe<T & { $id: string }>(channel, (response: RealtimeResponseEvent<T & { $id: string }>) => {
+    const action = parseRealtimeAction(response.events);
+    if (!action || !response.payload?.$id) return;
+    logger.realtime.event(collectionId, action, response.payload.$id);
+    onChange({ action, document: response.payload });
+  });
+};
+
+/**
+ * Aplica uma mudança a uma lista local (mais recentes primeiro); update preserva campos ausentes no payload
+ */
+export const applyRealtimeChange = <T extends { $id: string }>(list: T[], change: RealtimeChange<T>): T[] => {
+  const { action, document } = change;
+  const index = list.findIndex(item => item.$id === document.$id);
+
+  if (action === 'delete') {
+    return index === -1 ? list : list.filter(item => item.$id !== document.$id);
+  }
+  if (index === -1) {
+    return [document, ...list];
+  }
+  const next = [...list];
+  next[index] = { ...list[index], ...document };
+  return next;
+};
@@ -0,0 +1,205 @@
+/**
+ * Repositórios sobre o Appwrite (SDK cliente)
+ * Traduz os filtros tipados para queries e concentra os casts dos documentos;
+ * listagens completas são paginadas por cursor (lib/pagination.ts). Escritas de metas,
+ * submissões e contestações vão para as API routes (regras e auditoria no servidor)
+ */
+
+import {
+  databases,
+  storage,
+  ID,
+  Query,
+  DATABASE_ID,
+  USER_PROFILES_COLLECTION,
+  SECTOR_GOALS_COLLECTION,
+  SUBMISSIONS_COLLECTION,
+  GOAL_ANSWERS_COLLECTION,
+  CONTESTATIONS_COLLECTION,
+  COMPLIMENTS_COLLECTION,
+  PRINTS_BUCKET,
+  GoalScope,
+  type Compliment,
+  type Contestation,
+  type GoalAnswerRecord,
+  type SectorGoal,
+  type Submission,
+  type UserProfile
+} from '../appwrite';
+import { chunkQueryValues, listAllDocuments } from '../pagination';
+import { apiRequest } from '../api-client';
+import type {
+  ComplimentRepository,
+  ContestationRepository,
+  GoalAnswerRepository,
+  GoalFilter,
+  GoalRepository,
+  ProfileRepository,
+  Repositories,
+  SubmissionRepository
+} from './types';
+
+// Arquivo com o mesmo ID já existe
+const isConflict = (error: unknown) => (error as { code?: number } | null)?.code === 409;
+
+const profiles: ProfileRepository = {
+  list: async (filter = {}) => {
+    const queries = filter.sectors ? [Query.equal('sector', filter.sectors)] : [];
+    const documents = await listAllDocuments(page => databases.listDocuments(DATABASE_ID, USER_PROFILES_COLLECTION, page), queries);
+    return documents as unknown as UserProfile[];
+  },
+
+  findByUserId: async (userId) => {
+    const response = await databases.listDocuments(DATABASE_ID, USER_PROFILES_COLLECTION, [Query.equal('userId', userId)]);
+    return (response.documents[0] as unknown as UserProfile) || null;
+  }
+};
+
+const goalQueries = (filter: GoalFilter) => {
+  const queries: string[] = [];
+  if (filter.sectorId) queries.push(Query.equal('sectorId', filter.sectorId));
+  if (filter.activeOnly) queries.push(Query.equal('isActive', true));
+  if (filter.scope) queries.push(Query.equal('scope', filter.scope));
+  if (filter.assignedUserId) queries.push(Query.equal('assignedUserId', filter.assignedUserId));
+  if (filter.visibleToUserId) {
+    queries.push(
+      Query.or([
+        Query.equal('scope', GoalScope.SECTOR),
+        Query.and([
+          Query.equal('scope', GoalScope.INDIVIDUAL),
+          Query.equal('assignedUserId', filter.visibleToUserId)
+        ])
+      ])
+    );
+  }
+  return queries;
+};
+
+const goals: GoalRepository = {
+  list: async (filter = {}) => {
+    const documents = await listAllDocuments(page => databases.listDocuments(DATABASE_ID, SECTOR_GOALS_COLLECTION, page), goalQueries(filter));
+    return documents as unknown as SectorGoal[];
+  },
+
+  create: async (data) => {
+    const { goal } = await apiRequest<{ goal: SectorGoal }>('/api/goals', { method: 'POST', body: data });
+    return goal;
+  },
+
+  update: async (goalId, changes) => {
+    const { goal } = await apiRequest<{ goal: SectorGoal }>(`/api/goals/${goalId}`, { method: 'PATCH', body: changes });
+    return goal;
+  },
+
+  remove: async (goalId) => {
+    await apiRequest(`/api/goals/${goalId}`, { method: 'DELETE' });
+  }
+};
+
+const submissions: SubmissionRepository = {
+  list: async (filter = {}) => {
+    const rangeQueries: string[] = [];
+    if (filter.from) rangeQueries.push(Query.greaterThanEqual('date', filter.from));
+    if (filter.to) rangeQueries.push(Query.lessThanEqual('date', filter.to));
+
+    const listPages = (queries: string[]) =>
+      listAllDocuments(page => databases.listDocuments(DATABASE_ID, SUBMISSIONS_COLLECTION, page), [...queries, ...rangeQueries]);
+
+    if (!filter.profileIds) {
+      return await listPages([]) as unknown as Submission[];
+    }
+    // Um bloco de perfis por vez: Query.equal aceita um número limitado de valores
+    const documents = [];
+    for (const profileIds of chunkQueryValues(filter.profileIds)) {
+      documents.push(...await listPages([Query.equal('userProfile', profileIds)]));
+    }
+    return documents as unknown as Submission[];
+  },
+
+  create: async (draft) => {
+    const { submission } = await apiRequest<{ submission: Submission }>('/api/submissions', { method: 'POST', body: draft });
+    return submission;
+  },
+
+  uploadFile: async (file, fileId) => {
+    try {
+      const uploaded = await storage.createFile(PRINTS_BUCKET, fileId ?? ID.unique(), file);
+      return uploaded.$id;
+    } catch (error) {
+      if (fileId && isConflict(error)) return fileId;
+      throw error;
+    }
+  }
+};
+
+const goalAnswers: GoalAnswerRepository = {
+  list: async (filter = {}) => {
+    const queries: string[] = [];
+    if (filter.goalIds) queries.push(Query.equal('goalId', filter.goalIds));
+    if (filter.profileIds) queries.push(Query.equal('profileId', filter.profileIds));
+    if (filter.submissionIds) queries.push(Query.equal('submissionId', filter.submissionIds));
+    if (filter.from) queries.push(Query.greaterThanEqual('date', filter.from));
+    if (filter.to) queries.push(Query.lessThanEqual('date', filter.to));
+    const documents = await listAllDocuments(page => databases.listDocuments(DATABASE_ID, GOAL_ANSWERS_COLLECTION, page), queries);
+    return documents as unknown as GoalAnswerRecord[];
+  }
+};
+
+const contestations: ContestationRepository = {
+  list: async (filter = {}) => {
+    const queries: string[] = [];
+    if (filter.collaboratorId) queries.push(Query.equal('collaboratorId', filter.collaboratorId));
+    if (filter.managerId) queries.push(Query.equal('managerId', filter.managerId));
+    const documents = await listAllDocuments(page => databases.listDocuments(DATABASE_ID, CONTESTATIONS_COLLECTION, page), queries);
+    return documents as unknown as Contestation[];
+  },
+
+  create: async (data) => {
+    const { contestation } = await apiRequest<{ contestation: Contestation }>('/api/contestations', { method: 'POST', body: data });
+    return contestation;
+  },
+
+  // O servidor define resolvedAt/updatedAt e registra auditoria
+  update: async (contestationId, changes) => {
+    const { contestation } = await apiRequest<{ contestation: Contestation }>(`/api/contestations/${contestationId}`, {
+      method: 'PATCH',
+      body: changes
+    });
+    return contestation;
+  }
+};
+
+const compliments: ComplimentRepository = {
+  listByCollaborator: async (collaboratorId, filter = {}) => {
+    const queries = [Query.equal('collaboratorId', collaboratorId), Query.orderDesc('$createdAt')];
+    if (filter.unreadOnly) queries.push(Query.equal('isRead', false));
+    const response = await databases.listDocuments(DATABASE_ID, COMPLIMENTS_COLLECTION, [...queries, Query.limit(filter.limit ?? 100)]);
+    return response.documents as unknown as Compliment[];
+  },
+
+  create: async (data) => {
+    const payload = {
+      managerId: data.managerId,
+      collaboratorId: data.collaboratorId,
+      message: data.message,
+      presetKey: data.presetKey || null,
+      isRead: false
+    };
+    return await databases.createDocument(DATABASE_ID, COMPLIMENTS_COLLECTION, ID.unique(), payload) as unknown as Compliment;
+  },
+
+  markAsRead: async (complimentIds) => {
+    await Promise.all(
+      complimentIds.map(id => databases.updateDocument(DATABASE_ID, COMPLIMENTS_COLLECTION, id, { isRead: true }))
+    );
+  }
+};
+
+export const createAppwriteRepositories = (): Repositories => ({
+  profiles,
+  goals,
+  submissions,
+  goalAnswers,
+  contestations,
+  compliments
+});
@@ -0,0 +1,121 @@
+/**
+ * Dados de exemplo do modo demonstração
+ * Um setor com gestor, dois colaboradores, metas setoriais e individuais
+ * e submissões dos últimos dias (datas relativas a hoje)
+ */
+
+import { subDays } from 'date-fns';
+import { GoalPeriod, GoalScope, GoalType, Sector, type GoalAnswerRecord, type SectorGoal, type Submission, type UserProfile } from '../appwrite';
+import { Role } from '../roles';
+import { encodeChecklist, type ChecklistAnswers, type GoalAnswer } from '../checklist-schema';
+import { buildGoalAnswers } from '../goal-answers';
+import type { MemorySeed } from './memory';
+
+const daysAgo = (days: number) => subDays(new Date(), days).toISOString();
+
+const profile = (id: string, name: string, role: Role): UserProfile => ({
+  $id: id,
+  userId: `${id}-user`,
+  name,
+  email: `${id}@demo.metasti.local`,
+  sector: Sector.TI,
+  role,
+  $createdAt: daysAgo(60),
+  $updatedAt: daysAgo(60)
+});
+
+const goal = (id: string, data: Omit<SectorGoal, '$id' | '$createdAt' | '$updatedAt' | 'sectorId' | 'isActive' | 'category'>): SectorGoal => ({
+  $id: id,
+  sectorId: Sector.TI,
+  category: 'Operação',
+  isActive: true,
+  $createdAt: daysAgo(30),
+  $updatedAt: daysAgo(30),
+  ...data
+});
+
+export const createDemoSeed = (): MemorySeed => {
+  const manager = profile('demo-manager', 'Gestora Demo', Role.MANAGER);
+  const ana = profile('demo-ana', 'Ana Demo', Role.COLLABORATOR);
+  const bruno = profile('demo-bruno', 'Bruno Demo', Role.COLLABORATOR);
+
+  const goals = [
+    goal('demo-goal-backup', {
+      title: 'Verificar backup diário',
+      description: 'Conferir o relatório do backup noturno',
+      type: GoalType.TASK_COMPLETION,
+      targetValue: 1,
+      unit: 'tarefa',
+      period: GoalPeriod.DAILY,
+      scope: GoalScope.SECTOR
+    }),
+    goal('demo-goal-tickets', {
+      title: 'Chamados resolvidos',
+      description: 'Chamados de suporte encerrados no mês',
+      type: GoalType.NUMERIC,
+      targetValue: 40,
+      unit: 'chamados',
+      period: GoalPeriod.MONTHLY,
+      scope: GoalScope.INDIVIDUAL,
+      assignedUserId: ana.userId,
+      hasMonetaryReward: true,
+      monetaryValue: 15000,
+      currency: 'BRL'
+    })
+  ];
+
+  // Cada submissão também gera as respostas por meta (goal_answers), como em createSubmission
+  const goalAnswers: GoalAnswerRecord[] = [];
+  const submission = (author: UserProfile, days: number, answers: ChecklistAnswers): Submission => {
+    const $id = `demo-submission-${author.$id}-${days}`;
+    buildGoalAnswers({ submissionId: $id, profileId: author.$id, date: daysAgo(days) }, answers).forEach(answer => {
+      goalAnswers.push({ ...answer, $id: `demo-answer-${goalAnswers.length + 1}`, $createdAt: answer.date });
+    });
+    return {
+      $id,
+      userProfile: author,
+      date: daysAgo(days),
+      checklist: encodeChecklist(answers),
+      observation: '',
+      $createdAt: daysAgo(days),
+      $updatedAt: daysAgo(days)
+    };
+  };
+  const backup = (value: boolean): GoalAnswer => ({ type: GoalType.TASK_COMPLETION, value });
+  const tickets = (value: number): GoalAnswer => ({ type: GoalType.NUMERIC, value });
+
+  return {
+    profiles: [manager, ana, bruno],
+    goals,
+    submissions: [
+      submission(ana, 3, { 'demo-goal-backup': backup(true), 'demo-goal-tickets': tickets(12) }),
+      submission(ana, 2, { 'demo-goal-backup': backup(true), 'demo-goal-tickets': tickets(9) }),
+      submission(ana, 1, { 'demo-goal-backup': backup(false), 'demo-goal-tickets': tickets(11) }),
+      submission(bruno, 2, { 'demo-goal-backup': backup(true) }),
+      submission(bruno, 1, { 'demo-goal-backup': backup(true) })
+    ],
+    goalAnswers,
+    contestations: [
+      {
+        $id: 'demo-contestation-1',
+        submissionId: `demo-submission-${ana.$id}-1`,
+        goalId: 'demo-goal-backup',
+        collaboratorId: ana.$id,
+        managerId: manager.$id,
+        reason: 'O relatório do backup não foi anexado.',
+        status: 'pending',
+        createdAt: daysAgo(0)
+      }
+    ],
+    compliments: [
+      {
+        $id: 'demo-compliment-1',
+        managerId: manager.$id,
+        collaboratorId: bruno.$id,
+        message: 'Ótimo trabalho na migração do servidor! 🚀',
+        isRead: false,
+        $createdAt: daysAgo(1)
+      }
+    ]
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * Acesso aos repositórios de dados
+ * NEXT_PUBLIC_DATA_SOURCE=memory usa os repositórios em memória com os dados
+ * de demonstração; o padrão é o Appwrite
+ */
+
+import { createAppwriteRepositories } from './appwrite';
+import { createMemoryRepositories } from './memory';
+import { createDemoSeed } from './demo-data';
+import type { Repositories } from './types';
+
+export type { MemorySeed } from './memory';
+export { createAppwriteRepositories, createMemoryRepositories, createDemoSeed };
+export type {
+  ComplimentFilter,
+  ComplimentRepository,
+  ContestationChanges,
+  ContestationFilter,
+  ContestationRepository,
+  GoalAnswerFilter,
+  GoalAnswerRepository,
+  GoalFilter,
+  GoalRepository,
+  NewGoalAnswer,
+  ProfileFilter,
+  ProfileRepository,
+  Repositories,
+  SubmissionFilter,
+  SubmissionRepository
+} from './types';
+
+export const DATA_SOURCE = process.env.NEXT_PUBLIC_DATA_SOURCE === 'memory' ? 'memory' : 'appwrite';
+export const isDemoMode = DATA_SOURCE === 'memory';
+
+let repositories: Repositories | null = null;
+
+export const getRepositories = (): Repositories => {
+  if (!repositories) {
+    repositories = isDemoMode ? createMemoryRepositories(createDemoSeed()) : createAppwriteRepositories();
+  }
+  return repositories;
+};
+
+// Substitui os repositórios ativos (ex.: regras de negócio sobre createMemoryRepositories)
+export const setRepositories = (next: Repositories | null) => {
+  repositories = next;
+};
@@ -0,0 +1,262 @@
+/**
+ * Repositórios em memória
+ * Mesma semântica de filtros da implementação Appwrite, sem servidor:
+ * usados no modo demonstração e para exercitar regras de negócio isoladamente.
+ * As escritas aplicam as validações das API routes (payload de metas, regras de envio)
+ * e falham com ApiRequestError e o mesmo status HTTP
+ */
+
+import {
+  GoalScope,
+  type Compliment,
+  type Contestation,
+  type GoalAnswerRecord,
+  type SectorGoal,
+  type Submission,
+  type UserProfile
+} from '../appwrite';
+import { ApiRequestError } from '../api-client';
+import { pickGoalFields, validateGoalAchievementRule, validateGoalRewardTiers } from '../goal-payload';
+import { applySubmissionRules, getApplicableGoals, parseSubmissionDraft, validateSubmissionDate } from '../submission-rules';
+import { encodeChecklist } from '../checklist-schema';
+import { buildGoalAnswers } from '../goal-answers';
+import type { GoalFilter, Repositories } from './types';
+
+export interface MemorySeed {
+  profiles?: UserProfile[];
+  goals?: SectorGoal[];
+  submissions?: Submission[];
+  goalAnswers?: GoalAnswerRecord[];
+  contestations?: Contestation[];
+  compliments?: Compliment[];
+}
+
+// Cópias evitam que quem consome altere o "banco" por referência
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const matchesGoal = (goal: SectorGoal, filter: GoalFilter) =>
+  (!filter.sectorId || goal.sectorId === filter.sectorId) &&
+  (!filter.activeOnly || goal.isActive) &&
+  (!filter.scope || goal.scope === filter.scope) &&
+  (!filter.assignedUserId || goal.assignedUserId === filter.assignedUserId) &&
+  (!filter.visibleToUserId ||
+    goal.scope === GoalScope.SECTOR ||
+    (goal.scope === GoalScope.INDIVIDUAL && goal.assignedUserId === filter.visibleToUserId));
+
+export const createMemoryRepositories = (seed: MemorySeed = {}): Repositories => {
+  const profiles = clone(seed.profiles || []);
+  const goals = clone(seed.goals || []);
+  const submissions = clone(seed.submissions || []);
+  const goalAnswers = clone(seed.goalAnswers || []);
+  const contestations = clone(seed.contestations || []);
+  const compliments = clone(seed.compliments || []);
+
+  let sequence = 0;
+  const nextId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${(sequence++).toString(36)}`;
+
+  const findGoal = (goalId: string) => {
+    const goal = goals.find(item => item.$id === goalId);
+    if (!goal) throw new ApiRequestError('Meta não encontrada.', 404);
+    return goal;
+  };
+
+  return {
+    profiles: {
+      list: async (filter = {}) =>
+        clone(profiles.filter(profile => !filter.sectors || filter.sectors.includes(profile.sector))),
+
+      findByUserId: async (userId) => {
+        const profile = profiles.find(item => item.userId === userId);
+        return profile ? clone(profile) : null;
+      }
+    },
+
+    goals: {
+      list: async (filter = {}) => clone(goals.filter(goal => matchesGoal(goal, filter))),
+
+      create: async (data) => {
+        const payload = pickGoalFields(data);
+        if (!payload.title || !payload.sectorId || !payload.type || !payload.period) {
+          throw new ApiRequestError('Título, setor, tipo e período são obrigatórios.', 400);
+        }
+        const payloadError = validateGoalRewardTiers(payload) || validateGoalAchievementRule(payload);
+        if (payloadError) throw new ApiRequestError(payloadError, 400, 'invalid_payload');
+
+        const now = new Date().toISOString();
+        const goal = { isActive: true, ...payload, $id: nextId('goal'), $createdAt: now, $updatedAt: now } as SectorGoal;
+        goals.push(goal);
+        return clone(goal);
+      },
+
+      update: async (goalId, changes) => {
+        const goal = findGoal(goalId);
+        const payload = pickGoalFields(changes);
+        const payloadError = validateGoalRewardTiers(payload) || validateGoalAchievementRule(payload, goal);
+        if (payloadError) throw new ApiRequestError(payloadError, 400, 'invalid_payload');
+
+        Object.assign(goal, payload, { $updatedAt: new Date().toISOString() });
+        return clone(goal);
+      },
+
+      remove: async (goalId) => {
+        goals.splice(goals.indexOf(findGoal(goalId)), 1);
+      }
+    },
+
+    submissions: {
+      list: async (filter = {}) =>
+        clone(
+          submissions.filter(submission =>
+            (!filter.profileIds || filter.profileIds.includes(submission.userProfile.$id)) &&
+            (!filter.from || new Date(submission.date) >= new Date(filter.from)) &&
+            (!filter.to || new Date(submission.date) <= new Date(filter.to))
+          )
+        ),
+
+      // Mesmo fluxo de createSubmissionForActor: reenvio idempotente, data do preenchimento e regras das metas
+      create: async (body, author) => {
+        if (!author) throw new Error('Perfil do autor não carregado.');
+        const parsed = parseSubmissionDraft(body);
+        if (!parsed.ok) throw new ApiRequestError(parsed.error, 400, 'invalid_payload');
+        const { draft } = parsed;
+
+        const existing = draft.id ? submissions.find(submission => submission.$id === draft.id) : undefined;
+        if (existing) {
+          if (existing.userProfile.$id !== author.$id) {
+            throw new ApiRequestError('Já existe uma submissão com este identificador.', 409, 'conflict');
+          }
+          return clone(existing);
+        }
+
+        const date = draft.date ? new Date(draft.date) : new Date();
+        const dateViolation = validateSubmissionDate(date);
+        if (dateViolation) throw new ApiRequestError(dateViolation.message, 422, 'rule_violation');
+
+        const goalFiles = draft.goalFiles ?? {};
+        const rules = applySubmissionRules({
+          goals: getApplicableGoals(goals, author),
+          previous: submissions.filter(submission => submission.userProfile.$id === author.$id),
+          answers: draft.answers,
+          goalFiles,
+          date
+        });
+        if (!rules.ok) {
+          throw new ApiRequestError(rules.violations.map(violation => violation.message).join(' '), 422, 'rule_violation');
+        }
+
+        const now = new Date().toISOString();
+        const submission: Submission = {
+          $id: draft.id ?? nextId('submission'),
+          userProfile: clone(author),
+          date: date.toISOString(),
+          checklist: encodeChecklist(rules.answers),
+          observation: draft.observation || '',
+          ...(draft.printFileId ? { printFileId: draft.printFileId } : {}),
+          ...(Object.keys(goalFiles).length > 0 ? { goalFiles: JSON.stringify(goalFiles) } : {}),
+          $createdAt: now,
+          $updatedAt: now
+        };
+        submissions.push(submission);
+        buildGoalAnswers({ submissionId: submission.$id, profileId: author.$id, date: submission.date }, rules.answers, goalFiles)
+          .forEach(answer => goalAnswers.push({ ...answer, $id: nextId('answer'), $createdAt: now }));
+        return clone(submission);
+      },
+
+      uploadFile: async (_file, fileId) => fileId ?? nextId('file')
+    },
+
+    goalAnswers: {
+      list: async (filter = {}) =>
+        clone(
+          goalAnswers.filter(answer =>
+            (!filter.goalIds || filter.goalIds.includes(answer.goalId)) &&
+            (!filter.profileIds || filter.profileIds.includes(answer.profileId)) &&
+            (!filter.submissionIds || filter.submissionIds.includes(answer.submissionId)) &&
+            (!filter.from || new Date(answer.date) >= new Date(filter.from)) &&
+            (!filter.to || new Date(answer.date) <= new Date(filter.to))
+          )
+        )
+    },
+
+    contestations: {
+      list: async (filter = {}) =>
+        clone(
+          contestations.filter(contestation =>
+            (!filter.collaboratorId || contestation.collaboratorId === filter.collaboratorId) &&
+            (!filter.managerId || contestation.managerId === filter.managerId)
+          )
+        ),
+
+      create: async (data) => {
+        if (!data.submissionId || !data.goalId || !data.collaboratorId || !data.reason) {
+          throw new ApiRequestError('Submissão, meta, colaborador e motivo são obrigatórios.', 400);
+        }
+        const contestation: Contestation = {
+          $id: nextId('contestation'),
+          submissionId: data.submissionId,
+          goalId: data.goalId,
+          collaboratorId: data.collaboratorId,
+          managerId: data.managerId,
+          reason: data.reason,
+          status: 'pending',
+          createdAt: new Date().toISOString()
+        };
+        contestations.push(contestation);
+        return clone(contestation);
+      },
+
+      // Como em PATCH /api/contestations/[id]: resposta do colaborador ou decisão do gestor
+      update: async (contestationId, changes) => {
+        const contestation = contestations.find(item => item.$id === contestationId);
+        if (!contestation) throw new ApiRequestError('Contestação não encontrada.', 404);
+
+        const now = new Date().toISOString();
+        if (changes.collaboratorResponse !== undefined) {
+          if (!changes.collaboratorResponse.trim()) throw new ApiRequestError('Resposta do colaborador é obrigatória.', 400);
+          Object.assign(contestation, { collaboratorResponse: changes.collaboratorResponse, updatedAt: now });
+        } else {
+          if (changes.status !== 'resolved' && changes.status !== 'dismissed') {
+            throw new ApiRequestError('Status deve ser "resolved" ou "dismissed".', 400);
+          }
+          Object.assign(contestation, {
+            status: changes.status,
+            updatedAt: now,
+            ...(typeof changes.response === 'string' ? { response: changes.response } : {}),
+            ...(changes.status === 'resolved' ? { resolvedAt: now } : {})
+          });
+        }
+        return clone(contestation);
+      }
+    },
+
+    compliments: {
+      listByCollaborator: async (collaboratorId, filter = {}) =>
+        clone(
+          compliments
+            .filter(compliment => compliment.collaboratorId === collaboratorId && (!filter.unreadOnly || !compliment.isRead))
+            .sort((a, b) => (b.$createdAt || '').localeCompare(a.$createdAt || ''))
+            .slice(0, filter.limit ?? 100)
+        ),
+
+      create: async (data) => {
+        const compliment: Compliment = {
+          $id: nextId('compliment'),
+          managerId: data.managerId,
+          collaboratorId: data.collaboratorId,
+          message: data.message,
+          presetKey: data.presetKey,
+          isRead: false,
+          $createdAt: new Date().toISOString()
+        };
+        compliments.push(compliment);
+        return clone(compliment);
+      },
+
+      markAsRead: async (complimentIds) => {
+        compliments.forEach(compliment => {
+          if (complimentIds.includes(compliment.$id)) compliment.isRead = true;
+        });
+      }
+    }
+  };
+};
@@ -0,0 +1,110 @@
+/**
+ * Contratos dos repositórios de dados
+ * Cada entidade tem uma interface tipada com filtros próprios (sem queries do Appwrite),
+ * implementada sobre o Appwrite (./appwrite) e em memória (./memory).
+ * Listagens sem `limit` retornam todos os registros (paginados por cursor).
+ * Escritas de metas, submissões e contestações passam pelas API routes no Appwrite; em memória
+ * aplicam as mesmas validações e falham com ApiRequestError, como a API
+ */
+
+import type {
+  Compliment,
+  Contestation,
+  CreateComplimentData,
+  CreateContestationData,
+  GoalAnswerRecord,
+  GoalScope,
+  SectorGoal,
+  Submission,
+  UserProfile
+} from '../appwrite';
+import type { GoalPayload } from '../goal-payload';
+import type { SubmissionDraft } from '../submission-rules';
+
+export interface ProfileFilter {
+  sectors?: string[];
+}
+
+export interface ProfileRepository {
+  list(filter?: ProfileFilter): Promise<UserProfile[]>;
+  findByUserId(userId: string): Promise<UserProfile | null>;
+}
+
+export interface GoalFilter {
+  sectorId?: string;
+  activeOnly?: boolean;
+  scope?: GoalScope;
+  assignedUserId?: string;
+  visibleToUserId?: string; // metas setoriais + metas individuais atribuídas a esse usuário
+}
+
+// Escritas de metas passam por /api/goals (auditoria no servidor)
+export interface GoalRepository {
+  list(filter?: GoalFilter): Promise<SectorGoal[]>;
+  create(data: GoalPayload): Promise<SectorGoal>;
+  update(goalId: string, changes: GoalPayload): Promise<SectorGoal>; // inclui ativar/desativar
+  remove(goalId: string): Promise<void>;
+}
+
+export interface SubmissionFilter {
+  profileIds?: string[]; // perfis autores; ausente = todas (admin)
+  from?: string; // ISO, inclusivo (campo `date`)
+  to?: string; // ISO, inclusivo
+}
+
+// Submissões são gravadas por POST /api/submissions (regras das metas aplicadas no servidor)
+export interface SubmissionRepository {
+  list(filter?: SubmissionFilter): Promise<Submission[]>;
+  create(draft: SubmissionDraft, author?: UserProfile | null): Promise<Submission>; // no Appwrite o autor é sempre o perfil da sessão
+  uploadFile(file: File, fileId?: string): Promise<string>; // comprovação anexada; retorna o ID do arquivo (idempotente com fileId)
+}
+
+export interface GoalAnswerFilter {
+  goalIds?: string[];
+  profileIds?: string[];
+  submissionIds?: string[];
+  from?: string; // ISO, inclusivo (campo `date`)
+  to?: string; // ISO, inclusivo
+}
+
+export type NewGoalAnswer = Omit<GoalAnswerRecord, '$id' | '$createdAt'>;
+
+// Respostas por meta gravadas pelo servidor junto com cada submissão (consultas por meta sem ler o checklist)
+export interface GoalAnswerRepository {
+  list(filter?: GoalAnswerFilter): Promise<GoalAnswerRecord[]>;
+}
+
+export interface ContestationFilter {
+  collaboratorId?: string;
+  managerId?: string;
+}
+
+// Gestor resolve/dispensa (`status`, `response`); colaborador responde (`collaboratorResponse`)
+export type ContestationChanges = Partial<Pick<Contestation, 'status' | 'response' | 'collaboratorResponse'>>;
+
+// Escritas de contestações passam por /api/contestations (auditoria no servidor)
+export interface ContestationRepository {
+  list(filter?: ContestationFilter): Promise<Contestation[]>;
+  create(data: CreateContestationData): Promise<Contestation>; // no Appwrite o gestor é sempre o autor autenticado
+  update(contestationId: string, changes: ContestationChanges): Promise<Contestation>;
+}
+
+export interface ComplimentFilter {
+  unreadOnly?: boolean;
+  limit?: number;
+}
+
+export interface ComplimentRepository {
+  listByCollaborator(collaboratorId: string, filter?: ComplimentFilter): Promise<Compliment[]>; // mais recentes primeiro
+  create(data: CreateComplimentData): Promise<Compliment>;
+  markAsRead(complimentIds: string[]): Promise<void>;
+}
+
+export interface Repositories {
+  profiles: ProfileRepository;
+  goals: GoalRepository;
+  submissions: SubmissionRepository;
+  goalAnswers: GoalAnswerRepository;
+  contestations: ContestationRepository;
+  compliments: ComplimentRepository;
+}
@@ -0,0 +1,308 @@
+/**
+ * Aprovação das recompensas fechadas (server-side only)
+ * Cada período apurado do razão (lib/reward-ledger.ts) segue o ciclo: apurada → aprovada pelo gestor do setor →
+ * liberada pelo financeiro → paga, ou rejeitada com motivo. A decisão guarda o saldo do razão no momento:
+ * se uma nova apuração muda o saldo de uma recompensa ainda não paga, ela volta a "apurada" para nova aprovação
+ */
+
+import { Query } from 'node-appwrite';
+import { z } from 'zod';
+import { format, subMonths } from 'date-fns';
+import { adminDatabases } from './appwrite-server';
+import {
+  DATABASE_ID,
+  REWARD_APPROVALS_COLLECTION,
+  Sector,
+  type GoalPeriod,
+  type RewardApproval,
+  type RewardStatus
+} from './appwrite';
+import { canManageSector, type ApiActor } from './api-auth';
+import { formatIssues } from './checklist-schema';
+import { listAllDocuments } from './pagination';
+import { hasPermission } from './permissions';
+import { CLOSING_PERIOD_PATTERN, listLedgerEntries, rewardKey, rewardKeyId, type RewardLedgerFilters } from './reward-ledger';
+
+export type RewardAction = 'approve' | 'reject' | 'release' | 'pay';
+
+export const REWARD_ACTIONS: RewardAction[] = ['approve', 'reject', 'release', 'pay'];
+
+// Recompensa de um período apurado com o status efetivo
+export interface RewardItem {
+  key: string; // rewardKeyId do período apurado (ID da aprovação)
+  closingPeriod: string;
+  sector: Sector;
+  profileId: string;
+  userId: string;
+  userName: string;
+  goalId: string;
+  goalTitle: string;
+  periodType: GoalPeriod;
+  periodStart: string;
+  periodEnd: string;
+  amount: number; // saldo do razão (centavos)
+  status: RewardStatus;
+  outdated: boolean; // saldo mudou depois da última decisão
+  approval: RewardApproval | null;
+}
+
+// Corpo de POST /api/rewards/approvals
+export const rewardActionSchema = z.object({
+  closingPeriod: z.string().regex(CLOSING_PERIOD_PATTERN, 'Mês inválido (use AAAA-MM)'),
+  action: z.enum(['approve', 'reject', 'release', 'pay']),
+  keys: z.array(z.string().min(1)).min(1).max(500),
+  reason: z.string().trim().max(500).optional()
+});
+
+// `conflict`: a aprovação mudou entre a listagem e a gravação (outra pessoa decidiu antes)
+export interface RewardActionFailure {
+  key: string;
+  error: string;
+  conflict?: boolean;
+}
+
+export type RewardActionResult =
+  | { ok: true; updated: RewardItem[]; failed: RewardActionFailure[] }
+  | { ok: false; status: 400; code: string; error: string };
+
+// Meses consultados quando a listagem não informa o mês
+const DEFAULT_HISTORY_MONTHS = 6;
+
+// Status de origem aceito por cada ação
+const ACTION_SOURCE: Record<RewardAction, RewardStatus[]> = {
+  approve: ['earned'],
+  reject: ['earned', 'approved', 'released'],
+  release: ['approved'],
+  pay: ['released']
+};
+
+const ACTION_TARGET: Record<RewardAction, Exclude<RewardStatus, 'earned'>> = {
+  approve: 'approved',
+  reject: 'rejected',
+  release: 'released',
+  pay: 'paid'
+};
+
+const isConflict = (error: unknown) => (error as { code?: number } | null)?.code === 409;
+
+const CONFLICT_ERROR = 'A recompensa foi alterada por outra pessoa. Atualize a lista.';
+
+// Decisões de uma recompensa: `<key>` (primeira) e `<key>.<n>`. Duas decisões tomadas sobre a mesma anterior
+// disputam o mesmo ID e só a primeira é gravada (409 para a outra)
+const decisionId = (key: string, sequence: number) => sequence === 0 ? key : `${key}.${sequence}`;
+
+const parseDecisionId = (id: string) => {
+  const [key, sequence] = id.split('.');
+  return { key, sequence: Number(sequence) || 0 };
+};
+
+// Estado da decisão anterior, sem os metadados do Appwrite
+const decisionFields = (approval: RewardApproval | null) =>
+  Object.fromEntries(Object.entries(approval ?? {}).filter(([field]) => !field.startsWith('$')));
+
+/**
+ * Status efetivo: sem decisão é "apurada"; saldo alterado depois da decisão reabre a aprovação,
+ * exceto quando já foi paga (o pagamento não se desfaz e a diferença fica sinalizada)
+ */
+export const resolveRewardStatus = (amount: number, approval: RewardApproval | null): { status: RewardStatus; outdated: boolean } => {
+  if (!approval) return { status: 'earned', outdated: false };
+  const outdated = approval.amount !== amount;
+  if (outdated && approval.status !== 'paid') return { status: 'earned', outdated };
+  return { status: approval.status, outdated };
+};
+
+const listApprovals = async ({ closingPeriod, fromClosingPeriod, sector, profileId }: RewardLedgerFilters): Promise<RewardApproval[]> => {
+  const documents = await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, REWARD_APPROVALS_COLLECTION, page), [
+    ...(closingPeriod ? [Query.equal('closingPeriod', closingPeriod)] : []),
+    ...(fromClosingPeriod ? [Query.greaterThanEqual('closingPeriod', fromClosingPeriod)] : []),
+    ...(sector ? [Query.equal('sector', sector)] : []),
+    ...(profileId ? [Query.equal('profileId', profileId)] : [])
+  ]);
+  return documents as unknown as RewardApproval[];
+};
+
+/**
+ * Recompensas do razão com o status de aprovação
+ * Períodos sem saldo só aparecem se já tiveram alguma decisão (ex.: paga e depois estornada)
+ */
+export const listRewardItems = async (filters: RewardLedgerFilters): Promise<RewardItem[]> => {
+  const [entries, approvals] = await Promise.all([listLedgerEntries(filters), listApprovals(filters)]);
+  // Última decisão de cada recompensa
+  const approvalsById = new Map<string, RewardApproval>();
+  approvals.forEach(approval => {
+    const { key, sequence } = parseDecisionId(approval.$id);
+    const current = approvalsById.get(key);
+    if (!current || parseDecisionId(current.$id).sequence < sequence) approvalsById.set(key, approval);
+  });
+
+  const items = new Map<string, RewardItem>();
+  [...entries]
+    .sort((a, b) => (a.$createdAt || '').localeCompare(b.$createdAt || ''))
+    .forEach(entry => {
+      const key = rewardKeyId(rewardKey(entry.profileId, entry.goalId, entry.periodStart, entry.periodEnd));
+      const item = items.get(key);
+      if (item) {
+        item.amount += entry.amount;
+        item.userName = entry.userName;
+        item.goalTitle = entry.goalTitle;
+        return;
+      }
+      items.set(key, {
+        key,
+        closingPeriod: entry.closingPeriod,
+        sector: entry.sector,
+        profileId: entry.profileId,
+        userId: entry.userId,
+        userName: entry.userName,
+        goalId: entry.goalId,
+        goalTitle: entry.goalTitle,
+        periodType: entry.periodType,
+        periodStart: entry.periodStart,
+        periodEnd: entry.periodEnd,
+        amount: entry.amount,
+        status: 'earned',
+        outdated: false,
+        approval: approvalsById.get(key) ?? null
+      });
+    });
+
+  return Array.from(items.values())
+    .filter(item => item.amount > 0 || item.approval)
+    .map(item => ({ ...item, ...resolveRewardStatus(item.amount, item.approval) }))
+    .sort((a, b) =>
+      b.closingPeriod.localeCompare(a.closingPeriod) ||
+      a.userName.localeCompare(b.userName) ||
+      a.goalTitle.localeCompare(b.goalTitle) ||
+      a.periodStart.localeCompare(b.periodStart)
+    );
+};
+
+/**
+ * Recompensas visíveis ao autor: o financeiro vê todas, gestores as dos setores que gerem e os demais só as próprias
+ * (`mine` força as próprias). Sem mês informado, consulta os últimos DEFAULT_HISTORY_MONTHS meses
+ */
+export const listVisibleRewardItems = async (
+  actor: ApiActor,
+  { closingPeriod, sector, mine }: { closingPeriod?: string; sector?: Sector; mine?: boolean },
+  now: Date = new Date()
+): Promise<RewardItem[]> => {
+  const period = closingPeriod
+    ? { closingPeriod }
+    : { fromClosingPeriod: format(subMonths(now, DEFAULT_HISTORY_MONTHS), 'yyyy-MM') };
+
+  if (mine || (!hasPermission(actor, 'rewards.release') && !hasPermission(actor, 'rewards.approve'))) {
+    return actor.id === 'admin' ? [] : listRewardItems({ ...period, sector, profileId: actor.id });
+  }
+
+  const items = await listRewardItems({ ...period, sector });
+  return hasPermission(actor, 'rewards.release') ? items : items.filter(item => canManageSector(actor, item.sector));
+};
+
+/**
+ * Motivo pelo qual o autor não pode aplicar a ação à recompensa (null quando pode)
+ * Gestores (rewards.approve) aprovam ou rejeitam as apuradas dos setores que gerem;
+ * o financeiro (rewards.release) libera as aprovadas, registra o pagamento e pode rejeitar antes de pagar.
+ * Ninguém decide sobre a própria recompensa, nem com permissão recebida por delegação
+ */
+const checkAction = (actor: ApiActor, action: RewardAction, item: RewardItem): string | null => {
+  if (item.profileId === actor.id) {
+    return 'Você não pode decidir sobre a própria recompensa.';
+  }
+  if (!ACTION_SOURCE[action].includes(item.status)) {
+    return 'O status atual da recompensa não permite esta ação.';
+  }
+  if (action === 'approve' && item.amount <= 0) {
+    return 'Recompensa sem saldo a aprovar.';
+  }
+
+  const approver = hasPermission(actor, 'rewards.approve') && canManageSector(actor, item.sector);
+  const finance = hasPermission(actor, 'rewards.release');
+  const allowed = action === 'approve'
+    ? approver
+    : action === 'reject'
+      ? (item.status === 'earned' ? approver : finance)
+      : finance;
+  return allowed ? null : 'Seu perfil não tem permissão para esta ação nesta recompensa.';
+};
+
+const buildApproval = (actor: ApiActor, action: RewardAction, item: RewardItem, reason?: string) => {
+  const now = new Date().toISOString();
+  const by = { id: actor.id, name: actor.name };
+  switch (action) {
+    case 'approve':
+      // Nova aprovação (inclusive após uma nova apuração): descarta as decisões anteriores
+      return {
+        approvedBy: by.id, approvedByName: by.name, approvedAt: now,
+        releasedBy: null, releasedByName: null, releasedAt: null,
+        paidBy: null, paidByName: null, paidAt: null,
+        rejectedBy: null, rejectedByName: null, rejectedAt: null, rejectionReason: null
+      };
+    case 'reject':
+      return { rejectedBy: by.id, rejectedByName: by.name, rejectedAt: now, rejectionReason: reason };
+    case 'release':
+      return { releasedBy: by.id, releasedByName: by.name, releasedAt: now };
+    case 'pay':
+      return { paidBy: by.id, paidByName: by.name, paidAt: now };
+  }
+};
+
+/**
+ * Aplica uma ação a um lote de recompensas de um mês
+ * Cada recompensa é validada individualmente: as que falham voltam em `failed` sem impedir as demais.
+ * Cada decisão grava um novo documento cujo ID segue o da decisão listada: se outra pessoa decidiu depois
+ * da listagem, o ID já existe e a recompensa falha como conflito
+ */
+export const applyRewardAction = async (actor: ApiActor, body: unknown): Promise<RewardActionResult> => {
+  const parsed = rewardActionSchema.safeParse(body);
+  if (!parsed.success) {
+    return { ok: false, status: 400, code: 'invalid_payload', error: `Ação inválida: ${formatIssues(parsed.error)}` };
+  }
+
+  const { closingPeriod, action, keys, reason } = parsed.data;
+  if (action === 'reject' && !reason) {
+    return { ok: false, status: 400, code: 'reason_required', error: 'Informe o motivo da rejeição.' };
+  }
+
+  const items = new Map((await listRewardItems({ closingPeriod })).map(item => [item.key, item]));
+  const updated: RewardItem[] = [];
+  const failed: RewardActionFailure[] = [];
+
+  for (const key of Array.from(new Set(keys))) {
+    const item = items.get(key);
+    if (!item) {
+      failed.push({ key, error: 'Recompensa não encontrada no mês informado.' });
+      continue;
+    }
+    const denied = checkAction(actor, action, item);
+    if (denied) {
+      failed.push({ key, error: denied });
+      continue;
+    }
+
+    const sequence = item.approval ? parseDecisionId(item.approval.$id).sequence + 1 : 0;
+    try {
+      const approval = await adminDatabases.createDocument(DATABASE_ID, REWARD_APPROVALS_COLLECTION, decisionId(key, sequence), {
+        ...decisionFields(item.approval),
+        closingPeriod: item.closingPeriod,
+        sector: item.sector,
+        profileId: item.profileId,
+        goalId: item.goalId,
+        periodStart: item.periodStart,
+        periodEnd: item.periodEnd,
+        status: ACTION_TARGET[action],
+        amount: item.amount,
+        ...buildApproval(actor, action, item, reason)
+      }, []) as unknown as RewardApproval;
+      updated.push({ ...item, approval, status: approval.status, outdated: false });
+    } catch (error) {
+      // Outra pessoa decidiu a mesma recompensa depois da listagem
+      if (isConflict(error)) {
+        failed.push({ key, error: CONFLICT_ERROR, conflict: true });
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return { ok: true, updated, failed };
+};
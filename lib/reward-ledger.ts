@@ -0,0 +1,391 @@
+/**
+ * Razão de recompensas (server-side only)
+ * O fechamento de um mês grava, por colaborador e meta, o valor apurado por calculateClosingRewards nos períodos
+ * encerrados no mês. Lançamentos nunca são alterados: repetir o fechamento depois de uma meta editada ou de uma
+ * submissão removida grava um ajuste com a diferença entre a nova apuração e o saldo já lançado.
+ * Metas e setores dos colaboradores valem como estavam no fim de cada período (lib/audit-history.ts): desativar,
+ * reatribuir ou remover uma meta, ou mudar o colaborador de setor depois, não altera um mês já fechado
+ */
+
+import { createHash } from 'crypto';
+import { Query } from 'node-appwrite';
+import { z } from 'zod';
+import { endOfMonth, min, startOfMonth, startOfWeek } from 'date-fns';
+import { adminDatabases } from './appwrite-server';
+import {
+  DATABASE_ID,
+  REWARD_CLOSINGS_COLLECTION,
+  REWARD_LEDGER_COLLECTION,
+  SECTOR_GOALS_COLLECTION,
+  SUBMISSIONS_COLLECTION,
+  USER_PROFILES_COLLECTION,
+  Sector,
+  type RewardClosing,
+  type RewardLedgerEntry,
+  type RewardLedgerEntryType,
+  type SectorGoal,
+  type Submission,
+  type UserProfile
+} from './appwrite';
+import type { ApiActor } from './api-auth';
+import { formatIssues } from './checklist-schema';
+import { chunkQueryValues, listAllDocuments } from './pagination';
+import { REWARD_RULES_VERSION, calculateClosingRewards, getPeriodInterval, type CalculatedReward } from './rewards';
+import {
+  documentStateAt,
+  findAuditedIds,
+  findCreationTimes,
+  lastAuditedState,
+  loadAuditTrail,
+  type AuditTrail,
+  type HistoricalState
+} from './audit-history';
+
+// Mês do fechamento (AAAA-MM)
+export const CLOSING_PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Motivo registrado nos ajustes quando o autor não informa outro
+const DEFAULT_ADJUSTMENT_REASON = 'Nova apuração após o fechamento';
+
+// Corpo de POST /api/admin/reward-ledger
+export const closeRewardPeriodSchema = z.object({
+  closingPeriod: z.string().regex(CLOSING_PERIOD_PATTERN, 'Mês inválido (use AAAA-MM)'),
+  sectors: z.array(z.nativeEnum(Sector)).min(1).optional(), // padrão: todos os setores
+  reason: z.string().trim().max(500).optional()
+});
+
+export interface RewardClosingResult {
+  closingPeriod: string;
+  sector: Sector;
+  status: 'closed' | 'recalculated'; // primeiro fechamento do mês ou nova apuração de um mês já fechado
+  closingEntries: number;
+  adjustments: number;
+  adjustedAmount: number; // soma dos ajustes gravados nesta execução (centavos)
+  balance: number; // saldo do setor no mês após a execução (centavos)
+}
+
+export type CloseRewardPeriodResult =
+  | { ok: true; results: RewardClosingResult[] }
+  | { ok: false; status: 400 | 422; code: string; error: string };
+
+type NewLedgerEntry = Omit<RewardLedgerEntry, '$id' | '$createdAt'>;
+
+const isNotFound = (error: unknown) => (error as { code?: number } | null)?.code === 404;
+const isConflict = (error: unknown) => (error as { code?: number } | null)?.code === 409;
+
+/**
+ * Primeiro dia do mês informado (AAAA-MM), no fuso do servidor
+ */
+export const parseClosingPeriod = (value: string): Date | null =>
+  CLOSING_PERIOD_PATTERN.test(value) ? new Date(Number(value.slice(0, 4)), Number(value.slice(5, 7)) - 1, 1) : null;
+
+// Período apurado: colaborador, meta e intervalo da meta
+export const rewardKey = (profileId: string, goalId: string, periodStart: Date | string, periodEnd: Date | string) =>
+  [profileId, goalId, new Date(periodStart).toISOString(), new Date(periodEnd).toISOString()].join('|');
+
+// Identificador curto do período apurado (prefixo dos lançamentos e ID da aprovação, lib/reward-approvals.ts)
+export const rewardKeyId = (key: string) => createHash('sha256').update(key).digest('hex').slice(0, 28);
+
+// ID do n-ésimo lançamento de um período apurado: duas execuções simultâneas tentam o mesmo ID e só uma grava
+const entryId = (key: string, sequence: number) => `${rewardKeyId(key)}.${sequence}`;
+
+const describeReward = (reward: CalculatedReward | null) => JSON.stringify(reward
+  ? {
+      isEarned: reward.isEarned,
+      daysAchieved: reward.daysAchieved,
+      totalDaysInPeriod: reward.totalDaysInPeriod,
+      completionRate: Math.round(reward.completionRate * 10) / 10,
+      currentValue: reward.currentValue ?? null,
+      targetValue: reward.targetValue,
+      totalMonetaryValue: reward.totalMonetaryValue,
+      dailyValue: reward.dailyValue,
+      tierPayoutPercent: reward.tierPayoutPercent ?? null
+    }
+  : { removed: true }); // meta ou submissões que deixaram de existir
+
+const getClosing = async (id: string): Promise<RewardClosing | null> => {
+  try {
+    return await adminDatabases.getDocument(DATABASE_ID, REWARD_CLOSINGS_COLLECTION, id) as unknown as RewardClosing;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+};
+
+// Filtros dos lançamentos: mês exato ou a partir de um mês, setor e colaborador
+export interface RewardLedgerFilters {
+  closingPeriod?: string;
+  fromClosingPeriod?: string;
+  sector?: Sector;
+  profileId?: string;
+}
+
+export const listLedgerEntries = async ({ closingPeriod, fromClosingPeriod, sector, profileId }: RewardLedgerFilters): Promise<RewardLedgerEntry[]> => {
+  const documents = await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, REWARD_LEDGER_COLLECTION, page), [
+    ...(closingPeriod ? [Query.equal('closingPeriod', closingPeriod)] : []),
+    ...(fromClosingPeriod ? [Query.greaterThanEqual('closingPeriod', fromClosingPeriod)] : []),
+    ...(sector ? [Query.equal('sector', sector)] : []),
+    ...(profileId ? [Query.equal('profileId', profileId)] : [])
+  ]);
+  return documents as unknown as RewardLedgerEntry[];
+};
+
+// Submissões dos colaboradores preenchidas no intervalo (a apuração usa `date`, não o momento da sincronização)
+const listSubmissions = async (profileIds: string[], from: Date, to: Date): Promise<Submission[]> => {
+  const documents = [];
+  for (const chunk of chunkQueryValues(profileIds)) {
+    documents.push(...await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, SUBMISSIONS_COLLECTION, page), [
+      Query.equal('userProfile', chunk),
+      Query.greaterThanEqual('date', from.toISOString()),
+      Query.lessThanEqual('date', to.toISOString())
+    ]));
+  }
+  return documents as unknown as Submission[];
+};
+
+// Trilhas de auditoria de metas e perfis desde o início do mês fechado (compartilhadas entre os setores)
+interface ClosingHistory {
+  goals: AuditTrail;
+  profiles: AuditTrail;
+}
+
+/**
+ * Documentos atuais do setor mais os que passaram por ele desde o início da trilha (null: removidos depois)
+ */
+const listSectorDocuments = async <T extends { $id?: string }>(
+  collectionId: string,
+  field: string,
+  sector: Sector,
+  trail: AuditTrail
+): Promise<Map<string, T | null>> => {
+  const listDocuments = (queries: string[]) =>
+    listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, collectionId, page), queries) as unknown as Promise<T[]>;
+
+  const documents = new Map<string, T | null>((await listDocuments([Query.equal(field, sector)])).map(document => [document.$id!, document]));
+  const formerIds = findAuditedIds(trail, snapshot => snapshot[field] === sector).filter(id => !documents.has(id));
+  for (const chunk of chunkQueryValues(formerIds)) {
+    (await listDocuments([Query.equal('$id', chunk)])).forEach(document => documents.set(document.$id!, document));
+  }
+  formerIds.filter(id => !documents.has(id)).forEach(id => documents.set(id, null));
+  return documents;
+};
+
+/**
+ * Fecha (ou reapura) o mês de um setor
+ */
+const closeSector = async (
+  actor: ApiActor,
+  sector: Sector,
+  closingPeriod: string,
+  month: Date,
+  history: ClosingHistory,
+  reason?: string
+): Promise<RewardClosingResult> => {
+  const monthEnd = endOfMonth(month);
+  const closingId = `${closingPeriod}-${sector}`;
+
+  // Metas inativas ou sem recompensa hoje também entram: o que vale é o estado no fim de cada período
+  const [closing, profileDocuments, goalDocuments, entries] = await Promise.all([
+    getClosing(closingId),
+    listSectorDocuments<UserProfile>(USER_PROFILES_COLLECTION, 'sector', sector, history.profiles),
+    listSectorDocuments<SectorGoal>(SECTOR_GOALS_COLLECTION, 'sectorId', sector, history.goals),
+    listLedgerEntries({ closingPeriod, sector })
+  ]);
+
+  // Metas removidas depois do mês: o último estado auditado, com a criação tirada do evento goal.create
+  const removedGoalIds = Array.from(goalDocuments.entries()).filter(([, goal]) => !goal).map(([id]) => id);
+  const removedGoalsCreatedAt = await findCreationTimes('goal.create', removedGoalIds);
+  const goalMetadata = new Map<string, Partial<SectorGoal>>();
+  const goals: SectorGoal[] = [];
+  Array.from(goalDocuments.entries()).forEach(([id, current]) => {
+    const $createdAt = current?.$createdAt ?? removedGoalsCreatedAt.get(id);
+    if (!$createdAt) return; // sem o início da meta não há como reapurar
+    const metadata = { $id: id, $createdAt };
+    const goal = current ?? lastAuditedState<SectorGoal>(history.goals, id, metadata);
+    if (!goal) return;
+    goalMetadata.set(id, metadata);
+    goals.push(goal);
+  });
+
+  const profiles = Array.from(profileDocuments.entries())
+    .map(([id, current]) => current ?? lastAuditedState<UserProfile>(history.profiles, id, { $id: id }))
+    .filter((profile): profile is UserProfile => !!profile);
+
+  const goalStateAt = (goalId: string, at: Date): HistoricalState<SectorGoal> => {
+    const metadata = goalMetadata.get(goalId);
+    return metadata ? documentStateAt(history.goals, goalId, goalDocuments.get(goalId) ?? null, at, metadata) : { known: false, state: null };
+  };
+  const profileStateAt = (profileId: string, at: Date): HistoricalState<UserProfile> =>
+    profileDocuments.has(profileId)
+      ? documentStateAt(history.profiles, profileId, profileDocuments.get(profileId) ?? null, at, { $id: profileId })
+      : { known: false, state: null };
+
+  // Períodos que terminam no mês podem ter começado antes dele (semana, trimestre, ano)
+  const from = min([startOfWeek(startOfMonth(month)), ...goals.map(goal => getPeriodInterval(goal.period, goal.$createdAt!, monthEnd).start)]);
+  const submissions = goals.length > 0 ? await listSubmissions(profiles.map(profile => profile.$id), from, monthEnd) : [];
+
+  // Lançamentos já gravados por período apurado, em ordem de gravação
+  const ledger = new Map<string, RewardLedgerEntry[]>();
+  [...entries]
+    .sort((a, b) => (a.$createdAt || '').localeCompare(b.$createdAt || ''))
+    .forEach(entry => {
+      const key = rewardKey(entry.profileId, entry.goalId, entry.periodStart, entry.periodEnd);
+      ledger.set(key, [...(ledger.get(key) ?? []), entry]);
+    });
+  const balanceOf = (key: string) => (ledger.get(key) ?? []).reduce((total, entry) => total + entry.amount, 0);
+
+  // Cada período conta no setor da meta e do colaborador no fim do período
+  const goalInSector = (goal: SectorGoal, at: Date) => {
+    const { state } = goalStateAt(goal.$id!, at);
+    return state?.sectorId === sector ? state : null;
+  };
+  const computed = new Map<string, { profile: Pick<UserProfile, '$id' | 'userId' | 'name'>; reward: CalculatedReward }>();
+  profiles.forEach(profile => {
+    calculateClosingRewards(goals, submissions, profile.userId, month, goalInSector)
+      .filter(reward => profileStateAt(profile.$id, reward.periodEnd).state?.sector === sector)
+      .forEach(reward => {
+        computed.set(rewardKey(profile.$id, reward.goalId, reward.periodStart, reward.periodEnd), { profile, reward });
+      });
+  });
+
+  const result: RewardClosingResult = {
+    closingPeriod,
+    sector,
+    status: closing ? 'recalculated' : 'closed',
+    closingEntries: 0,
+    adjustments: 0,
+    adjustedAmount: 0,
+    balance: entries.reduce((total, entry) => total + entry.amount, 0)
+  };
+
+  const write = async (key: string, entry: NewLedgerEntry) => {
+    const previous = ledger.get(key) ?? [];
+    try {
+      await adminDatabases.createDocument(DATABASE_ID, REWARD_LEDGER_COLLECTION, entryId(key, previous.length), entry, []);
+    } catch (error) {
+      // Outra execução gravou o mesmo lançamento
+      if (isConflict(error)) return;
+      throw error;
+    }
+    result.balance += entry.amount;
+    if (entry.entryType === 'closing') {
+      result.closingEntries++;
+    } else {
+      result.adjustments++;
+      result.adjustedAmount += entry.amount;
+    }
+  };
+
+  const baseEntry = { closingPeriod, sector, ruleVersion: REWARD_RULES_VERSION, createdBy: actor.id, createdByName: actor.name };
+  const adjustmentReason = reason || DEFAULT_ADJUSTMENT_REASON;
+
+  for (const [key, { profile, reward }] of Array.from(computed.entries())) {
+    const previous = ledger.get(key) ?? [];
+    // Sem fechamento gravado, o período entra como fechamento (inclusive com valor zero); depois, só diferenças
+    const entryType: RewardLedgerEntryType = closing ? 'adjustment' : previous.length === 0 ? 'closing' : 'adjustment';
+    const amount = reward.earnedAmount - balanceOf(key);
+    if (entryType === 'adjustment' && amount === 0) continue;
+
+    await write(key, {
+      ...baseEntry,
+      profileId: profile.$id,
+      userId: profile.userId,
+      userName: profile.name,
+      goalId: reward.goalId,
+      goalTitle: reward.goalTitle,
+      periodType: reward.periodType,
+      periodStart: reward.periodStart.toISOString(),
+      periodEnd: reward.periodEnd.toISOString(),
+      amount,
+      entryType,
+      details: describeReward(reward),
+      adjustsEntryId: entryType === 'adjustment' ? previous.find(entry => entry.entryType === 'closing')?.$id ?? null : null,
+      reason: entryType === 'adjustment' ? adjustmentReason : null
+    });
+  }
+
+  // Períodos lançados que a nova apuração não encontra mais (a auditoria mostra a meta de outro colaborador ou setor,
+  // ou inexistente, no fim do período): estorno do saldo. Sem histórico para reconstruir a meta e o colaborador
+  // naquela data, o saldo é mantido
+  for (const [key, previous] of Array.from(ledger.entries())) {
+    const balance = balanceOf(key);
+    if (computed.has(key) || balance === 0) continue;
+    const last = previous[previous.length - 1];
+    const periodEnd = new Date(last.periodEnd);
+    if (!goalStateAt(last.goalId, periodEnd).known || !profileStateAt(last.profileId, periodEnd).known) continue;
+    await write(key, {
+      ...baseEntry,
+      profileId: last.profileId,
+      userId: last.userId,
+      userName: last.userName,
+      goalId: last.goalId,
+      goalTitle: last.goalTitle,
+      periodType: last.periodType,
+      periodStart: last.periodStart,
+      periodEnd: last.periodEnd,
+      amount: -balance,
+      entryType: 'adjustment',
+      details: describeReward(null),
+      adjustsEntryId: previous.find(entry => entry.entryType === 'closing')?.$id ?? null,
+      reason: adjustmentReason
+    });
+  }
+
+  if (!closing) {
+    try {
+      await adminDatabases.createDocument(DATABASE_ID, REWARD_CLOSINGS_COLLECTION, closingId, {
+        closingPeriod,
+        sector,
+        ruleVersion: REWARD_RULES_VERSION,
+        entriesCount: entries.length + result.closingEntries + result.adjustments,
+        totalAmount: result.balance,
+        closedBy: actor.id,
+        closedByName: actor.name,
+        closedAt: new Date().toISOString()
+      }, []);
+    } catch (error) {
+      if (!isConflict(error)) throw error;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Fecha o mês informado para os setores do corpo da requisição (padrão: todos)
+ * Só meses já encerrados podem ser fechados; repetir o fechamento grava apenas ajustes
+ */
+export const closeRewardPeriod = async (actor: ApiActor, body: unknown, now: Date = new Date()): Promise<CloseRewardPeriodResult> => {
+  const parsed = closeRewardPeriodSchema.safeParse(body);
+  if (!parsed.success) {
+    return { ok: false, status: 400, code: 'invalid_payload', error: `Fechamento inválido: ${formatIssues(parsed.error)}` };
+  }
+
+  const { closingPeriod, reason } = parsed.data;
+  const month = parseClosingPeriod(closingPeriod)!;
+  if (endOfMonth(month) >= now) {
+    return { ok: false, status: 422, code: 'period_open', error: 'O mês ainda não terminou e não pode ser fechado.' };
+  }
+
+  const sectors = parsed.data.sectors ?? Object.values(Sector);
+  const [goals, profiles] = await Promise.all([loadAuditTrail('goal', month), loadAuditTrail('user', month)]);
+  const results: RewardClosingResult[] = [];
+  for (const sector of Array.from(new Set(sectors))) {
+    results.push(await closeSector(actor, sector, closingPeriod, month, { goals, profiles }, reason));
+  }
+  return { ok: true, results };
+};
+
+/**
+ * Fechamentos e lançamentos de um mês (opcionalmente de um setor)
+ */
+export const listRewardLedger = async (closingPeriod: string, sector?: Sector): Promise<{ closings: RewardClosing[]; entries: RewardLedgerEntry[] }> => {
+  const [closings, entries] = await Promise.all([
+    listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, REWARD_CLOSINGS_COLLECTION, page), [
+      Query.equal('closingPeriod', closingPeriod),
+      ...(sector ? [Query.equal('sector', sector)] : [])
+    ]),
+    listLedgerEntries({ closingPeriod, sector })
+  ]);
+  return { closings: closings as unknown as RewardClosing[], entries };
+};
@@ -0,0 +1,90 @@
+/**
+ * Faixas de pagamento das recompensas (metas numéricas e de porcentagem)
+ * Cada faixa diz quanto do valor da recompensa é pago a partir de um percentual de atingimento do alvo.
+ * Ex.: 0% abaixo de 70%, 50% a partir de 70%, 100% no alvo e 120% (acelerador) a partir de 110%.
+ * Gravadas como JSON em sector_goals.rewardTiers; metas sem faixas seguem a regra padrão de lib/rewards.ts
+ */
+
+import { GoalType, type SectorGoal } from './appwrite';
+
+export interface RewardTier {
+  minPercent: number; // atingimento mínimo do alvo (%)
+  payoutPercent: number; // percentual do valor da recompensa pago na faixa
+}
+
+export const MAX_REWARD_TIERS = 10;
+export const MAX_TIER_MIN_PERCENT = 1000;
+export const MAX_TIER_PAYOUT_PERCENT = 300;
+
+// Sugestão inicial no formulário de metas
+export const EXAMPLE_REWARD_TIERS: RewardTier[] = [
+  { minPercent: 70, payoutPercent: 50 },
+  { minPercent: 100, payoutPercent: 100 },
+  { minPercent: 110, payoutPercent: 120 }
+];
+
+export const supportsRewardTiers = (type: GoalType | string | undefined): boolean =>
+  type === GoalType.NUMERIC || type === GoalType.PERCENTAGE;
+
+const sortTiers = (tiers: RewardTier[]) => [...tiers].sort((a, b) => a.minPercent - b.minPercent);
+
+/**
+ * Valida a lista de faixas; devolve a mensagem do primeiro problema (null quando válida)
+ */
+export const validateRewardTiers = (tiers: unknown): string | null => {
+  if (!Array.isArray(tiers)) return 'As faixas de pagamento devem ser uma lista.';
+  if (tiers.length === 0) return 'Informe ao menos uma faixa de pagamento.';
+  if (tiers.length > MAX_REWARD_TIERS) return `Informe no máximo ${MAX_REWARD_TIERS} faixas de pagamento.`;
+
+  for (const tier of tiers) {
+    const { minPercent, payoutPercent } = (tier ?? {}) as Partial<RewardTier>;
+    if (typeof minPercent !== 'number' || !Number.isFinite(minPercent) || minPercent < 0 || minPercent > MAX_TIER_MIN_PERCENT) {
+      return `O atingimento de cada faixa deve estar entre 0% e ${MAX_TIER_MIN_PERCENT}%.`;
+    }
+    if (typeof payoutPercent !== 'number' || !Number.isFinite(payoutPercent) || payoutPercent < 0 || payoutPercent > MAX_TIER_PAYOUT_PERCENT) {
+      return `O pagamento de cada faixa deve estar entre 0% e ${MAX_TIER_PAYOUT_PERCENT}%.`;
+    }
+  }
+
+  const minimums = (tiers as RewardTier[]).map(tier => tier.minPercent);
+  if (new Set(minimums).size !== minimums.length) return 'Duas faixas não podem ter o mesmo atingimento mínimo.';
+  return null;
+};
+
+/**
+ * Faixas gravadas na meta, em ordem crescente de atingimento ([] quando ausentes ou inválidas)
+ */
+export const parseRewardTiers = (value: string | null | undefined): RewardTier[] => {
+  if (!value) return [];
+  try {
+    const tiers = JSON.parse(value);
+    return validateRewardTiers(tiers) ? [] : sortTiers(tiers);
+  } catch {
+    return [];
+  }
+};
+
+export const serializeRewardTiers = (tiers: RewardTier[]): string =>
+  JSON.stringify(sortTiers(tiers).map(({ minPercent, payoutPercent }) => ({ minPercent, payoutPercent })));
+
+/**
+ * Faixas aplicáveis à meta: só metas numéricas e de porcentagem usam faixas
+ */
+export const getGoalRewardTiers = (goal: Pick<SectorGoal, 'type' | 'rewardTiers'>): RewardTier[] =>
+  supportsRewardTiers(goal.type) ? parseRewardTiers(goal.rewardTiers) : [];
+
+/**
+ * Percentual pago para o atingimento informado: a maior faixa alcançada (0 abaixo da primeira)
+ */
+export const getTierPayoutPercent = (tiers: RewardTier[], achievementPercent: number): number =>
+  sortTiers(tiers).reduce((payout, tier) => achievementPercent >= tier.minPercent ? tier.payoutPercent : payout, 0);
+
+/**
+ * Resumo legível das faixas (ex.: "0% abaixo de 70% · 50% a partir de 70% · 100% a partir de 100%")
+ */
+export const describeRewardTiers = (tiers: RewardTier[]): string => {
+  const sorted = sortTiers(tiers);
+  if (sorted.length === 0) return '';
+  const below = sorted[0].minPercent > 0 ? [`0% abaixo de ${sorted[0].minPercent}%`] : [];
+  return [...below, ...sorted.map(tier => `${tier.payoutPercent}% a partir de ${tier.minPercent}%`)].join(' · ');
+};
@@ -3,8 +3,11 @@
  * Implementa lógica de ciclos dinâmicos para premiação de metas
  */
 
-import { GoalPeriod, type SectorGoal, type Submission } from '@/lib/appwrite';
+import { AchievementRule, GoalPeriod, type SectorGoal, type Submission } from '@/lib/appwrite';
 import { centavosToReais } from '@/lib/currency';
+import { getSubmissionAnswers, answerToNumber, answerItems } from '@/lib/checklist-schema';
+import { getGoalRewardTiers, getTierPayoutPercent } from '@/lib/reward-tiers';
+import { countWorkingDays, evaluateAchievementRule, resolveAchievementRule } from '@/lib/achievement-rules';
 import { 
   startOfDay, endOfDay, 
   startOfWeek, endOfWeek, 
@@ -13,9 +16,20 @@ import {
   startOfYear, endOfYear,
   isWithinInterval,
   parseISO,
-  isSameDay
+  isSameDay,
+  subDays,
+  min,
+  eachDayOfInterval,
+  isWeekend
 } from 'date-fns';
 
+// Histórico recente usado pelos dashboards (sequências, tendências e comparação semanal)
+export const DASHBOARD_HISTORY_DAYS = 35;
+
+// Versão das regras de cálculo gravada nos lançamentos do razão de recompensas (lib/reward-ledger.ts).
+// Incrementar a cada mudança que altere valores: o fechamento registra a diferença como ajuste
+export const REWARD_RULES_VERSION = 1;
+
 /**
  * Interface para representar uma recompensa calculada
  */
@@ -35,6 +49,7 @@ export interface CalculatedReward {
   goalType: string; // tipo da meta para debug
   targetValue: number; // valor alvo da meta
   currentValue?: number; // valor atual (para metas numéricas)
+  tierPayoutPercent?: number; // percentual pago pela faixa atingida (metas com faixas de pagamento)
 }
 
 /**
@@ -100,6 +115,17 @@ export const getPeriodInterval = (
   return { start, end };
 };
 
+/**
+ * Início do intervalo de submissões de que os dashboards precisam: o período corrente
+ * mais longo entre as metas ativas e o histórico recente dos gráficos
+ */
+export const getSubmissionsRangeStart = (goals: SectorGoal[], referenceDate: Date = new Date()): Date => {
+  const periodStarts = goals
+    .filter(goal => goal.isActive)
+    .map(goal => getPeriodInterval(goal.period, goal.$createdAt || referenceDate.toISOString(), referenceDate).start);
+  return startOfDay(min([subDays(referenceDate, DASHBOARD_HISTORY_DAYS), ...periodStarts]));
+};
+
 /**
  * Obter número de dias em um período específico
  */
@@ -171,7 +197,7 @@ export const calculateDailyRewardValue = (
 
 /**
  * Verificar se uma meta foi atingida no período especificado
- * Versão refatorada com melhor suporte para diferentes tipos de meta
+ * O atingimento segue a regra da meta (lib/achievement-rules.ts); sem regra, o padrão do período
  */
 export const isGoalAchievedInPeriod = (
   goal: SectorGoal,
@@ -179,83 +205,99 @@ export const isGoalAchievedInPeriod = (
   userId: string,
   periodStart: Date,
   periodEnd: Date
-): { achieved: boolean; completionRate: number; daysAchieved: number; totalDaysInPeriod: number; currentValue?: number } => {
-  // Filtrar submissões do usuário no período
-  const userSubmissions = submissions.filter(sub => 
-    sub.userProfile.userId === userId &&
-    isWithinInterval(parseISO(sub.$createdAt!), { start: periodStart, end: periodEnd })
-  );
+): { achieved: boolean; completionRate: number; daysAchieved: number; totalDaysInPeriod: number; currentValue?: number; progressPercent: number } => {
+  // Filtrar submissões do usuário no período pela data do preenchimento (`date`, preservada pela fila offline),
+  // em ordem de preenchimento para a última medição
+  const userSubmissions = submissions
+    .filter(sub =>
+      sub.userProfile.userId === userId &&
+      isWithinInterval(parseISO(sub.date), { start: periodStart, end: periodEnd })
+    )
+    .sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
 
   const totalDaysInPeriod = Math.ceil((periodEnd.getTime() - periodStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
 
   if (userSubmissions.length === 0) {
-    return { achieved: false, completionRate: 0, daysAchieved: 0, totalDaysInPeriod };
+    return { achieved: false, completionRate: 0, daysAchieved: 0, totalDaysInPeriod, progressPercent: 0 };
   }
 
-  // Contar quantos dias a meta foi atingida
-  let daysAchieved = 0;
+  // Dias (distintos) em que a meta foi atingida: duas submissões no mesmo dia contam uma vez
+  const achievedDays = new Set<string>();
   let totalCurrentValue = 0;
   let submissionsWithValue = 0;
+  let lastValue: number | undefined;
+  const workingDaysAchieved = new Set<string>();
   
   for (const submission of userSubmissions) {
-    try {
-      const checklist = JSON.parse(submission.checklist);
-      const goalResult = checklist[goal.$id!];
+    const goalResult = getSubmissionAnswers(submission)[goal.$id!];
+    
+    let dayAchieved = false;
+    let currentValue = 0;
+    
+    if (typeof goalResult === 'boolean') {
+      // Para metas booleanas (task_completion)
+      dayAchieved = goalResult;
+    } else if (goal.type === 'boolean_checklist') {
+      // Checklist: atingido quando todos os itens foram concluídos
+      const items = Object.values(answerItems(goalResult));
+      dayAchieved = items.length > 0 && items.every(Boolean);
+    } else if (goal.type === 'numeric' || goal.type === 'percentage') {
+      // Para metas numéricas e de porcentagem
+      currentValue = answerToNumber(goalResult);
+      if (goalResult !== undefined && goalResult !== null) {
+        lastValue = currentValue;
+      }
       
-      let dayAchieved = false;
-      let currentValue = 0;
+      if (goal.type === 'numeric') {
+        // Meta numérica: atingido se valor >= targetValue
+        dayAchieved = currentValue >= goal.targetValue;
+      } else if (goal.type === 'percentage') {
+        // Meta de porcentagem: atingido se valor >= targetValue%
+        dayAchieved = currentValue >= goal.targetValue;
+      }
       
-      if (typeof goalResult === 'boolean') {
-        // Para metas booleanas (task_completion, boolean_checklist)
-        dayAchieved = goalResult;
-      } else if (goal.type === 'numeric' || goal.type === 'percentage') {
-        // Para metas numéricas e de porcentagem
-        currentValue = parseFloat(goalResult) || 0;
-        
+      if (currentValue > 0) {
+        // CORREÇÃO: Para metas numéricas, somar os valores (não fazer média)
         if (goal.type === 'numeric') {
-          // Meta numérica: atingido se valor >= targetValue
-          dayAchieved = currentValue >= goal.targetValue;
-        } else if (goal.type === 'percentage') {
-          // Meta de porcentagem: atingido se valor >= targetValue%
-          dayAchieved = currentValue >= goal.targetValue;
-        }
-        
-        if (currentValue > 0) {
-          // CORREÇÃO: Para metas numéricas, somar os valores (não fazer média)
-          if (goal.type === 'numeric') {
-            totalCurrentValue += currentValue;
-          } else {
-            // Para outros tipos, manter a lógica de média para compatibilidade
-            totalCurrentValue += currentValue;
-            submissionsWithValue++;
-          }
+          totalCurrentValue += currentValue;
+        } else {
+          // Para outros tipos, manter a lógica de média para compatibilidade
+          totalCurrentValue += currentValue;
+          submissionsWithValue++;
         }
       }
-      
-      if (dayAchieved) {
-        daysAchieved++;
-      }
-    } catch (error) {
-      // Ignora erros de parsing
-      continue;
+    }
+    
+    if (dayAchieved) {
+      const filledAt = startOfDay(parseISO(submission.date));
+      achievedDays.add(filledAt.toISOString());
+      if (!isWeekend(filledAt)) workingDaysAchieved.add(filledAt.toISOString());
     }
   }
+  const daysAchieved = achievedDays.size;
 
   const completionRate = totalDaysInPeriod > 0 
     ? (daysAchieved / totalDaysInPeriod) * 100 
     : 0;
 
-  // Nova regra de conclusão:
-  // - Diário: precisa atingir TODOS os dias do período (100%)
-  // - Demais períodos (semanal/mensal/...): basta atingir pelo menos 1 dia no período
-  const achieved = goal.period === GoalPeriod.DAILY
-    ? daysAchieved === totalDaysInPeriod
-    : daysAchieved > 0;
+  // Regra de conclusão da meta (padrão: diária precisa de TODOS os dias; demais períodos, de pelo menos 1 dia)
+  const rule = resolveAchievementRule(goal);
+  const { achieved, progressPercent } = evaluateAchievementRule(rule, {
+    daysAchieved,
+    totalDaysInPeriod,
+    workingDaysAchieved: workingDaysAchieved.size,
+    workingDaysInPeriod: countWorkingDays(startOfDay(periodStart), startOfDay(periodEnd)),
+    totalValue: totalCurrentValue,
+    lastValue,
+    targetValue: goal.targetValue
+  });
 
   // CORREÇÃO: Para metas numéricas, usar o valor total acumulado
-  // Para outros tipos, usar a média como antes
+  // Para outros tipos, usar a média como antes; na regra de última medição, o último valor informado
   let finalCurrentValue = 0;
-  if (goal.type === 'numeric') {
+  if (rule.rule === AchievementRule.LAST_MEASUREMENT) {
+    finalCurrentValue = lastValue ?? 0;
+  } else if (goal.type === 'numeric') {
     finalCurrentValue = totalCurrentValue; // Valor total acumulado
   } else {
     finalCurrentValue = submissionsWithValue > 0 ? totalCurrentValue / submissionsWithValue : 0;
@@ -266,7 +308,93 @@ export const isGoalAchievedInPeriod = (
     completionRate, 
     daysAchieved, 
     totalDaysInPeriod,
-    currentValue: finalCurrentValue
+    currentValue: finalCurrentValue,
+    progressPercent
+  };
+};
+
+/**
+ * Metas que geram recompensa para o usuário: individuais, ativas, atribuídas a ele e com valor monetário
+ */
+const isUserRewardGoal = (goal: SectorGoal, userId: string): boolean =>
+  goal.scope === 'individual' &&
+  goal.assignedUserId === userId &&
+  !!goal.hasMonetaryReward &&
+  !!goal.monetaryValue &&
+  goal.monetaryValue > 0 &&
+  goal.isActive;
+
+/**
+ * Valor ganho no período conforme a regra de pagamento da meta
+ * - Com faixas (metas numéricas e de porcentagem, lib/reward-tiers.ts): percentual da faixa atingida sobre o valor
+ *   do período (valor diário nas metas diárias), pelo atingimento do alvo
+ * - Diária: paga por dia batido dentro do período; valor diário é o total do mês dividido por dias do mês.
+ *   Com regra de atingimento configurada, os dias batidos só são pagos quando a regra é cumprida
+ * - Numérica: proporcional ao progresso (até 100%) quando a meta foi atingida no período
+ * - Demais: paga 1x o valor total quando a meta foi atingida no período (padrão: ao menos 1 dia)
+ */
+export const calculateEarnedAmount = (
+  goal: SectorGoal,
+  { achieved, daysAchieved, currentValue }: { achieved: boolean; daysAchieved: number; currentValue?: number },
+  dailyValue: number
+): { earnedAmount: number; tierPayoutPercent?: number } => {
+  const tiers = getGoalRewardTiers(goal);
+  if (tiers.length > 0) {
+    const achievementPercent = goal.targetValue > 0 ? ((currentValue || 0) / goal.targetValue) * 100 : 0;
+    const tierPayoutPercent = getTierPayoutPercent(tiers, achievementPercent);
+    const baseValue = goal.period === GoalPeriod.DAILY ? dailyValue : goal.monetaryValue!;
+    return { earnedAmount: Math.round(baseValue * tierPayoutPercent / 100), tierPayoutPercent };
+  }
+
+  if (goal.period === GoalPeriod.DAILY) {
+    return { earnedAmount: goal.achievementRule && !achieved ? 0 : daysAchieved * dailyValue };
+  }
+  if (goal.type === 'numeric' && currentValue && currentValue > 0) {
+    const progressRatio = Math.min(currentValue / goal.targetValue, 1);
+    return { earnedAmount: achieved ? Math.round(goal.monetaryValue! * progressRatio) : 0 };
+  }
+  return { earnedAmount: achieved ? goal.monetaryValue! : 0 };
+};
+
+/**
+ * Recompensa de uma meta no período que contém a data de referência
+ */
+export const calculateGoalReward = (
+  goal: SectorGoal,
+  submissions: Submission[],
+  userId: string,
+  referenceDate: Date = new Date()
+): CalculatedReward => {
+  const periodInterval = getPeriodInterval(goal.period, goal.$createdAt!, referenceDate);
+  const { achieved, completionRate, daysAchieved, totalDaysInPeriod, currentValue } = isGoalAchievedInPeriod(
+    goal, 
+    submissions, 
+    userId, 
+    periodInterval.start, 
+    periodInterval.end
+  );
+
+  // Calcular valor diário e valor ganho
+  const dailyValue = calculateDailyRewardValue(goal.monetaryValue!, goal.period, goal.$createdAt!, referenceDate);
+  const { earnedAmount, tierPayoutPercent } = calculateEarnedAmount(goal, { achieved, daysAchieved, currentValue }, dailyValue);
+
+  return {
+    goalId: goal.$id!,
+    goalTitle: goal.title,
+    periodType: goal.period,
+    totalMonetaryValue: goal.monetaryValue!,
+    dailyValue: dailyValue,
+    periodStart: periodInterval.start,
+    periodEnd: periodInterval.end,
+    isEarned: achieved,
+    completionRate,
+    daysAchieved,
+    totalDaysInPeriod,
+    earnedAmount,
+    goalType: goal.type,
+    targetValue: goal.targetValue,
+    currentValue,
+    tierPayoutPercent
   };
 };
 
@@ -281,14 +409,7 @@ export const calculateUserRewards = (
   referenceDate: Date = new Date()
 ): UserRewardStats => {
   // Filtrar apenas metas individuais com recompensa monetária do usuário
-  const userGoalsWithRewards = goals.filter(goal => 
-    goal.scope === 'individual' && 
-    goal.assignedUserId === userId &&
-    goal.hasMonetaryReward && 
-    goal.monetaryValue && 
-    goal.monetaryValue > 0 &&
-    goal.isActive
-  );
+  const userGoalsWithRewards = goals.filter(goal => isUserRewardGoal(goal, userId));
 
   const rewardsByPeriod: CalculatedReward[] = [];
   let totalEarnedThisMonth = 0;
@@ -303,50 +424,9 @@ export const calculateUserRewards = (
   const monthInterval = getPeriodInterval(GoalPeriod.MONTHLY, referenceDate.toISOString(), referenceDate);
 
   for (const goal of userGoalsWithRewards) {
-    const periodInterval = getPeriodInterval(goal.period, goal.$createdAt!, referenceDate);
-    const { achieved, completionRate, daysAchieved, totalDaysInPeriod, currentValue } = isGoalAchievedInPeriod(
-      goal, 
-      submissions, 
-      userId, 
-      periodInterval.start, 
-      periodInterval.end
-    );
-
-    // Calcular valor diário e valor ganho
-    const dailyValue = calculateDailyRewardValue(goal.monetaryValue!, goal.period, goal.$createdAt!, referenceDate);
-    
-    // Cálculo de ganho conforme regra de período
-    let earnedAmount = 0;
-    if (goal.period === GoalPeriod.DAILY) {
-      // Diário: paga por dia batido dentro do período; valor diário é o total do mês dividido por dias do mês
-      earnedAmount = daysAchieved * dailyValue;
-    } else {
-      // Semanal/Mensal/Trimestral/Anual: paga 1x o valor total quando houver ao menos 1 dia atingido no período
-      if (goal.type === 'numeric' && currentValue && currentValue > 0) {
-        const progressRatio = Math.min(currentValue / goal.targetValue, 1);
-        earnedAmount = daysAchieved > 0 ? Math.round(goal.monetaryValue! * progressRatio) : 0;
-      } else {
-        earnedAmount = daysAchieved > 0 ? goal.monetaryValue! : 0;
-      }
-    }
-
-    const reward: CalculatedReward = {
-      goalId: goal.$id!,
-      goalTitle: goal.title,
-      periodType: goal.period,
-      totalMonetaryValue: goal.monetaryValue!,
-      dailyValue: dailyValue,
-      periodStart: periodInterval.start,
-      periodEnd: periodInterval.end,
-      isEarned: achieved,
-      completionRate,
-      daysAchieved,
-      totalDaysInPeriod,
-      earnedAmount,
-      goalType: goal.type,
-      targetValue: goal.targetValue,
-      currentValue
-    };
+    const reward = calculateGoalReward(goal, submissions, userId, referenceDate);
+    const { earnedAmount, dailyValue } = reward;
+    const periodInterval = { start: reward.periodStart, end: reward.periodEnd };
 
     rewardsByPeriod.push(reward);
     totalAvailableRewards += goal.monetaryValue!;
@@ -391,6 +471,69 @@ export const calculateUserRewards = (
   };
 };
 
+/**
+ * Estado de uma meta numa data (no fechamento, reconstruído pela auditoria); null quando ela não vale nessa data
+ */
+export type GoalStateAt = (goal: SectorGoal, at: Date) => SectorGoal | null;
+
+/**
+ * Recompensas dos períodos encerrados no mês informado (fechamento do razão, ver lib/reward-ledger.ts)
+ * Cada meta entra com os períodos cujo último dia cai no mês (a semana que termina no dia 3 pertence a esse mês),
+ * avaliados com o estado da meta no fim de cada período (`goalAt`; padrão: o estado atual);
+ * metas diárias somam os dias do mês num único resultado
+ */
+export const calculateClosingRewards = (
+  goals: SectorGoal[],
+  submissions: Submission[],
+  userId: string,
+  month: Date,
+  goalAt: GoalStateAt = goal => goal
+): CalculatedReward[] => {
+  const days = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) });
+  const results: CalculatedReward[] = [];
+
+  for (const goal of goals) {
+    const periodRewards = days.flatMap(day => {
+      const state = goalAt(goal, endOfDay(day));
+      if (!state || !isUserRewardGoal(state, userId) || day < startOfDay(parseISO(state.$createdAt!))) return [];
+      return isSameDay(getPeriodInterval(state.period, state.$createdAt!, day).end, day)
+        ? [{ state, reward: calculateGoalReward(state, submissions, userId, day) }]
+        : [];
+    });
+
+    results.push(...periodRewards.filter(({ reward }) => reward.periodType !== GoalPeriod.DAILY).map(({ reward }) => reward));
+    const daily = periodRewards.filter(({ reward }) => reward.periodType === GoalPeriod.DAILY);
+    if (daily.length === 0) continue;
+
+    // O mês da meta diária é atingido conforme a regra da meta (no estado do último dia), aplicada aos dias somados
+    const rewards = daily.map(({ reward }) => reward);
+    const daysAchieved = rewards.reduce((total, reward) => total + reward.daysAchieved, 0);
+    const workingDays = rewards.filter(reward => !isWeekend(reward.periodStart));
+    const { achieved } = evaluateAchievementRule(resolveAchievementRule(daily[daily.length - 1].state), {
+      daysAchieved,
+      totalDaysInPeriod: rewards.length,
+      workingDaysAchieved: workingDays.filter(reward => reward.daysAchieved > 0).length,
+      workingDaysInPeriod: workingDays.length,
+      totalValue: rewards.reduce((total, reward) => total + (reward.currentValue ?? 0), 0),
+      lastValue: rewards[rewards.length - 1].currentValue,
+      targetValue: rewards[rewards.length - 1].targetValue
+    });
+    results.push({
+      ...rewards[0],
+      periodEnd: rewards[rewards.length - 1].periodEnd,
+      isEarned: achieved,
+      completionRate: (daysAchieved / rewards.length) * 100,
+      daysAchieved,
+      totalDaysInPeriod: rewards.length,
+      earnedAmount: rewards.reduce((total, reward) => total + reward.earnedAmount, 0),
+      currentValue: undefined,
+      tierPayoutPercent: undefined
+    });
+  }
+
+  return results;
+};
+
 /**
  * Formatar período para exibição
  */
@@ -433,14 +576,7 @@ export const calculateMonthlyEarnings = (
 ): number => {
   // Para compatibilidade, usar o mês como referência para períodos fixos
   const monthInterval = getPeriodInterval(GoalPeriod.MONTHLY, month.toISOString(), month);
-  const userGoalsWithRewards = goals.filter(goal => 
-    goal.scope === 'individual' && 
-    goal.assignedUserId === userId &&
-    goal.hasMonetaryReward && 
-    goal.monetaryValue && 
-    goal.monetaryValue > 0 &&
-    goal.isActive
-  );
+  const userGoalsWithRewards = goals.filter(goal => isUserRewardGoal(goal, userId));
 
   let totalEarnings = 0;
 
@@ -451,7 +587,7 @@ export const calculateMonthlyEarnings = (
     const periodsOverlap = doPeriodsOverlap(periodInterval, monthInterval);
 
     if (periodsOverlap) {
-      const { daysAchieved, currentValue } = isGoalAchievedInPeriod(
+      const { achieved, daysAchieved, currentValue } = isGoalAchievedInPeriod(
         goal, 
         submissions, 
         userId, 
@@ -459,7 +595,11 @@ export const calculateMonthlyEarnings = (
         periodInterval.end
       );
 
-      if (daysAchieved > 0 || (goal.type === 'numeric' && currentValue && currentValue > 0)) {
+      // Metas com faixas de pagamento ou regra de atingimento seguem a mesma regra de calculateUserRewards
+      if (getGoalRewardTiers(goal).length > 0 || goal.achievementRule) {
+        const dailyValue = calculateDailyRewardValue(goal.monetaryValue!, goal.period, goal.$createdAt!, month);
+        totalEarnings += calculateEarnedAmount(goal, { achieved, daysAchieved, currentValue }, dailyValue).earnedAmount;
+      } else if (daysAchieved > 0 || (goal.type === 'numeric' && currentValue && currentValue > 0)) {
         if (goal.type === 'numeric' && currentValue && currentValue > 0) {
           // Para metas numéricas, calcular proporcionalmente
           const progressRatio = Math.min(currentValue / goal.targetValue, 1);
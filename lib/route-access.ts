@@ -0,0 +1,48 @@
+/**
+ * Tabela declarativa de acesso a rotas
+ * Define quais roles podem acessar cada página protegida (usada pelo middleware)
+ */
+
+import { Role } from './roles';
+
+export interface RouteAccessRule {
+  prefix: string; // prefixo da rota (ex: '/admin' cobre '/admin/*')
+  roles: Role[]; // roles autorizados
+}
+
+const ALL_ROLES = [Role.ADMIN, Role.MANAGER, Role.COLLABORATOR];
+
+// Rotas acessíveis sem autenticação
+export const PUBLIC_ROUTES = ['/', '/login', '/403', '/forgot-password', '/reset-password'];
+
+// Tela de troca obrigatória de senha (primeiro acesso)
+export const PASSWORD_CHANGE_ROUTE = '/change-password';
+
+// Ordem importa: a primeira regra cujo prefixo casar é aplicada
+export const ROUTE_ACCESS: RouteAccessRule[] = [
+  { prefix: '/admin', roles: [Role.ADMIN] },
+  { prefix: '/home/manager', roles: [Role.MANAGER] },
+  { prefix: '/home/collaborator', roles: [Role.COLLABORATOR] },
+  { prefix: '/home', roles: ALL_ROLES },
+  { prefix: '/dashboard', roles: ALL_ROLES },
+  { prefix: PASSWORD_CHANGE_ROUTE, roles: [Role.MANAGER, Role.COLLABORATOR] }
+];
+
+// Página inicial de cada role após o login
+export const ROLE_HOME_ROUTES: Record<Role, string> = {
+  [Role.ADMIN]: '/admin',
+  [Role.MANAGER]: '/home/manager',
+  [Role.COLLABORATOR]: '/home/collaborator'
+};
+
+const matchesPrefix = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+export const isPublicRoute = (pathname: string): boolean => PUBLIC_ROUTES.includes(pathname);
+
+/**
+ * Encontra a regra de acesso aplicável à rota (null quando a rota não é protegida)
+ */
+export const findRouteAccessRule = (pathname: string): RouteAccessRule | null => {
+  return ROUTE_ACCESS.find(rule => matchesPrefix(pathname, rule.prefix)) || null;
+};
@@ -0,0 +1,29 @@
+/**
+ * Utilitários de setores (client e server)
+ * Um gestor tem um setor principal (`sector`) e pode gerir setores adicionais
+ * (`managedSectors`); delegações ativas somam setores de outro gestor
+ */
+
+import { Sector, type UserProfile } from './appwrite';
+import { Role } from './roles';
+
+const SECTOR_VALUES = Object.values(Sector) as string[];
+
+export const isSector = (value: unknown): value is Sector =>
+  typeof value === 'string' && SECTOR_VALUES.includes(value);
+
+/**
+ * Normaliza uma lista de setores recebida do cliente (descarta inválidos e duplicados)
+ */
+export const sanitizeSectors = (value: unknown): Sector[] => {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.filter(isSector)));
+};
+
+/**
+ * Setores geridos pelo próprio perfil (principal primeiro); vazio para quem não é gestor
+ */
+export const getOwnManagedSectors = (profile: Pick<UserProfile, 'role' | 'sector' | 'managedSectors'>): Sector[] => {
+  if (profile.role !== Role.MANAGER) return [];
+  return Array.from(new Set([profile.sector, ...(profile.managedSectors || [])]));
+};
@@ -1,75 +1,111 @@
-import { NextApiRequest } from 'next';
-import { Client, Account, Databases, Query } from 'node-appwrite';
+/**
+ * Pré-carregamento dos dashboards (getServerSideProps)
+ * Resolve o usuário pelo cookie de sessão first-party (o cookie do Appwrite fica no domínio do Appwrite)
+ * e busca com o Admin SDK o mesmo recorte que os hooks carregariam no cliente: perfil, metas ativas
+ * e submissões dos períodos exibidos. Os hooks recebem esses dados como estado inicial e revalidam em segundo plano
+ */
+
+import type { IncomingMessage } from 'http';
+import { Query } from 'node-appwrite';
+import { adminDatabases } from './appwrite-server';
+import {
+  DATABASE_ID,
+  SECTOR_GOALS_COLLECTION,
+  SUBMISSIONS_COLLECTION,
+  USER_PROFILES_COLLECTION,
+  GoalScope,
+  type SectorGoal,
+  type Sector,
+  type Submission,
+  type UserProfile
+} from './appwrite';
+import { resolveApiActor } from './api-auth';
+import { isDemoMode } from './repositories';
 import { Role } from './roles';
-import { DATABASE_ID, SUBMISSIONS_COLLECTION, USER_PROFILES_COLLECTION } from './appwrite';
+import { getSubmissionsRangeStart } from './rewards';
+import { chunkQueryValues, listAllDocuments } from './pagination';
 
-// Função para inicializar o cliente Appwrite no lado do servidor
-const initServerAppwrite = (cookie: string) => {
-  const client = new Client()
-    .setEndpoint(process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT!)
-    .setProject(process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID!);
+export interface DashboardPrefetch {
+  profile: UserProfile;
+  goals: SectorGoal[]; // metas ativas exibidas (colaborador: visíveis a ele; gestão: do primeiro setor gerido)
+  submissions: Submission[]; // a partir de getSubmissionsRangeStart(goals)
+  managedSectors: Sector[]; // setores geridos agora (próprios + delegados)
+  sectorProfiles: UserProfile[]; // perfis dos setores geridos (vazio no painel do colaborador)
+}
 
-  // Extrai o session ID do cookie
-  const session = cookie.split(';').find(s => s.trim().startsWith('a_session_'));
-  if (session) {
-    client.setSession(session.split('=')[1]);
-  }
+// Props dos dashboards; null quando não há sessão de usuário (o cliente segue o fluxo sem pré-carregamento)
+export interface DashboardPageProps {
+  prefetch: DashboardPrefetch | null;
+}
 
-  const account = new Account(client);
-  const databases = new Databases(client);
+// Documentos do SDK viram objetos simples (props precisam ser JSON)
+const toPlain = <T>(value: unknown): T => JSON.parse(JSON.stringify(value));
 
-  return { account, databases };
+const listActiveGoals = async (sector: Sector, visibleToUserId?: string) => {
+  const queries = [Query.equal('sectorId', sector), Query.equal('isActive', true)];
+  if (visibleToUserId) {
+    queries.push(
+      Query.or([
+        Query.equal('scope', GoalScope.SECTOR),
+        Query.and([Query.equal('scope', GoalScope.INDIVIDUAL), Query.equal('assignedUserId', visibleToUserId)])
+      ])
+    );
+  }
+  const documents = await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, SECTOR_GOALS_COLLECTION, page), queries);
+  return documents as unknown as SectorGoal[];
 };
 
-// Função auxiliar para buscar perfil e submissões
-export const getProfileAndSubmissions = async (cookieHeader: string | undefined) => {
-  if (!cookieHeader) {
-    return { profile: null, submissions: [] };
+const listSubmissions = async (profileIds: string[], from: Date) => {
+  const documents = [];
+  for (const chunk of chunkQueryValues(profileIds)) {
+    documents.push(...await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, SUBMISSIONS_COLLECTION, page), [
+      Query.equal('userProfile', chunk),
+      Query.greaterThanEqual('date', from.toISOString())
+    ]));
   }
+  return documents as unknown as Submission[];
+};
 
-  const { account, databases } = initServerAppwrite(cookieHeader);
-
-  try {
-    // 1. Obter o usuário logado
-    const user = await account.get();
+// Painel de gestão também atende colaboradores com delegação ativa
+export type DashboardView = 'collaborator' | 'manager';
 
-    // 2. Obter o perfil do usuário
-    const profileResponse = await databases.listDocuments(
-      DATABASE_ID,
-      USER_PROFILES_COLLECTION,
-      [Query.equal('userId', user.$id)]
-    );
+/**
+ * Perfil, metas e submissões do usuário da requisição para o painel informado
+ * Retorna null no modo demonstração, sem sessão de usuário, para o admin ou se a busca falhar
+ */
+export const getProfileAndSubmissions = async (req: IncomingMessage, view: DashboardView): Promise<DashboardPrefetch | null> => {
+  if (isDemoMode) return null;
 
-    if (profileResponse.documents.length === 0) {
-      return { profile: null, submissions: [] };
+  try {
+    const actor = await resolveApiActor(req);
+    if (!actor || actor.role === Role.ADMIN) {
+      return null;
     }
 
-    const profile = profileResponse.documents[0];
+    const profile = await adminDatabases.getDocument(DATABASE_ID, USER_PROFILES_COLLECTION, actor.id) as unknown as UserProfile;
+    const managedSectors = actor.managedSectors || [];
 
-    // 3. Obter as submissões com base no perfil
-    let submissionQueries = [];
-    if (profile.role === Role.COLLABORATOR) {
-      submissionQueries.push(Query.equal('userProfile', profile.$id));
-    } else if (profile.role === Role.MANAGER) {
-      // Esta query pode não funcionar dependendo da versão do Appwrite e índices.
-      // Uma alternativa seria buscar todos do setor e filtrar no código.
-      submissionQueries.push(Query.equal('userProfile.sector', profile.sector));
+    if (view === 'manager') {
+      // Mesmo recorte do painel do gestor: metas do setor exibido e submissões de todos os setores geridos
+      if (managedSectors.length === 0) {
+        return toPlain({ profile, goals: [], submissions: [], managedSectors, sectorProfiles: [] });
+      }
+      const [goals, sectorProfiles] = await Promise.all([
+        listActiveGoals(managedSectors[0]),
+        listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, USER_PROFILES_COLLECTION, page), [
+          Query.equal('sector', managedSectors)
+        ])
+      ]);
+      const profileIds = sectorProfiles.map(sectorProfile => sectorProfile.$id);
+      const submissions = await listSubmissions(profileIds, getSubmissionsRangeStart(goals));
+      return toPlain({ profile, goals, submissions, managedSectors, sectorProfiles });
     }
-    // Admin não tem filtro, busca tudo
-
-    const submissionsResponse = await databases.listDocuments(
-      DATABASE_ID,
-      SUBMISSIONS_COLLECTION,
-      submissionQueries.length > 0 ? [...submissionQueries, Query.limit(1000)] : [Query.limit(1000)]
-    );
-
-    return {
-      profile: JSON.parse(JSON.stringify(profile)),
-      submissions: JSON.parse(JSON.stringify(submissionsResponse.documents)),
-    };
 
+    const goals = await listActiveGoals(profile.sector, profile.userId);
+    const submissions = await listSubmissions([profile.$id], getSubmissionsRangeStart(goals));
+    return toPlain({ profile, goals, submissions, managedSectors, sectorProfiles: [] });
   } catch (error) {
-    console.error('Server helper error:', error);
-    return { profile: null, submissions: [] };
+    console.error('Erro ao pré-carregar dashboard:', error);
+    return null;
   }
 };
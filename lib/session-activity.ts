@@ -0,0 +1,160 @@
+/**
+ * Atividade e encerramento de sessões Appwrite (server-side only)
+ * Registra a última atividade de cada sessão para aplicar o tempo limite de inatividade,
+ * lista as sessões ativas de um usuário e encerra sessões (individual ou todas)
+ */
+
+import { Query } from 'node-appwrite';
+import { adminDatabases, adminUsers } from './appwrite-server';
+import {
+  DATABASE_ID,
+  SESSION_ACTIVITY_COLLECTION,
+  USER_PROFILES_COLLECTION,
+  type ActiveSession,
+  type SessionActivityRecord,
+  type UserProfile
+} from './appwrite';
+import { USER_SESSION_TTL_SECONDS } from './user-session';
+
+const MINUTE_MS = 60 * 1000;
+
+// Intervalo mínimo entre gravações da última atividade de uma sessão
+export const SESSION_ACTIVITY_TOUCH_SECONDS = 60;
+
+/**
+ * Extrai o ID da sessão Appwrite do JWT (já validado junto ao Appwrite)
+ */
+export const getAppwriteSessionId = (jwt: string): string | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(jwt.split('.')[1] || '', 'base64url').toString('utf8'));
+    return typeof payload.sessionId === 'string' && payload.sessionId ? payload.sessionId : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Validade do cookie de sessão: acompanha o tempo limite de inatividade (renovado a cada atividade)
+ */
+export const getSessionTtlSeconds = (inactivityTimeoutMinutes: number): number =>
+  inactivityTimeoutMinutes > 0 ? Math.min(inactivityTimeoutMinutes * 60, USER_SESSION_TTL_SECONDS) : USER_SESSION_TTL_SECONDS;
+
+export const getSessionActivity = async (sessionId: string): Promise<SessionActivityRecord | null> => {
+  try {
+    return await adminDatabases.getDocument(DATABASE_ID, SESSION_ACTIVITY_COLLECTION, sessionId) as unknown as SessionActivityRecord;
+  } catch (error: any) {
+    if (error?.code === 404) return null;
+    throw error;
+  }
+};
+
+export const isSessionIdle = (activity: SessionActivityRecord, inactivityTimeoutMinutes: number): boolean =>
+  inactivityTimeoutMinutes > 0 &&
+  Date.now() - new Date(activity.lastActivityAt).getTime() > inactivityTimeoutMinutes * MINUTE_MS;
+
+/**
+ * Registra atividade na sessão (cria o registro no primeiro uso)
+ * Gravações mais próximas que SESSION_ACTIVITY_TOUCH_SECONDS são ignoradas
+ */
+export const touchSessionActivity = async (
+  sessionId: string,
+  owner: { userId: string; profileId: string },
+  current?: SessionActivityRecord | null
+): Promise<void> => {
+  const now = new Date();
+  if (current && now.getTime() - new Date(current.lastActivityAt).getTime() < SESSION_ACTIVITY_TOUCH_SECONDS * 1000) {
+    return;
+  }
+
+  try {
+    await adminDatabases.updateDocument(DATABASE_ID, SESSION_ACTIVITY_COLLECTION, sessionId, { lastActivityAt: now.toISOString() });
+  } catch (error: any) {
+    if (error?.code !== 404) throw error;
+    await adminDatabases.createDocument(
+      DATABASE_ID,
+      SESSION_ACTIVITY_COLLECTION,
+      sessionId,
+      { userId: owner.userId, profileId: owner.profileId, lastActivityAt: now.toISOString() },
+      []
+    );
+  }
+};
+
+const deleteActivity = async (sessionId: string) => {
+  await adminDatabases.deleteDocument(DATABASE_ID, SESSION_ACTIVITY_COLLECTION, sessionId).catch((error: any) => {
+    if (error?.code !== 404) throw error;
+  });
+};
+
+const describeDevice = (session: { clientName: string; clientVersion: string; osName: string; osVersion: string; deviceName: string }) => {
+  const client = [session.clientName, session.clientVersion].filter(Boolean).join(' ');
+  const os = [session.osName, session.osVersion].filter(Boolean).join(' ');
+  const device = session.deviceName && session.deviceName !== 'desktop' ? session.deviceName : '';
+  return [client, os, device].filter(Boolean).join(' · ') || 'Dispositivo desconhecido';
+};
+
+/**
+ * Lista as sessões Appwrite não expiradas do usuário com a última atividade registrada
+ */
+export const listActiveSessions = async (userId: string, currentSessionId?: string): Promise<ActiveSession[]> => {
+  const [sessions, activities] = await Promise.all([
+    adminUsers.listSessions(userId),
+    adminDatabases.listDocuments(DATABASE_ID, SESSION_ACTIVITY_COLLECTION, [Query.equal('userId', userId), Query.limit(100)])
+  ]);
+  const lastActivity = new Map(
+    (activities.documents as unknown as SessionActivityRecord[]).map(activity => [activity.$id, activity.lastActivityAt])
+  );
+
+  return sessions.sessions
+    .filter(session => new Date(session.expire).getTime() > Date.now())
+    .map(session => ({
+      id: session.$id,
+      device: describeDevice(session),
+      ip: session.ip,
+      location: session.countryName && session.countryName !== 'Unknown' ? session.countryName : undefined,
+      createdAt: session.$createdAt,
+      expiresAt: session.expire,
+      lastActivityAt: lastActivity.get(session.$id),
+      current: session.$id === currentSessionId
+    }))
+    .sort((a, b) => (b.lastActivityAt || b.createdAt).localeCompare(a.lastActivityAt || a.createdAt));
+};
+
+/**
+ * Encerra uma sessão do usuário no Appwrite
+ */
+export const revokeSession = async (userId: string, sessionId: string): Promise<void> => {
+  try {
+    await adminUsers.deleteSession(userId, sessionId);
+  } catch (error: any) {
+    if (error?.code !== 404) throw error;
+  }
+  await deleteActivity(sessionId);
+};
+
+/**
+ * Logout forçado: encerra todas as sessões Appwrite do usuário e invalida
+ * os cookies de sessão já emitidos (ver resolveApiActor)
+ */
+export const revokeAllSessions = async (profile: UserProfile): Promise<UserProfile> => {
+  await adminUsers.deleteSessions(profile.userId);
+
+  const activities = await adminDatabases.listDocuments(DATABASE_ID, SESSION_ACTIVITY_COLLECTION, [
+    Query.equal('userId', profile.userId),
+    Query.limit(100)
+  ]);
+  await Promise.all(activities.documents.map(activity => deleteActivity(activity.$id)));
+
+  return await adminDatabases.updateDocument(
+    DATABASE_ID,
+    USER_PROFILES_COLLECTION,
+    profile.$id,
+    { sessionsRevokedAt: new Date().toISOString() }
+  ) as unknown as UserProfile;
+};
+
+/**
+ * Verifica se o cookie foi emitido antes de um logout forçado
+ */
+export const isRevokedByForceLogout = (profile: UserProfile, issuedAtSeconds: number): boolean =>
+  !!profile.sessionsRevokedAt && issuedAtSeconds * 1000 < new Date(profile.sessionsRevokedAt).getTime();
@@ -0,0 +1,130 @@
+/**
+ * Tokens de sessão assinados
+ * Assina e valida payloads com HMAC-SHA256 (Web Crypto), compatível tanto com
+ * API routes (Node) quanto com o middleware (Edge)
+ */
+
+export interface SessionTokenClaims {
+  aud: string; // finalidade do token (impede usar um token de desafio como sessão)
+  iat: number; // emitido em (segundos)
+  exp: number; // expira em (segundos)
+}
+
+const DEFAULT_AUDIENCE = 'session';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const getSessionSecret = (): string => {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('ADMIN_SESSION_SECRET ausente ou muito curto (mínimo de 32 caracteres).');
+  }
+  return secret;
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const importKey = () => crypto.subtle.importKey(
+  'raw',
+  encoder.encode(getSessionSecret()),
+  { name: 'HMAC', hash: 'SHA-256' },
+  false,
+  ['sign', 'verify']
+);
+
+/**
+ * Gera token assinado no formato `<payload>.<assinatura>` (ambos base64url)
+ */
+export const signSessionToken = async <T extends object>(
+  payload: T,
+  ttlSeconds: number,
+  audience: string = DEFAULT_AUDIENCE
+): Promise<string> => {
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { ...payload, aud: audience, iat: now, exp: now + ttlSeconds };
+  const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+
+  const key = await importKey();
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(encodedPayload));
+
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * Valida assinatura, finalidade e expiração do token
+ * Retorna o payload quando válido ou null caso contrário
+ */
+export const verifySessionToken = async <T extends object>(
+  token: string | undefined | null,
+  audience: string = DEFAULT_AUDIENCE
+): Promise<(T & SessionTokenClaims) | null> => {
+  if (!token) return null;
+
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const key = await importKey();
+    // crypto.subtle.verify compara a assinatura em tempo constante
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(encodedPayload))) as T & SessionTokenClaims;
+    if (payload.aud !== audience) return null;
+    if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(Date.now() / 1000)) return null;
+
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Lê o valor de um cookie a partir do header `Cookie`
+ */
+export const readCookie = (cookieHeader: string | undefined | null, name: string): string | undefined => {
+  if (!cookieHeader) return undefined;
+  const entry = cookieHeader
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${name}=`));
+  return entry ? decodeURIComponent(entry.slice(name.length + 1)) : undefined;
+};
+
+/**
+ * Monta um header Set-Cookie HttpOnly para tokens de sessão
+ */
+export const serializeSessionCookie = (name: string, token: string, maxAgeSeconds: number): string => {
+  const parts = [
+    `${name}=${encodeURIComponent(token)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Strict',
+    `Max-Age=${maxAgeSeconds}`
+  ];
+  if (process.env.NODE_ENV === 'production') {
+    parts.push('Secure');
+  }
+  return parts.join('; ');
+};
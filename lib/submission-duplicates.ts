@@ -0,0 +1,106 @@
+/**
+ * Detecção de submissões duplicadas (client e server)
+ * Um duplo toque em "Salvar" sem chave de idempotência gerava dois documentos com as mesmas respostas
+ * segundos depois um do outro, somando duas vezes as metas numéricas. O envio recusa a cópia
+ * (lib/submission-service.ts) e o relatório do admin lista as que já foram gravadas
+ */
+
+import type { Submission } from './appwrite';
+import { decodeChecklist, encodeChecklist, type ChecklistAnswers, type GoalAnswerValue } from './checklist-schema';
+
+// Intervalo máximo entre o original e a cópia (reenvios legítimos chegam com a mesma chave)
+export const DUPLICATE_WINDOW_MS = 2 * 60 * 1000;
+
+export interface DuplicateSubmissionGroup {
+  keptId: string; // submissão mais antiga do grupo (a que vale)
+  duplicateIds: string[];
+  userProfileId: string | null;
+  userName: string | null;
+  date: string; // data da submissão mantida
+}
+
+type FingerprintSource = Pick<Submission, 'checklist' | 'observation'>;
+
+// Valores com chaves ordenadas: a ordem dos itens não distingue duas respostas
+const sortValue = (value: GoalAnswerValue): GoalAnswerValue =>
+  value && typeof value === 'object' ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b))) : value;
+
+/**
+ * Identidade do conteúdo de uma submissão: respostas decodificadas (metas e itens ordenados) e observação
+ */
+export const submissionFingerprint = (submission: FingerprintSource): string => {
+  const result = decodeChecklist(submission.checklist);
+  const answers = result.ok
+    ? Object.entries(result.checklist.answers).sort(([a], [b]) => a.localeCompare(b)).map(([goalId, value]) => [goalId, sortValue(value)])
+    : submission.checklist;
+  return JSON.stringify([answers, (submission.observation || '').trim()]);
+};
+
+// Mesmo formato usado para as respostas de um envio ainda não gravado
+export const draftFingerprint = (answers: ChecklistAnswers, observation?: string): string =>
+  submissionFingerprint({
+    checklist: encodeChecklist(answers),
+    observation: observation || ''
+  });
+
+const getAuthor = (submission: Submission) => {
+  // O relacionamento pode vir expandido (objeto) ou apenas com o ID
+  const author = submission.userProfile as Submission['userProfile'] | string | null;
+  return {
+    id: typeof author === 'string' ? author : author?.$id ?? null,
+    name: typeof author === 'object' && author ? author.name : null
+  };
+};
+
+const isWithinWindow = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) <= DUPLICATE_WINDOW_MS;
+
+/**
+ * Submissão anterior do mesmo autor com o mesmo conteúdo, gravada há menos de DUPLICATE_WINDOW_MS
+ */
+export const findRecentDuplicate = <T extends Pick<Submission, '$id' | 'date' | 'checklist' | 'observation'>>(
+  previous: T[],
+  fingerprint: string,
+  date: Date
+): T | undefined =>
+  previous.find(submission => isWithinWindow(submission.date, date.toISOString()) && submissionFingerprint(submission) === fingerprint);
+
+/**
+ * Agrupa as submissões duplicadas já gravadas: mesmo autor, mesmo conteúdo e datas encadeadas dentro da janela
+ */
+export const findDuplicateSubmissions = (submissions: Submission[]): DuplicateSubmissionGroup[] => {
+  const byAuthorAndContent = new Map<string, Submission[]>();
+  submissions.forEach(submission => {
+    const key = `${getAuthor(submission).id}|${submissionFingerprint(submission)}`;
+    byAuthorAndContent.set(key, [...(byAuthorAndContent.get(key) ?? []), submission]);
+  });
+
+  const groups: DuplicateSubmissionGroup[] = [];
+  byAuthorAndContent.forEach(candidates => {
+    const sorted = [...candidates].sort((a, b) => a.date.localeCompare(b.date));
+    let current: Submission[] = [];
+    const flush = () => {
+      if (current.length > 1) {
+        const [kept, ...duplicates] = current;
+        const author = getAuthor(kept);
+        groups.push({
+          keptId: kept.$id,
+          duplicateIds: duplicates.map(submission => submission.$id),
+          userProfileId: author.id,
+          userName: author.name,
+          date: kept.date
+        });
+      }
+    };
+    sorted.forEach(submission => {
+      const last = current[current.length - 1];
+      if (last && !isWithinWindow(last.date, submission.date)) {
+        flush();
+        current = [];
+      }
+      current.push(submission);
+    });
+    flush();
+  });
+
+  return groups.sort((a, b) => b.date.localeCompare(a.date));
+};
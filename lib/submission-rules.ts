@@ -0,0 +1,171 @@
+/**
+ * Regras de negócio do envio de checklist (client e server)
+ * Aplicadas por quem grava a submissão (POST /api/submissions e repositório em memória) e
+ * usadas pelo formulário para avisar antes do envio. Limites diários no fuso de quem executa
+ */
+
+import { z } from 'zod';
+import { isSameDay, subDays } from 'date-fns';
+import { GoalScope, GoalType, type SectorGoal, type Submission, type UserProfile } from './appwrite';
+import {
+  answerItems,
+  answerToBoolean,
+  formatIssues,
+  getSubmissionAnswers,
+  goalAnswerSchema,
+  type ChecklistAnswers
+} from './checklist-schema';
+import { APPWRITE_ID_PATTERN } from './appwrite-env';
+
+// Prazo dos envios com a data do preenchimento (fila offline); depois disso o envio é recusado
+export const SUBMISSION_MAX_DELAY_DAYS = 7;
+// Tolerância para relógio do aparelho adiantado
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+const MAX_FILES_PER_GOAL = 20;
+
+const fileIdSchema = z.string().regex(APPWRITE_ID_PATTERN, 'ID de arquivo inválido');
+
+// Corpo de POST /api/submissions
+export const submissionDraftSchema = z.object({
+  id: z.string().regex(APPWRITE_ID_PATTERN, 'ID de submissão inválido').optional(), // idempotência (fila offline)
+  date: z.string().datetime({ offset: true }).optional(), // momento do preenchimento; padrão: agora
+  answers: z.record(z.string(), goalAnswerSchema),
+  observation: z.string().max(5000).optional(),
+  printFileId: fileIdSchema.optional(),
+  goalFiles: z.record(z.string(), z.array(fileIdSchema).max(MAX_FILES_PER_GOAL)).optional()
+});
+
+export type SubmissionDraft = z.infer<typeof submissionDraftSchema>;
+
+export type SubmissionRuleCode =
+  | 'empty'
+  | 'invalid_date'
+  | 'goal_unavailable'
+  | 'type_mismatch'
+  | 'unknown_item'
+  | 'daily_limit'
+  | 'proof_required'
+  | 'invalid_files';
+
+export interface SubmissionRuleViolation {
+  code: SubmissionRuleCode;
+  message: string;
+  goalId?: string;
+}
+
+export type SubmissionRulesResult =
+  | { ok: true; answers: ChecklistAnswers } // respostas a gravar (numéricas limitadas ao alvo)
+  | { ok: false; violations: SubmissionRuleViolation[] };
+
+export interface SubmissionRulesInput {
+  goals: SectorGoal[]; // metas aplicáveis ao autor (ver getApplicableGoals)
+  previous: Pick<Submission, '$id' | 'checklist' | 'date'>[]; // submissões anteriores do autor no dia do envio
+  answers: ChecklistAnswers;
+  goalFiles: Record<string, string[]>;
+  date: Date;
+}
+
+/**
+ * Decodifica o corpo do envio; erro com a lista de campos inválidos
+ */
+export const parseSubmissionDraft = (body: unknown): { ok: true; draft: SubmissionDraft } | { ok: false; error: string } => {
+  const result = submissionDraftSchema.safeParse(body);
+  return result.success ? { ok: true, draft: result.data } : { ok: false, error: `Envio inválido: ${formatIssues(result.error)}` };
+};
+
+/**
+ * Metas que o colaborador pode responder: ativas, do seu setor e setoriais ou atribuídas a ele
+ */
+export const getApplicableGoals = (goals: SectorGoal[], author: Pick<UserProfile, 'sector' | 'userId'>): SectorGoal[] =>
+  goals.filter(goal =>
+    goal.isActive &&
+    goal.sectorId === author.sector &&
+    (goal.scope !== GoalScope.INDIVIDUAL || goal.assignedUserId === author.userId)
+  );
+
+/**
+ * Data do envio: não pode estar no futuro nem ser mais antiga que SUBMISSION_MAX_DELAY_DAYS
+ */
+export const validateSubmissionDate = (date: Date, now: Date = new Date()): SubmissionRuleViolation | null => {
+  if (Number.isNaN(date.getTime()) || date.getTime() > now.getTime() + FUTURE_TOLERANCE_MS) {
+    return { code: 'invalid_date', message: 'Data do envio inválida (no futuro). Verifique o relógio do aparelho.' };
+  }
+  if (date < subDays(now, SUBMISSION_MAX_DELAY_DAYS)) {
+    return { code: 'invalid_date', message: `Envios com mais de ${SUBMISSION_MAX_DELAY_DAYS} dias não são aceitos.` };
+  }
+  return null;
+};
+
+/**
+ * Valida as respostas contra as metas: meta ativa e do tipo certo, itens existentes,
+ * uma conclusão por dia (tarefas e itens de checklist), comprovação exigida e valor numérico limitado ao alvo
+ */
+export const applySubmissionRules = ({ goals, previous, answers, goalFiles, date }: SubmissionRulesInput): SubmissionRulesResult => {
+  const violations: SubmissionRuleViolation[] = [];
+  const accepted: ChecklistAnswers = {};
+  const goalsById = new Map(goals.map(goal => [goal.$id!, goal]));
+  const sameDay = previous.filter(submission => isSameDay(new Date(submission.date), date));
+
+  if (Object.keys(answers).length === 0) {
+    return { ok: false, violations: [{ code: 'empty', message: 'Nenhuma meta respondida.' }] };
+  }
+
+  for (const [goalId, answer] of Object.entries(answers)) {
+    const goal = goalsById.get(goalId);
+    if (!goal) {
+      violations.push({ code: 'goal_unavailable', goalId, message: `A meta ${goalId} não está ativa para o seu setor.` });
+      continue;
+    }
+    if (answer.type !== goal.type) {
+      violations.push({ code: 'type_mismatch', goalId, message: `"${goal.title}": resposta incompatível com o tipo da meta.` });
+      continue;
+    }
+
+    switch (answer.type) {
+      case GoalType.NUMERIC:
+        accepted[goalId] = goal.targetValue > 0 ? { ...answer, value: Math.min(answer.value, goal.targetValue) } : answer;
+        break;
+
+      case GoalType.TASK_COMPLETION:
+        if (answer.value && sameDay.some(submission => answerToBoolean(getSubmissionAnswers(submission)[goalId]))) {
+          violations.push({ code: 'daily_limit', goalId, message: `"${goal.title}" já foi concluída hoje.` });
+          continue;
+        }
+        accepted[goalId] = answer;
+        break;
+
+      case GoalType.BOOLEAN_CHECKLIST: {
+        const labels = goal.checklistItems || [];
+        const doneToday = new Set(
+          sameDay.flatMap(submission =>
+            Object.entries(answerItems(getSubmissionAnswers(submission)[goalId])).filter(([, done]) => done).map(([itemId]) => itemId)
+          )
+        );
+        for (const [itemId, done] of Object.entries(answer.value)) {
+          const suffix = itemId.startsWith(`${goalId}-`) ? itemId.slice(goalId.length + 1) : '';
+          const index = /^\d+$/.test(suffix) ? Number(suffix) : -1;
+          if (index < 0 || index >= labels.length) {
+            violations.push({ code: 'unknown_item', goalId, message: `"${goal.title}": item ${itemId} não existe na meta.` });
+          } else if (done && doneToday.has(itemId)) {
+            violations.push({ code: 'daily_limit', goalId, message: `"${goal.title}": o item "${labels[index]}" já foi concluído hoje.` });
+          }
+        }
+        accepted[goalId] = answer;
+        break;
+      }
+
+      default:
+        accepted[goalId] = answer;
+    }
+
+    if (goal.requireProof && answerToBoolean(answer.value) && !goalFiles[goalId]?.length) {
+      violations.push({ code: 'proof_required', goalId, message: `"${goal.title}" exige anexo de comprovação.` });
+    }
+  }
+
+  Object.keys(goalFiles)
+    .filter(goalId => !answers[goalId])
+    .forEach(goalId => violations.push({ code: 'invalid_files', goalId, message: `Anexos enviados para a meta ${goalId}, que não foi respondida.` }));
+
+  return violations.length > 0 ? { ok: false, violations } : { ok: true, answers: accepted };
+};
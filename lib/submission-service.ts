@@ -0,0 +1,199 @@
+/**
+ * Gravação de submissões (server-side only)
+ * Único caminho de escrita em submissions e goal_answers: valida o envio contra as metas ativas
+ * do setor do autor (lib/submission-rules.ts), confere os anexos e grava com o Admin SDK.
+ * Envios com `id` (chave de idempotência gerada pelo cliente) são idempotentes: repetir o mesmo envio devolve
+ * a submissão já gravada; uma cópia com outra chave logo após o original também devolve o original
+ */
+
+import { Query } from 'node-appwrite';
+import { endOfDay, startOfDay } from 'date-fns';
+import { adminDatabases, adminStorage, ID } from './appwrite-server';
+import {
+  DATABASE_ID,
+  GOAL_ANSWERS_COLLECTION,
+  PRINTS_BUCKET,
+  SECTOR_GOALS_COLLECTION,
+  SUBMISSIONS_COLLECTION,
+  GoalScope,
+  type GoalAnswerRecord,
+  type SectorGoal,
+  type Submission
+} from './appwrite';
+import type { ApiActor } from './api-auth';
+import { encodeChecklist, type ChecklistAnswers } from './checklist-schema';
+import { buildGoalAnswers } from './goal-answers';
+import { writeGoalAnswer } from './goal-answers-store';
+import { listAllDocuments } from './pagination';
+import {
+  applySubmissionRules,
+  getApplicableGoals,
+  parseSubmissionDraft,
+  validateSubmissionDate,
+  type SubmissionRuleViolation
+} from './submission-rules';
+import { draftFingerprint, findRecentDuplicate } from './submission-duplicates';
+
+export type CreateSubmissionResult =
+  | { ok: true; submission: Submission; created: boolean }
+  | { ok: false; status: 400 | 403 | 409 | 422; code: string; error: string; violations?: SubmissionRuleViolation[] };
+
+const isNotFound = (error: unknown) => (error as { code?: number } | null)?.code === 404;
+const isConflict = (error: unknown) => (error as { code?: number } | null)?.code === 409;
+
+// O relacionamento pode vir expandido (objeto) ou apenas com o ID
+const getAuthorId = (submission: Submission): string | null => {
+  const author = submission.userProfile as Submission['userProfile'] | string | null;
+  return typeof author === 'string' ? author : author?.$id ?? null;
+};
+
+const getSubmission = async (id: string): Promise<Submission | null> => {
+  try {
+    return await adminDatabases.getDocument(DATABASE_ID, SUBMISSIONS_COLLECTION, id) as unknown as Submission;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+};
+
+const listApplicableGoals = async (actor: ApiActor): Promise<SectorGoal[]> => {
+  const documents = await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, SECTOR_GOALS_COLLECTION, page), [
+    Query.equal('sectorId', actor.sector!),
+    Query.equal('isActive', true),
+    Query.or([
+      Query.equal('scope', GoalScope.SECTOR),
+      Query.and([Query.equal('scope', GoalScope.INDIVIDUAL), Query.equal('assignedUserId', actor.userId)])
+    ])
+  ]);
+  return getApplicableGoals(documents as unknown as SectorGoal[], { sector: actor.sector!, userId: actor.userId });
+};
+
+// Submissões do autor no dia do envio (limites diários)
+const listSameDaySubmissions = async (profileId: string, date: Date): Promise<Submission[]> => {
+  const documents = await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, SUBMISSIONS_COLLECTION, page), [
+    Query.equal('userProfile', profileId),
+    Query.greaterThanEqual('date', startOfDay(date).toISOString()),
+    Query.lessThanEqual('date', endOfDay(date).toISOString())
+  ]);
+  return documents as unknown as Submission[];
+};
+
+/**
+ * Anexos referenciados precisam existir no bucket e pertencer ao autor: o upload pelo navegador concede ao
+ * usuário permissões explícitas no arquivo (ex.: read("user:<id>")); arquivos sem elas não servem de comprovante
+ */
+const findInvalidFiles = async (actor: ApiActor, fileIds: string[]): Promise<string[]> => {
+  const invalid: string[] = [];
+  for (const fileId of Array.from(new Set(fileIds))) {
+    try {
+      const file = await adminStorage.getFile(PRINTS_BUCKET, fileId);
+      const owned = file.$permissions.some(permission => permission.includes(`"user:${actor.userId}"`));
+      if (!owned) invalid.push(fileId);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      invalid.push(fileId);
+    }
+  }
+  return invalid;
+};
+
+/**
+ * Grava as respostas por meta que ainda não existem na submissão
+ * (lacunas deixadas por uma gravação interrompida são cobertas pela migração de goal_answers).
+ * Registros antigos têm IDs aleatórios e são conferidos pela listagem; os novos colidem pelo ID (lib/goal-answers-store.ts)
+ */
+const ensureGoalAnswers = async (submission: Submission, profileId: string, answers: ChecklistAnswers, goalFiles: Record<string, string[]>) => {
+  const existing = await listAllDocuments(page => adminDatabases.listDocuments(DATABASE_ID, GOAL_ANSWERS_COLLECTION, page), [
+    Query.equal('submissionId', submission.$id)
+  ]);
+  const answeredGoals = new Set((existing as unknown as GoalAnswerRecord[]).map(record => record.goalId));
+
+  const records = buildGoalAnswers({ submissionId: submission.$id, profileId, date: submission.date }, answers, goalFiles);
+  for (const record of records.filter(record => !answeredGoals.has(record.goalId))) {
+    await writeGoalAnswer(record);
+  }
+};
+
+/**
+ * Valida e grava o envio do colaborador autenticado
+ */
+export const createSubmissionForActor = async (actor: ApiActor, body: unknown, now: Date = new Date()): Promise<CreateSubmissionResult> => {
+  if (!actor.sector) {
+    return { ok: false, status: 403, code: 'forbidden', error: 'Apenas perfis vinculados a um setor enviam checklist.' };
+  }
+
+  const parsed = parseSubmissionDraft(body);
+  if (!parsed.ok) {
+    return { ok: false, status: 400, code: 'invalid_payload', error: parsed.error };
+  }
+  const draft = parsed.draft;
+
+  // Reenvio (fila offline ou resposta perdida): devolve o que já foi gravado
+  if (draft.id) {
+    const existing = await getSubmission(draft.id);
+    if (existing) {
+      if (getAuthorId(existing) !== actor.id) {
+        return { ok: false, status: 409, code: 'conflict', error: 'Já existe uma submissão com este identificador.' };
+      }
+      return { ok: true, submission: existing, created: false };
+    }
+  }
+
+  const date = draft.date ? new Date(draft.date) : now;
+  const dateViolation = validateSubmissionDate(date, now);
+  if (dateViolation) {
+    return { ok: false, status: 422, code: 'rule_violation', error: dateViolation.message, violations: [dateViolation] };
+  }
+
+  const goalFiles = draft.goalFiles ?? {};
+  const [goals, previous] = await Promise.all([listApplicableGoals(actor), listSameDaySubmissions(actor.id, date)]);
+
+  // Cópia do envio anterior (duplo toque sem a mesma chave): devolve o original em vez de somar duas vezes
+  const duplicate = findRecentDuplicate(previous, draftFingerprint(draft.answers, draft.observation), date);
+  if (duplicate) {
+    return { ok: true, submission: duplicate, created: false };
+  }
+
+  const rules = applySubmissionRules({ goals, previous, answers: draft.answers, goalFiles, date });
+  if (!rules.ok) {
+    return {
+      ok: false,
+      status: 422,
+      code: 'rule_violation',
+      error: rules.violations.map(violation => violation.message).join(' '),
+      violations: rules.violations
+    };
+  }
+
+  const invalidFiles = await findInvalidFiles(actor, [...(draft.printFileId ? [draft.printFileId] : []), ...Object.values(goalFiles).flat()]);
+  if (invalidFiles.length > 0) {
+    return { ok: false, status: 400, code: 'invalid_file', error: `Anexos não encontrados: ${invalidFiles.join(', ')}. Envie os arquivos novamente.` };
+  }
+
+  const data = {
+    userProfile: actor.id,
+    date: date.toISOString(),
+    checklist: encodeChecklist(rules.answers),
+    observation: draft.observation || '',
+    ...(draft.printFileId ? { printFileId: draft.printFileId } : {}),
+    ...(Object.keys(goalFiles).length > 0 ? { goalFiles: JSON.stringify(goalFiles) } : {})
+  };
+
+  const submissionId = draft.id ?? ID.unique();
+  try {
+    await adminDatabases.createDocument(DATABASE_ID, SUBMISSIONS_COLLECTION, submissionId, data);
+  } catch (error) {
+    // Dois envios simultâneos com o mesmo ID: o segundo devolve o primeiro
+    if (!draft.id || !isConflict(error)) throw error;
+    const existing = await getSubmission(submissionId);
+    if (!existing || getAuthorId(existing) !== actor.id) {
+      return { ok: false, status: 409, code: 'conflict', error: 'Já existe uma submissão com este identificador.' };
+    }
+    return { ok: true, submission: existing, created: false };
+  }
+
+  // Relido para devolver o perfil expandido, como nas listagens
+  const submission = (await getSubmission(submissionId))!;
+  await ensureGoalAnswers(submission, actor.id, rules.answers, goalFiles);
+  return { ok: true, submission, created: true };
+};
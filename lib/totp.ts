@@ -0,0 +1,129 @@
+/**
+ * TOTP (RFC 6238) e códigos de recuperação (server-side only)
+ * Implementação compatível com Google Authenticator, Authy e Microsoft Authenticator:
+ * HMAC-SHA1, 6 dígitos, passo de 30 segundos
+ */
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+export const TOTP_CONFIG = {
+  digits: 6,
+  stepSeconds: 30,
+  // Passos aceitos antes/depois do atual (tolerância de relógio)
+  window: 1,
+  issuer: 'MetasTI'
+} as const;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const encodeBase32 = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+export const decodeBase32 = (input: string): Buffer => {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (let i = 0; i < clean.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(clean[i]);
+    if (index === -1) {
+      throw new Error('Segredo TOTP inválido');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * Gera um segredo aleatório de 160 bits em base32
+ */
+export const generateTotpSecret = (): string => encodeBase32(randomBytes(20));
+
+export const getTotpStep = (timestampMs: number = Date.now()) =>
+  Math.floor(timestampMs / 1000 / TOTP_CONFIG.stepSeconds);
+
+/**
+ * Calcula o código TOTP de um passo (HOTP com truncamento dinâmico)
+ */
+export const generateTotpCode = (secret: string, step: number = getTotpStep()): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', decodeBase32(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_CONFIG.digits;
+
+  return binary.toString().padStart(TOTP_CONFIG.digits, '0');
+};
+
+/**
+ * Valida o código dentro da janela de tolerância
+ * Retorna o passo correspondente (para impedir reuso) ou null quando inválido
+ */
+export const verifyTotpCode = (secret: string, code: string, timestampMs: number = Date.now()): number | null => {
+  const normalized = (code || '').replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_CONFIG.digits}}$`).test(normalized)) return null;
+
+  const currentStep = getTotpStep(timestampMs);
+  for (let offset = -TOTP_CONFIG.window; offset <= TOTP_CONFIG.window; offset++) {
+    if (generateTotpCode(secret, currentStep + offset) === normalized) {
+      return currentStep + offset;
+    }
+  }
+  return null;
+};
+
+/**
+ * URI otpauth:// usada no QR code de cadastro
+ */
+export const buildOtpAuthUrl = (secret: string, accountName: string): string => {
+  const label = encodeURIComponent(`${TOTP_CONFIG.issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_CONFIG.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_CONFIG.digits),
+    period: String(TOTP_CONFIG.stepSeconds)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Normaliza para comparação (ignora hífen, espaços e caixa)
+const normalizeRecoveryCode = (code: string) => code.replace(/[^a-zA-Z0-9]/g, '').toUpperCase();
+
+export const hashRecoveryCode = (code: string) =>
+  createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+/**
+ * Gera códigos de recuperação no formato XXXXX-XXXXX (exibidos uma única vez)
+ */
+export const generateRecoveryCodes = (count: number = RECOVERY_CODE_COUNT): string[] => {
+  return Array.from({ length: count }, () => {
+    const raw = encodeBase32(randomBytes(7)).slice(0, 10);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+};
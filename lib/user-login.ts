@@ -0,0 +1,65 @@
+/**
+ * Login de usuários Appwrite pelo servidor (server-side only)
+ * A senha é conferida aqui, depois da limitação de tentativas (lib/login-throttle.ts); o navegador só recebe
+ * um token de uso único para abrir a sessão Appwrite e um ticket que /api/auth/session exige para
+ * emitir o cookie de sessão. Logins feitos direto no Appwrite não recebem o cookie
+ */
+
+import type { IncomingMessage } from 'http';
+import { Account } from 'node-appwrite';
+import { adminClient, adminUsers } from './appwrite-server';
+import { readCookie, serializeSessionCookie, signSessionToken, verifySessionToken } from './session-token';
+
+export const LOGIN_TICKET_COOKIE = 'metas_login_ticket';
+const LOGIN_TICKET_AUDIENCE = 'login_ticket';
+
+// Tempo para trocar o token pela sessão Appwrite e sincronizar o cookie
+export const LOGIN_TICKET_TTL_SECONDS = 2 * 60;
+const LOGIN_TOKEN_TTL_SECONDS = 60;
+
+export interface LoginTicketPayload {
+  sub: string; // userId do Appwrite
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Confere e-mail e senha no Appwrite; devolve o userId ou null quando as credenciais são inválidas
+ * A sessão aberta para a conferência é encerrada em seguida
+ */
+export const verifyUserCredentials = async (email: string, password: string): Promise<string | null> => {
+  try {
+    const session = await new Account(adminClient).createEmailPasswordSession(email, password);
+    await adminUsers.deleteSession(session.userId, session.$id).catch(error =>
+      console.error('Erro ao encerrar a sessão de conferência do login:', error)
+    );
+    return session.userId;
+  } catch (error: any) {
+    // 401: senha errada, usuário inexistente ou bloqueado no Appwrite
+    if (error?.code === 401) return null;
+    throw error;
+  }
+};
+
+/**
+ * Token de uso único trocado pelo navegador por uma sessão Appwrite (account.createSession)
+ */
+export const createLoginToken = async (userId: string) => {
+  const token = await adminUsers.createToken(userId, undefined, LOGIN_TOKEN_TTL_SECONDS);
+  return { userId, secret: token.secret };
+};
+
+export const createLoginTicketCookie = async (userId: string): Promise<string> => {
+  const token = await signSessionToken({ sub: userId }, LOGIN_TICKET_TTL_SECONDS, LOGIN_TICKET_AUDIENCE);
+  return serializeSessionCookie(LOGIN_TICKET_COOKIE, token, LOGIN_TICKET_TTL_SECONDS);
+};
+
+export const clearLoginTicketCookie = (): string => serializeSessionCookie(LOGIN_TICKET_COOKIE, '', 0);
+
+/**
+ * Lê o ticket do login concluído a partir do cookie da requisição
+ */
+export const getLoginTicket = async (req: IncomingMessage): Promise<LoginTicketPayload | null> => {
+  const token = readCookie(req.headers.cookie, LOGIN_TICKET_COOKIE);
+  return verifySessionToken<LoginTicketPayload>(token, LOGIN_TICKET_AUDIENCE);
+};
@@ -0,0 +1,34 @@
+/**
+ * Troca de senha de usuários Appwrite (server-side only)
+ * Verifica a senha atual e atualiza a senha via Admin SDK, limpando a
+ * exigência de troca no primeiro acesso
+ */
+
+import { Account, Client } from 'node-appwrite';
+import { adminDatabases, adminUsers } from './appwrite-server';
+import { DATABASE_ID, USER_PROFILES_COLLECTION } from './appwrite';
+
+/**
+ * Confere a senha atual criando (e descartando) uma sessão no Appwrite
+ */
+export const verifyUserPassword = async (userId: string, email: string, password: string): Promise<boolean> => {
+  const client = new Client()
+    .setEndpoint(process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT!)
+    .setProject(process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID!);
+
+  try {
+    const session = await new Account(client).createEmailPasswordSession(email, password);
+    await adminUsers.deleteSession(userId, session.$id).catch(() => undefined);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Define a nova senha e remove a exigência de troca do perfil
+ */
+export const updateUserPassword = async (userId: string, profileId: string, newPassword: string) => {
+  await adminUsers.updatePassword(userId, newPassword);
+  await adminDatabases.updateDocument(DATABASE_ID, USER_PROFILES_COLLECTION, profileId, { mustChangePassword: false });
+};
@@ -0,0 +1,65 @@
+/**
+ * Sessão de usuário Appwrite espelhada em cookie first-party
+ * O cookie de sessão do Appwrite fica no domínio do Appwrite; após validar um JWT
+ * do Appwrite no servidor, emitimos um cookie assinado com o role do usuário
+ * para que o middleware consiga proteger as rotas sem chamadas de rede
+ */
+
+import { Role } from './roles';
+import { readCookie, serializeSessionCookie, signSessionToken, verifySessionToken } from './session-token';
+
+export const USER_SESSION_COOKIE = 'metas_session';
+
+// Duração máxima do espelho da sessão: 8 horas (renovado a cada carregamento do app;
+// com tempo limite de inatividade, dura apenas esse tempo e é renovado pela atividade)
+export const USER_SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+export interface UserSessionPayload {
+  sub: string; // userId do Appwrite
+  profileId: string;
+  role: Role;
+  mustChangePassword?: boolean; // força a tela de troca de senha (middleware)
+  delegatedUntil?: number; // fim da delegação de gestor recebida (segundos desde epoch)
+  sid?: string; // ID da sessão Appwrite espelhada
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Gera o token assinado da sessão do usuário
+ */
+export const createUserSessionToken = async (
+  data: { userId: string; profileId: string; role: Role; mustChangePassword?: boolean; delegatedUntil?: number; sessionId?: string },
+  ttlSeconds: number = USER_SESSION_TTL_SECONDS
+): Promise<string> => {
+  return signSessionToken({
+    sub: data.userId,
+    profileId: data.profileId,
+    role: data.role,
+    mustChangePassword: !!data.mustChangePassword,
+    ...(data.delegatedUntil ? { delegatedUntil: data.delegatedUntil } : {}),
+    ...(data.sessionId ? { sid: data.sessionId } : {})
+  }, ttlSeconds);
+};
+
+/**
+ * Valida o token da sessão do usuário
+ */
+export const verifyUserSessionToken = async (token: string | undefined | null): Promise<UserSessionPayload | null> => {
+  const payload = await verifySessionToken<UserSessionPayload>(token);
+  if (!payload || !payload.sub || !Object.values(Role).includes(payload.role)) return null;
+  return payload;
+};
+
+/**
+ * Lê e valida a sessão do usuário a partir do header `Cookie`
+ */
+export const getUserSessionFromCookie = (cookieHeader: string | undefined | null) => {
+  return verifyUserSessionToken(readCookie(cookieHeader, USER_SESSION_COOKIE));
+};
+
+export const serializeUserSessionCookie = (token: string, maxAgeSeconds: number = USER_SESSION_TTL_SECONDS): string => {
+  return serializeSessionCookie(USER_SESSION_COOKIE, token, maxAgeSeconds);
+};
+
+export const clearUserSessionCookie = (): string => serializeUserSessionCookie('', 0);
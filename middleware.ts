@@ -1,44 +1,84 @@
 /**
  * Middleware para proteção de rotas
- * Verifica autenticação antes de acessar páginas protegidas
+ * Valida a sessão (cookie admin ou espelho da sessão Appwrite) e o role do usuário
+ * conforme a tabela declarativa em lib/route-access.ts; usuários com troca de
+ * senha pendente só acessam a tela de troca e delegações ativas liberam as rotas de gestor
  */
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { Role } from '@/lib/roles';
+import { findRouteAccessRule, isPublicRoute, PASSWORD_CHANGE_ROUTE } from '@/lib/route-access';
+import { ADMIN_SESSION_COOKIE, verifyAdminSessionToken } from '@/lib/admin-session';
+import { USER_SESSION_COOKIE, verifyUserSessionToken } from '@/lib/user-session';
 
-export function middleware(request: NextRequest) {
+interface CallerSession {
+  role: Role;
+  mustChangePassword: boolean;
+  delegatedUntil?: number; // delegação de gestor recebida (libera as rotas de gestor)
+}
+
+// Rotas de gestor também atendem quem tem delegação ativa de um gestor
+const canAccess = (roles: Role[], caller: CallerSession) =>
+  roles.includes(caller.role) ||
+  (roles.includes(Role.MANAGER) && !!caller.delegatedUntil && caller.delegatedUntil * 1000 > Date.now());
+
+// Resolve o chamador a partir dos cookies de sessão assinados
+const resolveCaller = async (request: NextRequest): Promise<CallerSession | null> => {
+  const adminSession = await verifyAdminSessionToken(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+  if (adminSession) {
+    return { role: Role.ADMIN, mustChangePassword: false };
+  }
+
+  const userSession = await verifyUserSessionToken(request.cookies.get(USER_SESSION_COOKIE)?.value);
+  return userSession
+    ? {
+        role: userSession.role,
+        mustChangePassword: !!userSession.mustChangePassword,
+        delegatedUntil: userSession.delegatedUntil
+      }
+    : null;
+};
+
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
-  
-  console.log('[MIDDLEWARE] Verificando rota:', pathname);
-  
-  // Rotas que não precisam de autenticação
-  const publicRoutes = ['/login', '/', '/api/admin/login'];
-  
-  if (publicRoutes.includes(pathname)) {
-    console.log('[MIDDLEWARE] Rota pública, permitindo acesso');
+
+  if (isPublicRoute(pathname)) {
     return NextResponse.next();
   }
-  
-  // Para páginas protegidas, vamos usar uma abordagem mais simples:
-  // Em vez de verificar cookies aqui (que pode ser problemático com Appwrite),
-  // vamos deixar a verificação de autenticação para o lado do cliente
-  // e usar o middleware apenas para rotas administrativas específicas
-  
-  if (pathname.startsWith('/admin')) {
-    // Para rotas admin, permitir acesso e deixar a verificação para o cliente
-    // O admin usa sessionStorage, não cookies do Appwrite
-    console.log('[MIDDLEWARE] Rota admin, permitindo acesso - verificação no cliente');
+
+  const rule = findRouteAccessRule(pathname);
+  if (!rule) {
     return NextResponse.next();
   }
-  
-  // Para outras rotas protegidas (/dashboard, etc), permitir acesso
-  // A verificação de autenticação será feita no lado do cliente
-  console.log('[MIDDLEWARE] Permitindo acesso - verificação no cliente');
+
+  let caller: CallerSession | null = null;
+  try {
+    caller = await resolveCaller(request);
+  } catch (error) {
+    // Segredo de sessão ausente/inválido: tratar como não autenticado
+    console.error('[MIDDLEWARE] Falha ao validar sessão:', error);
+  }
+
+  if (!caller) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', pathname);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (caller.mustChangePassword && pathname !== PASSWORD_CHANGE_ROUTE) {
+    return NextResponse.redirect(new URL(PASSWORD_CHANGE_ROUTE, request.url));
+  }
+
+  if (!canAccess(rule.roles, caller)) {
+    return NextResponse.rewrite(new URL('/403', request.url), { status: 403 });
+  }
+
   return NextResponse.next();
 }
 
 export const config = {
   matcher: [
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/((?!api|_next/static|_next/image|favicon.ico|images).*)',
   ],
-};
\ No newline at end of file
+};
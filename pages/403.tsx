@@ -0,0 +1,25 @@
+/**
+ * Página de acesso negado
+ * Exibida pelo middleware quando o role do usuário não pode acessar a rota
+ */
+
+import Link from 'next/link';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export default function Forbidden() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="text-center max-w-md mx-4">
+        <ShieldAlert className="h-12 w-12 text-red-600 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Acesso negado</h1>
+        <p className="text-gray-600 mb-6">
+          Seu perfil não tem permissão para acessar esta página.
+        </p>
+        <Button asChild className="bg-bovia-primary hover:bg-bovia-dark text-white">
+          <Link href="/home">Voltar para o início</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 /**
  * Painel administrativo moderno
  * CRUD de usuários com filtros por setor e role
+ * Setores adicionais de gestores, roles personalizados e delegações
  * Gerenciamento de metas por setor
+ * Consulta da auditoria
+ * Fechamento mensal das recompensas (razão imutável) e fila de liberação/pagamento
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -13,8 +16,26 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
 import { UserForm } from '@/components/UserForm';
 import { SectorGoalsManager } from '@/components/SectorGoalsManager';
+import { AuditLogViewer } from '@/components/AuditLogViewer';
+import { LoginLockoutsPanel } from '@/components/LoginLockoutsPanel';
+import { ChecklistIntegrityPanel } from '@/components/ChecklistIntegrityPanel';
+import { GoalAnswersBackfillPanel } from '@/components/GoalAnswersBackfillPanel';
+import { DuplicateSubmissionsPanel } from '@/components/DuplicateSubmissionsPanel';
+import { RewardLedgerPanel } from '@/components/RewardLedgerPanel';
+import { RewardApprovalsPanel } from '@/components/RewardApprovalsPanel';
+import { ManagerDelegationsPanel } from '@/components/ManagerDelegationsPanel';
+import { SectorCheckboxGroup } from '@/components/SectorCheckboxGroup';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { SecuritySettingsPanel } from '@/components/SecuritySettingsPanel';
+import { InactivityGuard } from '@/components/InactivityGuard';
+import { UserSessionsPanel } from '@/components/UserSessionsPanel';
+import { CustomRolesPanel } from '@/components/CustomRolesPanel';
+import { MfaSettings } from '@/components/MfaSettings';
+import { useSecuritySettings } from '@/hooks/useSecuritySettings';
+import { useCustomRoles } from '@/hooks/useCustomRoles';
 import { useAuth } from '@/hooks/useAuth';
 import { UserProfile, Sector } from '@/lib/appwrite';
 import { Role } from '@/lib/roles';
@@ -32,7 +53,19 @@ import {
   TrendingUp,
   Eye,
   EyeOff,
-  Filter
+  Filter,
+  History,
+  Lock,
+  ShieldCheck,
+  ShieldOff,
+  KeyRound,
+  UserCog,
+  Monitor,
+  FileWarning,
+  Database,
+  Copy,
+  Wallet,
+  Banknote
 } from 'lucide-react';
 import { useFeedback } from '@/components/FeedbackProvider';
 
@@ -43,6 +76,7 @@ interface ExtendedUserProfile extends UserProfile {
   email: string; // Removendo o opcional
   isOrphan?: boolean;
   authExists?: boolean;
+  mfaEnabled?: boolean;
   error?: string;
 }
 
@@ -50,6 +84,9 @@ export default function AdminPanel() {
   const { user, logout, loading: authLoading, isAdmin } = useAuth();
   const router = useRouter();
   const { confirm, toastSuccess, toastError } = useFeedback();
+  const { resetUserMfa } = useSecuritySettings();
+  const customRoles = useCustomRoles();
+  const { fetchRoles: fetchCustomRoles } = customRoles;
   const [users, setUsers] = useState<ExtendedUserProfile[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<ExtendedUserProfile[]>([]);
   const [loading, setLoading] = useState(true);
@@ -57,6 +94,11 @@ export default function AdminPanel() {
   const [sectorFilter, setSectorFilter] = useState<string>('all');
   const [roleFilter, setRoleFilter] = useState<string>('all');
   const [showForm, setShowForm] = useState(false);
+  const [editingAccessUser, setEditingAccessUser] = useState<ExtendedUserProfile | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<ExtendedUserProfile | null>(null);
+  const [editingSectors, setEditingSectors] = useState<Sector[]>([]);
+  const [editingCustomRoleId, setEditingCustomRoleId] = useState('default');
+  const [savingAccess, setSavingAccess] = useState(false);
   const [statistics, setStatistics] = useState({
     totalUsers: 0,
     managers: 0,
@@ -76,7 +118,8 @@ export default function AdminPanel() {
     }
     
     fetchUsers();
-  }, [user, isAdmin, authLoading, router]);
+    fetchCustomRoles();
+  }, [user, isAdmin, authLoading, router, fetchCustomRoles]);
 
   useEffect(() => {
     filterUsers();
@@ -88,8 +131,14 @@ export default function AdminPanel() {
       setError(null);
       
       const response = await fetch('/api/admin/users');
+      if (response.status === 401) {
+        // Sessão admin expirada no servidor
+        router.push('/login');
+        return;
+      }
       if (!response.ok) {
-        throw new Error('Erro ao carregar usuários');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Erro ao carregar usuários');
       }
       
       const data = await response.json();
@@ -124,7 +173,9 @@ export default function AdminPanel() {
     let filtered = [...users];
     
     if (sectorFilter !== 'all') {
-      filtered = filtered.filter(user => user.sector === sectorFilter);
+      filtered = filtered.filter(user =>
+        user.sector === sectorFilter || user.managedSectors?.includes(sectorFilter as Sector)
+      );
     }
     
     if (roleFilter !== 'all') {
@@ -169,6 +220,67 @@ export default function AdminPanel() {
     }
   };
 
+  const resetMfa = async (targetUser: ExtendedUserProfile) => {
+    const confirmed = await confirm({
+      title: 'Resetar Verificação em Duas Etapas',
+      description: `O usuário "${targetUser.name}" precisará cadastrar o aplicativo autenticador novamente. Use apenas se ele perdeu o dispositivo e os códigos de recuperação.`,
+      confirmText: 'Resetar',
+      cancelText: 'Cancelar',
+      danger: true
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      await resetUserMfa(targetUser.$id);
+      toastSuccess('Verificação em duas etapas resetada');
+      await fetchUsers();
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao resetar verificação em duas etapas');
+    }
+  };
+
+  const openAccessEditor = (targetUser: ExtendedUserProfile) => {
+    setEditingAccessUser(targetUser);
+    setEditingSectors(targetUser.managedSectors || []);
+    setEditingCustomRoleId(targetUser.customRoleId || 'default');
+  };
+
+  const saveUserAccess = async () => {
+    if (!editingAccessUser) return;
+
+    setSavingAccess(true);
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          profileId: editingAccessUser.$id,
+          customRoleId: editingCustomRoleId === 'default' ? null : editingCustomRoleId,
+          ...(editingAccessUser.role === Role.MANAGER ? { managedSectors: editingSectors } : {})
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Erro ao atualizar acesso');
+      }
+
+      toastSuccess('Acesso do usuário atualizado');
+      setEditingAccessUser(null);
+      await fetchUsers();
+    } catch (err) {
+      toastError(err instanceof Error ? err.message : 'Erro ao atualizar acesso');
+    } finally {
+      setSavingAccess(false);
+    }
+  };
+
+  const getCustomRoleName = (roleId?: string | null) =>
+    roleId ? customRoles.roles.find(role => role.$id === roleId)?.name : undefined;
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -183,6 +295,7 @@ export default function AdminPanel() {
     email: string;
     password: string;
     sector: Sector;
+    managedSectors: Sector[];
     role: Role;
   }) => {
     try {
@@ -353,7 +466,7 @@ export default function AdminPanel() {
         </div>
 
         <Tabs defaultValue="users" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="users" className="flex items-center gap-2">
               <Users className="w-4 h-4" />
               Usuários
@@ -362,6 +475,22 @@ export default function AdminPanel() {
               <Settings className="w-4 h-4" />
               Gestão de Metas
             </TabsTrigger>
+            <TabsTrigger value="permissions" className="flex items-center gap-2">
+              <KeyRound className="w-4 h-4" />
+              Permissões
+            </TabsTrigger>
+            <TabsTrigger value="rewards" className="flex items-center gap-2">
+              <Wallet className="w-4 h-4" />
+              Recompensas
+            </TabsTrigger>
+            <TabsTrigger value="audit" className="flex items-center gap-2">
+              <History className="w-4 h-4" />
+              Auditoria
+            </TabsTrigger>
+            <TabsTrigger value="security" className="flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4" />
+              Segurança
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="users" className="space-y-6">
@@ -476,16 +605,71 @@ export default function AdminPanel() {
                             <TableCell className="font-medium">{user.name || user.email || 'Sem nome'}</TableCell>
                             <TableCell className="text-gray-600">{user.email || 'N/A'}</TableCell>
                             <TableCell>
-                              <Badge variant="outline" className="flex items-center gap-1 w-fit">
-                                <span>{getSectorEmoji(user.sector)}</span>
-                                {user.sector}
-                              </Badge>
+                              <div className="flex flex-wrap items-center gap-1">
+                                <Badge variant="outline" className="flex items-center gap-1 w-fit">
+                                  <span>{getSectorEmoji(user.sector)}</span>
+                                  {user.sector}
+                                </Badge>
+                                {user.managedSectors?.map(sector => (
+                                  <Badge key={sector} variant="secondary" className="flex items-center gap-1 w-fit">
+                                    <span>{getSectorEmoji(sector)}</span>
+                                    {sector}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                {getRoleBadge(user.role)}
+                                {getCustomRoleName(user.customRoleId) && (
+                                  <Badge variant="outline" className="flex items-center gap-1">
+                                    <KeyRound className="w-3 h-3" />{getCustomRoleName(user.customRoleId)}
+                                  </Badge>
+                                )}
+                                {user.mfaEnabled && (
+                                  <Badge variant="outline" className="flex items-center gap-1 text-green-700 border-green-300">
+                                    <ShieldCheck className="w-3 h-3" />2FA
+                                  </Badge>
+                                )}
+                              </div>
                             </TableCell>
-                            <TableCell>{getRoleBadge(user.role)}</TableCell>
                             <TableCell className="text-gray-600">
                               {new Date(user.$createdAt).toLocaleDateString('pt-BR')}
                             </TableCell>
                             <TableCell className="text-center">
+                              {user.role !== Role.ADMIN && !user.isOrphan && (
+                                <Button
+                                  onClick={() => openAccessEditor(user)}
+                                  variant="outline"
+                                  size="sm"
+                                  className="mr-2"
+                                  title="Acesso (setores geridos e permissões)"
+                                >
+                                  <KeyRound className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {user.role !== Role.ADMIN && !user.isOrphan && (
+                                <Button
+                                  onClick={() => setSessionsUser(user)}
+                                  variant="outline"
+                                  size="sm"
+                                  className="mr-2"
+                                  title="Sessões ativas"
+                                >
+                                  <Monitor className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {user.mfaEnabled && (
+                                <Button
+                                  onClick={() => resetMfa(user)}
+                                  variant="outline"
+                                  size="sm"
+                                  className="mr-2"
+                                  title="Resetar verificação em duas etapas"
+                                >
+                                  <ShieldOff className="w-4 h-4" />
+                                </Button>
+                              )}
                               <Button
                                 onClick={() => deleteUser(user)}
                                 variant="outline"
@@ -503,6 +687,36 @@ export default function AdminPanel() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Lock className="w-5 h-5" />
+                  Bloqueios de Login
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Contas e IPs bloqueados temporariamente por excesso de tentativas
+                </p>
+              </CardHeader>
+              <CardContent>
+                <LoginLockoutsPanel />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <UserCog className="w-5 h-5" />
+                  Delegações de Gestores
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Substituições temporárias de gestores (férias, ausências)
+                </p>
+              </CardHeader>
+              <CardContent>
+                <ManagerDelegationsPanel mode="admin" profiles={users} />
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="manager">
@@ -521,7 +735,223 @@ export default function AdminPanel() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="permissions">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <KeyRound className="w-5 h-5" />
+                  Permissões
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Matriz de permissões por role e roles personalizados atribuíveis aos usuários
+                </p>
+              </CardHeader>
+              <CardContent>
+                <CustomRolesPanel customRoles={customRoles} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="rewards" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Wallet className="w-5 h-5" />
+                  Fechamento de Recompensas
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Grava o valor apurado de cada colaborador e meta nos meses encerrados; correções posteriores entram como ajustes
+                </p>
+              </CardHeader>
+              <CardContent>
+                <RewardLedgerPanel />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Banknote className="w-5 h-5" />
+                  Liberação e Pagamento
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Recompensas aprovadas pelos gestores aguardando liberação e liberadas aguardando o registro do pagamento
+                </p>
+              </CardHeader>
+              <CardContent>
+                <RewardApprovalsPanel mode="release" />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="audit" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="w-5 h-5" />
+                  Auditoria
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Histórico de alterações em metas, contestações, usuários e logins
+                </p>
+              </CardHeader>
+              <CardContent>
+                <AuditLogViewer />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileWarning className="w-5 h-5" />
+                  Integridade das Respostas
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Submissões cujo checklist não segue o formato das respostas e é ignorado nos cálculos
+                </p>
+              </CardHeader>
+              <CardContent>
+                <ChecklistIntegrityPanel />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Copy className="w-5 h-5" />
+                  Submissões Duplicadas
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Cópias com as mesmas respostas gravadas pelo mesmo colaborador em até 2 minutos, que somam em dobro nas metas numéricas
+                </p>
+              </CardHeader>
+              <CardContent>
+                <DuplicateSubmissionsPanel />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Database className="w-5 h-5" />
+                  Respostas por Meta
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Migra as respostas das submissões antigas para a coleção goal_answers (pode ser repetida com segurança)
+                </p>
+              </CardHeader>
+              <CardContent>
+                <GoalAnswersBackfillPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="security" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="w-5 h-5" />
+                  Políticas de Segurança
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Regras de autenticação aplicadas a todos os usuários
+                </p>
+              </CardHeader>
+              <CardContent>
+                <SecuritySettingsPanel />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Lock className="w-5 h-5" />
+                  Minha Conta
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Verificação em duas etapas da conta administrativa
+                </p>
+              </CardHeader>
+              <CardContent>
+                <MfaSettings />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
+
+        {/* Acesso de um usuário: role personalizado e setores adicionais (gestores) */}
+        <Dialog open={!!editingAccessUser} onOpenChange={(open) => !open && setEditingAccessUser(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Acesso do usuário</DialogTitle>
+              <DialogDescription>
+                Permissões e setores geridos por {editingAccessUser?.name}
+              </DialogDescription>
+            </DialogHeader>
+            {editingAccessUser && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Role personalizado</Label>
+                  <Select value={editingCustomRoleId} onValueChange={setEditingCustomRoleId} disabled={savingAccess}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Permissões padrão do role</SelectItem>
+                      {customRoles.roles
+                        .filter(role => role.baseRole === editingAccessUser.role)
+                        .map(role => (
+                          <SelectItem key={role.$id} value={role.$id}>{role.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {editingAccessUser.role === Role.MANAGER && (
+                  <div className="space-y-2">
+                    <Label>Setores adicionais</Label>
+                    <p className="text-xs text-gray-500">
+                      {editingAccessUser.sector} é o setor principal; os selecionados também são geridos
+                    </p>
+                    <SectorCheckboxGroup
+                      value={editingSectors}
+                      onChange={setEditingSectors}
+                      options={Object.values(Sector).filter(sector => sector !== editingAccessUser.sector)}
+                      disabled={savingAccess}
+                      idPrefix="managed-sector"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditingAccessUser(null)} disabled={savingAccess}>
+                Cancelar
+              </Button>
+              <Button onClick={saveUserAccess} disabled={savingAccess}>
+                {savingAccess ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Modal de Sessões do Usuário */}
+        <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Sessões ativas</DialogTitle>
+              <DialogDescription>
+                {sessionsUser?.name || sessionsUser?.email}
+              </DialogDescription>
+            </DialogHeader>
+            {sessionsUser && (
+              <UserSessionsPanel profileId={sessionsUser.$id} userName={sessionsUser.name || sessionsUser.email} />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <InactivityGuard enabled={!!user && isAdmin} onSessionEnd={(reason) => logout(reason)} />
       </div>
     </div>
   );
@@ -0,0 +1,79 @@
+/**
+ * API Route de consulta da auditoria
+ * Lista eventos com filtros (ação, alvo, autor, período, texto) e paginação por cursor
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Query } from 'node-appwrite';
+import { adminDatabases } from '@/lib/appwrite-server';
+import { AUDIT_LOGS_COLLECTION, DATABASE_ID } from '@/lib/appwrite';
+import { withAdminAuth } from '@/lib/api-auth';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Data do filtro em ISO (null quando inválida)
+const parseFilterDate = (value: string): string | null => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const { action, targetType, targetId, actorId, from, to, q, cursor, limit } = req.query;
+    const pageSize = Math.min(Number(limit) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    const fromDate = from ? parseFilterDate(from.toString()) : null;
+    const toDate = to ? parseFilterDate(to.toString()) : null;
+    if ((from && !fromDate) || (to && !toDate)) {
+      return res.status(400).json({ error: 'Período inválido: informe datas válidas em "from" e "to".', code: 'invalid_payload' });
+    }
+
+    const queries = [Query.orderDesc('$createdAt'), Query.limit(pageSize)];
+
+    if (action && action !== 'all') {
+      queries.push(Query.equal('action', action.toString()));
+    }
+    if (targetType && targetType !== 'all') {
+      queries.push(Query.equal('targetType', targetType.toString()));
+    }
+    if (targetId) {
+      queries.push(Query.equal('targetId', targetId.toString()));
+    }
+    if (actorId) {
+      queries.push(Query.equal('actorId', actorId.toString()));
+    }
+    if (fromDate) {
+      queries.push(Query.greaterThanEqual('timestamp', fromDate));
+    }
+    if (toDate) {
+      queries.push(Query.lessThanEqual('timestamp', toDate));
+    }
+    if (q && q.toString().trim()) {
+      // Requer índice fulltext no atributo summary
+      queries.push(Query.search('summary', q.toString().trim()));
+    }
+    if (cursor) {
+      queries.push(Query.cursorAfter(cursor.toString()));
+    }
+
+    const response = await adminDatabases.listDocuments(DATABASE_ID, AUDIT_LOGS_COLLECTION, queries);
+    const logs = response.documents;
+
+    res.status(200).json({
+      logs,
+      total: response.total,
+      nextCursor: logs.length === pageSize ? logs[logs.length - 1].$id : null
+    });
+  } catch (error: any) {
+    console.error('Erro ao buscar auditoria:', error);
+    res.status(500).json({ error: 'Erro interno ao buscar auditoria.', details: error.message });
+  }
+}
+
+export default withAdminAuth(handler);
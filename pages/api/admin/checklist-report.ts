@@ -0,0 +1,32 @@
+/**
+ * API Route do relatório de integridade das respostas (somente admin)
+ * GET percorre todas as submissões e lista as que não seguem o schema do checklist
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDatabases } from '@/lib/appwrite-server';
+import { DATABASE_ID, SUBMISSIONS_COLLECTION, type Submission } from '@/lib/appwrite';
+import { withAdminAuth } from '@/lib/api-auth';
+import { listAllDocuments } from '@/lib/pagination';
+import { findInvalidChecklists } from '@/lib/checklist-schema';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    try {
+      const submissions = await listAllDocuments(
+        page => adminDatabases.listDocuments(DATABASE_ID, SUBMISSIONS_COLLECTION, page)
+      ) as unknown as Submission[];
+
+      const invalid = findInvalidChecklists(submissions);
+      res.status(200).json({ scanned: submissions.length, invalid });
+    } catch (error: any) {
+      console.error('Erro ao verificar respostas das submissões:', error);
+      res.status(500).json({ error: 'Erro ao verificar respostas das submissões.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withAdminAuth(handler);
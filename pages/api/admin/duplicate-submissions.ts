@@ -0,0 +1,32 @@
+/**
+ * API Route do relatório de submissões duplicadas (somente admin)
+ * GET percorre todas as submissões e agrupa as cópias gravadas pelo mesmo autor logo após o original
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDatabases } from '@/lib/appwrite-server';
+import { DATABASE_ID, SUBMISSIONS_COLLECTION, type Submission } from '@/lib/appwrite';
+import { withAdminAuth } from '@/lib/api-auth';
+import { listAllDocuments } from '@/lib/pagination';
+import { findDuplicateSubmissions } from '@/lib/submission-duplicates';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    try {
+      const submissions = await listAllDocuments(
+        page => adminDatabases.listDocuments(DATABASE_ID, SUBMISSIONS_COLLECTION, page)
+      ) as unknown as Submission[];
+
+      const groups = findDuplicateSubmissions(submissions);
+      res.status(200).json({ scanned: submissions.length, groups });
+    } catch (error: any) {
+      console.error('Erro ao procurar submissões duplicadas:', error);
+      res.status(500).json({ error: 'Erro ao procurar submissões duplicadas.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withAdminAuth(handler);
@@ -0,0 +1,45 @@
+/**
+ * API Route da migração das respostas por meta (somente admin)
+ * POST preenche goal_answers a partir das submissões existentes; `dryRun` apenas conta os registros
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth, type ApiActor } from '@/lib/api-auth';
+import { backfillGoalAnswers } from '@/lib/goal-answers-backfill';
+import { recordAuditEvent } from '@/lib/audit';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method === 'POST') {
+    try {
+      const dryRun = req.body?.dryRun === true;
+      const result = await backfillGoalAnswers({ dryRun });
+
+      if (!dryRun) {
+        await recordAuditEvent({
+          actor,
+          action: 'data.backfill',
+          targetType: 'data',
+          targetId: 'goal_answers',
+          summary: `Respostas por meta migradas: ${result.created} registro(s) de ${result.scannedSubmissions} submissão(ões); ` +
+            `${result.invalidSubmissions.length} submissão(ões) inválida(s), ${result.rejectedAnswers.length} resposta(s) rejeitada(s)`,
+          after: {
+            created: result.created,
+            alreadyMigrated: result.alreadyMigrated,
+            invalidSubmissions: result.invalidSubmissions.length,
+            rejectedAnswers: result.rejectedAnswers.length
+          }
+        });
+      }
+
+      res.status(200).json({ result });
+    } catch (error: any) {
+      console.error('Erro ao migrar respostas por meta:', error);
+      res.status(500).json({ error: 'Erro ao migrar respostas por meta.' });
+    }
+  } else {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withAdminAuth(handler);
@@ -0,0 +1,52 @@
+/**
+ * API Route de bloqueios de login
+ * GET lista e-mails/IPs bloqueados ou com falhas recentes; DELETE desbloqueia um registro
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth, type ApiActor } from '@/lib/api-auth';
+import { listLoginLockouts, unlockLoginRecord } from '@/lib/login-throttle';
+import { recordAuditEvent } from '@/lib/audit';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method === 'GET') {
+    try {
+      const lockouts = await listLoginLockouts();
+      res.status(200).json({ lockouts });
+    } catch (error: any) {
+      console.error('Erro ao listar bloqueios de login:', error);
+      res.status(500).json({ error: 'Erro ao listar bloqueios de login.' });
+    }
+  } else if (req.method === 'DELETE') {
+    try {
+      const { recordId } = req.body || {};
+      if (typeof recordId !== 'string' || !recordId) {
+        return res.status(400).json({ error: 'recordId é obrigatório' });
+      }
+
+      const record = await unlockLoginRecord(recordId);
+      if (!record) {
+        return res.status(404).json({ error: 'Registro de bloqueio não encontrado' });
+      }
+
+      await recordAuditEvent({
+        actor,
+        action: 'login.unlock',
+        targetType: 'login',
+        targetId: recordId,
+        summary: `Login desbloqueado para ${record.key}`,
+        before: record
+      });
+
+      res.status(200).json({ success: true });
+    } catch (error: any) {
+      console.error('Erro ao desbloquear login:', error);
+      res.status(500).json({ error: 'Erro ao desbloquear login.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withAdminAuth(handler);
@@ -1,10 +1,16 @@
 /**
  * API Route para login administrativo
- * Valida credenciais admin e retorna perfil
+ * Valida credenciais admin no servidor e emite cookie de sessão assinado
+ * Tentativas no e-mail admin passam pela limitação de login (lib/login-throttle.ts)
+ * Com segundo fator ativo (ou exigido pela política) responde `mfaRequired` e emite
+ * apenas o cookie de desafio; a sessão sai em /api/auth/mfa/verify ou /activate
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
-import { UserProfile, Sector } from '@/lib/appwrite';
+import { buildAdminProfile, isAdminEmail, verifyAdminCredentials } from '@/lib/admin-auth';
+import { createAdminSessionToken, serializeAdminSessionCookie } from '@/lib/admin-session';
+import { consumeLoginAttempt, getClientIp, registerLoginSuccess, sendLoginThrottled } from '@/lib/login-throttle';
+import { createMfaChallengeCookie, resolveMfaStep, type MfaSubject } from '@/lib/mfa';
 import { Role } from '@/lib/roles';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -14,29 +20,53 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { email, password } = req.body;
-    
-    // Verificar se são credenciais admin
-    if (email === process.env.NEXT_PUBLIC_ADMIN_EMAIL && password === process.env.NEXT_PUBLIC_ADMIN_PASSWORD) {
-      const adminProfile: UserProfile = {
-        $id: 'admin',
-        userId: 'admin',
-        name: 'Administrador',
-        email: 'admin@admin.com',
-        sector: Sector.TI,
-        role: Role.ADMIN,
-        $createdAt: new Date().toISOString(),
-        $updatedAt: new Date().toISOString()
-      };
-      
-      res.status(200).json({
-        user: { $id: 'admin', email },
-        profile: adminProfile
-      });
-    } else {
-      res.status(401).json({ error: 'Credenciais inválidas' });
+    const { email, password } = req.body || {};
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'E-mail e senha são obrigatórios' });
+    }
+
+    // E-mails não-admin entram por /api/auth/login
+    if (!isAdminEmail(email)) {
+      return res.status(401).json({ error: 'Credenciais inválidas' });
+    }
+
+    const ip = getClientIp(req);
+    const decision = await consumeLoginAttempt(email, ip);
+    if (!decision.allowed) {
+      return sendLoginThrottled(res, decision);
+    }
+
+    if (!verifyAdminCredentials(email, password)) {
+      return res.status(401).json({ error: 'Credenciais inválidas' });
+    }
+
+    const subject: MfaSubject = {
+      sub: 'admin',
+      kind: 'admin',
+      profileId: 'admin',
+      role: Role.ADMIN,
+      email,
+      name: 'Administrador'
+    };
+    const mfaStep = await resolveMfaStep(subject);
+    if (mfaStep) {
+      // A tentativa só é confirmada após o segundo fator
+      res.setHeader('Set-Cookie', await createMfaChallengeCookie(subject, mfaStep));
+      return res.status(200).json({ mfaRequired: mfaStep });
     }
+
+    await registerLoginSuccess(email, ip);
+
+    const token = await createAdminSessionToken(email);
+    res.setHeader('Set-Cookie', serializeAdminSessionCookie(token));
+
+    res.status(200).json({
+      user: { $id: 'admin', email },
+      profile: buildAdminProfile(email)
+    });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    console.error('Erro no login admin:', error);
+    res.status(500).json({ error: 'Erro interno ao autenticar administrador.' });
   }
-}
\ No newline at end of file
+}
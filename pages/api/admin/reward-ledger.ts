@@ -0,0 +1,61 @@
+/**
+ * API Route do razão de recompensas (somente admin)
+ * GET lista fechamentos e lançamentos de um mês (?closingPeriod=AAAA-MM&sector=);
+ * POST fecha o mês (primeira execução) ou grava os ajustes da nova apuração
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Sector } from '@/lib/appwrite';
+import { withAdminAuth, type ApiActor } from '@/lib/api-auth';
+import { CLOSING_PERIOD_PATTERN, closeRewardPeriod, listRewardLedger } from '@/lib/reward-ledger';
+import { recordAuditEvent } from '@/lib/audit';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method === 'GET') {
+    const closingPeriod = typeof req.query.closingPeriod === 'string' ? req.query.closingPeriod : '';
+    const sector = typeof req.query.sector === 'string' && req.query.sector ? req.query.sector as Sector : undefined;
+    if (!CLOSING_PERIOD_PATTERN.test(closingPeriod)) {
+      return res.status(400).json({ error: 'Informe o mês no formato AAAA-MM.', code: 'invalid_payload' });
+    }
+    if (sector && !Object.values(Sector).includes(sector)) {
+      return res.status(400).json({ error: 'Setor inválido.', code: 'invalid_payload' });
+    }
+
+    try {
+      res.status(200).json(await listRewardLedger(closingPeriod, sector));
+    } catch (error: any) {
+      console.error('Erro ao listar razão de recompensas:', error);
+      res.status(500).json({ error: 'Erro ao listar razão de recompensas.' });
+    }
+  } else if (req.method === 'POST') {
+    try {
+      const result = await closeRewardPeriod(actor, req.body);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error, code: result.code });
+      }
+
+      for (const closing of result.results.filter(item => item.closingEntries > 0 || item.adjustments > 0)) {
+        await recordAuditEvent({
+          actor,
+          action: 'reward.close',
+          targetType: 'reward',
+          targetId: `${closing.closingPeriod}-${closing.sector}`,
+          summary: closing.status === 'closed'
+            ? `Fechamento de recompensas ${closing.closingPeriod} (${closing.sector}): ${closing.closingEntries} lançamento(s)`
+            : `Nova apuração de recompensas ${closing.closingPeriod} (${closing.sector}): ${closing.adjustments} ajuste(s)`,
+          after: { ...closing }
+        });
+      }
+
+      res.status(200).json({ results: result.results });
+    } catch (error: any) {
+      console.error('Erro ao fechar recompensas:', error);
+      res.status(500).json({ error: 'Erro ao fechar recompensas.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withAdminAuth(handler);
@@ -0,0 +1,113 @@
+/**
+ * API Route dos roles personalizados (somente admin)
+ * GET lista os roles e a matriz padrão; POST cria, PATCH edita e DELETE remove (se não atribuído),
+ * todos auditados
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth, type ApiActor } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit';
+import {
+  countProfilesWithRole,
+  createCustomRole,
+  deleteCustomRole,
+  getCustomRole,
+  listCustomRoles,
+  updateCustomRole
+} from '@/lib/custom-roles';
+import { DEFAULT_ROLE_PERMISSIONS } from '@/lib/permissions';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method === 'GET') {
+    try {
+      const roles = await listCustomRoles();
+      res.status(200).json({ roles, defaults: DEFAULT_ROLE_PERMISSIONS });
+    } catch (error: any) {
+      console.error('Erro ao listar roles personalizados:', error);
+      res.status(500).json({ error: 'Erro ao listar roles personalizados.' });
+    }
+  } else if (req.method === 'POST') {
+    try {
+      const { name, description, baseRole, permissions } = req.body || {};
+      const result = await createCustomRole({ name, description, baseRole, permissions });
+      if (typeof result === 'string') {
+        return res.status(400).json({ error: result });
+      }
+
+      await recordAuditEvent({
+        actor,
+        action: 'role.create',
+        targetType: 'role',
+        targetId: result.$id,
+        summary: `Role "${result.name}" criado (${result.baseRole}, ${result.permissions.length} permissões)`,
+        after: result
+      });
+
+      res.status(201).json({ role: result });
+    } catch (error: any) {
+      console.error('Erro ao criar role personalizado:', error);
+      res.status(500).json({ error: 'Erro interno ao criar role.' });
+    }
+  } else if (req.method === 'PATCH') {
+    try {
+      const { roleId, name, description, baseRole, permissions } = req.body || {};
+      const before = typeof roleId === 'string' && roleId ? await getCustomRole(roleId) : null;
+      if (!before) {
+        return res.status(404).json({ error: 'Role não encontrado.' });
+      }
+
+      const result = await updateCustomRole(before, { name, description, baseRole, permissions });
+      if (typeof result === 'string') {
+        return res.status(400).json({ error: result });
+      }
+
+      await recordAuditEvent({
+        actor,
+        action: 'role.update',
+        targetType: 'role',
+        targetId: result.$id,
+        summary: `Role "${result.name}" editado`,
+        before,
+        after: result
+      });
+
+      res.status(200).json({ role: result });
+    } catch (error: any) {
+      console.error('Erro ao editar role personalizado:', error);
+      res.status(500).json({ error: 'Erro interno ao editar role.' });
+    }
+  } else if (req.method === 'DELETE') {
+    try {
+      const { roleId } = req.body || {};
+      const before = typeof roleId === 'string' && roleId ? await getCustomRole(roleId) : null;
+      if (!before) {
+        return res.status(404).json({ error: 'Role não encontrado.' });
+      }
+
+      if ((await countProfilesWithRole(before.$id)) > 0) {
+        return res.status(409).json({ error: 'Remova o role dos usuários vinculados antes de excluí-lo.' });
+      }
+
+      await deleteCustomRole(before.$id);
+
+      await recordAuditEvent({
+        actor,
+        action: 'role.delete',
+        targetType: 'role',
+        targetId: before.$id,
+        summary: `Role "${before.name}" removido`,
+        before
+      });
+
+      res.status(200).json({ success: true });
+    } catch (error: any) {
+      console.error('Erro ao remover role personalizado:', error);
+      res.status(500).json({ error: 'Erro interno ao remover role.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'POST', 'PATCH', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withAdminAuth(handler);
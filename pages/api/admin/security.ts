@@ -0,0 +1,91 @@
+/**
+ * API Route das configurações de segurança (somente admin)
+ * GET/PUT da política de segundo fator por role e do tempo limite de inatividade;
+ * DELETE reseta o segundo fator de um usuário
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDatabases } from '@/lib/appwrite-server';
+import { DATABASE_ID, INACTIVITY_TIMEOUT_LIMITS, USER_PROFILES_COLLECTION, type UserProfile } from '@/lib/appwrite';
+import { withAdminAuth, type ApiActor } from '@/lib/api-auth';
+import { getSecuritySettings, isValidInactivityTimeout, updateSecuritySettings } from '@/lib/app-settings';
+import { MFA_ELIGIBLE_ROLES, removeMfa } from '@/lib/mfa';
+import { recordAuditEvent } from '@/lib/audit';
+import { Role } from '@/lib/roles';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method === 'GET') {
+    try {
+      const settings = await getSecuritySettings();
+      res.status(200).json({ settings, mfaEligibleRoles: MFA_ELIGIBLE_ROLES });
+    } catch (error: any) {
+      console.error('Erro ao buscar configurações de segurança:', error);
+      res.status(500).json({ error: 'Erro ao buscar configurações de segurança.' });
+    }
+  } else if (req.method === 'PUT') {
+    try {
+      const { mfaRequiredRoles, inactivityTimeoutMinutes } = req.body || {};
+      if (!Array.isArray(mfaRequiredRoles) || mfaRequiredRoles.some(role => !MFA_ELIGIBLE_ROLES.includes(role as Role))) {
+        return res.status(400).json({ error: `mfaRequiredRoles deve conter apenas: ${MFA_ELIGIBLE_ROLES.join(', ')}` });
+      }
+      if (inactivityTimeoutMinutes !== undefined && !isValidInactivityTimeout(inactivityTimeoutMinutes)) {
+        const { min, max } = INACTIVITY_TIMEOUT_LIMITS;
+        return res.status(400).json({ error: `O tempo de inatividade deve ser 0 (desativado) ou entre ${min} e ${max} minutos` });
+      }
+
+      const { before, after } = await updateSecuritySettings({
+        mfaRequiredRoles,
+        ...(inactivityTimeoutMinutes !== undefined ? { inactivityTimeoutMinutes } : {})
+      });
+      await recordAuditEvent({
+        actor,
+        action: 'settings.update',
+        targetType: 'settings',
+        targetId: 'security',
+        summary: `Segundo fator obrigatório para: ${after.mfaRequiredRoles.join(', ') || 'nenhum perfil'}; ` +
+          `inatividade: ${after.inactivityTimeoutMinutes ? `${after.inactivityTimeoutMinutes} min` : 'desativada'}`,
+        before,
+        after
+      });
+
+      res.status(200).json({ settings: after });
+    } catch (error: any) {
+      console.error('Erro ao salvar configurações de segurança:', error);
+      res.status(500).json({ error: 'Erro ao salvar configurações de segurança.' });
+    }
+  } else if (req.method === 'DELETE') {
+    try {
+      const { profileId } = req.body || {};
+      if (typeof profileId !== 'string' || !profileId) {
+        return res.status(400).json({ error: 'profileId é obrigatório' });
+      }
+
+      const profile = await adminDatabases.getDocument(DATABASE_ID, USER_PROFILES_COLLECTION, profileId) as unknown as UserProfile;
+      const removed = await removeMfa(profile.userId);
+      if (!removed) {
+        return res.status(404).json({ error: 'O usuário não possui verificação em duas etapas cadastrada' });
+      }
+
+      await recordAuditEvent({
+        actor,
+        action: 'mfa.reset',
+        targetType: 'user',
+        targetId: profileId,
+        summary: `Verificação em duas etapas de ${profile.email} resetada pelo administrador`
+      });
+
+      res.status(200).json({ success: true });
+    } catch (error: any) {
+      if (error?.code === 404) {
+        return res.status(404).json({ error: 'Usuário não encontrado' });
+      }
+      console.error('Erro ao resetar segundo fator:', error);
+      res.status(500).json({ error: 'Erro ao resetar a verificação em duas etapas.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withAdminAuth(handler);
@@ -0,0 +1,34 @@
+/**
+ * API Route da sessão administrativa
+ * GET restaura a sessão a partir do cookie assinado; DELETE encerra a sessão
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { buildAdminProfile, getAdminSession } from '@/lib/admin-auth';
+import { clearAdminSessionCookie } from '@/lib/admin-session';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    try {
+      const session = await getAdminSession(req);
+      if (!session) {
+        return res.status(401).json({ error: 'Sessão administrativa inválida ou expirada' });
+      }
+
+      res.status(200).json({
+        user: { $id: 'admin', email: session.email },
+        profile: buildAdminProfile(session.email),
+        expiresAt: new Date(session.exp * 1000).toISOString()
+      });
+    } catch (error: any) {
+      console.error('Erro ao validar sessão admin:', error);
+      res.status(500).json({ error: 'Erro interno ao validar sessão.' });
+    }
+  } else if (req.method === 'DELETE') {
+    res.setHeader('Set-Cookie', clearAdminSessionCookie());
+    res.status(200).json({ success: true });
+  } else {
+    res.setHeader('Allow', ['GET', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
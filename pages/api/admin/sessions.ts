@@ -0,0 +1,76 @@
+/**
+ * API Route de sessões de usuários (somente admin)
+ * GET lista as sessões ativas de um usuário; DELETE encerra uma sessão (`sessionId`)
+ * ou força o logout em todos os dispositivos, com auditoria
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminAuth, type ApiActor } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { getProfileById } from '@/lib/delegations';
+import { listActiveSessions, revokeAllSessions, revokeSession } from '@/lib/session-activity';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method === 'GET') {
+    try {
+      const profileId = typeof req.query.profileId === 'string' ? req.query.profileId : '';
+      const profile = profileId ? await getProfileById(profileId) : null;
+      if (!profile) {
+        return res.status(404).json({ error: 'Usuário não encontrado.' });
+      }
+
+      const sessions = await listActiveSessions(profile.userId);
+      res.status(200).json({ sessions });
+    } catch (error: any) {
+      console.error('Erro ao listar sessões do usuário:', error);
+      res.status(500).json({ error: 'Erro ao listar sessões do usuário.' });
+    }
+  } else if (req.method === 'DELETE') {
+    try {
+      const { profileId, sessionId } = req.body || {};
+      const profile = typeof profileId === 'string' && profileId ? await getProfileById(profileId) : null;
+      if (!profile) {
+        return res.status(404).json({ error: 'Usuário não encontrado.' });
+      }
+
+      if (typeof sessionId === 'string' && sessionId) {
+        const session = (await listActiveSessions(profile.userId)).find(item => item.id === sessionId);
+        if (!session) {
+          return res.status(404).json({ error: 'Sessão não encontrada.' });
+        }
+
+        await revokeSession(profile.userId, sessionId);
+        await recordAuditEvent({
+          actor,
+          action: 'session.revoke',
+          targetType: 'user',
+          targetId: profile.$id,
+          summary: `Sessão de ${profile.email} em ${session.device} (${session.ip}) encerrada pelo administrador`,
+          before: session
+        });
+        return res.status(200).json({ success: true });
+      }
+
+      const after = await revokeAllSessions(profile);
+      await recordAuditEvent({
+        actor,
+        action: 'session.force_logout',
+        targetType: 'user',
+        targetId: profile.$id,
+        summary: `Logout forçado de ${profile.email} em todos os dispositivos`,
+        before: profile,
+        after
+      });
+
+      res.status(200).json({ success: true });
+    } catch (error: any) {
+      console.error('Erro ao encerrar sessões do usuário:', error);
+      res.status(500).json({ error: 'Erro interno ao encerrar sessões.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withAdminAuth(handler);
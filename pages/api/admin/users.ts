@@ -2,14 +2,22 @@
  * API Route para operações administrativas de usuários
  * Gerencia CRUD de usuários via Appwrite Admin SDK
  * Compatível com node-appwrite
+ * Acesso restrito a sessões administrativas verificadas (withAdminAuth)
  */
 
 import { NextApiRequest, NextApiResponse } from 'next';
 import { adminDatabases, adminUsers, ID } from '@/lib/appwrite-server';
-import { DATABASE_ID, USER_PROFILES_COLLECTION } from '@/lib/appwrite';
+import { DATABASE_ID, USER_MFA_COLLECTION, USER_PROFILES_COLLECTION, type UserProfile } from '@/lib/appwrite';
 import { Query } from 'node-appwrite';
+import { withAdminAuth, type ApiActor } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { validatePassword } from '@/lib/password-policy';
+import { Role } from '@/lib/roles';
+import { sanitizeSectors } from '@/lib/sectors';
+import { getCustomRole } from '@/lib/custom-roles';
+import { listAllDocuments } from '@/lib/pagination';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
   if (req.method === 'GET') {
     try {
       const { sector, role } = req.query;
@@ -24,15 +32,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         queries.push(Query.equal('role', role.toString()));
       }
       
-      const response = await adminDatabases.listDocuments(
-        DATABASE_ID,
-        USER_PROFILES_COLLECTION,
-        queries.length > 0 ? [...queries, Query.limit(500)] : [Query.limit(500)]
+      const profiles = await listAllDocuments(
+        page => adminDatabases.listDocuments(DATABASE_ID, USER_PROFILES_COLLECTION, page),
+        queries
       );
       
+      // Usuários com segundo fator ativo (para exibição e reset no painel)
+      const mfaRecords = await listAllDocuments(
+        page => adminDatabases.listDocuments(DATABASE_ID, USER_MFA_COLLECTION, page),
+        [Query.equal('enabled', true)]
+      );
+      const mfaEnabledUserIds = new Set(mfaRecords.map((record: any) => record.subjectId));
+      
       // Buscar dados completos do usuário para cada profile
       const usersWithDetails = await Promise.all(
-        response.documents.map(async (profile: any) => {
+        profiles.map(async (profile: any) => {
           try {
             // Buscar dados do usuário no Auth
             const authUser = await adminUsers.get(profile.userId);
@@ -40,6 +54,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               ...profile,
               name: profile.name || authUser.name || authUser.email?.split('@')[0] || 'Usuário',
               email: authUser.email || 'N/A',
+              mfaEnabled: mfaEnabledUserIds.has(profile.userId),
               isOrphan: false,
               authExists: true
             };
@@ -72,7 +87,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
   } else if (req.method === 'POST') {
     try {
-      const { email, password, sector, role, name } = req.body;
+      const { email, password, sector, role, name, managedSectors } = req.body;
       
       // Validar se o email foi fornecido
       if (!email) {
@@ -80,6 +95,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           error: 'Email é um campo obrigatório.' 
         });
       }
+
+      const passwordError = validatePassword(password || '');
+      if (passwordError) {
+        return res.status(400).json({ error: passwordError });
+      }
       
       // Verificar se já existe usuário com este email
       try {
@@ -115,10 +135,22 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           name: displayName, // Salvar o nome no perfil
           email, // Adicionando email obrigatório
           sector,
-          role
+          role,
+          // Setores adicionais só fazem sentido para gestores
+          managedSectors: role === Role.MANAGER ? sanitizeSectors(managedSectors).filter(item => item !== sector) : [],
+          mustChangePassword: true // senha definida pelo admin deve ser trocada no primeiro acesso
         }
       );
       
+      await recordAuditEvent({
+        actor,
+        action: 'user.create',
+        targetType: 'user',
+        targetId: profile.$id,
+        summary: `Usuário ${email} criado (${sector}/${role})`,
+        after: profile
+      });
+      
       res.status(201).json({ 
         message: 'Usuário criado com sucesso!',
         user: { email: user.email, id: user.$id, name: displayName }, 
@@ -158,6 +190,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       let authUserDeleted = false;
       let profileDeleted = false;
       
+      // Capturar o estado anterior do perfil para auditoria
+      const profileBefore = await adminDatabases
+        .getDocument(DATABASE_ID, USER_PROFILES_COLLECTION, profileId)
+        .catch(() => null);
+      
       // Tentar deletar usuário do Auth primeiro (pode não existir)
       try {
         await adminUsers.delete(userId);
@@ -193,6 +230,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
       
       if (authUserDeleted && profileDeleted) {
+        await recordAuditEvent({
+          actor,
+          action: 'user.delete',
+          targetType: 'user',
+          targetId: profileId,
+          summary: `Usuário ${profileBefore?.email || userId} removido`,
+          before: profileBefore
+        });
+        
         res.status(200).json({ 
           success: true, 
           message: 'Usuário removido completamente do sistema' 
@@ -212,8 +258,82 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         type: error.type || 'unknown'
       });
     }
+  } else if (req.method === 'PATCH') {
+    try {
+      const { profileId, managedSectors, customRoleId } = req.body || {};
+      if (typeof profileId !== 'string' || !profileId) {
+        return res.status(400).json({ error: 'profileId é obrigatório.' });
+      }
+
+      let before: UserProfile;
+      try {
+        before = await adminDatabases.getDocument(DATABASE_ID, USER_PROFILES_COLLECTION, profileId) as unknown as UserProfile;
+      } catch (error: any) {
+        if (error?.code === 404) {
+          return res.status(404).json({ error: 'Usuário não encontrado.' });
+        }
+        throw error;
+      }
+
+      // Apenas os campos enviados são alterados
+      const updates: Partial<UserProfile> = {};
+      const changes: string[] = [];
+
+      if (managedSectors !== undefined) {
+        if (before.role !== Role.MANAGER) {
+          return res.status(400).json({ error: 'Apenas gestores podem ter setores adicionais.' });
+        }
+        updates.managedSectors = sanitizeSectors(managedSectors).filter(item => item !== before.sector);
+        changes.push(`setores: ${[before.sector, ...updates.managedSectors].join(', ')}`);
+      }
+
+      if (customRoleId !== undefined) {
+        if (customRoleId === null || customRoleId === '') {
+          updates.customRoleId = null;
+          changes.push('permissões padrão do role');
+        } else {
+          const customRole = typeof customRoleId === 'string' ? await getCustomRole(customRoleId) : null;
+          if (!customRole) {
+            return res.status(400).json({ error: 'Role personalizado não encontrado.' });
+          }
+          if (customRole.baseRole !== before.role) {
+            return res.status(400).json({ error: 'O role personalizado deve ter o mesmo role base do usuário.' });
+          }
+          updates.customRoleId = customRole.$id;
+          changes.push(`role personalizado: ${customRole.name}`);
+        }
+      }
+
+      if (changes.length === 0) {
+        return res.status(400).json({ error: 'Nenhuma alteração informada.' });
+      }
+
+      const profile = await adminDatabases.updateDocument(
+        DATABASE_ID,
+        USER_PROFILES_COLLECTION,
+        profileId,
+        updates
+      ) as unknown as UserProfile;
+
+      await recordAuditEvent({
+        actor,
+        action: 'user.update',
+        targetType: 'user',
+        targetId: profileId,
+        summary: `Acesso de ${before.email} atualizado (${changes.join('; ')})`,
+        before,
+        after: profile
+      });
+
+      res.status(200).json({ profile });
+    } catch (error: any) {
+      console.error('Erro ao atualizar acesso do usuário:', error);
+      res.status(500).json({ error: 'Erro interno ao atualizar usuário.' });
+    }
   } else {
-    res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+    res.setHeader('Allow', ['GET', 'POST', 'PATCH', 'DELETE']);
     res.status(405).end(`Method ${req.method} Not Allowed`);
   }
-}
\ No newline at end of file
+}
+
+export default withAdminAuth(handler);
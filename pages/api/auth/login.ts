@@ -0,0 +1,99 @@
+/**
+ * API Route de login de usuários
+ * Aplica a limitação de tentativas, confere a senha no Appwrite pelo servidor e devolve um token de uso
+ * único para o navegador abrir a sessão Appwrite, além do ticket exigido por /api/auth/session.
+ * Com segundo fator, responde `mfaRequired` e emite apenas o cookie de desafio: a sessão Appwrite só é
+ * aberta depois do código (/api/auth/mfa/verify ou /activate).
+ * A tentativa conta como falha até ser confirmada por /api/auth/session (ou pelo segundo fator).
+ * No modo demonstração confere os perfis de lib/demo-auth.ts e emite o cookie de sessão direto
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Query } from 'node-appwrite';
+import { adminDatabases } from '@/lib/appwrite-server';
+import { DATABASE_ID, USER_PROFILES_COLLECTION, type UserProfile } from '@/lib/appwrite';
+import { isAdminEmail } from '@/lib/admin-auth';
+import { createMfaChallengeCookie, resolveMfaStep, type MfaSubject } from '@/lib/mfa';
+import { consumeLoginAttempt, getClientIp, sendLoginThrottled } from '@/lib/login-throttle';
+import { createLoginTicketCookie, createLoginToken, verifyUserCredentials } from '@/lib/user-login';
+import { createUserSessionToken, serializeUserSessionCookie } from '@/lib/user-session';
+import { getSecuritySettings } from '@/lib/app-settings';
+import { getSessionTtlSeconds } from '@/lib/session-activity';
+import { verifyDemoCredentials } from '@/lib/demo-auth';
+import { isDemoMode } from '@/lib/repositories';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const { email, password } = req.body || {};
+    if (typeof email !== 'string' || !email.trim() || typeof password !== 'string' || !password) {
+      return res.status(400).json({ error: 'E-mail e senha são obrigatórios' });
+    }
+
+    if (isDemoMode) {
+      const profile = verifyDemoCredentials(email, password);
+      if (!profile) {
+        return res.status(401).json({ error: 'E-mail ou senha inválidos', code: 'invalid_credentials' });
+      }
+      const ttl = getSessionTtlSeconds((await getSecuritySettings()).inactivityTimeoutMinutes);
+      const token = await createUserSessionToken({
+        userId: profile.userId,
+        profileId: profile.$id,
+        role: profile.role,
+        mustChangePassword: profile.mustChangePassword
+      }, ttl);
+      res.setHeader('Set-Cookie', serializeUserSessionCookie(token, ttl));
+      return res.status(200).json({ profile });
+    }
+
+    // O e-mail admin entra apenas por /api/admin/login
+    if (isAdminEmail(email)) {
+      return res.status(401).json({ error: 'E-mail ou senha inválidos', code: 'invalid_credentials' });
+    }
+
+    const decision = await consumeLoginAttempt(email, getClientIp(req));
+    if (!decision.allowed) {
+      return sendLoginThrottled(res, decision);
+    }
+
+    const userId = await verifyUserCredentials(email, password);
+    if (!userId) {
+      return res.status(401).json({ error: 'E-mail ou senha inválidos', code: 'invalid_credentials' });
+    }
+
+    const profiles = await adminDatabases.listDocuments(DATABASE_ID, USER_PROFILES_COLLECTION, [
+      Query.equal('userId', userId),
+      Query.limit(1)
+    ]);
+    if (profiles.documents.length === 0) {
+      return res.status(403).json({ error: 'Perfil de usuário não encontrado. Entre em contato com o administrador.' });
+    }
+
+    const profile = profiles.documents[0] as unknown as UserProfile;
+    const subject: MfaSubject = {
+      sub: userId,
+      kind: 'user',
+      profileId: profile.$id,
+      role: profile.role,
+      email,
+      name: profile.name,
+      mustChangePassword: profile.mustChangePassword
+    };
+    const mfaStep = await resolveMfaStep(subject);
+    if (mfaStep) {
+      // A tentativa só é confirmada após o segundo fator
+      res.setHeader('Set-Cookie', await createMfaChallengeCookie(subject, mfaStep));
+      return res.status(200).json({ mfaRequired: mfaStep });
+    }
+
+    res.setHeader('Set-Cookie', await createLoginTicketCookie(userId));
+    res.status(200).json(await createLoginToken(userId));
+  } catch (error: any) {
+    console.error('Erro no login do usuário:', error);
+    res.status(500).json({ error: 'Erro interno ao autenticar.' });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * API Route de confirmação do cadastro do segundo fator
+ * Valida o primeiro código do aplicativo, ativa o TOTP e devolve os códigos de recuperação.
+ * Quando vem do desafio de login, também conclui o login emitindo a sessão
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { activateMfa, actorFromSubject, issueSessionForSubject, resolveEnrollmentSubject } from '@/lib/mfa';
+import { consumeLoginAttempt, getClientIp, registerLoginSuccess, sendLoginThrottled } from '@/lib/login-throttle';
+import { recordAuditEvent } from '@/lib/audit';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const { code } = req.body || {};
+    if (typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ error: 'Código de verificação é obrigatório' });
+    }
+
+    const resolved = await resolveEnrollmentSubject(req);
+    if (!resolved) {
+      return res.status(401).json({ error: 'Sessão ou desafio de login ausente/expirado', code: 'unauthenticated' });
+    }
+
+    const { subject, challenge } = resolved;
+    const ip = getClientIp(req);
+
+    // Durante o login, códigos errados contam como tentativas de login
+    if (challenge) {
+      const decision = await consumeLoginAttempt(subject.email, ip);
+      if (!decision.allowed) {
+        return sendLoginThrottled(res, decision);
+      }
+    }
+
+    const recoveryCodes = await activateMfa(subject.sub, code);
+    if (!recoveryCodes) {
+      return res.status(401).json({ error: 'Código inválido. Confira o horário do celular e tente novamente.', code: 'invalid_code' });
+    }
+
+    await recordAuditEvent({
+      actor: actorFromSubject(subject),
+      action: 'mfa.enable',
+      targetType: 'user',
+      targetId: subject.profileId,
+      summary: `Verificação em duas etapas ativada por ${subject.email}`
+    });
+
+    if (!challenge) {
+      return res.status(200).json({ recoveryCodes });
+    }
+
+    await registerLoginSuccess(subject.email, ip);
+    const session = await issueSessionForSubject(res, subject);
+    res.status(200).json({ recoveryCodes, ...session });
+  } catch (error: any) {
+    console.error('Erro ao ativar segundo fator:', error);
+    res.status(500).json({ error: 'Erro interno ao ativar o segundo fator.' });
+  }
+}
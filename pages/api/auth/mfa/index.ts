@@ -0,0 +1,65 @@
+/**
+ * API Route do segundo fator do usuário logado (gestores e admin)
+ * GET retorna a situação do cadastro; DELETE desativa (exige código válido e
+ * não é permitido quando a política obriga o role)
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withRoleAuth, type ApiActor } from '@/lib/api-auth';
+import { getMfaRecord, isMfaRequiredForRole, MFA_ELIGIBLE_ROLES, removeMfa, verifyMfaCode } from '@/lib/mfa';
+import { recordAuditEvent } from '@/lib/audit';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method === 'GET') {
+    try {
+      const [record, required] = await Promise.all([
+        getMfaRecord(actor.userId),
+        isMfaRequiredForRole(actor.role)
+      ]);
+
+      res.status(200).json({
+        enabled: !!record?.enabled,
+        required,
+        enabledAt: record?.enabledAt ?? null,
+        recoveryCodesRemaining: record?.enabled ? record.recoveryCodes.length : 0
+      });
+    } catch (error: any) {
+      console.error('Erro ao consultar segundo fator:', error);
+      res.status(500).json({ error: 'Erro ao consultar a verificação em duas etapas.' });
+    }
+  } else if (req.method === 'DELETE') {
+    try {
+      const { code } = req.body || {};
+      if (typeof code !== 'string' || !code.trim()) {
+        return res.status(400).json({ error: 'Código de verificação é obrigatório' });
+      }
+
+      if (await isMfaRequiredForRole(actor.role)) {
+        return res.status(403).json({ error: 'A verificação em duas etapas é obrigatória para o seu perfil.', code: 'forbidden' });
+      }
+
+      if (!(await verifyMfaCode(actor.userId, code))) {
+        return res.status(401).json({ error: 'Código inválido ou já utilizado', code: 'invalid_code' });
+      }
+
+      await removeMfa(actor.userId);
+      await recordAuditEvent({
+        actor,
+        action: 'mfa.disable',
+        targetType: 'user',
+        targetId: actor.id,
+        summary: `Verificação em duas etapas desativada por ${actor.email}`
+      });
+
+      res.status(200).json({ success: true });
+    } catch (error: any) {
+      console.error('Erro ao desativar segundo fator:', error);
+      res.status(500).json({ error: 'Erro ao desativar a verificação em duas etapas.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withRoleAuth(MFA_ELIGIBLE_ROLES, handler);
@@ -0,0 +1,34 @@
+/**
+ * API Route de geração de novos códigos de recuperação
+ * Exige um código TOTP válido; os códigos anteriores deixam de valer
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withRoleAuth, type ApiActor } from '@/lib/api-auth';
+import { MFA_ELIGIBLE_ROLES, regenerateRecoveryCodes, verifyMfaCode } from '@/lib/mfa';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const { code } = req.body || {};
+    if (typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ error: 'Código de verificação é obrigatório' });
+    }
+
+    if ((await verifyMfaCode(actor.userId, code)) !== 'totp') {
+      return res.status(401).json({ error: 'Informe um código válido do aplicativo autenticador', code: 'invalid_code' });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(actor.userId);
+    res.status(200).json({ recoveryCodes });
+  } catch (error: any) {
+    console.error('Erro ao gerar códigos de recuperação:', error);
+    res.status(500).json({ error: 'Erro ao gerar novos códigos de recuperação.' });
+  }
+}
+
+export default withRoleAuth(MFA_ELIGIBLE_ROLES, handler);
@@ -0,0 +1,33 @@
+/**
+ * API Route de início do cadastro do segundo fator
+ * Gera segredo pendente e QR code; aceita o desafio de login (cadastro obrigatório)
+ * ou a sessão de um gestor/admin (cadastro voluntário)
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getMfaRecord, resolveEnrollmentSubject, startMfaEnrollment } from '@/lib/mfa';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const resolved = await resolveEnrollmentSubject(req);
+    if (!resolved) {
+      return res.status(401).json({ error: 'Sessão ou desafio de login ausente/expirado', code: 'unauthenticated' });
+    }
+
+    const record = await getMfaRecord(resolved.subject.sub);
+    if (record?.enabled) {
+      return res.status(409).json({ error: 'A verificação em duas etapas já está ativa. Desative-a antes de cadastrar outro dispositivo.' });
+    }
+
+    const enrollment = await startMfaEnrollment(resolved.subject);
+    res.status(200).json(enrollment);
+  } catch (error: any) {
+    console.error('Erro ao iniciar cadastro do segundo fator:', error);
+    res.status(500).json({ error: 'Erro interno ao iniciar o cadastro do segundo fator.' });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * API Route da segunda etapa do login
+ * POST valida o código TOTP (ou de recuperação) do desafio pendente e emite a sessão;
+ * DELETE cancela o desafio
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { clearMfaChallengeCookie, getMfaChallenge, issueSessionForSubject, verifyMfaCode } from '@/lib/mfa';
+import { consumeLoginAttempt, getClientIp, registerLoginSuccess, sendLoginThrottled } from '@/lib/login-throttle';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'POST') {
+    try {
+      const { code } = req.body || {};
+      if (typeof code !== 'string' || !code.trim()) {
+        return res.status(400).json({ error: 'Código de verificação é obrigatório' });
+      }
+
+      const challenge = await getMfaChallenge(req);
+      if (!challenge || challenge.step !== 'verify') {
+        return res.status(401).json({ error: 'Etapa de verificação expirada. Faça login novamente.', code: 'unauthenticated' });
+      }
+
+      const ip = getClientIp(req);
+      const decision = await consumeLoginAttempt(challenge.email, ip);
+      if (!decision.allowed) {
+        return sendLoginThrottled(res, decision);
+      }
+
+      const method = await verifyMfaCode(challenge.sub, code);
+      if (!method) {
+        return res.status(401).json({ error: 'Código inválido ou já utilizado', code: 'invalid_code' });
+      }
+
+      await registerLoginSuccess(challenge.email, ip);
+      const session = await issueSessionForSubject(res, challenge);
+      res.status(200).json({ method, ...session });
+    } catch (error: any) {
+      console.error('Erro ao validar segundo fator:', error);
+      res.status(500).json({ error: 'Erro interno ao validar o código.' });
+    }
+  } else if (req.method === 'DELETE') {
+    res.setHeader('Set-Cookie', clearMfaChallengeCookie());
+    res.status(200).json({ success: true });
+  } else {
+    res.setHeader('Allow', ['POST', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * API Route de confirmação da redefinição de senha
+ * Valida o token de uso único, define a nova senha e encerra as sessões abertas
+ * (inclusive os cookies do app emitidos antes, via sessionsRevokedAt)
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Query } from 'node-appwrite';
+import { adminDatabases } from '@/lib/appwrite-server';
+import { DATABASE_ID, USER_PROFILES_COLLECTION, type UserProfile } from '@/lib/appwrite';
+import { consumePasswordResetToken } from '@/lib/password-reset';
+import { updateUserPassword } from '@/lib/user-password';
+import { validatePassword } from '@/lib/password-policy';
+import { getClientIp, registerLoginSuccess } from '@/lib/login-throttle';
+import { recordAuditEvent } from '@/lib/audit';
+import { revokeAllSessions } from '@/lib/session-activity';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const { token, password } = req.body || {};
+    if (typeof token !== 'string' || !token || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Token e nova senha são obrigatórios' });
+    }
+
+    const policyError = validatePassword(password);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    const resetToken = await consumePasswordResetToken(token);
+    if (!resetToken) {
+      return res.status(400).json({ error: 'Link inválido ou expirado. Solicite uma nova redefinição.', code: 'invalid_token' });
+    }
+
+    const profiles = await adminDatabases.listDocuments(DATABASE_ID, USER_PROFILES_COLLECTION, [
+      Query.equal('userId', resetToken.userId),
+      Query.limit(1)
+    ]);
+    const profile = profiles.documents[0] as unknown as UserProfile | undefined;
+    if (!profile) {
+      return res.status(404).json({ error: 'Perfil de usuário não encontrado' });
+    }
+
+    await updateUserPassword(resetToken.userId, profile.$id, password);
+
+    // Sessões e cookies abertos com a senha antiga deixam de valer
+    await revokeAllSessions(profile);
+
+    // Libera bloqueios de login causados pela senha esquecida
+    await registerLoginSuccess(resetToken.email, getClientIp(req));
+
+    await recordAuditEvent({
+      actor: {
+        id: profile.$id,
+        userId: profile.userId,
+        name: profile.name,
+        email: profile.email,
+        role: profile.role,
+        sector: profile.sector
+      },
+      action: 'password.reset',
+      targetType: 'user',
+      targetId: profile.$id,
+      summary: `Senha redefinida por link enviado a ${resetToken.email}`
+    });
+
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao redefinir senha:', error);
+    res.status(500).json({ error: 'Erro interno ao redefinir a senha.' });
+  }
+}
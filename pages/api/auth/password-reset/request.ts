@@ -0,0 +1,40 @@
+/**
+ * API Route de solicitação de redefinição de senha ("esqueci minha senha")
+ * Sempre responde com a mesma mensagem para não revelar quais e-mails existem
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Query } from 'node-appwrite';
+import { adminUsers } from '@/lib/appwrite-server';
+import { getAppUrl, sendPasswordResetEmail } from '@/lib/password-reset';
+
+const GENERIC_RESPONSE = {
+  message: 'Se o e-mail estiver cadastrado, você receberá um link para redefinir a senha.'
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const { email } = req.body || {};
+    if (typeof email !== 'string' || !email.trim()) {
+      return res.status(400).json({ error: 'E-mail é obrigatório' });
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const result = await adminUsers.list([Query.equal('email', normalizedEmail), Query.limit(1)]);
+    const user = result.users[0];
+
+    if (user && user.status) {
+      await sendPasswordResetEmail({ userId: user.$id, email: user.email, name: user.name }, getAppUrl(req));
+    }
+
+    res.status(200).json(GENERIC_RESPONSE);
+  } catch (error: any) {
+    console.error('Erro ao solicitar redefinição de senha:', error);
+    res.status(500).json({ error: 'Erro interno ao solicitar a redefinição de senha.' });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * API Route de troca de senha do usuário logado
+ * Confere a senha atual, aplica a política de senha e remove a exigência de
+ * troca do primeiro acesso (reemitindo o cookie de sessão)
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withRoleAuth, type ApiActor } from '@/lib/api-auth';
+import { createUserSessionToken, serializeUserSessionCookie } from '@/lib/user-session';
+import { getDelegatedUntil } from '@/lib/delegations';
+import { updateUserPassword, verifyUserPassword } from '@/lib/user-password';
+import { validatePassword } from '@/lib/password-policy';
+import { recordAuditEvent } from '@/lib/audit';
+import { Role } from '@/lib/roles';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const { currentPassword, newPassword } = req.body || {};
+    if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+      return res.status(400).json({ error: 'Senha atual e nova senha são obrigatórias' });
+    }
+
+    const policyError = validatePassword(newPassword, currentPassword);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    if (!(await verifyUserPassword(actor.userId, actor.email, currentPassword))) {
+      return res.status(401).json({ error: 'Senha atual incorreta', code: 'invalid_password' });
+    }
+
+    await updateUserPassword(actor.userId, actor.id, newPassword);
+
+    await recordAuditEvent({
+      actor,
+      action: 'password.change',
+      targetType: 'user',
+      targetId: actor.id,
+      summary: `Senha alterada por ${actor.email}`
+    });
+
+    const token = await createUserSessionToken({
+      userId: actor.userId,
+      profileId: actor.id,
+      role: actor.role,
+      delegatedUntil: getDelegatedUntil(actor.delegations || []),
+      sessionId: actor.sessionId
+    });
+    res.setHeader('Set-Cookie', serializeUserSessionCookie(token));
+
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao trocar senha:', error);
+    res.status(500).json({ error: 'Erro interno ao trocar a senha.' });
+  }
+}
+
+// A senha do admin é definida por variável de ambiente (ADMIN_PASSWORD_HASH)
+export default withRoleAuth([Role.MANAGER, Role.COLLABORATOR], handler);
@@ -0,0 +1,20 @@
+/**
+ * API Route das permissões do usuário logado
+ * GET retorna as permissões efetivas (role, role personalizado e delegações ativas)
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withRoleAuth, type ApiActor } from '@/lib/api-auth';
+import { resolvePermissions } from '@/lib/permissions';
+import { Role } from '@/lib/roles';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  res.status(200).json({ permissions: actor.permissions ?? resolvePermissions(actor.role) });
+}
+
+export default withRoleAuth([Role.ADMIN, Role.MANAGER, Role.COLLABORATOR], handler);
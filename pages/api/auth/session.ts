@@ -0,0 +1,249 @@
+/**
+ * API Route da sessão de usuário
+ * POST valida um JWT do Appwrite e emite o cookie de sessão com o role. Uma sessão nova só recebe o cookie com o
+ * ticket do login pelo servidor (/api/auth/login) ou se já foi registrada por ele, e nunca durante um bloqueio;
+ * com o ticket, também confirma a tentativa de login para o controle de bloqueio.
+ * Quando o segundo fator é exigido, emite apenas o cookie de desafio e responde `mfaRequired`;
+ * PATCH registra atividade (heartbeat) e renova o cookie dentro do tempo limite de inatividade;
+ * sessões ociosas além do limite são encerradas no Appwrite. DELETE remove o cookie no logout.
+ * No modo demonstração o POST apenas renova o cookie do login de demonstração e devolve o perfil
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Client, Account, Query } from 'node-appwrite';
+import { adminDatabases } from '@/lib/appwrite-server';
+import { DATABASE_ID, USER_PROFILES_COLLECTION, UserProfile } from '@/lib/appwrite';
+import {
+  clearUserSessionCookie,
+  createUserSessionToken,
+  getUserSessionFromCookie,
+  serializeUserSessionCookie
+} from '@/lib/user-session';
+import { createMfaChallengeCookie, resolveMfaStep, type MfaSubject } from '@/lib/mfa';
+import { getClientIp, getLoginLockout, registerLoginSuccess, sendLoginThrottled } from '@/lib/login-throttle';
+import { clearLoginTicketCookie, getLoginTicket } from '@/lib/user-login';
+import { getDelegatedUntil, resolveManagerScope } from '@/lib/delegations';
+import { getSecuritySettings } from '@/lib/app-settings';
+import { getAdminSession } from '@/lib/admin-auth';
+import { createAdminSessionToken, serializeAdminSessionCookie } from '@/lib/admin-session';
+import { resolveApiActor } from '@/lib/api-auth';
+import { findDemoProfile } from '@/lib/demo-auth';
+import { getOwnManagedSectors } from '@/lib/sectors';
+import { isDemoMode } from '@/lib/repositories';
+import {
+  getAppwriteSessionId,
+  getSessionActivity,
+  getSessionTtlSeconds,
+  isSessionIdle,
+  revokeSession,
+  touchSessionActivity
+} from '@/lib/session-activity';
+
+const IDLE_SESSION_ERROR = { error: 'Sessão encerrada por inatividade', code: 'session_idle' };
+const LOGIN_REQUIRED_ERROR = { error: 'Faça login novamente para continuar', code: 'login_required' };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'POST' && isDemoMode) {
+    try {
+      // Não há JWT do Appwrite: a sessão é o próprio cookie emitido por /api/auth/login
+      const session = await getUserSessionFromCookie(req.headers.cookie);
+      const profile = session ? findDemoProfile(session.profileId) : null;
+      if (!session || !profile) {
+        res.setHeader('Set-Cookie', clearUserSessionCookie());
+        return res.status(401).json(LOGIN_REQUIRED_ERROR);
+      }
+
+      const { inactivityTimeoutMinutes } = await getSecuritySettings();
+      const ttl = getSessionTtlSeconds(inactivityTimeoutMinutes);
+      const token = await createUserSessionToken({
+        userId: profile.userId,
+        profileId: profile.$id,
+        role: profile.role,
+        mustChangePassword: profile.mustChangePassword
+      }, ttl);
+      res.setHeader('Set-Cookie', serializeUserSessionCookie(token, ttl));
+      res.status(200).json({
+        role: profile.role,
+        mustChangePassword: !!profile.mustChangePassword,
+        managedSectors: getOwnManagedSectors(profile),
+        inactivityTimeoutMinutes,
+        profile
+      });
+    } catch (error: any) {
+      console.error('Erro ao renovar sessão de demonstração:', error);
+      res.status(500).json({ error: 'Erro interno ao validar sessão.' });
+    }
+  } else if (req.method === 'POST') {
+    try {
+      const { jwt, afterLogin } = req.body || {};
+      if (typeof jwt !== 'string' || !jwt) {
+        return res.status(400).json({ error: 'JWT do Appwrite é obrigatório' });
+      }
+
+      // Validar o JWT diretamente no Appwrite
+      const client = new Client()
+        .setEndpoint(process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT!)
+        .setProject(process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID!)
+        .setJWT(jwt);
+
+      let userId: string;
+      let email: string;
+      try {
+        const user = await new Account(client).get();
+        userId = user.$id;
+        email = user.email;
+      } catch {
+        res.setHeader('Set-Cookie', clearUserSessionCookie());
+        return res.status(401).json({ error: 'Sessão do Appwrite inválida ou expirada' });
+      }
+
+      const profiles = await adminDatabases.listDocuments(
+        DATABASE_ID,
+        USER_PROFILES_COLLECTION,
+        [Query.equal('userId', userId), Query.limit(1)]
+      );
+
+      if (profiles.documents.length === 0) {
+        res.setHeader('Set-Cookie', clearUserSessionCookie());
+        return res.status(403).json({ error: 'Perfil de usuário não encontrado' });
+      }
+
+      const profile = profiles.documents[0] as unknown as UserProfile;
+      const sessionId = getAppwriteSessionId(jwt);
+      const { inactivityTimeoutMinutes } = await getSecuritySettings();
+
+      // Sessão Appwrite ociosa além do limite (ex.: navegador fechado em máquina compartilhada)
+      const activity = sessionId ? await getSessionActivity(sessionId) : null;
+      if (sessionId && activity && isSessionIdle(activity, inactivityTimeoutMinutes)) {
+        await revokeSession(userId, sessionId);
+        res.setHeader('Set-Cookie', clearUserSessionCookie());
+        return res.status(401).json(IDLE_SESSION_ERROR);
+      }
+
+      // Renovação de uma sessão que já passou pelo segundo fator não pede o código novamente
+      const currentSession = await getUserSessionFromCookie(req.headers.cookie);
+      const isNewSession = afterLogin || currentSession?.sub !== userId;
+      const ticket = isNewSession ? await getLoginTicket(req) : null;
+      const viaLogin = ticket?.sub === userId;
+      if (isNewSession) {
+        // Sessão aberta direto no Appwrite (sem passar pela limitação de tentativas) não recebe o cookie
+        if (!viaLogin && !activity) {
+          if (sessionId) await revokeSession(userId, sessionId);
+          res.setHeader('Set-Cookie', clearUserSessionCookie());
+          return res.status(401).json(LOGIN_REQUIRED_ERROR);
+        }
+
+        const lockout = await getLoginLockout(email, getClientIp(req));
+        if (!lockout.allowed) {
+          if (sessionId) await revokeSession(userId, sessionId);
+          res.setHeader('Set-Cookie', [clearUserSessionCookie(), clearLoginTicketCookie()]);
+          return sendLoginThrottled(res, lockout);
+        }
+
+        const subject: MfaSubject = {
+          sub: userId,
+          kind: 'user',
+          profileId: profile.$id,
+          role: profile.role,
+          email,
+          name: profile.name,
+          mustChangePassword: profile.mustChangePassword,
+          ...(sessionId ? { sessionId } : {})
+        };
+        const mfaStep = await resolveMfaStep(subject);
+        if (mfaStep) {
+          res.setHeader('Set-Cookie', [clearUserSessionCookie(), await createMfaChallengeCookie(subject, mfaStep)]);
+          return res.status(200).json({ mfaRequired: mfaStep });
+        }
+      }
+
+      // Login confirmado: desfaz a falha presumida registrada em /api/auth/login
+      if (viaLogin) {
+        await registerLoginSuccess(email, getClientIp(req));
+      }
+
+      const scope = await resolveManagerScope(profile);
+      const token = await createUserSessionToken({
+        userId,
+        profileId: profile.$id,
+        role: profile.role,
+        mustChangePassword: profile.mustChangePassword,
+        delegatedUntil: getDelegatedUntil(scope.delegations),
+        sessionId: sessionId || undefined
+      }, getSessionTtlSeconds(inactivityTimeoutMinutes));
+      res.setHeader('Set-Cookie', [
+        serializeUserSessionCookie(token, getSessionTtlSeconds(inactivityTimeoutMinutes)),
+        ...(viaLogin ? [clearLoginTicketCookie()] : [])
+      ]);
+      if (sessionId) {
+        await touchSessionActivity(sessionId, { userId, profileId: profile.$id }, activity);
+      }
+
+      res.status(200).json({
+        role: profile.role,
+        mustChangePassword: !!profile.mustChangePassword,
+        managedSectors: scope.sectors,
+        inactivityTimeoutMinutes
+      });
+    } catch (error: any) {
+      console.error('Erro ao emitir sessão do usuário:', error);
+      res.status(500).json({ error: 'Erro interno ao validar sessão.' });
+    }
+  } else if (req.method === 'PATCH') {
+    try {
+      const { inactivityTimeoutMinutes } = await getSecuritySettings();
+      const ttl = getSessionTtlSeconds(inactivityTimeoutMinutes);
+
+      // Admin: apenas renova o cookie assinado
+      const adminSession = await getAdminSession(req);
+      if (adminSession) {
+        res.setHeader('Set-Cookie', serializeAdminSessionCookie(await createAdminSessionToken(adminSession.email, ttl), ttl));
+        return res.status(200).json({ inactivityTimeoutMinutes });
+      }
+
+      const session = await getUserSessionFromCookie(req.headers.cookie);
+      const actor = session ? await resolveApiActor(req) : null;
+      if (!session || !actor) {
+        res.setHeader('Set-Cookie', clearUserSessionCookie());
+        return res.status(401).json({ error: 'Sessão ausente ou encerrada', code: 'unauthenticated' });
+      }
+
+      if (session.sid) {
+        // Sem registro de atividade: sessão encerrada em outro dispositivo ou pelo admin
+        const activity = await getSessionActivity(session.sid);
+        if (!activity || isSessionIdle(activity, inactivityTimeoutMinutes)) {
+          await revokeSession(session.sub, session.sid);
+          res.setHeader('Set-Cookie', clearUserSessionCookie());
+          return res.status(401).json(activity ? IDLE_SESSION_ERROR : { error: 'Sessão encerrada', code: 'session_revoked' });
+        }
+        await touchSessionActivity(session.sid, { userId: session.sub, profileId: session.profileId }, activity);
+      }
+
+      const token = await createUserSessionToken({
+        userId: session.sub,
+        profileId: session.profileId,
+        role: session.role,
+        mustChangePassword: session.mustChangePassword,
+        delegatedUntil: getDelegatedUntil(actor.delegations || []),
+        sessionId: session.sid
+      }, ttl);
+      res.setHeader('Set-Cookie', serializeUserSessionCookie(token, ttl));
+
+      res.status(200).json({ inactivityTimeoutMinutes });
+    } catch (error: any) {
+      console.error('Erro ao renovar sessão do usuário:', error);
+      res.status(500).json({ error: 'Erro interno ao renovar sessão.' });
+    }
+  } else if (req.method === 'DELETE') {
+    // Logout: encerra também a sessão Appwrite espelhada e seu registro de atividade
+    const session = await getUserSessionFromCookie(req.headers.cookie).catch(() => null);
+    if (session?.sid) {
+      await revokeSession(session.sub, session.sid).catch(error => console.error('Erro ao encerrar sessão no logout:', error));
+    }
+    res.setHeader('Set-Cookie', clearUserSessionCookie());
+    res.status(200).json({ success: true });
+  } else {
+    res.setHeader('Allow', ['POST', 'PATCH', 'DELETE']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
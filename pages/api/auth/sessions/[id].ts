@@ -0,0 +1,44 @@
+/**
+ * API Route de encerramento de sessão do usuário logado
+ * DELETE encerra uma das próprias sessões (ex.: esquecida em outra máquina), com auditoria
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Role } from '@/lib/roles';
+import { withRoleAuth, type ApiActor } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { listActiveSessions, revokeSession } from '@/lib/session-activity';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', ['DELETE']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const sessionId = String(req.query.id);
+    const sessions = actor.id === 'admin' ? [] : await listActiveSessions(actor.userId, actor.sessionId);
+    const session = sessions.find(item => item.id === sessionId);
+    if (!session) {
+      return res.status(404).json({ error: 'Sessão não encontrada.' });
+    }
+
+    await revokeSession(actor.userId, sessionId);
+
+    await recordAuditEvent({
+      actor,
+      action: 'session.revoke',
+      targetType: 'user',
+      targetId: actor.id,
+      summary: `${actor.email} encerrou a sessão ${session.device} (${session.ip})`,
+      before: session
+    });
+
+    res.status(200).json({ success: true, current: session.current });
+  } catch (error: any) {
+    console.error('Erro ao encerrar sessão:', error);
+    res.status(500).json({ error: 'Erro interno ao encerrar sessão.' });
+  }
+}
+
+export default withRoleAuth([Role.ADMIN, Role.MANAGER, Role.COLLABORATOR], handler);
@@ -0,0 +1,31 @@
+/**
+ * API Route das sessões do usuário logado ("Minhas sessões")
+ * GET lista as sessões Appwrite ativas (dispositivo, IP e última atividade)
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Role } from '@/lib/roles';
+import { withRoleAuth, type ApiActor } from '@/lib/api-auth';
+import { listActiveSessions } from '@/lib/session-activity';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  // O administrador não usa sessões do Appwrite
+  if (actor.id === 'admin') {
+    return res.status(200).json({ sessions: [] });
+  }
+
+  try {
+    const sessions = await listActiveSessions(actor.userId, actor.sessionId);
+    res.status(200).json({ sessions });
+  } catch (error: any) {
+    console.error('Erro ao listar sessões:', error);
+    res.status(500).json({ error: 'Erro ao listar sessões.' });
+  }
+}
+
+export default withRoleAuth([Role.ADMIN, Role.MANAGER, Role.COLLABORATOR], handler);
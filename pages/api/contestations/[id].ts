@@ -0,0 +1,102 @@
+/**
+ * API Route para atualização de contestações
+ * Gestor resolve/dispensa; colaborador responde à própria contestação. Eventos auditados
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDatabases } from '@/lib/appwrite-server';
+import { CONTESTATIONS_COLLECTION, DATABASE_ID, type AuditAction, type Contestation } from '@/lib/appwrite';
+import { Role } from '@/lib/roles';
+import { actsForManager, withPermission, type ApiActor } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { hasPermission } from '@/lib/permissions';
+
+const STATUS_ACTIONS: Record<string, AuditAction> = {
+  resolved: 'contestation.resolve',
+  dismissed: 'contestation.dismiss'
+};
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method !== 'PATCH') {
+    res.setHeader('Allow', ['PATCH']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const contestationId = String(req.query.id);
+
+  try {
+    let before: Contestation;
+    try {
+      before = await adminDatabases.getDocument(DATABASE_ID, CONTESTATIONS_COLLECTION, contestationId) as unknown as Contestation;
+    } catch (error: any) {
+      if (error?.code === 404) {
+        return res.status(404).json({ error: 'Contestação não encontrada.' });
+      }
+      throw error;
+    }
+
+    const { status, response, collaboratorResponse } = req.body || {};
+    const now = new Date().toISOString();
+    let updates: Partial<Contestation>;
+    let action: AuditAction;
+
+    // Colaborador com delegação ativa também atua como gestor nas contestações do delegante
+    if (actor.role === Role.COLLABORATOR && !actsForManager(actor, before.managerId)) {
+      // Colaborador só pode responder à própria contestação
+      if (before.collaboratorId !== actor.id) {
+        return res.status(403).json({ error: 'Contestação pertence a outro colaborador.', code: 'forbidden' });
+      }
+      if (!hasPermission(actor, 'contestations.respond')) {
+        return res.status(403).json({ error: 'Seu perfil não pode responder contestações.', code: 'forbidden' });
+      }
+      if (typeof collaboratorResponse !== 'string' || !collaboratorResponse.trim()) {
+        return res.status(400).json({ error: 'Resposta do colaborador é obrigatória.' });
+      }
+      updates = { collaboratorResponse, updatedAt: now };
+      action = 'contestation.respond';
+    } else {
+      if (actor.role !== Role.ADMIN && !actsForManager(actor, before.managerId)) {
+        return res.status(403).json({ error: 'Apenas o gestor que abriu a contestação pode alterá-la.', code: 'forbidden' });
+      }
+      if (!hasPermission(actor, 'contestations.resolve')) {
+        return res.status(403).json({ error: 'Seu perfil não pode resolver contestações.', code: 'forbidden' });
+      }
+      if (!STATUS_ACTIONS[status]) {
+        return res.status(400).json({ error: 'Status deve ser "resolved" ou "dismissed".' });
+      }
+      updates = {
+        status,
+        updatedAt: now,
+        ...(typeof response === 'string' ? { response } : {}),
+        ...(status === 'resolved' ? { resolvedAt: now } : {})
+      };
+      action = STATUS_ACTIONS[status];
+    }
+
+    const contestation = await adminDatabases.updateDocument(
+      DATABASE_ID,
+      CONTESTATIONS_COLLECTION,
+      contestationId,
+      updates
+    );
+
+    await recordAuditEvent({
+      actor,
+      action,
+      targetType: 'contestation',
+      targetId: contestationId,
+      summary: action === 'contestation.respond'
+        ? `Colaborador respondeu à contestação da meta ${before.goalId}`
+        : `Contestação da meta ${before.goalId} ${status === 'resolved' ? 'resolvida' : 'dispensada'}`,
+      before,
+      after: contestation
+    });
+
+    res.status(200).json({ contestation });
+  } catch (error: any) {
+    console.error('Erro ao atualizar contestação:', error);
+    res.status(500).json({ error: 'Erro interno ao atualizar contestação.' });
+  }
+}
+
+export default withPermission(['contestations.resolve', 'contestations.respond'], handler);
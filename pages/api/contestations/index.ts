@@ -0,0 +1,56 @@
+/**
+ * API Route para abertura de contestações
+ * Apenas gestores (ou admin) contestam metas de submissões; evento auditado
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDatabases, ID } from '@/lib/appwrite-server';
+import { CONTESTATIONS_COLLECTION, DATABASE_ID } from '@/lib/appwrite';
+import { withPermission, type ApiActor } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const { submissionId, goalId, collaboratorId, reason } = req.body || {};
+
+    if (!submissionId || !goalId || !collaboratorId || !reason) {
+      return res.status(400).json({ error: 'Submissão, meta, colaborador e motivo são obrigatórios.' });
+    }
+
+    const contestation = await adminDatabases.createDocument(
+      DATABASE_ID,
+      CONTESTATIONS_COLLECTION,
+      ID.unique(),
+      {
+        submissionId,
+        goalId,
+        collaboratorId,
+        managerId: actor.id, // Sempre o autor autenticado
+        reason,
+        status: 'pending',
+        createdAt: new Date().toISOString()
+      }
+    );
+
+    await recordAuditEvent({
+      actor,
+      action: 'contestation.create',
+      targetType: 'contestation',
+      targetId: contestation.$id,
+      summary: `Contestação aberta para a meta ${goalId} da submissão ${submissionId}`,
+      after: contestation
+    });
+
+    res.status(201).json({ contestation });
+  } catch (error: any) {
+    console.error('Erro ao criar contestação:', error);
+    res.status(500).json({ error: 'Erro interno ao criar contestação.' });
+  }
+}
+
+export default withPermission('contestations.create', handler);
@@ -0,0 +1,51 @@
+/**
+ * API Route de revogação de delegação
+ * DELETE encerra a delegação antes do prazo (admin ou o gestor que delegou), com auditoria
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Role } from '@/lib/roles';
+import { withRoleAuth, type ApiActor } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { getDelegation, revokeDelegation } from '@/lib/delegations';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', ['DELETE']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const delegationId = String(req.query.id);
+    const before = await getDelegation(delegationId);
+    if (!before) {
+      return res.status(404).json({ error: 'Delegação não encontrada.' });
+    }
+
+    if (actor.role !== Role.ADMIN && before.managerProfileId !== actor.id) {
+      return res.status(403).json({ error: 'Apenas o gestor que delegou pode revogar a delegação.', code: 'forbidden' });
+    }
+    if (before.revokedAt) {
+      return res.status(409).json({ error: 'Delegação já revogada.' });
+    }
+
+    const delegation = await revokeDelegation(delegationId);
+
+    await recordAuditEvent({
+      actor,
+      action: 'delegation.revoke',
+      targetType: 'delegation',
+      targetId: delegationId,
+      summary: `Delegação de ${before.managerName} para ${before.delegateName} revogada`,
+      before,
+      after: delegation
+    });
+
+    res.status(200).json({ delegation });
+  } catch (error: any) {
+    console.error('Erro ao revogar delegação:', error);
+    res.status(500).json({ error: 'Erro interno ao revogar delegação.' });
+  }
+}
+
+export default withRoleAuth([Role.ADMIN, Role.MANAGER], handler);
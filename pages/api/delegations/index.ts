@@ -0,0 +1,74 @@
+/**
+ * API Route de delegações de gestor
+ * GET lista as delegações vigentes (admin vê todas; demais usuários, as que concederam ou receberam)
+ * junto dos setores que o autor gere agora; POST cria uma delegação (gestor para os próprios
+ * setores ou admin em nome de um gestor), com auditoria
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Role } from '@/lib/roles';
+import { withRoleAuth, type ApiActor } from '@/lib/api-auth';
+import { hasPermission } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { createDelegation, getProfileById, listCurrentDelegations } from '@/lib/delegations';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method === 'GET') {
+    try {
+      const delegations = await listCurrentDelegations(actor.role === Role.ADMIN ? undefined : actor.id);
+      res.status(200).json({ delegations, managedSectors: actor.managedSectors || [] });
+    } catch (error: any) {
+      console.error('Erro ao listar delegações:', error);
+      res.status(500).json({ error: 'Erro ao listar delegações.' });
+    }
+  } else if (req.method === 'POST') {
+    if (!hasPermission(actor, 'delegations.manage')) {
+      return res.status(403).json({ error: 'Seu perfil não pode delegar a gestão.', code: 'forbidden' });
+    }
+
+    try {
+      const { managerProfileId, delegateProfileId, sectors, startsAt, endsAt, reason } = req.body || {};
+
+      // Gestor delega os próprios setores; o admin informa o gestor
+      const manager = actor.role === Role.ADMIN
+        ? (typeof managerProfileId === 'string' && managerProfileId ? await getProfileById(managerProfileId) : null)
+        : await getProfileById(actor.id);
+      if (!manager) {
+        return res.status(400).json({ error: 'Gestor da delegação não encontrado.' });
+      }
+
+      const result = await createDelegation({
+        manager,
+        delegateProfileId,
+        sectors,
+        startsAt,
+        endsAt,
+        reason,
+        createdBy: actor.id
+      });
+      if (typeof result === 'string') {
+        return res.status(400).json({ error: result });
+      }
+
+      await recordAuditEvent({
+        actor,
+        action: 'delegation.create',
+        targetType: 'delegation',
+        targetId: result.$id,
+        summary: `${result.managerName} delegou ${result.sectors.join(', ')} para ${result.delegateName} ` +
+          `(${new Date(result.startsAt).toLocaleDateString('pt-BR')} a ${new Date(result.endsAt).toLocaleDateString('pt-BR')})`,
+        after: result
+      });
+
+      res.status(201).json({ delegation: result });
+    } catch (error: any) {
+      console.error('Erro ao criar delegação:', error);
+      res.status(500).json({ error: 'Erro interno ao criar delegação.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withRoleAuth([Role.ADMIN, Role.MANAGER, Role.COLLABORATOR], handler);
@@ -0,0 +1,109 @@
+/**
+ * API Route para edição e remoção de metas
+ * PATCH atualiza (incluindo ativar/desativar) e DELETE remove, ambos auditados
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDatabases } from '@/lib/appwrite-server';
+import { DATABASE_ID, SECTOR_GOALS_COLLECTION, type AuditAction, type SectorGoal } from '@/lib/appwrite';
+import { canManageSector, withPermission, type ApiActor } from '@/lib/api-auth';
+import { computeAuditDiff, recordAuditEvent } from '@/lib/audit';
+import { pickGoalFields, validateGoalAchievementRule, validateGoalRewardTiers } from '@/lib/goal-payload';
+import { hasPermission } from '@/lib/permissions';
+
+// Define a ação auditada: alterações apenas de status viram activate/deactivate
+const resolveUpdateAction = (before: SectorGoal, after: SectorGoal): AuditAction => {
+  const changedFields = Object.keys(computeAuditDiff(before, after));
+  if (changedFields.length === 1 && changedFields[0] === 'isActive') {
+    return after.isActive ? 'goal.activate' : 'goal.deactivate';
+  }
+  return 'goal.update';
+};
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  const goalId = String(req.query.id);
+
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    res.setHeader('Allow', ['PATCH', 'DELETE']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  if (!hasPermission(actor, req.method === 'PATCH' ? 'goals.update' : 'goals.delete')) {
+    return res.status(403).json({ error: 'Seu perfil não tem permissão para esta operação', code: 'forbidden' });
+  }
+
+  try {
+    let before: SectorGoal;
+    try {
+      before = await adminDatabases.getDocument(DATABASE_ID, SECTOR_GOALS_COLLECTION, goalId) as unknown as SectorGoal;
+    } catch (error: any) {
+      if (error?.code === 404) {
+        return res.status(404).json({ error: 'Meta não encontrada.' });
+      }
+      throw error;
+    }
+
+    // Gestor só altera metas dos setores que gere (próprios ou delegados)
+    if (!canManageSector(actor, before.sectorId)) {
+      return res.status(403).json({ error: 'Gestores só podem alterar metas dos setores que gerem.', code: 'forbidden' });
+    }
+
+    if (req.method === 'PATCH') {
+      const data = pickGoalFields(req.body);
+      if (data.sectorId && !canManageSector(actor, data.sectorId)) {
+        return res.status(403).json({ error: 'Gestores não podem mover metas para um setor que não gerem.', code: 'forbidden' });
+      }
+
+      const tiersError = validateGoalRewardTiers(data);
+      if (tiersError) {
+        return res.status(400).json({ error: tiersError, code: 'invalid_payload' });
+      }
+
+      const ruleError = validateGoalAchievementRule(data, before);
+      if (ruleError) {
+        return res.status(400).json({ error: ruleError, code: 'invalid_payload' });
+      }
+
+      const goal = await adminDatabases.updateDocument(
+        DATABASE_ID,
+        SECTOR_GOALS_COLLECTION,
+        goalId,
+        data
+      ) as unknown as SectorGoal;
+
+      const action = resolveUpdateAction(before, goal);
+      await recordAuditEvent({
+        actor,
+        action,
+        targetType: 'goal',
+        targetId: goalId,
+        summary: action === 'goal.update'
+          ? `Meta "${goal.title}" editada`
+          : `Meta "${goal.title}" ${goal.isActive ? 'ativada' : 'desativada'}`,
+        before,
+        after: goal
+      });
+
+      return res.status(200).json({ goal });
+    }
+
+    await adminDatabases.deleteDocument(DATABASE_ID, SECTOR_GOALS_COLLECTION, goalId);
+
+    await recordAuditEvent({
+      actor,
+      action: 'goal.delete',
+      targetType: 'goal',
+      targetId: goalId,
+      summary: `Meta "${before.title}" removida`,
+      before
+    });
+
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao alterar meta:', error);
+    // Erros de validação já responderam 400 acima; o restante não é exposto ao navegador
+    res.status(500).json({ error: 'Erro interno ao alterar meta.' });
+  }
+}
+
+export default withPermission(['goals.update', 'goals.delete'], handler);
@@ -0,0 +1,65 @@
+/**
+ * API Route para criação de metas
+ * Grava a meta com o Admin SDK e registra auditoria
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDatabases, ID } from '@/lib/appwrite-server';
+import { DATABASE_ID, SECTOR_GOALS_COLLECTION } from '@/lib/appwrite';
+import { canManageSector, withPermission, type ApiActor } from '@/lib/api-auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { pickGoalFields, validateGoalAchievementRule, validateGoalRewardTiers } from '@/lib/goal-payload';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const data = pickGoalFields(req.body);
+
+    if (!data.title || !data.sectorId || !data.type || !data.period) {
+      return res.status(400).json({ error: 'Título, setor, tipo e período são obrigatórios.' });
+    }
+
+    const tiersError = validateGoalRewardTiers(data);
+    if (tiersError) {
+      return res.status(400).json({ error: tiersError, code: 'invalid_payload' });
+    }
+
+    const ruleError = validateGoalAchievementRule(data);
+    if (ruleError) {
+      return res.status(400).json({ error: ruleError, code: 'invalid_payload' });
+    }
+
+    // Gestor só cria metas para os setores que gere (próprios ou delegados)
+    if (!canManageSector(actor, data.sectorId)) {
+      return res.status(403).json({ error: 'Gestores só podem criar metas dos setores que gerem.', code: 'forbidden' });
+    }
+
+    const goal = await adminDatabases.createDocument(
+      DATABASE_ID,
+      SECTOR_GOALS_COLLECTION,
+      ID.unique(),
+      data
+    );
+
+    await recordAuditEvent({
+      actor,
+      action: 'goal.create',
+      targetType: 'goal',
+      targetId: goal.$id,
+      summary: `Meta "${data.title}" criada (${data.sectorId})`,
+      after: goal
+    });
+
+    res.status(201).json({ goal });
+  } catch (error: any) {
+    console.error('Erro ao criar meta:', error);
+    // Erros de validação já responderam 400 acima; o restante não é exposto ao navegador
+    res.status(500).json({ error: 'Erro interno ao criar meta.' });
+  }
+}
+
+export default withPermission('goals.create', handler);
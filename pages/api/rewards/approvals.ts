@@ -0,0 +1,87 @@
+/**
+ * API Route da aprovação de recompensas
+ * GET lista as recompensas fechadas visíveis ao autor com o status (?closingPeriod=AAAA-MM&sector=&mine=1);
+ * POST aplica uma ação em lote (approve, reject, release, pay) às recompensas de um mês;
+ * responde 409 (com as atualizadas e as que falharam) quando alguma recompensa mudou desde a listagem
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Sector } from '@/lib/appwrite';
+import { withPermission, type ApiActor } from '@/lib/api-auth';
+import { CLOSING_PERIOD_PATTERN } from '@/lib/reward-ledger';
+import { applyRewardAction, listVisibleRewardItems, type RewardAction } from '@/lib/reward-approvals';
+import { recordAuditEvent } from '@/lib/audit';
+import { formatCurrency } from '@/lib/currency';
+
+const auditActions = {
+  approve: { action: 'reward.approve', label: 'aprovada(s)' },
+  reject: { action: 'reward.reject', label: 'rejeitada(s)' },
+  release: { action: 'reward.release', label: 'liberada(s)' },
+  pay: { action: 'reward.pay', label: 'paga(s)' }
+} as const satisfies Record<RewardAction, { action: string; label: string }>;
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method === 'GET') {
+    const closingPeriod = typeof req.query.closingPeriod === 'string' && req.query.closingPeriod ? req.query.closingPeriod : undefined;
+    const sector = typeof req.query.sector === 'string' && req.query.sector ? req.query.sector as Sector : undefined;
+    if (closingPeriod && !CLOSING_PERIOD_PATTERN.test(closingPeriod)) {
+      return res.status(400).json({ error: 'Informe o mês no formato AAAA-MM.', code: 'invalid_payload' });
+    }
+    if (sector && !Object.values(Sector).includes(sector)) {
+      return res.status(400).json({ error: 'Setor inválido.', code: 'invalid_payload' });
+    }
+
+    try {
+      const items = await listVisibleRewardItems(actor, { closingPeriod, sector, mine: req.query.mine === '1' });
+      res.status(200).json({ items });
+    } catch (error: any) {
+      console.error('Erro ao listar aprovações de recompensas:', error);
+      res.status(500).json({ error: 'Erro ao listar aprovações de recompensas.' });
+    }
+  } else if (req.method === 'POST') {
+    try {
+      const result = await applyRewardAction(actor, req.body);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error, code: result.code });
+      }
+
+      // Um evento de auditoria por setor do lote
+      const { action, label } = auditActions[req.body.action as RewardAction];
+      const sectors = Array.from(new Set(result.updated.map(item => item.sector)));
+      for (const sector of sectors) {
+        const items = result.updated.filter(item => item.sector === sector);
+        const total = items.reduce((sum, item) => sum + item.amount, 0);
+        await recordAuditEvent({
+          actor,
+          action,
+          targetType: 'reward',
+          targetId: `${items[0].closingPeriod}-${sector}`,
+          summary: `${items.length} recompensa(s) de ${items[0].closingPeriod} (${sector}) ${label}: ${formatCurrency(total, true)}`,
+          after: {
+            status: items[0].status,
+            ...(req.body.reason ? { reason: req.body.reason } : {}),
+            rewards: items.map(item => ({ key: item.key, userName: item.userName, goalTitle: item.goalTitle, amount: item.amount }))
+          }
+        });
+      }
+
+      if (result.failed.some(item => item.conflict)) {
+        return res.status(409).json({
+          error: 'Algumas recompensas foram alteradas por outra pessoa. Atualize a lista.',
+          code: 'conflict',
+          updated: result.updated,
+          failed: result.failed
+        });
+      }
+      res.status(200).json({ updated: result.updated, failed: result.failed });
+    } catch (error: any) {
+      console.error('Erro ao atualizar aprovações de recompensas:', error);
+      res.status(500).json({ error: 'Erro ao atualizar aprovações de recompensas.' });
+    }
+  } else {
+    res.setHeader('Allow', ['GET', 'POST']);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
+
+export default withPermission(['rewards.view', 'rewards.approve', 'rewards.release'], handler);
@@ -0,0 +1,56 @@
+/**
+ * API Route da exportação da folha de recompensas (permissão rewards.release)
+ * GET ?closingPeriod=AAAA-MM&sector=&format=csv|fixed devolve o arquivo das recompensas liberadas do mês fechado
+ * (setor ou empresa toda)
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Sector } from '@/lib/appwrite';
+import { withPermission } from '@/lib/api-auth';
+import { CLOSING_PERIOD_PATTERN } from '@/lib/reward-ledger';
+import {
+  PAYROLL_EXPORT_FORMATS,
+  buildPayrollExport,
+  toPayrollCsv,
+  toPayrollFixedWidth,
+  type PayrollExportFormat
+} from '@/lib/payroll-export';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const closingPeriod = typeof req.query.closingPeriod === 'string' ? req.query.closingPeriod : '';
+  const sector = typeof req.query.sector === 'string' && req.query.sector ? req.query.sector as Sector : undefined;
+  const format = (typeof req.query.format === 'string' ? req.query.format : 'csv') as PayrollExportFormat;
+
+  if (!CLOSING_PERIOD_PATTERN.test(closingPeriod)) {
+    return res.status(400).json({ error: 'Informe o mês no formato AAAA-MM.', code: 'invalid_payload' });
+  }
+  if (sector && !Object.values(Sector).includes(sector)) {
+    return res.status(400).json({ error: 'Setor inválido.', code: 'invalid_payload' });
+  }
+  if (!PAYROLL_EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: 'Formato inválido (use csv ou fixed).', code: 'invalid_payload' });
+  }
+
+  try {
+    const result = await buildPayrollExport(closingPeriod, sector);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    const filename = `folha-recompensas-${closingPeriod}-${sector || 'empresa'}.${format === 'csv' ? 'csv' : 'txt'}`;
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'text/plain; charset=us-ascii');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).send(format === 'csv' ? toPayrollCsv(result.rows) : toPayrollFixedWidth(result.rows, closingPeriod));
+  } catch (error: any) {
+    console.error('Erro ao exportar folha de recompensas:', error);
+    res.status(500).json({ error: 'Erro ao exportar folha de recompensas.' });
+  }
+}
+
+export default withPermission('rewards.release', handler);
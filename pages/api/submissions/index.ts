@@ -0,0 +1,39 @@
+/**
+ * API Route para envio de checklist
+ * Único caminho de gravação de submissões: o autor é sempre o perfil autenticado e as respostas
+ * são validadas contra as metas ativas do seu setor (lib/submission-service.ts).
+ * A chave de idempotência vem em `id` (corpo) ou no header `Idempotency-Key`
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withPermission, type ApiActor } from '@/lib/api-auth';
+import { createSubmissionForActor } from '@/lib/submission-service';
+
+async function handler(req: NextApiRequest, res: NextApiResponse, actor: ApiActor) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    // Chave de idempotência também aceita no header padrão (o cliente a envia como `id` no corpo)
+    const idempotencyKey = req.headers['idempotency-key'];
+    const body = typeof idempotencyKey === 'string' && req.body && typeof req.body === 'object' && !req.body.id
+      ? { ...req.body, id: idempotencyKey }
+      : req.body;
+
+    const result = await createSubmissionForActor(actor, body);
+    if (!result.ok) {
+      const { status, error, code, violations } = result;
+      return res.status(status).json({ error, code, ...(violations ? { violations } : {}) });
+    }
+
+    // 200 quando o envio já havia sido gravado (reenvio da fila offline)
+    res.status(result.created ? 201 : 200).json({ submission: result.submission });
+  } catch (error: any) {
+    console.error('Erro ao gravar submissão:', error);
+    res.status(500).json({ error: 'Erro interno ao gravar submissão.' });
+  }
+}
+
+export default withPermission('submissions.create', handler);
@@ -0,0 +1,115 @@
+/**
+ * Página de troca de senha
+ * Obrigatória no primeiro acesso de usuários criados pelo admin (o middleware
+ * redireciona para cá enquanto a troca estiver pendente)
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LockKeyhole } from 'lucide-react';
+import { NewPasswordFields } from '@/components/NewPasswordFields';
+import { useAuth } from '@/hooks/useAuth';
+import { apiRequest } from '@/lib/api-client';
+import { validatePassword } from '@/lib/password-policy';
+import { ROLE_HOME_ROUTES } from '@/lib/route-access';
+
+export default function ChangePassword() {
+  const { profile, logout, loading: authLoading } = useAuth();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const policyError = validatePassword(password, currentPassword);
+    if (policyError) {
+      setError(policyError);
+      return;
+    }
+    if (password !== confirmation) {
+      setError('As senhas não conferem.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await apiRequest('/api/auth/password', {
+        method: 'POST',
+        body: { currentPassword, newPassword: password }
+      });
+      window.location.href = profile ? ROLE_HOME_ROUTES[profile.role] : '/home';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao trocar senha');
+      setLoading(false);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center">
+          <LockKeyhole className="h-10 w-10 text-bovia-primary mx-auto mb-2" />
+          <CardTitle className="text-2xl text-bovia-primary">Troque sua senha</CardTitle>
+          <p className="text-sm text-gray-600">
+            {profile?.mustChangePassword
+              ? 'Sua senha foi definida pelo administrador. Crie uma senha pessoal para continuar.'
+              : 'Informe a senha atual e escolha uma nova senha.'}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Senha atual</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                disabled={loading}
+                required
+              />
+            </div>
+
+            <NewPasswordFields
+              password={password}
+              confirmation={confirmation}
+              onPasswordChange={setPassword}
+              onConfirmationChange={setConfirmation}
+              disabled={loading}
+            />
+
+            {error && (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-700">{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button type="submit" className="w-full bg-bovia-primary hover:bg-bovia-dark text-white" disabled={loading}>
+              {loading ? 'Salvando...' : 'Salvar nova senha'}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={() => logout()} disabled={loading}>
+              Sair
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Página "esqueci minha senha"
+ * Solicita o envio do link de redefinição para o e-mail informado
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound } from 'lucide-react';
+import { apiRequest } from '@/lib/api-client';
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await apiRequest<{ message: string }>('/api/auth/password-reset/request', {
+        method: 'POST',
+        body: { email }
+      });
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao solicitar redefinição de senha');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center">
+          <KeyRound className="h-10 w-10 text-bovia-primary mx-auto mb-2" />
+          <CardTitle className="text-2xl text-bovia-primary">Esqueceu a senha?</CardTitle>
+          <p className="text-sm text-gray-600">
+            Informe seu e-mail e enviaremos um link para criar uma nova senha.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {message ? (
+            <Alert className="border-green-200 bg-green-50">
+              <AlertDescription className="text-green-800">{message}</AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">E-mail</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={loading}
+                  required
+                />
+              </div>
+
+              {error && (
+                <Alert className="border-red-200 bg-red-50">
+                  <AlertDescription className="text-red-700">{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button type="submit" className="w-full bg-bovia-primary hover:bg-bovia-dark text-white" disabled={loading}>
+                {loading ? 'Enviando...' : 'Enviar link de redefinição'}
+              </Button>
+            </form>
+          )}
+
+          <div className="text-center mt-6">
+            <Link href="/login" className="text-sm text-bovia-primary hover:underline">
+              Voltar ao login
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 /**
  * Página inicial para colaboradores
  * Checklist simples baseado nas metas do setor + gráficos mínimos individuais
+ * Recompensas com o status de aprovação dos meses fechados
  */
 
-import { useEffect, useState, useMemo } from 'react';
+import { useEffect, useRef, useState, useMemo } from 'react';
 import { useRouter } from 'next/router';
+import type { GetServerSideProps } from 'next';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -13,27 +15,43 @@ import { Chart } from '@/components/Chart';
 import { useAuth } from '@/hooks/useAuth';
 import { useSubmissions } from '@/hooks/useSubmissions';
 import { useSectorGoals } from '@/hooks/useSectorGoals';
-import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, isWithinInterval, isSameDay } from 'date-fns';
-import { Target, TrendingUp, Calendar, Award, Bell } from 'lucide-react';
+import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, isWithinInterval, isSameDay, parseISO } from 'date-fns';
+import { Target, TrendingUp, Calendar, Award, Bell, UserCog, Monitor } from 'lucide-react';
 import { logger } from '@/lib/logger';
 import { formatCurrency, centavosToReais } from '@/lib/currency';
-import { calculateUserRewards, formatPeriodDisplay, calculateDailyRewardValue, type UserRewardStats } from '@/lib/rewards';
+import { calculateUserRewards, formatPeriodDisplay, calculateDailyRewardValue, getSubmissionsRangeStart, type CalculatedReward, type UserRewardStats } from '@/lib/rewards';
+import { getSubmissionAnswers, hasGoalAnswer, answerToNumber, answerToBoolean, answerItems, encodeChecklist, type ChecklistAnswers } from '@/lib/checklist-schema';
+import { GoalType, ID } from '@/lib/appwrite';
+import { applySubmissionRules, getApplicableGoals } from '@/lib/submission-rules';
+import { isRetryableError, type NewQueuedSubmission, type QueuedSubmission } from '@/lib/offline-queue';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { OfflineQueueStatus } from '@/components/OfflineQueueStatus';
 import { useFeedback } from '@/components/FeedbackProvider';
 import { useContestations } from '@/hooks/useContestations';
 import { ContestationNotification } from '@/components/ContestationNotification';
 import { useCompliments } from '@/hooks/useCompliments';
+import { useDelegations } from '@/hooks/useDelegations';
+import { useRewardApprovals } from '@/hooks/useRewardApprovals';
+import { RewardStatusBadge } from '@/components/RewardStatusBadge';
+import { describeAchievementRule } from '@/lib/achievement-rules';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import { InactivityGuard } from '@/components/InactivityGuard';
+import { UserSessionsPanel } from '@/components/UserSessionsPanel';
+import { getProfileAndSubmissions, type DashboardPageProps } from '@/lib/server-helpers';
 
-export default function CollaboratorHome() {
-  const { isAuthenticated, profile, logout, loading: authLoading } = useAuth();
+export default function CollaboratorHome({ prefetch }: DashboardPageProps) {
+  const { isAuthenticated, profile, logout, loading: authLoading } = useAuth({ initialProfile: prefetch?.profile });
   const router = useRouter();
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitLoading, setSubmitLoading] = useState(false);
   const { toastSuccess, toastError } = useFeedback();
-  const { contestations, updateContestation, getPendingContestations } = useContestations();
-  const { fetchComplimentsForUser, compliments, markComplimentsAsRead } = useCompliments();
+  const { contestations, updateContestation, getPendingContestations, newContestationIds, markContestationsSeen } = useContestations();
+  const { fetchComplimentsForUser, compliments, markComplimentsAsRead, newComplimentIds, markComplimentsSeen } = useCompliments();
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const { managedSectors, fetchDelegations } = useDelegations(prefetch?.managedSectors);
+  const { items: closedRewards, fetchItems: fetchClosedRewards } = useRewardApprovals();
   
   // Função para responder contestação
   const handleRespondToContestation = async (contestationId: string, response: string) => {
@@ -58,6 +76,14 @@ export default function CollaboratorHome() {
   const [generalObservation, setGeneralObservation] = useState('');
   const [goalFiles, setGoalFiles] = useState<Record<string, File[]>>({});
   
+  const {
+    goals: sectorGoals,
+    loading: goalsLoading,
+    fetchActiveGoalsBySector
+  } = useSectorGoals(prefetch?.goals);
+
+  // Carrega apenas as submissões dos períodos exibidos no painel
+  const submissionsFrom = useMemo(() => getSubmissionsRangeStart(sectorGoals), [sectorGoals]);
   const {
     submissions,
     loading: submissionsLoading,
@@ -66,13 +92,19 @@ export default function CollaboratorHome() {
     getCompletionStats,
     calculateRewards,
     getMonthlyEarnings
-  } = useSubmissions();
+  } = useSubmissions({ from: submissionsFrom, initialProfile: prefetch?.profile, initialSubmissions: prefetch?.submissions });
 
-  const {
-    goals: sectorGoals,
-    loading: goalsLoading,
-    fetchActiveGoalsBySector
-  } = useSectorGoals();
+  // Envios feitos sem conexão ficam no aparelho (IndexedDB) e são sincronizados quando ela volta
+  const submitQueuedEntry = (entry: QueuedSubmission | NewQueuedSubmission) =>
+    createSubmission(entry.answers, entry.observation, entry.printFile, entry.goalFiles, { id: entry.id, date: entry.date });
+  const offlineQueue = useOfflineQueue({
+    profileId: profile?.$id,
+    submit: submitQueuedEntry,
+    onSynced: (count) => toastSuccess(
+      count === 1 ? 'O envio guardado no aparelho foi sincronizado.' : `${count} envios guardados no aparelho foram sincronizados.`,
+      'Sincronizado'
+    )
+  });
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -80,6 +112,20 @@ export default function CollaboratorHome() {
     }
   }, [isAuthenticated, authLoading, router]);
 
+  // Delegação de gestor ativa libera o acesso ao painel de gestão
+  useEffect(() => {
+    if (profile) {
+      fetchDelegations();
+    }
+  }, [profile, fetchDelegations]);
+
+  // Recompensas dos últimos meses fechados, com o status de aprovação
+  useEffect(() => {
+    if (profile?.$id) {
+      fetchClosedRewards({ mine: true });
+    }
+  }, [profile?.$id, fetchClosedRewards]);
+
   // Buscar metas do setor quando o profile for carregado
   useEffect(() => {
     if (profile?.sector && profile?.userId) {
@@ -114,6 +160,12 @@ export default function CollaboratorHome() {
     return { checklistGoals, individualGoals };
   }, [sectorGoals]);
 
+  // Regra de atingimento das metas que a configuram (as demais seguem o padrão do período)
+  const achievementRuleByGoal = useMemo(() => new Map(sectorGoals
+    .filter(goal => goal.achievementRule)
+    .map(goal => [goal.$id!, describeAchievementRule(goal)])
+  ), [sectorGoals]);
+
   // NOVA LÓGICA: Calcular itens de checklist com progresso parcial (por dia)
   const checklistItemsWithProgress = useMemo(() => {
     if (!goalsByType.checklistGoals.length) {
@@ -124,40 +176,18 @@ export default function CollaboratorHome() {
 
     return goalsByType.checklistGoals.flatMap(goal => {
       // Considerar apenas submissões do dia atual para esta meta
-      const goalSubmissionsToday = submissions.filter(sub => {
-        try {
-          const sameDay = isSameDay(new Date(sub.date), today);
-          if (!sameDay) return false;
-          const checklist = JSON.parse(sub.checklist);
-          return checklist[goal.$id!] !== undefined;
-        } catch {
-          return false;
-        }
-      });
+      const goalSubmissionsToday = submissions.filter(sub =>
+        isSameDay(new Date(sub.date), today) && hasGoalAnswer(sub, goal.$id!)
+      );
 
       // Calcular itens já completados HOJE
       const completedItemsToday = new Set<string>();
       goalSubmissionsToday.forEach(sub => {
-        try {
-          const checklist = JSON.parse(sub.checklist);
-          const goalData = checklist[goal.$id!];
-          
-          if (Array.isArray(goalData)) {
-            goalData.forEach((completed: boolean, index: number) => {
-              if (completed) {
-                completedItemsToday.add(`${goal.$id}-${index}`);
-              }
-            });
-          } else if (goalData && typeof goalData === 'object') {
-            Object.entries(goalData).forEach(([itemId, completed]) => {
-              if (completed) {
-                completedItemsToday.add(itemId);
-              }
-            });
+        Object.entries(answerItems(getSubmissionAnswers(sub)[goal.$id!])).forEach(([itemId, completed]) => {
+          if (completed) {
+            completedItemsToday.add(itemId);
           }
-        } catch {
-          // Ignora erros de parsing
-        }
+        });
       });
 
       // Retornar apenas itens não completados HOJE
@@ -180,14 +210,7 @@ export default function CollaboratorHome() {
 
     return goalsByType.individualGoals.filter(goal => {
       // Buscar todas as submissões deste usuário para esta meta
-      const goalSubmissions = submissions.filter(sub => {
-        try {
-          const checklist = JSON.parse(sub.checklist);
-          return checklist[goal.$id!] !== undefined;
-        } catch {
-          return false;
-        }
-      });
+      const goalSubmissions = submissions.filter(sub => hasGoalAnswer(sub, goal.$id!));
 
       // Se não tem submissões, mostrar a meta
       if (goalSubmissions.length === 0) {
@@ -201,15 +224,7 @@ export default function CollaboratorHome() {
             // CORREÇÃO: Para metas numéricas, somar todos os valores acumulados
             let totalValue = 0;
             goalSubmissions.forEach(sub => {
-              try {
-                const checklist = JSON.parse(sub.checklist);
-                const goalData = checklist[goal.$id!];
-                if (goalData !== undefined && goalData !== null) {
-                  totalValue += parseFloat(goalData) || 0;
-                }
-              } catch {
-                // Ignora erros de parsing
-              }
+              totalValue += answerToNumber(getSubmissionAnswers(sub)[goal.$id!]);
             });
             // CORREÇÃO: Meta continua aparecendo mesmo após ser atingida para controle
             return true; // Sempre mostrar para controle contínuo
@@ -217,9 +232,7 @@ export default function CollaboratorHome() {
           case 'percentage':
             // Para metas de porcentagem, verificar se atingiu o targetValue
             const lastSubmission = goalSubmissions[goalSubmissions.length - 1];
-            const checklist = JSON.parse(lastSubmission.checklist);
-            const goalData = checklist[goal.$id!];
-            const currentPercentage = parseFloat(goalData) || 0;
+            const currentPercentage = answerToNumber(getSubmissionAnswers(lastSubmission)[goal.$id!]);
             return currentPercentage < goal.targetValue;
           
           case 'task_completion': {
@@ -230,15 +243,7 @@ export default function CollaboratorHome() {
               return true; // Nenhuma submissão hoje -> ainda pendente
             }
             // Verificar se alguma submissão de hoje marcou como concluída
-            const completedToday = submissionsToday.some(sub => {
-              try {
-                const checklistTask = JSON.parse(sub.checklist);
-                const goalDataTask = checklistTask[goal.$id!];
-                return Boolean(goalDataTask);
-              } catch {
-                return false;
-              }
-            });
+            const completedToday = submissionsToday.some(sub => answerToBoolean(getSubmissionAnswers(sub)[goal.$id!]));
             return !completedToday;
           }
           
@@ -267,7 +272,7 @@ export default function CollaboratorHome() {
   const calculateWeeklyCompletion = (weekStart: Date) => {
     const weekEnd = endOfWeek(weekStart);
     const weekSubmissions = submissions.filter(sub => 
-      isWithinInterval(new Date(sub.$createdAt!), { start: weekStart, end: weekEnd })
+      isWithinInterval(parseISO(sub.date), { start: weekStart, end: weekEnd })
     );
     
     // Assumindo 7 dias de trabalho possíveis na semana (segunda a domingo)
@@ -282,16 +287,16 @@ export default function CollaboratorHome() {
     const monthEnd = endOfMonth(new Date());
     
     return submissions.filter(sub => 
-      isWithinInterval(new Date(sub.$createdAt!), { start: monthStart, end: monthEnd })
+      isWithinInterval(parseISO(sub.date), { start: monthStart, end: monthEnd })
     ).length;
   };
 
   const calculateConsecutiveDays = () => {
     if (submissions.length === 0) return 0;
     
-    // Ordenar submissões por data (mais recente primeiro)
+    // Ordenar submissões pela data do preenchimento (mais recente primeiro), não pela sincronização da fila offline
     const sortedSubmissions = [...submissions].sort((a, b) => 
-      new Date(b.$createdAt!).getTime() - new Date(a.$createdAt!).getTime()
+      parseISO(b.date).getTime() - parseISO(a.date).getTime()
     );
     
     let streak = 0;
@@ -301,7 +306,7 @@ export default function CollaboratorHome() {
     for (let i = 0; i < 30; i++) { // Limitar a 30 dias para performance
       const checkDate = subDays(currentDate, i);
       const hasSubmission = sortedSubmissions.some(sub => 
-        isSameDay(new Date(sub.$createdAt!), checkDate)
+        isSameDay(parseISO(sub.date), checkDate)
       );
       
       if (hasSubmission) {
@@ -319,25 +324,8 @@ export default function CollaboratorHome() {
     if (goalType !== 'numeric') return { currentValue: 0, progress: 0, isCompleted: false };
     
     let totalValue = 0;
-    const goalSubmissions = submissions.filter(sub => {
-      try {
-        const checklist = JSON.parse(sub.checklist);
-        return checklist[goalId] !== undefined;
-      } catch {
-        return false;
-      }
-    });
-    
-    goalSubmissions.forEach(sub => {
-      try {
-        const checklist = JSON.parse(sub.checklist);
-        const goalData = checklist[goalId];
-        if (goalData !== undefined && goalData !== null) {
-          totalValue += parseFloat(goalData) || 0;
-        }
-      } catch {
-        // Ignora erros de parsing
-      }
+    submissions.forEach(sub => {
+      totalValue += answerToNumber(getSubmissionAnswers(sub)[goalId]);
     });
     
     // CORREÇÃO: Mostrar progresso real mesmo após atingir a meta (ex: 6/5, 7/5)
@@ -352,7 +340,7 @@ export default function CollaboratorHome() {
     const last7Days = Array.from({ length: 7 }, (_, i) => {
       const date = subDays(new Date(), 6 - i);
       const daySubmissions = submissions.filter(sub => 
-        isSameDay(new Date(sub.$createdAt!), date)
+        isSameDay(parseISO(sub.date), date)
       );
       
       // Calcular taxa de conclusão baseada no número de metas vs respostas
@@ -399,8 +387,12 @@ export default function CollaboratorHome() {
     }));
   };
 
+  // Bloqueia um segundo envio (duplo toque) antes de o botão ser desabilitado pela renderização
+  const submittingRef = useRef(false);
+
   const handleSubmit = async () => {
-    if (!profile) return;
+    if (!profile || submittingRef.current) return;
+    submittingRef.current = true;
 
     try {
       setSubmitLoading(true);
@@ -408,7 +400,7 @@ export default function CollaboratorHome() {
       logger.form.submit('all-goals');
       
       // NOVA LÓGICA: Combinar dados com progresso parcial para checklists
-      const combinedAnswers: Record<string, any> = { ...checklistData };
+      const combinedAnswers: ChecklistAnswers = {};
       
       // Para metas individuais, calcular valores acumulados
       Object.entries(individualGoalData).forEach(([goalId, value]) => {
@@ -419,24 +411,12 @@ export default function CollaboratorHome() {
               // CORREÇÃO: Para metas numéricas, calcular o valor acumulado total
               let totalValue = parseFloat(value) || 0;
               
-              // Somar valores de submissões anteriores
-              const previousSubmissions = submissions.filter(sub => {
-                try {
-                  const checklist = JSON.parse(sub.checklist);
-                  return checklist[goalId] !== undefined;
-                } catch {
-                  return false;
-                }
+              // Somar valores de submissões anteriores (incluindo as que aguardam sincronização)
+              submissions.forEach(sub => {
+                totalValue += answerToNumber(getSubmissionAnswers(sub)[goalId]);
               });
-              
-              previousSubmissions.forEach(sub => {
-                try {
-                  const checklist = JSON.parse(sub.checklist);
-                  const previousValue = parseFloat(checklist[goalId]) || 0;
-                  totalValue += previousValue;
-                } catch {
-                  // Ignora erros de parsing
-                }
+              offlineQueue.queued.forEach(entry => {
+                totalValue += answerToNumber(entry.answers[goalId]?.value);
               });
               
               // CORREÇÃO: Limitar o valor enviado ao máximo da meta
@@ -445,20 +425,16 @@ export default function CollaboratorHome() {
                 totalValue = Math.min(totalValue, goal.targetValue);
               }
               
-              combinedAnswers[goalId] = totalValue;
+              combinedAnswers[goalId] = { type: GoalType.NUMERIC, value: totalValue };
               break;
               
             case 'percentage':
               // Para metas de porcentagem, preservar o valor original
-              combinedAnswers[goalId] = value;
-              break;
-              
-            case 'task_completion':
-              combinedAnswers[goalId] = Boolean(value);
+              combinedAnswers[goalId] = { type: GoalType.PERCENTAGE, value: parseFloat(value) || 0 };
               break;
               
             default:
-              combinedAnswers[goalId] = Boolean(value);
+              combinedAnswers[goalId] = { type: GoalType.TASK_COMPLETION, value: Boolean(value) };
           }
         }
       });
@@ -472,44 +448,70 @@ export default function CollaboratorHome() {
           todayItems.forEach((item: any) => {
             todayProgress[item.id] = true;
           });
-          combinedAnswers[goal.$id!] = todayProgress;
+          combinedAnswers[goal.$id!] = { type: GoalType.BOOLEAN_CHECKLIST, value: todayProgress };
         }
       });
       
-      // Usar o primeiro arquivo encontrado (podemos melhorar isso depois para múltiplos arquivos)
-      const firstFileArr = Object.values(goalFiles)[0];
-      const firstFile = Array.isArray(firstFileArr) ? firstFileArr[0] : firstFileArr;
-      
       // Verificar se há itens marcados no checklist
       const hasChecklistItems = Object.values(checklistData).some(checked => checked);
       
       // Verificar se há metas individuais com dados
       const hasIndividualGoals = Object.keys(individualGoalData).length > 0;
       
-      // Verificar se alguma meta envolvida exige comprovação e então exigir arquivo
-      const involvedGoalIds = new Set<string>();
-      Object.keys(individualGoalData).forEach((id) => involvedGoalIds.add(id));
-      goalsByType.checklistGoals.forEach((goal) => {
-        const someChecked = goal.items.some((item: any) => checklistData[item.id]);
-        if (someChecked && goal.$id) involvedGoalIds.add(goal.$id);
-      });
-
-      const requiresProof = sectorGoals.some((g) => g.requireProof && g.$id && involvedGoalIds.has(g.$id));
-      if (requiresProof && Object.keys(goalFiles).length === 0) {
-        setSubmitError('Pelo menos uma das metas selecionadas exige anexo de comprovação.');
-        return;
-      }
-      
       // Se não há itens para enviar
       if (!hasChecklistItems && !hasIndividualGoals) {
         setSubmitError('Nenhum item selecionado para envio.');
         return;
       }
       
-      await createSubmission(profile.$id, combinedAnswers, generalObservation, firstFile, goalFiles);
-      
-      logger.form.success('all-goals');
-      toastSuccess('Progresso salvo com sucesso!', 'Sucesso');
+      // Mesmas regras aplicadas pelo servidor (comprovação, limites diários), avisadas antes do envio;
+      // respostas inválidas são recusadas agora, e não só na sincronização
+      const submittedAt = new Date();
+      const rules = applySubmissionRules({
+        goals: getApplicableGoals(sectorGoals, profile),
+        previous: [
+          ...submissions,
+          ...offlineQueue.queued.map(entry => ({ $id: entry.id, checklist: encodeChecklist(entry.answers), date: entry.date }))
+        ],
+        answers: combinedAnswers,
+        goalFiles: Object.fromEntries(
+          Object.entries(goalFiles).filter(([, files]) => files.length > 0).map(([goalId, files]) => [goalId, files.map(file => file.name)])
+        ),
+        date: submittedAt
+      });
+      if (!rules.ok) {
+        setSubmitError(rules.violations[0].message);
+        return;
+      }
+
+      // ID definido antes do envio é a chave de idempotência: se a conexão cair no meio, a fila reenvia sem duplicar
+      const entry: NewQueuedSubmission = {
+        id: ID.unique(),
+        profileId: profile.$id,
+        answers: combinedAnswers,
+        observation: generalObservation,
+        goalFiles,
+        date: submittedAt.toISOString()
+      };
+
+      let savedOffline = !navigator.onLine;
+      if (!savedOffline) {
+        try {
+          await submitQueuedEntry(entry);
+        } catch (error) {
+          if (!isRetryableError(error)) throw error;
+          savedOffline = true;
+        }
+      }
+
+      if (savedOffline) {
+        await offlineQueue.enqueue(entry);
+        logger.form.success('all-goals (fila offline)');
+        toastSuccess('Sem conexão: o progresso e os anexos foram guardados neste aparelho e serão enviados automaticamente.', 'Salvo no aparelho');
+      } else {
+        logger.form.success('all-goals');
+        toastSuccess('Progresso salvo com sucesso!', 'Sucesso');
+      }
       
       // Limpar apenas os dados de hoje, mantendo o progresso histórico
       setIndividualGoalData({});
@@ -521,30 +523,7 @@ export default function CollaboratorHome() {
       logger.form.error('all-goals', error.message);
       setSubmitError(error.message);
     } finally {
-      setSubmitLoading(false);
-    }
-  };
-
-  const handleSubmitOld = async (
-    answers: Record<string, boolean>,
-    observation: string,
-    printFile: File
-  ) => {
-    if (!profile) return;
-
-    try {
-      setSubmitLoading(true);
-      setSubmitError(null);
-      logger.form.submit('checklist');
-      
-      await createSubmission(profile.$id, answers, observation, printFile);
-      
-      logger.form.success('checklist');
-      toastSuccess('Checklist enviado com sucesso!', 'Sucesso');
-    } catch (error: any) {
-      logger.form.error('checklist', error.message);
-      setSubmitError(error.message);
-    } finally {
+      submittingRef.current = false;
       setSubmitLoading(false);
     }
   };
@@ -566,13 +545,23 @@ export default function CollaboratorHome() {
     }
   }, [profile, fetchComplimentsForUser]);
 
+  // Cada elogio vira pop-up uma única vez (carga inicial e os que chegam em tempo real)
+  const toastedComplimentsRef = useRef<Set<string> | null>(null);
   useEffect(() => {
-    if (compliments && compliments.length > 0) {
+    if (!compliments) return;
+    if (!toastedComplimentsRef.current) {
+      toastedComplimentsRef.current = new Set(compliments.map(c => c.$id));
       // Mostrar apenas os mais recentes (até 3) como pop-ups bonitos
       compliments.slice(0, 3).forEach((c) => {
         toastSuccess(c.message, 'Elogio do Gestor');
       });
+      return;
     }
+    const toasted = toastedComplimentsRef.current;
+    compliments.filter(c => !toasted.has(c.$id)).forEach((c) => {
+      toasted.add(c.$id);
+      toastSuccess(c.message, 'Elogio do Gestor');
+    });
   }, [compliments, toastSuccess]);
 
   const unreadComplimentsCount = compliments?.filter(c => !c.isRead).length || 0;
@@ -616,6 +605,13 @@ export default function CollaboratorHome() {
     };
   }, [sectorGoals, submissions, profile?.userId, calculateRewards]);
 
+  // Aprovação do período da recompensa, quando o mês já foi fechado
+  const findClosedReward = (reward: CalculatedReward) => closedRewards.find(item =>
+    item.goalId === reward.goalId &&
+    new Date(item.periodStart).getTime() === new Date(reward.periodStart).getTime() &&
+    new Date(item.periodEnd).getTime() === new Date(reward.periodEnd).getTime()
+  );
+
   // Remover as variáveis individuais que agora estão dentro do useMemo
 
   if (authLoading || submissionsLoading) {
@@ -662,6 +658,18 @@ export default function CollaboratorHome() {
              </div>
              
             <div className="flex items-center space-x-3">
+              {managedSectors.length > 0 && (
+                <Button
+                  onClick={() => router.push('/home/manager')}
+                  variant="outline"
+                  className="bg-white/10 border-white/20 text-white hover:bg-white/20 hover:border-white/30"
+                  title="Você está substituindo um gestor"
+                >
+                  <UserCog className="w-4 h-4 mr-2" />
+                  Painel de gestão
+                </Button>
+              )}
+
               {/* Sino de notificações */}
               <button
                 className="relative inline-flex items-center justify-center w-10 h-10 rounded-full bg-white/10 border border-white/20 hover:bg-white/20"
@@ -681,6 +689,15 @@ export default function CollaboratorHome() {
                 )}
               </button>
 
+              <button
+                className="inline-flex items-center justify-center w-10 h-10 rounded-full bg-white/10 border border-white/20 hover:bg-white/20"
+                onClick={() => setIsSessionsOpen(true)}
+                aria-label="Minhas sessões"
+                title="Minhas sessões"
+              >
+                <Monitor className="w-5 h-5 text-white" />
+              </button>
+
                <div className="hidden sm:flex items-center space-x-2 text-blue-100">
                  <div className="w-2 h-2 bg-blue-300 rounded-full"></div>
                  <span className="text-sm font-medium">
@@ -710,8 +727,30 @@ export default function CollaboratorHome() {
          />
        </div>
 
+      <InactivityGuard enabled={isAuthenticated} onSessionEnd={(reason) => logout(reason)} />
+
+      {/* Modal de Sessões */}
+      <Dialog open={isSessionsOpen} onOpenChange={setIsSessionsOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Minhas sessões</DialogTitle>
+          </DialogHeader>
+          <UserSessionsPanel onCurrentSessionRevoked={() => logout('revoked')} />
+        </DialogContent>
+      </Dialog>
+
       {/* Modal de Notificações */}
-      <Dialog open={isNotificationsOpen} onOpenChange={setIsNotificationsOpen}>
+      <Dialog
+        open={isNotificationsOpen}
+        onOpenChange={(open) => {
+          setIsNotificationsOpen(open);
+          // Destaques de "novo" ficam visíveis até o modal ser fechado
+          if (!open) {
+            markComplimentsSeen();
+            markContestationsSeen();
+          }
+        }}
+      >
         <DialogContent className="max-w-xl">
           <DialogHeader>
             <DialogTitle>Notificações</DialogTitle>
@@ -728,7 +767,10 @@ export default function CollaboratorHome() {
                 {(compliments && compliments.length > 0) ? (
                   compliments.map((c) => (
                     <div key={c.$id} className="p-3 rounded border bg-green-50 border-green-200">
-                      <div className="text-sm font-medium">{c.message}</div>
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="text-sm font-medium">{c.message}</div>
+                        {newComplimentIds.has(c.$id) && <Badge className="bg-green-600 text-white">novo</Badge>}
+                      </div>
                       <div className="text-xs text-gray-600 mt-1">Recebido em {new Date((c as any).$createdAt || Date.now()).toLocaleString()}</div>
                     </div>
                   ))
@@ -748,7 +790,10 @@ export default function CollaboratorHome() {
                 {pendingContestations.length > 0 ? (
                   pendingContestations.map((ct) => (
                     <div key={ct.$id} className="p-3 rounded border bg-yellow-50 border-yellow-200">
-                      <div className="text-sm font-medium">Sua meta foi contestada</div>
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="text-sm font-medium">Sua meta foi contestada</div>
+                        {newContestationIds.has(ct.$id) && <Badge className="bg-yellow-600 text-white">nova</Badge>}
+                      </div>
                       <div className="text-xs text-gray-600 mt-1">Motivo: {ct.reason || 'Sem motivo informado'}</div>
                       <div className="text-xs text-gray-600">Status: {ct.status}</div>
                     </div>
@@ -781,6 +826,18 @@ export default function CollaboratorHome() {
                     <p className="text-green-800 font-medium">✅ Checklist já enviado hoje!</p>
                   </div>
                 )}
+
+                <div className="mt-4 empty:hidden">
+                  <OfflineQueueStatus
+                    queued={offlineQueue.queued}
+                    syncing={offlineQueue.syncing}
+                    isOnline={offlineQueue.isOnline}
+                    lastSync={offlineQueue.lastSync}
+                    onSync={offlineQueue.syncNow}
+                    onRetry={offlineQueue.retry}
+                    onDiscard={offlineQueue.discard}
+                  />
+                </div>
               </CardHeader>
               <CardContent>
                 {goalsLoading ? (
@@ -1244,6 +1301,16 @@ export default function CollaboratorHome() {
                                      <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                                      {formatCurrency(centavosToReais(reward.dailyValue))}/dia
                                    </span>
+                                   {reward.tierPayoutPercent !== undefined && (
+                                     <span className="text-purple-600 font-medium">
+                                       Faixa: {reward.tierPayoutPercent}% do valor
+                                     </span>
+                                   )}
+                                   {achievementRuleByGoal.has(reward.goalId) && (
+                                     <span className="text-gray-700">
+                                       Regra: {achievementRuleByGoal.get(reward.goalId)}
+                                     </span>
+                                   )}
                             </div>
                                 
                                 {reward.goalType === 'numeric' && reward.currentValue && (
@@ -1265,6 +1332,12 @@ export default function CollaboratorHome() {
                                 }`}>
                                   {reward.isEarned ? '✅ Ganho' : '⏳ Pendente'}
                                 </div>
+                                <div className="mt-1">
+                                  <RewardStatusBadge
+                                    status={findClosedReward(reward)?.status ?? null}
+                                    outdated={findClosedReward(reward)?.outdated}
+                                  />
+                                </div>
                             </div>
                           </div>
                         </div>
@@ -1285,6 +1358,28 @@ export default function CollaboratorHome() {
                       <div className="text-sm">Nenhuma meta com recompensa monetária encontrada</div>
                     </div>
                   )}
+
+                  {/* Recompensas dos meses fechados */}
+                  {closedRewards.length > 0 && (
+                    <div className="space-y-2 pt-4 border-t border-gray-200">
+                      <div className="text-sm font-medium text-gray-700">Meses Fechados:</div>
+                      {closedRewards.slice(0, 6).map(item => (
+                        <div key={item.key} className="flex items-center justify-between gap-3 border border-gray-200 rounded-lg p-3">
+                          <div className="min-w-0">
+                            <div className="text-sm font-semibold text-gray-800 truncate">{item.goalTitle}</div>
+                            <div className="text-xs text-gray-600">
+                              {item.closingPeriod} · {formatPeriodDisplay(item.periodType)}
+                              {item.status === 'rejected' && item.approval?.rejectionReason && ` · ${item.approval.rejectionReason}`}
+                            </div>
+                          </div>
+                          <div className="text-right shrink-0">
+                            <div className="text-sm font-bold text-green-600">{formatCurrency(item.amount, true)}</div>
+                            <RewardStatusBadge status={item.status} outdated={item.outdated} />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -1296,3 +1391,8 @@ export default function CollaboratorHome() {
     </div>
   );
 }
+
+// Perfil, metas e submissões buscados no servidor: o primeiro paint já traz dados reais
+export const getServerSideProps: GetServerSideProps<DashboardPageProps> = async ({ req }) => ({
+  props: { prefetch: await getProfileAndSubmissions(req, 'collaborator') }
+});
@@ -6,6 +6,7 @@
 
 import { useEffect, useState, useMemo, lazy, Suspense } from 'react';
 import { useRouter } from 'next/router';
+import type { GetServerSideProps } from 'next';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -14,28 +15,48 @@ import { Chart } from '@/components/Chart';
 import { useAuth } from '@/hooks/useAuth';
 import { useSubmissions } from '@/hooks/useSubmissions';
 import { useAllProfiles } from '@/hooks/useAllProfiles';
-import { format, subDays, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, eachDayOfInterval, differenceInDays, getDaysInMonth } from 'date-fns';
+import { format, subDays, subMonths, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, eachDayOfInterval, differenceInDays, getDaysInMonth } from 'date-fns';
 import { 
   Users, TrendingUp, Target, Award, BarChart3, Calendar, 
   Activity, PieChart, Trophy, TrendingDown, Eye, FileImage, User, Download,
   AlertTriangle, Clock, CheckCircle, XCircle, Star, Zap, ChevronDown, ChevronUp, Minimize2, Maximize2,
-  MessageSquare, Calendar as CalendarIcon, Filter, Search
+  MessageSquare, Calendar as CalendarIcon, Filter, Search, ShieldCheck, UserCog
 } from 'lucide-react';
 import { logger } from '@/lib/logger';
 import { Role } from '@/lib/roles';
-import { account } from '@/lib/appwrite';
+import { account, type Sector, type SectorGoal, type Submission } from '@/lib/appwrite';
 import { formatCurrency, centavosToReais } from '@/lib/currency';
 import { getFilePreview, getFileDownload } from '@/lib/appwrite';
 import { useSectorGoals } from '@/hooks/useSectorGoals';
-import { calculateUserRewards } from '@/lib/rewards';
+import { calculateUserRewards, getPeriodInterval, getSubmissionsRangeStart, isGoalAchievedInPeriod } from '@/lib/rewards';
+import { decodeChecklist, getSubmissionAnswers, hasGoalAnswer, answerToNumber, answerToBoolean, answerItems } from '@/lib/checklist-schema';
 import { useContestations } from '@/hooks/useContestations';
 import { ContestationModal } from '@/components/ContestationModal';
 import { useCompliments } from '@/hooks/useCompliments';
+import { usePermissions } from '@/hooks/usePermissions';
 import { useFeedback } from '@/components/FeedbackProvider';
+import { MfaSettings } from '@/components/MfaSettings';
+import { InactivityGuard } from '@/components/InactivityGuard';
+import { UserSessionsPanel } from '@/components/UserSessionsPanel';
+import { ManagerDelegationsPanel } from '@/components/ManagerDelegationsPanel';
+import { sectorDisplayNames } from '@/components/GoalForm';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { PayrollExportButtons } from '@/components/PayrollExportButtons';
+import { RewardApprovalsPanel } from '@/components/RewardApprovalsPanel';
+import { useDelegations } from '@/hooks/useDelegations';
+import { getOwnManagedSectors } from '@/lib/sectors';
+import { getProfileAndSubmissions, type DashboardPageProps } from '@/lib/server-helpers';
 
 // Lazy load dos componentes pesados para melhorar LCP
 const ProofImageViewer = lazy(() => import('@/components/ProofImageViewer'));
 
+// Metas com regra de atingimento configurada são avaliadas como no motor de recompensas, no período atual da meta
+const evaluateGoalRule = (goal: SectorGoal, goalSubmissions: Submission[]) => {
+  const { start, end } = getPeriodInterval(goal.period, goal.$createdAt!, new Date());
+  return isGoalAchievedInPeriod(goal, goalSubmissions, goal.assignedUserId!, start, end);
+};
+
 interface DashboardMetrics {
   taxaConclusao: number;
   usuariosAtivos: number;
@@ -86,19 +107,48 @@ interface ActionCard {
   color: string;
 }
 
-export default function ManagerDashboard() {
-  const { isAuthenticated, profile, logout, loading: authLoading } = useAuth();
+export default function ManagerDashboard({ prefetch }: DashboardPageProps) {
+  const { isAuthenticated, profile, logout, loading: authLoading } = useAuth({ initialProfile: prefetch?.profile });
   const router = useRouter();
+
+  // Setores geridos (próprios + recebidos por delegação) e setor exibido no painel
+  const { managedSectors, delegations, fetchDelegations } = useDelegations(prefetch?.managedSectors);
+  const { can } = usePermissions(profile);
+  const [selectedSector, setSelectedSector] = useState<Sector | ''>('');
+  const availableSectors = managedSectors.length > 0 ? managedSectors : (profile ? getOwnManagedSectors(profile) : []);
+  const activeSector = selectedSector && availableSectors.includes(selectedSector) ? selectedSector : availableSectors[0];
+  const receivedDelegations = delegations.filter(
+    d => d.delegateProfileId === profile?.$id && new Date(d.startsAt).getTime() <= Date.now()
+  );
   
+  const { goals: sectorGoals, loading: goalsLoading, fetchActiveGoalsBySector } = useSectorGoals(prefetch?.goals);
+
+  // Carrega apenas as submissões dos períodos exibidos no painel
+  const submissionsFrom = useMemo(() => getSubmissionsRangeStart(sectorGoals), [sectorGoals]);
   const {
     submissions,
-    loading: submissionsLoading
-  } = useSubmissions();
+    loading: submissionsLoading,
+    newSubmissionIds,
+    markSubmissionsSeen
+  } = useSubmissions({
+    sectors: managedSectors.length > 0 ? managedSectors : undefined,
+    from: submissionsFrom,
+    initialProfile: prefetch?.profile,
+    initialSubmissions: prefetch?.submissions
+  });
 
-  const { profiles, loading: profilesLoading } = useAllProfiles();
-  const { goals: sectorGoals, loading: goalsLoading, fetchActiveGoalsBySector } = useSectorGoals();
-  const { contestations, createContestation, updateContestation, isGoalContested } = useContestations();
+  const { profiles, loading: profilesLoading } = useAllProfiles(undefined, prefetch?.sectorProfiles);
+  const { contestations, createContestation, updateContestation, isGoalContested, newContestationIds, markContestationsSeen } = useContestations();
   const { createCompliment } = useCompliments();
+
+  // Submissões recebidas em tempo real ainda não vistas, por colaborador
+  const newSubmissionsByProfile = useMemo(() => {
+    const byProfile = new Map<string, string[]>();
+    submissions
+      .filter(sub => newSubmissionIds.has(sub.$id))
+      .forEach(sub => byProfile.set(sub.userProfile.$id, [...(byProfile.get(sub.userProfile.$id) ?? []), sub.$id]));
+    return byProfile;
+  }, [submissions, newSubmissionIds]);
   const complimentPresets = [
     { key: 'parabens', label: '🎉 Parabéns pelo excelente trabalho!' },
     { key: 'otimo', label: '👏 Ótimo desempenho hoje!' },
@@ -107,7 +157,15 @@ export default function ManagerDashboard() {
   const [selectedPreset, setSelectedPreset] = useState<string>('');
   const [customCompliment, setCustomCompliment] = useState<string>('');
   const [sendingComplimentTo, setSendingComplimentTo] = useState<string>('');
+  const [isSecurityModalOpen, setIsSecurityModalOpen] = useState(false);
+  const [isDelegationModalOpen, setIsDelegationModalOpen] = useState(false);
   const { toastSuccess, toastError } = useFeedback();
+
+  useEffect(() => {
+    if (profile) {
+      fetchDelegations();
+    }
+  }, [profile, fetchDelegations]);
   
   // Fallback para quando a collection não existe ainda
   const isGoalContestedSafe = (goalId: string, submissionId: string) => {
@@ -135,12 +193,12 @@ export default function ManagerDashboard() {
     return [];
   };
 
-  // Carregar metas do setor quando o componente montar
+  // Carregar metas do setor selecionado
   useEffect(() => {
-    if (profile && profile.sector) {
-      fetchActiveGoalsBySector(profile.sector);
+    if (activeSector) {
+      fetchActiveGoalsBySector(activeSector);
     }
-  }, [profile, fetchActiveGoalsBySector]);
+  }, [activeSector, fetchActiveGoalsBySector]);
 
   // Função helper para formatar mês em português
   const getMonthNameInPortuguese = (date: Date) => {
@@ -159,6 +217,8 @@ export default function ManagerDashboard() {
   const [isAttentionModalOpen, setIsAttentionModalOpen] = useState(false);
   const [isTopPerformersModalOpen, setIsTopPerformersModalOpen] = useState(false);
   const [isRewardsModalOpen, setIsRewardsModalOpen] = useState(false);
+  // Mês fechado exportado para a folha (padrão: mês anterior)
+  const [payrollPeriod, setPayrollPeriod] = useState(() => format(subMonths(new Date(), 1), 'yyyy-MM'));
   
   // Estados para detalhes de submissões
   const [selectedSubmission, setSelectedSubmission] = useState<any>(null);
@@ -287,14 +347,7 @@ export default function ManagerDashboard() {
     
     for (const goal of userGoals) {
       // Buscar submissões do colaborador para esta meta
-      const goalSubmissions = submissions.filter(sub => {
-        try {
-          const checklist = JSON.parse(sub.checklist);
-          return checklist[goal.$id!] !== undefined;
-        } catch {
-          return false;
-        }
-      });
+      const goalSubmissions = submissions.filter(sub => hasGoalAnswer(sub, goal.$id!));
       
       if (goalSubmissions.length === 0) {
         // Meta sem submissões
@@ -306,19 +359,15 @@ export default function ManagerDashboard() {
       let goalProgress = 0;
       let isGoalAchieved = false;
       
-      if (goal.type === 'numeric') {
+      if (goal.achievementRule) {
+        const result = evaluateGoalRule(goal, goalSubmissions);
+        goalProgress = result.progressPercent;
+        isGoalAchieved = result.achieved;
+      } else if (goal.type === 'numeric') {
         // Para metas numéricas, somar valores acumulados
         let totalValue = 0;
         goalSubmissions.forEach(sub => {
-          try {
-            const checklist = JSON.parse(sub.checklist);
-            const goalData = checklist[goal.$id!];
-            if (goalData !== undefined && goalData !== null) {
-              totalValue += parseFloat(goalData) || 0;
-            }
-          } catch {
-            // Ignora erros de parsing
-          }
+          totalValue += answerToNumber(getSubmissionAnswers(sub)[goal.$id!]);
         });
         
         goalProgress = Math.min((totalValue / goal.targetValue) * 100, 100);
@@ -326,45 +375,20 @@ export default function ManagerDashboard() {
       } else if (goal.type === 'percentage') {
         // Para metas de porcentagem, usar último valor
         const lastSubmission = goalSubmissions[goalSubmissions.length - 1];
-        try {
-          const checklist = JSON.parse(lastSubmission.checklist);
-          const goalData = checklist[goal.$id!];
-          goalProgress = parseFloat(goalData) || 0;
-          isGoalAchieved = goalProgress >= goal.targetValue;
-        } catch {
-          goalProgress = 0;
-        }
+        goalProgress = answerToNumber(getSubmissionAnswers(lastSubmission)[goal.$id!]);
+        isGoalAchieved = goalProgress >= goal.targetValue;
       } else if (goal.type === 'task_completion') {
         // Para tarefas, verificar se foi completada
         const lastSubmission = goalSubmissions[goalSubmissions.length - 1];
-        try {
-          const checklist = JSON.parse(lastSubmission.checklist);
-          const goalData = checklist[goal.$id!];
-          goalProgress = Boolean(goalData) ? 100 : 0;
-          isGoalAchieved = Boolean(goalData);
-        } catch {
-          goalProgress = 0;
-        }
+        isGoalAchieved = answerToBoolean(getSubmissionAnswers(lastSubmission)[goal.$id!]);
+        goalProgress = isGoalAchieved ? 100 : 0;
       } else if (goal.type === 'boolean_checklist') {
         // Para checklists, calcular porcentagem de itens completados
         const lastSubmission = goalSubmissions[goalSubmissions.length - 1];
-        try {
-          const checklist = JSON.parse(lastSubmission.checklist);
-          const goalData = checklist[goal.$id!];
-          
-          if (Array.isArray(goalData)) {
-            const completedItems = goalData.filter(Boolean).length;
-            goalProgress = (completedItems / goalData.length) * 100;
-            isGoalAchieved = completedItems === goalData.length;
-          } else if (typeof goalData === 'object') {
-            const completedItems = Object.values(goalData).filter(Boolean).length;
-            const totalItems = Object.keys(goalData).length;
-            goalProgress = totalItems > 0 ? (completedItems / totalItems) * 100 : 0;
-            isGoalAchieved = completedItems === totalItems;
-          }
-        } catch {
-          goalProgress = 0;
-        }
+        const items = Object.values(answerItems(getSubmissionAnswers(lastSubmission)[goal.$id!]));
+        const completedItems = items.filter(Boolean).length;
+        goalProgress = items.length > 0 ? (completedItems / items.length) * 100 : 0;
+        isGoalAchieved = completedItems === items.length;
       }
       
       totalProgress += goalProgress;
@@ -417,7 +441,7 @@ export default function ManagerDashboard() {
 
     // Filtrar colaboradores do setor do gestor
     const sectorCollaborators = profiles.filter(
-      p => p.sector === profile.sector && p.role === Role.COLLABORATOR
+      p => p.sector === activeSector && p.role === Role.COLLABORATOR
     );
 
     const allCollaborators = profiles.filter(p => p.role === Role.COLLABORATOR);
@@ -532,14 +556,7 @@ export default function ManagerDashboard() {
         }
 
         // Buscar todas as submissões do colaborador para esta meta
-        const goalSubmissions = submissions.filter(sub => {
-          try {
-            const checklist = JSON.parse(sub.checklist);
-            return checklist[goal.$id!] !== undefined;
-          } catch {
-            return false;
-          }
-        });
+        const goalSubmissions = submissions.filter(sub => hasGoalAnswer(sub, goal.$id!));
 
         if (goalSubmissions.length === 0) {
           continue; // Meta sem submissões
@@ -549,56 +566,27 @@ export default function ManagerDashboard() {
         let isGoalAchieved = false;
         let totalValue = 0;
 
-        if (goal.type === 'numeric') {
+        if (goal.achievementRule) {
+          isGoalAchieved = evaluateGoalRule(goal, goalSubmissions).achieved;
+        } else if (goal.type === 'numeric') {
           // Para metas numéricas: somar todos os valores
           goalSubmissions.forEach(sub => {
-            try {
-              const checklist = JSON.parse(sub.checklist);
-              const goalData = checklist[goal.$id!];
-              if (goalData !== undefined && goalData !== null) {
-                totalValue += parseFloat(goalData) || 0;
-              }
-            } catch {
-              // Ignora erros
-            }
+            totalValue += answerToNumber(getSubmissionAnswers(sub)[goal.$id!]);
           });
           isGoalAchieved = totalValue >= goal.targetValue;
         } else if (goal.type === 'percentage') {
           // Para metas de porcentagem: usar último valor
           const lastSubmission = goalSubmissions[goalSubmissions.length - 1];
-          try {
-            const checklist = JSON.parse(lastSubmission.checklist);
-            const goalData = checklist[goal.$id!];
-            totalValue = parseFloat(goalData) || 0;
-            isGoalAchieved = totalValue >= goal.targetValue;
-          } catch {
-            // Ignora erros
-          }
+          totalValue = answerToNumber(getSubmissionAnswers(lastSubmission)[goal.$id!]);
+          isGoalAchieved = totalValue >= goal.targetValue;
         } else if (goal.type === 'task_completion') {
           // Para tarefas: verificar se foi completada
           const lastSubmission = goalSubmissions[goalSubmissions.length - 1];
-          try {
-            const checklist = JSON.parse(lastSubmission.checklist);
-            const goalData = checklist[goal.$id!];
-            isGoalAchieved = Boolean(goalData);
-          } catch {
-            // Ignora erros
-          }
+          isGoalAchieved = answerToBoolean(getSubmissionAnswers(lastSubmission)[goal.$id!]);
         } else if (goal.type === 'boolean_checklist') {
           // Para checklists: verificar se todos os itens foram completados
           const lastSubmission = goalSubmissions[goalSubmissions.length - 1];
-          try {
-            const checklist = JSON.parse(lastSubmission.checklist);
-            const goalData = checklist[goal.$id!];
-            
-            if (Array.isArray(goalData)) {
-              isGoalAchieved = goalData.every(Boolean);
-            } else if (typeof goalData === 'object') {
-              isGoalAchieved = Object.values(goalData).every(Boolean);
-            }
-          } catch {
-            // Ignora erros
-          }
+          isGoalAchieved = Object.values(answerItems(getSubmissionAnswers(lastSubmission)[goal.$id!])).every(Boolean);
         }
 
         // Se a meta foi atingida, adicionar ao total pendente
@@ -657,7 +645,7 @@ export default function ManagerDashboard() {
     if (!profile || !profiles || !submissions) return [];
 
     const sectorCollaborators = profiles.filter(
-      p => p.sector === profile.sector && p.role === Role.COLLABORATOR
+      p => p.sector === activeSector && p.role === Role.COLLABORATOR
     );
 
     return Array.from({ length: 7 }, (_, i) => {
@@ -717,7 +705,7 @@ export default function ManagerDashboard() {
     const today = new Date();
     const threeDaysAgo = subDays(today, 3);
     const sectorCollaborators = profiles.filter(
-      p => p.sector === profile.sector && p.role === Role.COLLABORATOR
+      p => p.sector === activeSector && p.role === Role.COLLABORATOR
     );
 
     // Alerta: Colaboradores sem submissão há 3+ dias
@@ -789,7 +777,7 @@ export default function ManagerDashboard() {
     if (!profile || !profiles || !submissions) return [];
 
     const sectorCollaborators = profiles.filter(
-      p => p.sector === profile.sector && p.role === Role.COLLABORATOR
+      p => p.sector === activeSector && p.role === Role.COLLABORATOR
     );
 
     const rankings = sectorCollaborators.map(collab => {
@@ -857,7 +845,7 @@ export default function ManagerDashboard() {
     if (!profile || !profiles || !submissions) return [];
 
     const sectorCollaborators = profiles.filter(
-      p => p.sector === profile.sector && p.role === Role.COLLABORATOR
+      p => p.sector === activeSector && p.role === Role.COLLABORATOR
     );
 
     // Card 1: Colaboradores que precisam atenção
@@ -925,76 +913,56 @@ export default function ManagerDashboard() {
 
   // Função para sanitizar e formatar respostas do checklist
   const formatChecklistResponses = (checklistString: string) => {
-    try {
-      const responses = JSON.parse(checklistString);
-      const entries = Object.entries(responses);
-      
+    const decoded = decodeChecklist(checklistString);
+    if (!decoded.ok) {
+      return 'Formato de resposta inválido';
+    }
 
-      
-      if (entries.length === 0) return 'Nenhuma resposta registrada';
-      
-      // Agrupar itens de checklist por meta pai
-      const groupedResponses: any = {};
-      
-              entries.forEach(([key, value]) => {
-          // Verificar se é um item de checklist (formato: goalId-index)
-          if (key.includes('-') && key.length > 20) {
-            // Extrair o ID da meta pai (parte antes do hífen)
-            const goalId = key.split('-')[0];
-            
-            // Buscar a meta pai
-            const parentGoal = sectorGoals?.find(goal => goal.$id === goalId);
-            
-            if (parentGoal && parentGoal.type === 'boolean_checklist') {
-              // Agrupar sob a meta pai
-              if (!groupedResponses[parentGoal.$id!]) {
-                groupedResponses[parentGoal.$id!] = {
-                  goalTitle: parentGoal.title,
-                  goalDescription: parentGoal.description,
-                  items: {}
-                };
-              }
-              groupedResponses[parentGoal.$id!].items[key] = value;
-            } else {
-              // Se não encontrou a meta pai, manter como individual
-              groupedResponses[key] = value;
-            }
+    const entries = Object.entries(decoded.checklist.answers);
+    if (entries.length === 0) return 'Nenhuma resposta registrada';
+
+    // Respostas já vêm agrupadas por meta; itens de checklist ficam sob a meta pai
+    const groupedResponses: any = {};
+    entries.forEach(([key, value]) => {
+      const parentGoal = sectorGoals?.find(goal => goal.$id === key);
+      if (parentGoal && typeof value === 'object') {
+        groupedResponses[key] = {
+          goalTitle: parentGoal.title,
+          goalDescription: parentGoal.description,
+          items: value
+        };
+      } else {
+        groupedResponses[key] = value;
+      }
+    });
+
+    // Processar as respostas agrupadas
+    return Object.entries(groupedResponses).map(([key, value]) => {
+      let goalName = key;
+      let goalType = 'Meta Individual';
+      let isCompleted = false;
+
+      // Se é uma meta agrupada (checklist)
+      if (typeof value === 'object' && value !== null && 'goalTitle' in value) {
+        goalName = (value as any).goalTitle;
+        goalType = 'Meta de Checklist';
+        // Verificar se pelo menos um item está completo
+        isCompleted = Object.values((value as any).items).some(Boolean);
+      } else {
+        // Para metas individuais
+        isCompleted = value === true;
+
+        // Se for um ID de meta (formato UUID ou ObjectId), buscar no sectorGoals
+        if (key.length >= 20) {
+          const goal = sectorGoals?.find(g => g.$id === key);
+
+          if (goal) {
+            goalName = goal.title;
+            goalType = goal.scope === 'individual' ? 'Meta Individual' : 'Meta Setorial';
           } else {
-            // Para outros tipos, manter como está
-            groupedResponses[key] = value;
+            goalName = 'Meta não encontrada';
+            goalType = 'Meta Individual';
           }
-        });
-      
-      // Processar as respostas agrupadas
-      return Object.entries(groupedResponses).map(([key, value]) => {
-        let goalName = key;
-        let goalType = 'Meta Individual';
-        let isCompleted = false;
-        
-        // Se é uma meta agrupada (checklist)
-        if (typeof value === 'object' && value !== null && 'goalTitle' in value) {
-          goalName = (value as any).goalTitle;
-          goalType = 'Meta de Checklist';
-          // Verificar se pelo menos um item está completo
-          isCompleted = Object.values((value as any).items).some((itemValue: any) => 
-            itemValue === true || itemValue === 'true'
-          );
-
-        } else {
-          // Para metas individuais
-          isCompleted = value === true || value === 'true';
-          
-          // Se for um ID de meta (formato UUID ou ObjectId), buscar no sectorGoals
-          if (key.length >= 20) {
-            const goal = sectorGoals?.find(g => g.$id === key);
-            
-            if (goal) {
-              goalName = goal.title;
-              goalType = goal.scope === 'individual' ? 'Meta Individual' : 'Meta Setorial';
-            } else {
-              goalName = 'Meta não encontrada';
-              goalType = 'Meta Individual';
-            }
         } else {
           // Limpar e formatar nomes de checklist
           goalName = key
@@ -1004,22 +972,19 @@ export default function ManagerDashboard() {
             .trim()
             .toLowerCase()
             .replace(/\b\w/g, l => l.toUpperCase()); // Capitaliza primeira letra de cada palavra
-          }
-        }
-        
-        const status = isCompleted ? '✅' : '❌';
-        
-        return { status, goalName, isCompleted, goalType, goalId: key };
-      }).sort((a, b) => {
-        // Ordena: concluídas primeiro, depois por nome
-        if (a.isCompleted !== b.isCompleted) {
-          return b.isCompleted ? 1 : -1;
         }
-        return a.goalName.localeCompare(b.goalName);
-      });
-    } catch (error) {
-      return 'Formato de resposta inválido';
-    }
+      }
+
+      const status = isCompleted ? '✅' : '❌';
+
+      return { status, goalName, isCompleted, goalType, goalId: key };
+    }).sort((a, b) => {
+      // Ordena: concluídas primeiro, depois por nome
+      if (a.isCompleted !== b.isCompleted) {
+        return b.isCompleted ? 1 : -1;
+      }
+      return a.goalName.localeCompare(b.goalName);
+    });
   };
 
   // Funções para lidar com os cliques dos botões dos cards
@@ -1062,7 +1027,7 @@ export default function ManagerDashboard() {
     if (!profile || !profiles || !sectorGoals || !submissions) return [];
     
     const sectorCollaborators = profiles.filter(
-      p => p.sector === profile.sector && p.role === Role.COLLABORATOR
+      p => p.sector === activeSector && p.role === Role.COLLABORATOR
     );
 
     const collaboratorsWithRewards = [];
@@ -1083,14 +1048,7 @@ export default function ManagerDashboard() {
       }
 
       // Buscar todas as submissões do colaborador para esta meta
-      const goalSubmissions = submissions.filter(sub => {
-        try {
-          const checklist = JSON.parse(sub.checklist);
-          return checklist[goal.$id!] !== undefined;
-        } catch {
-          return false;
-        }
-      });
+      const goalSubmissions = submissions.filter(sub => hasGoalAnswer(sub, goal.$id!));
 
       if (goalSubmissions.length === 0) {
         continue; // Meta sem submissões
@@ -1100,56 +1058,27 @@ export default function ManagerDashboard() {
       let isGoalAchieved = false;
       let totalValue = 0;
 
-      if (goal.type === 'numeric') {
+      if (goal.achievementRule) {
+        isGoalAchieved = evaluateGoalRule(goal, goalSubmissions).achieved;
+      } else if (goal.type === 'numeric') {
         // Para metas numéricas: somar todos os valores
         goalSubmissions.forEach(sub => {
-          try {
-            const checklist = JSON.parse(sub.checklist);
-            const goalData = checklist[goal.$id!];
-            if (goalData !== undefined && goalData !== null) {
-              totalValue += parseFloat(goalData) || 0;
-            }
-          } catch {
-            // Ignora erros
-          }
+          totalValue += answerToNumber(getSubmissionAnswers(sub)[goal.$id!]);
         });
         isGoalAchieved = totalValue >= goal.targetValue;
       } else if (goal.type === 'percentage') {
         // Para metas de porcentagem: usar último valor
         const lastSubmission = goalSubmissions[goalSubmissions.length - 1];
-        try {
-          const checklist = JSON.parse(lastSubmission.checklist);
-          const goalData = checklist[goal.$id!];
-          totalValue = parseFloat(goalData) || 0;
-          isGoalAchieved = totalValue >= goal.targetValue;
-        } catch {
-          // Ignora erros
-        }
+        totalValue = answerToNumber(getSubmissionAnswers(lastSubmission)[goal.$id!]);
+        isGoalAchieved = totalValue >= goal.targetValue;
       } else if (goal.type === 'task_completion') {
         // Para tarefas: verificar se foi completada
         const lastSubmission = goalSubmissions[goalSubmissions.length - 1];
-        try {
-          const checklist = JSON.parse(lastSubmission.checklist);
-          const goalData = checklist[goal.$id!];
-          isGoalAchieved = Boolean(goalData);
-        } catch {
-          // Ignora erros
-        }
+        isGoalAchieved = answerToBoolean(getSubmissionAnswers(lastSubmission)[goal.$id!]);
       } else if (goal.type === 'boolean_checklist') {
         // Para checklists: verificar se todos os itens foram completados
         const lastSubmission = goalSubmissions[goalSubmissions.length - 1];
-        try {
-          const checklist = JSON.parse(lastSubmission.checklist);
-          const goalData = checklist[goal.$id!];
-          
-          if (Array.isArray(goalData)) {
-            isGoalAchieved = goalData.every(Boolean);
-          } else if (typeof goalData === 'object') {
-            isGoalAchieved = Object.values(goalData).every(Boolean);
-          }
-        } catch {
-          // Ignora erros
-        }
+        isGoalAchieved = Object.values(answerItems(getSubmissionAnswers(lastSubmission)[goal.$id!])).every(Boolean);
       }
 
       // Se a meta foi atingida, adicionar ao array
@@ -1256,7 +1185,7 @@ export default function ManagerDashboard() {
               </div>
               <div>
                   <h1 className="text-2xl font-bold text-white">
-                  Dashboard Gerencial - {profile.sector}
+                  Dashboard Gerencial - {activeSector}
                 </h1>
                   <div className="flex items-center space-x-2 text-white/90">
                     <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
@@ -1275,6 +1204,34 @@ export default function ManagerDashboard() {
                   {format(new Date(), 'dd/MM/yyyy')}
                 </span>
               </div>
+              {availableSectors.length > 1 && (
+                <Select value={activeSector} onValueChange={(value) => setSelectedSector(value as Sector)}>
+                  <SelectTrigger className="w-44 bg-white/10 border-white/20 text-white">
+                    <SelectValue placeholder="Setor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableSectors.map(sector => (
+                      <SelectItem key={sector} value={sector}>{sectorDisplayNames[sector]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                onClick={() => setIsDelegationModalOpen(true)}
+                variant="outline"
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20 hover:border-white/30 transition-all duration-200"
+                title="Delegações de gestão"
+              >
+                <UserCog className="w-4 h-4" />
+              </Button>
+              <Button
+                onClick={() => setIsSecurityModalOpen(true)}
+                variant="outline"
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20 hover:border-white/30 transition-all duration-200"
+                title="Verificação em duas etapas"
+              >
+                <ShieldCheck className="w-4 h-4" />
+              </Button>
               <Button 
                 onClick={handleLogout} 
                 variant="outline"
@@ -1291,6 +1248,18 @@ export default function ManagerDashboard() {
       </div>
 
       <div className="w-full px-4 sm:px-6 lg:px-8 py-8">
+
+        {/* Aviso de gestão por delegação */}
+        {receivedDelegations.length > 0 && (
+          <div className="mb-6 p-4 rounded-lg border border-amber-200 bg-amber-50 text-amber-900 text-sm">
+            {receivedDelegations.map(d => (
+              <p key={d.$id}>
+                Você está substituindo <strong>{d.managerName}</strong> em {d.sectors.join(', ')} até{' '}
+                {format(new Date(d.endsAt), 'dd/MM/yyyy')}.
+              </p>
+            ))}
+          </div>
+        )}
         
         {/* Cards de Ação Rápida - Layout Moderno */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
@@ -1570,6 +1539,11 @@ export default function ManagerDashboard() {
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
+                  {newContestationIds.size > 0 && (
+                    <Badge className="bg-orange-600 text-white">
+                      {newContestationIds.size === 1 ? '1 atualização nova' : `${newContestationIds.size} atualizações novas`}
+                    </Badge>
+                  )}
                   <Badge variant="outline" className="bg-orange-100 text-orange-700 border-orange-300">
                     {contestations.filter(c => c.status === 'pending').length} Pendentes
                   </Badge>
@@ -1645,22 +1619,24 @@ export default function ManagerDashboard() {
                     <div className="flex items-center gap-3">
                       <div className="w-1 h-8 bg-gradient-to-b from-yellow-500 to-orange-500 rounded-full"></div>
                       <div>
-                        <span className="text-xl font-bold text-gray-900">Ranking - {profile.sector}</span>
+                        <span className="text-xl font-bold text-gray-900">Ranking - {activeSector}</span>
                         <p className="text-sm font-normal text-gray-600 mt-1">
                         Ranking completo de colaboradores por performance
                         </p>
                       </div>
                     </div>
-                    <div>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="border-blue-300 text-blue-700 hover:bg-blue-50"
-                        onClick={() => setIsComplimentModalOpen(true)}
-                      >
-                        Elogiar
-                      </Button>
-                    </div>
+                    {can('compliments.send') && (
+                      <div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="border-blue-300 text-blue-700 hover:bg-blue-50"
+                          onClick={() => setIsComplimentModalOpen(true)}
+                        >
+                          Elogiar
+                        </Button>
+                      </div>
+                    )}
                   </CardTitle>
                 </CardHeader>
               
@@ -1701,8 +1677,13 @@ export default function ManagerDashboard() {
                       <div className="flex items-center justify-between ml-6">
                         <div className="flex items-center gap-4">
                           <div className="flex-1">
-                            <h3 className="font-semibold text-lg text-gray-900 group-hover:text-blue-700 transition-colors">
+                            <h3 className="font-semibold text-lg text-gray-900 group-hover:text-blue-700 transition-colors flex items-center gap-2">
                               {ranking.name}
+                              {newSubmissionsByProfile.has(ranking.id) && (
+                                <Badge className="bg-purple-600 text-white text-xs">
+                                  {newSubmissionsByProfile.get(ranking.id)!.length === 1 ? 'nova submissão' : `${newSubmissionsByProfile.get(ranking.id)!.length} novas submissões`}
+                                </Badge>
+                              )}
                             </h3>
                             <div className="flex items-center gap-4 mt-1">
                               <div className="flex items-center gap-1">
@@ -1990,7 +1971,14 @@ export default function ManagerDashboard() {
         </div>
 
         {/* Modal de Detalhes do Colaborador - Design Moderno */}
-        <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <Dialog
+          open={isModalOpen}
+          onOpenChange={(open) => {
+            setIsModalOpen(open);
+            // Submissões exibidas no perfil deixam de ser "novas" ao fechar o modal
+            if (!open) markSubmissionsSeen(filteredSubmissions.map(sub => sub.$id));
+          }}
+        >
           <DialogContent className="max-w-6xl max-h-[95vh] overflow-y-auto bg-white border-0 shadow-xl">
             <DialogHeader className="pb-6 border-b border-gray-200">
               <DialogTitle className="flex items-center gap-4 text-2xl">
@@ -2171,6 +2159,9 @@ export default function ManagerDashboard() {
                                       <Badge variant="outline" className="text-xs px-2 py-0.5 bg-purple-50 text-purple-700 border-purple-200">
                                         {format(new Date(submission.date), 'HH:mm')}
                                       </Badge>
+                                      {newSubmissionIds.has(submission.$id) && (
+                                        <Badge className="text-xs px-2 py-0.5 bg-purple-600 text-white">nova</Badge>
+                                      )}
                                     </div>
                                     <div className="flex items-center gap-4 text-xs text-gray-600">
                                       <span>✅ {completed}/{total} metas</span>
@@ -2444,7 +2435,7 @@ export default function ManagerDashboard() {
                                             : '❌ Pendente'
                                         }
                                       </Badge>
-                                      {!isContested && response.isCompleted && (
+                                      {!isContested && response.isCompleted && can('contestations.create') && (
                                         <Button
                                           size="sm"
                                           variant="outline"
@@ -2619,6 +2610,51 @@ export default function ManagerDashboard() {
             </DialogHeader>
             
             <div className="space-y-4">
+              {can('rewards.approve') && activeSector && (
+                <div className="space-y-3 p-4 rounded-xl border border-gray-200 bg-gray-50">
+                  <div>
+                    <p className="font-semibold text-gray-900">Aprovação do mês fechado</p>
+                    <p className="text-sm text-gray-600">
+                      Aprove ou rejeite as recompensas apuradas de {sectorDisplayNames[activeSector]} antes da liberação pelo financeiro
+                    </p>
+                  </div>
+                  <RewardApprovalsPanel mode="approve" sector={activeSector} />
+                </div>
+              )}
+
+              {can('rewards.release') && (
+                <div className="space-y-3 p-4 rounded-xl border border-gray-200 bg-gray-50">
+                  <div>
+                    <p className="font-semibold text-gray-900">Fila do financeiro</p>
+                    <p className="text-sm text-gray-600">
+                      Recompensas aprovadas aguardando liberação e liberadas aguardando pagamento
+                    </p>
+                  </div>
+                  <RewardApprovalsPanel mode="release" />
+                </div>
+              )}
+
+              {can('rewards.release') && activeSector && (
+                <div className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-xl border border-gray-200 bg-gray-50">
+                  <div>
+                    <p className="font-semibold text-gray-900">Folha de pagamento</p>
+                    <p className="text-sm text-gray-600">
+                      Exporta as recompensas liberadas do mês fechado de {sectorDisplayNames[activeSector]} para o importador da folha
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      type="month"
+                      value={payrollPeriod}
+                      onChange={(e) => setPayrollPeriod(e.target.value)}
+                      className="bg-white w-44"
+                      aria-label="Mês da folha"
+                    />
+                    <PayrollExportButtons closingPeriod={payrollPeriod} sector={activeSector} />
+                  </div>
+                </div>
+              )}
+
               {getCollaboratorsWithRewards().length === 0 ? (
                 <div className="text-center py-8">
                   <Award className="w-12 h-12 text-green-500 mx-auto mb-4" />
@@ -2716,7 +2752,13 @@ export default function ManagerDashboard() {
         />
 
         {/* Modal de Gerenciamento de Contestações */}
-        <Dialog open={isContestationManagementOpen} onOpenChange={setIsContestationManagementOpen}>
+        <Dialog
+          open={isContestationManagementOpen}
+          onOpenChange={(open) => {
+            setIsContestationManagementOpen(open);
+            if (!open) markContestationsSeen();
+          }}
+        >
           <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="flex items-center gap-2">
@@ -2777,8 +2819,11 @@ export default function ManagerDashboard() {
                                 <AlertTriangle className="w-4 h-4 text-orange-600" />
                               </div>
                               <div className="flex-1">
-                                <h4 className="font-semibold text-gray-900 text-lg">
+                                <h4 className="font-semibold text-gray-900 text-lg flex items-center gap-2">
                                   {getGoalName(contestation.goalId)}
+                                  {newContestationIds.has(contestation.$id) && (
+                                    <Badge className="bg-orange-600 text-white text-xs">nova</Badge>
+                                  )}
                                 </h4>
                                 <p className="text-sm text-gray-600">
                                   Colaborador: <span className="font-medium">{getCollaboratorName(contestation.collaboratorId)}</span>
@@ -2874,7 +2919,7 @@ export default function ManagerDashboard() {
                           </div>
 
                           {/* Ações */}
-                          {contestation.status === 'pending' && (
+                          {contestation.status === 'pending' && can('contestations.resolve') && (
                             <div className="flex flex-col gap-2 ml-4">
                               <Button
                                 size="sm"
@@ -2906,7 +2951,50 @@ export default function ManagerDashboard() {
           </DialogContent>
         </Dialog>
 
+        {/* Modal de Delegações */}
+        <Dialog open={isDelegationModalOpen} onOpenChange={setIsDelegationModalOpen}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Delegações de gestão</DialogTitle>
+              <DialogDescription>
+                Repasse temporariamente a gestão dos seus setores a um substituto (férias, ausências)
+              </DialogDescription>
+            </DialogHeader>
+            {isDelegationModalOpen && (
+              <ManagerDelegationsPanel mode="manager" profile={profile} profiles={profiles} />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Modal de Segurança da Conta */}
+        <Dialog open={isSecurityModalOpen} onOpenChange={setIsSecurityModalOpen}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Segurança da conta</DialogTitle>
+              <DialogDescription>
+                Gerencie a verificação em duas etapas e as sessões abertas nos seus dispositivos
+              </DialogDescription>
+            </DialogHeader>
+            {isSecurityModalOpen && (
+              <div className="space-y-6">
+                <MfaSettings />
+                <div className="space-y-2">
+                  <h3 className="font-semibold">Minhas sessões</h3>
+                  <UserSessionsPanel onCurrentSessionRevoked={() => logout('revoked')} />
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <InactivityGuard enabled={isAuthenticated} onSessionEnd={(reason) => logout(reason)} />
+
       </div>
     </div>
   );
 }
+
+// Perfil, metas, equipe e submissões buscados no servidor: o primeiro paint já traz dados reais
+export const getServerSideProps: GetServerSideProps<DashboardPageProps> = async ({ req }) => ({
+  props: { prefetch: await getProfileAndSubmissions(req, 'manager') }
+});
@@ -42,5 +42,7 @@ export default function Login() {
     return null; // Redirecionamento acontecerá via useEffect
   }
 
-  return <LoginForm />;
+  const sessionEndReason = typeof router.query.reason === 'string' ? router.query.reason : undefined;
+
+  return <LoginForm sessionEndReason={sessionEndReason} />;
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * Página de redefinição de senha
+ * Define uma nova senha a partir do token recebido por e-mail
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound } from 'lucide-react';
+import { NewPasswordFields } from '@/components/NewPasswordFields';
+import { apiRequest } from '@/lib/api-client';
+import { validatePassword } from '@/lib/password-policy';
+
+export default function ResetPassword() {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const policyError = validatePassword(password);
+    if (policyError) {
+      setError(policyError);
+      return;
+    }
+    if (password !== confirmation) {
+      setError('As senhas não conferem.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await apiRequest('/api/auth/password-reset/confirm', { method: 'POST', body: { token, password } });
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao redefinir senha');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center">
+          <KeyRound className="h-10 w-10 text-bovia-primary mx-auto mb-2" />
+          <CardTitle className="text-2xl text-bovia-primary">Nova senha</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {done ? (
+            <div className="space-y-4">
+              <Alert className="border-green-200 bg-green-50">
+                <AlertDescription className="text-green-800">
+                  Senha redefinida com sucesso! Faça login com a nova senha.
+                </AlertDescription>
+              </Alert>
+              <Button asChild className="w-full bg-bovia-primary hover:bg-bovia-dark text-white">
+                <Link href="/login">Ir para o login</Link>
+              </Button>
+            </div>
+          ) : !token && router.isReady ? (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-700">
+                Link de redefinição inválido. <Link href="/forgot-password" className="underline">Solicite um novo link</Link>.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <NewPasswordFields
+                password={password}
+                confirmation={confirmation}
+                onPasswordChange={setPassword}
+                onConfirmationChange={setConfirmation}
+                disabled={loading}
+              />
+
+              {error && (
+                <Alert className="border-red-200 bg-red-50">
+                  <AlertDescription className="text-red-700">{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button type="submit" className="w-full bg-bovia-primary hover:bg-bovia-dark text-white" disabled={loading}>
+                {loading ? 'Salvando...' : 'Redefinir senha'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
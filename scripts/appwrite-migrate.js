@@ -0,0 +1,234 @@
+/**
+ * Cria/atualiza o banco, coleções, atributos, índices e bucket do Appwrite
+ * Aplica em ordem as versões de scripts/appwrite-schema.js ainda não registradas em schema_migrations.
+ * Cada passo é idempotente: recursos existentes são mantidos (enums recebem os valores novos)
+ * Uso: npm run appwrite:migrate            (aplica as versões pendentes)
+ *      npm run appwrite:migrate -- --status (lista as versões aplicadas e pendentes)
+ */
+
+const { loadEnvConfig } = require('@next/env');
+const { Client, Databases, Storage, Query } = require('node-appwrite');
+const { assertAppwriteEnv } = require('../lib/appwrite-env');
+const { collections, buckets, migrations, MIGRATIONS_COLLECTION } = require('./appwrite-schema');
+
+// Mesmo carregamento de .env* do Next.js
+loadEnvConfig(process.cwd());
+
+const statusOnly = process.argv.includes('--status');
+
+try {
+  assertAppwriteEnv();
+  if (!process.env.APPWRITE_KEY) {
+    throw new Error('APPWRITE_KEY não definida (chave de API com escopos de databases e storage)');
+  }
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
+
+const client = new Client()
+  .setEndpoint(process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT)
+  .setProject(process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID)
+  .setKey(process.env.APPWRITE_KEY);
+
+const databases = new Databases(client);
+const storage = new Storage(client);
+const databaseId = process.env.NEXT_PUBLIC_APPWRITE_DATABASE_ID;
+
+const collectionId = (key) => process.env[collections[key].env];
+
+const isNotFound = (error) => error && error.code === 404;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const ensureDatabase = async () => {
+  try {
+    await databases.get(databaseId);
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+    await databases.create(databaseId, 'metasti');
+    console.log(`  + banco ${databaseId}`);
+  }
+};
+
+const ensureCollection = async (id, name, permissions) => {
+  try {
+    await databases.getCollection(databaseId, id);
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+    await databases.createCollection(databaseId, id, name, permissions, false);
+    console.log(`  + coleção ${name} (${id})`);
+  }
+};
+
+const createAttribute = (id, attribute) => {
+  const { key, required = false, array = false } = attribute;
+  const xdefault = required ? undefined : attribute.default;
+
+  switch (attribute.type) {
+    case 'string':
+      return databases.createStringAttribute(databaseId, id, key, attribute.size, required, xdefault, array);
+    case 'integer':
+      return databases.createIntegerAttribute(databaseId, id, key, required, attribute.min, attribute.max, xdefault, array);
+    case 'float':
+      return databases.createFloatAttribute(databaseId, id, key, required, attribute.min, attribute.max, xdefault, array);
+    case 'boolean':
+      return databases.createBooleanAttribute(databaseId, id, key, required, xdefault, array);
+    case 'datetime':
+      return databases.createDatetimeAttribute(databaseId, id, key, required, xdefault, array);
+    case 'enum':
+      return databases.createEnumAttribute(databaseId, id, key, attribute.elements, required, xdefault, array);
+    case 'relationship':
+      return databases.createRelationshipAttribute(databaseId, id, collectionId(attribute.relatedCollection), attribute.relationType, false, key);
+    default:
+      throw new Error(`Tipo de atributo desconhecido: ${attribute.type}`);
+  }
+};
+
+const ensureAttributes = async (id, attributes) => {
+  const { attributes: existing } = await databases.listAttributes(databaseId, id, [Query.limit(500)]);
+  const byKey = new Map(existing.map(attribute => [attribute.key, attribute]));
+
+  for (const attribute of attributes) {
+    const current = byKey.get(attribute.key);
+    if (!current) {
+      await createAttribute(id, attribute);
+      console.log(`  + atributo ${attribute.key}`);
+      continue;
+    }
+    // Enums existentes recebem os valores que faltam (os atuais são mantidos)
+    if (attribute.type === 'enum' && Array.isArray(current.elements)) {
+      const missing = attribute.elements.filter(element => !current.elements.includes(element));
+      if (missing.length > 0) {
+        await databases.updateEnumAttribute(
+          databaseId, id, attribute.key, [...current.elements, ...missing], current.required, current.required ? undefined : current.default ?? undefined
+        );
+        console.log(`  ~ enum ${attribute.key}: ${missing.join(', ')}`);
+      }
+    }
+  }
+};
+
+// Atributos são criados de forma assíncrona; índices exigem que estejam disponíveis
+const waitForAttributes = async (id, keys) => {
+  for (let attempt = 0; attempt < 60; attempt++) {
+    const { attributes } = await databases.listAttributes(databaseId, id, [Query.limit(500)]);
+    const pending = attributes.filter(attribute => keys.includes(attribute.key) && attribute.status !== 'available');
+    const failed = pending.filter(attribute => attribute.status === 'failed');
+    if (failed.length > 0) {
+      throw new Error(`Falha ao criar atributos: ${failed.map(attribute => attribute.key).join(', ')}`);
+    }
+    if (pending.length === 0) return;
+    await sleep(1000);
+  }
+  throw new Error(`Tempo esgotado aguardando os atributos da coleção ${id}`);
+};
+
+const ensureIndexes = async (id, indexes) => {
+  const { indexes: existing } = await databases.listIndexes(databaseId, id);
+  const existingKeys = new Set(existing.map(index => index.key));
+
+  for (const index of indexes) {
+    if (existingKeys.has(index.key)) continue;
+    await waitForAttributes(id, index.attributes);
+    await databases.createIndex(databaseId, id, index.key, index.type, index.attributes);
+    console.log(`  + índice ${index.key}`);
+  }
+};
+
+const ensureBucket = async (key) => {
+  const { env, name, permissions } = buckets[key];
+  const id = process.env[env];
+  try {
+    await storage.getBucket(id);
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+    await storage.createBucket(id, name, permissions, false, true);
+    console.log(`  + bucket ${name} (${id})`);
+  }
+};
+
+// Permissões de coleções existentes (createCollection só as aplica na criação)
+const updateCollectionPermissions = async (key) => {
+  const { name, permissions } = collections[key];
+  const id = collectionId(key);
+  await ensureCollection(id, name, permissions);
+  await databases.updateCollection(databaseId, id, name, permissions, false);
+  console.log(`  ~ permissões ${name}`);
+};
+
+const applyMigration = async (migration) => {
+  for (const [key, changes] of Object.entries(migration.collections || {})) {
+    const { name, permissions } = collections[key];
+    const id = collectionId(key);
+    await ensureCollection(id, name, permissions);
+    await ensureAttributes(id, changes.attributes || []);
+    await ensureIndexes(id, changes.indexes || []);
+  }
+  for (const key of migration.buckets || []) {
+    await ensureBucket(key);
+  }
+  for (const key of migration.permissions || []) {
+    await updateCollectionPermissions(key);
+  }
+};
+
+// Coleção de controle: um documento por versão aplicada (ID = v<versão>)
+const ensureMigrationsCollection = async () => {
+  const { id, name } = MIGRATIONS_COLLECTION;
+  await ensureCollection(id, name, []);
+  await ensureAttributes(id, [
+    { type: 'integer', key: 'version', required: true },
+    { type: 'string', key: 'description', size: 500, required: true },
+    { type: 'datetime', key: 'appliedAt', required: true }
+  ]);
+  await waitForAttributes(id, ['version', 'description', 'appliedAt']);
+};
+
+const listAppliedVersions = async () => {
+  try {
+    const { documents } = await databases.listDocuments(databaseId, MIGRATIONS_COLLECTION.id, [Query.limit(500)]);
+    return new Set(documents.map(document => document.version));
+  } catch (error) {
+    if (isNotFound(error)) return new Set();
+    throw error;
+  }
+};
+
+const main = async () => {
+  console.log(`Appwrite: ${process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT} (projeto ${process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID}, banco ${databaseId})`);
+
+  if (statusOnly) {
+    const applied = await listAppliedVersions();
+    migrations.forEach(migration => {
+      console.log(`${applied.has(migration.version) ? '[x]' : '[ ]'} v${migration.version} ${migration.description}`);
+    });
+    return;
+  }
+
+  await ensureDatabase();
+  await ensureMigrationsCollection();
+
+  const applied = await listAppliedVersions();
+  const pending = migrations.filter(migration => !applied.has(migration.version));
+  if (pending.length === 0) {
+    console.log('Schema atualizado: nenhuma migração pendente.');
+    return;
+  }
+
+  for (const migration of pending) {
+    console.log(`v${migration.version} ${migration.description}`);
+    await applyMigration(migration);
+    await databases.createDocument(databaseId, MIGRATIONS_COLLECTION.id, `v${migration.version}`, {
+      version: migration.version,
+      description: migration.description,
+      appliedAt: new Date().toISOString()
+    });
+  }
+  console.log(`${pending.length} migração(ões) aplicada(s).`);
+};
+
+main().catch((error) => {
+  console.error('Erro ao migrar o schema do Appwrite:', error.message || error);
+  process.exit(1);
+});
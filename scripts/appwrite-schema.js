@@ -0,0 +1,396 @@
+/**
+ * Schema do Appwrite em migrações versionadas
+ * Cada versão declara as coleções, atributos, índices e bucket que introduziu; os IDs vêm
+ * das mesmas variáveis de ambiente de lib/appwrite.ts. Aplicado por scripts/appwrite-migrate.js.
+ * Novas mudanças de schema entram como uma nova versão no fim da lista (nunca editar versões aplicadas).
+ * `permissions` lista as coleções cujas permissões (declaradas em `collections`) são reaplicadas na versão
+ */
+
+const { Permission, Role } = require('node-appwrite');
+
+// Valores dos enums de lib/appwrite.ts
+const GOAL_TYPES = ['numeric', 'boolean_checklist', 'task_completion', 'percentage'];
+const GOAL_PERIODS = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly'];
+const GOAL_SCOPES = ['sector', 'individual'];
+const ACHIEVEMENT_RULES = ['all_days', 'min_days', 'working_days_percent', 'cumulative_target', 'last_measurement'];
+const CONTESTATION_STATUSES = ['pending', 'resolved', 'dismissed'];
+const CUSTOM_ROLE_BASES = ['collaborator', 'manager'];
+const REWARD_LEDGER_ENTRY_TYPES = ['closing', 'adjustment'];
+const REWARD_APPROVAL_STATUSES = ['approved', 'released', 'paid', 'rejected'];
+
+// Permissões de coleção: leitura/escrita do cliente autenticado ou apenas servidor (API key)
+const usersCanRead = [Permission.read(Role.users())];
+const usersCanCreate = [...usersCanRead, Permission.create(Role.users())];
+const usersCanWrite = [...usersCanCreate, Permission.update(Role.users())];
+const serverOnly = [];
+
+// Coleções: chave → variável com o ID, nome exibido e permissões aplicadas na criação
+const collections = {
+  user_profiles: { env: 'NEXT_PUBLIC_APPWRITE_PROFILES_COLLECTION_ID', name: 'user_profiles', permissions: usersCanRead },
+  sector_goals: { env: 'NEXT_PUBLIC_APPWRITE_SECTOR_GOALS_COLLECTION_ID', name: 'sector_goals', permissions: usersCanRead },
+  submissions: { env: 'NEXT_PUBLIC_APPWRITE_SUBMISSIONS_COLLECTION_ID', name: 'submissions', permissions: usersCanRead },
+  goal_answers: { env: 'NEXT_PUBLIC_APPWRITE_GOAL_ANSWERS_COLLECTION_ID', name: 'goal_answers', permissions: usersCanRead },
+  contestations: { env: 'NEXT_PUBLIC_APPWRITE_CONTESTATIONS_COLLECTION_ID', name: 'contestations', permissions: usersCanRead },
+  compliments: { env: 'NEXT_PUBLIC_APPWRITE_COMPLIMENTS_COLLECTION_ID', name: 'compliments', permissions: usersCanWrite },
+  audit_logs: { env: 'NEXT_PUBLIC_APPWRITE_AUDIT_LOGS_COLLECTION_ID', name: 'audit_logs', permissions: serverOnly },
+  login_attempts: { env: 'NEXT_PUBLIC_APPWRITE_LOGIN_ATTEMPTS_COLLECTION_ID', name: 'login_attempts', permissions: serverOnly },
+  user_mfa: { env: 'NEXT_PUBLIC_APPWRITE_USER_MFA_COLLECTION_ID', name: 'user_mfa', permissions: serverOnly },
+  app_settings: { env: 'NEXT_PUBLIC_APPWRITE_APP_SETTINGS_COLLECTION_ID', name: 'app_settings', permissions: serverOnly },
+  password_resets: { env: 'NEXT_PUBLIC_APPWRITE_PASSWORD_RESETS_COLLECTION_ID', name: 'password_resets', permissions: serverOnly },
+  manager_delegations: { env: 'NEXT_PUBLIC_APPWRITE_MANAGER_DELEGATIONS_COLLECTION_ID', name: 'manager_delegations', permissions: serverOnly },
+  custom_roles: { env: 'NEXT_PUBLIC_APPWRITE_CUSTOM_ROLES_COLLECTION_ID', name: 'custom_roles', permissions: serverOnly },
+  session_activity: { env: 'NEXT_PUBLIC_APPWRITE_SESSION_ACTIVITY_COLLECTION_ID', name: 'session_activity', permissions: serverOnly },
+  reward_ledger: { env: 'NEXT_PUBLIC_APPWRITE_REWARD_LEDGER_COLLECTION_ID', name: 'reward_ledger', permissions: serverOnly },
+  reward_closings: { env: 'NEXT_PUBLIC_APPWRITE_REWARD_CLOSINGS_COLLECTION_ID', name: 'reward_closings', permissions: serverOnly },
+  reward_approvals: { env: 'NEXT_PUBLIC_APPWRITE_REWARD_APPROVALS_COLLECTION_ID', name: 'reward_approvals', permissions: serverOnly }
+};
+
+const buckets = {
+  prints: { env: 'NEXT_PUBLIC_APPWRITE_PRINTS_BUCKET_ID', name: 'prints', permissions: usersCanCreate }
+};
+
+// Construtores de atributos (opções: required, array, default, min, max)
+const string = (key, size, options = {}) => ({ type: 'string', key, size, ...options });
+const integer = (key, options = {}) => ({ type: 'integer', key, ...options });
+const float = (key, options = {}) => ({ type: 'float', key, ...options });
+const boolean = (key, options = {}) => ({ type: 'boolean', key, ...options });
+const datetime = (key, options = {}) => ({ type: 'datetime', key, ...options });
+const enumeration = (key, elements, options = {}) => ({ type: 'enum', key, elements, ...options });
+const manyToOne = (key, relatedCollection) => ({ type: 'relationship', key, relatedCollection, relationType: 'manyToOne' });
+
+// Índices (tipo key, unique ou fulltext)
+const index = (key, attributes, type = 'key') => ({ key, type, attributes });
+
+const required = { required: true };
+
+const migrations = [
+  {
+    version: 1,
+    description: 'Esquema base: perfis, metas, submissões, contestações, elogios e bucket de comprovações',
+    collections: {
+      user_profiles: {
+        attributes: [
+          string('userId', 36, required),
+          string('name', 255),
+          string('email', 255, required),
+          string('sector', 50, required),
+          string('role', 50, required)
+        ],
+        indexes: [index('idx_userId', ['userId'], 'unique'), index('idx_sector', ['sector']), index('idx_email', ['email'])]
+      },
+      sector_goals: {
+        attributes: [
+          string('title', 255, required),
+          string('description', 1000, required),
+          string('sectorId', 50, required),
+          enumeration('type', GOAL_TYPES, required),
+          float('targetValue', required),
+          string('unit', 50),
+          string('checklistItems', 255, { array: true }),
+          enumeration('period', GOAL_PERIODS, required),
+          string('category', 100),
+          boolean('isActive', { default: true }),
+          enumeration('scope', GOAL_SCOPES, { default: 'sector' }),
+          string('assignedUserId', 36),
+          boolean('hasMonetaryReward', { default: false }),
+          integer('monetaryValue', { min: 0 }),
+          string('currency', 3, { default: 'BRL' })
+        ],
+        indexes: [index('idx_sectorId', ['sectorId']), index('idx_assignedUserId', ['assignedUserId'])]
+      },
+      submissions: {
+        attributes: [
+          manyToOne('userProfile', 'user_profiles'),
+          datetime('date', required),
+          string('checklist', 65535, required),
+          string('observation', 5000),
+          string('printFileId', 36)
+        ],
+        indexes: []
+      },
+      contestations: {
+        attributes: [
+          string('submissionId', 36, required),
+          string('goalId', 36, required),
+          string('collaboratorId', 36, required),
+          string('managerId', 36, required),
+          string('reason', 2000, required),
+          enumeration('status', CONTESTATION_STATUSES, required),
+          datetime('createdAt', required),
+          datetime('updatedAt'),
+          datetime('resolvedAt'),
+          string('response', 2000),
+          string('collaboratorResponse', 2000)
+        ],
+        indexes: [index('idx_collaboratorId', ['collaboratorId']), index('idx_managerId', ['managerId'])]
+      },
+      compliments: {
+        attributes: [
+          string('managerId', 36, required),
+          string('collaboratorId', 36, required),
+          string('message', 1000, required),
+          string('presetKey', 100),
+          boolean('isRead', { default: false })
+        ],
+        indexes: [index('idx_collaboratorId', ['collaboratorId'])]
+      }
+    },
+    buckets: ['prints']
+  },
+  {
+    version: 2,
+    description: 'Comprovação por meta: submissions.goalFiles e sector_goals.requireProof',
+    collections: {
+      submissions: { attributes: [string('goalFiles', 10000)] },
+      sector_goals: { attributes: [boolean('requireProof', { default: false })] }
+    }
+  },
+  {
+    version: 3,
+    description: 'Segurança: auditoria, tentativas de login, segundo fator, configurações e redefinição de senha',
+    collections: {
+      user_profiles: { attributes: [boolean('mustChangePassword', { default: false })] },
+      audit_logs: {
+        attributes: [
+          string('actorId', 36, required),
+          string('actorName', 255, required),
+          string('actorRole', 50, required),
+          string('action', 100, required),
+          string('targetType', 50, required),
+          string('targetId', 100, required),
+          string('summary', 1000, required),
+          string('diff', 10000),
+          string('before', 10000),
+          string('after', 10000),
+          datetime('timestamp', required)
+        ],
+        indexes: [
+          index('idx_summary', ['summary'], 'fulltext'),
+          index('idx_action', ['action']),
+          index('idx_targetType', ['targetType']),
+          index('idx_targetId', ['targetId']),
+          index('idx_actorId', ['actorId'])
+        ]
+      },
+      login_attempts: {
+        attributes: [
+          string('key', 330, required), // `email:<e-mail>` ou `ip:<endereço>`; ID do documento = hash da chave
+          enumeration('scope', ['email', 'ip'], required),
+          integer('failures', { required: true, min: 0 }),
+          datetime('lastAttemptAt', required),
+          datetime('lockedUntil')
+        ],
+        indexes: [index('idx_lastAttemptAt', ['lastAttemptAt'])]
+      },
+      user_mfa: {
+        attributes: [
+          string('subjectId', 36, required),
+          boolean('enabled', required),
+          string('secret', 500),
+          string('pendingSecret', 500),
+          string('recoveryCodes', 64, { array: true }),
+          integer('lastUsedStep'),
+          datetime('enabledAt')
+        ],
+        indexes: [index('idx_enabled', ['enabled'])]
+      },
+      app_settings: {
+        attributes: [string('mfaRequiredRoles', 50, { array: true })]
+      },
+      password_resets: {
+        attributes: [
+          string('userId', 36, required),
+          string('email', 255, required),
+          string('tokenHash', 64, required),
+          datetime('expiresAt', required),
+          datetime('usedAt')
+        ],
+        indexes: [index('idx_tokenHash', ['tokenHash'], 'unique'), index('idx_userId', ['userId'])]
+      }
+    }
+  },
+  {
+    version: 4,
+    description: 'Gestão: gestores multissetor, delegações e roles personalizados',
+    collections: {
+      user_profiles: {
+        attributes: [string('managedSectors', 50, { array: true }), string('customRoleId', 36)],
+        indexes: [index('idx_customRoleId', ['customRoleId'])]
+      },
+      manager_delegations: {
+        attributes: [
+          string('managerProfileId', 36, required),
+          string('managerName', 255, required),
+          string('delegateProfileId', 36, required),
+          string('delegateName', 255, required),
+          string('sectors', 50, { required: true, array: true }),
+          datetime('startsAt', required),
+          datetime('endsAt', required),
+          string('reason', 500),
+          string('createdBy', 36, required),
+          datetime('revokedAt')
+        ],
+        indexes: [index('idx_delegateProfileId', ['delegateProfileId']), index('idx_managerProfileId', ['managerProfileId'])]
+      },
+      custom_roles: {
+        attributes: [
+          string('name', 100, required),
+          string('description', 500),
+          enumeration('baseRole', CUSTOM_ROLE_BASES, required),
+          string('permissions', 100, { required: true, array: true })
+        ]
+      }
+    }
+  },
+  {
+    version: 5,
+    description: 'Sessões: tempo limite de inatividade, atividade por sessão e logout forçado',
+    collections: {
+      user_profiles: { attributes: [datetime('sessionsRevokedAt')] },
+      app_settings: { attributes: [integer('inactivityTimeoutMinutes', { min: 0, max: 480 })] },
+      session_activity: {
+        attributes: [
+          string('userId', 36, required),
+          string('profileId', 36, required),
+          datetime('lastActivityAt', required)
+        ],
+        indexes: [index('idx_userId', ['userId'])]
+      }
+    }
+  },
+  {
+    version: 6,
+    description: 'Respostas por meta (goal_answers) e índice de data das submissões',
+    collections: {
+      submissions: { indexes: [index('idx_date', ['date'])] },
+      goal_answers: {
+        attributes: [
+          string('submissionId', 36, required),
+          string('goalId', 36, required),
+          string('profileId', 36, required),
+          datetime('date', required),
+          enumeration('goalType', GOAL_TYPES, required),
+          string('value', 10000, required),
+          float('numericValue'),
+          string('fileIds', 36, { array: true })
+        ],
+        indexes: [
+          index('idx_submissionId', ['submissionId']),
+          index('idx_goalId_date', ['goalId', 'date']),
+          index('idx_profileId_date', ['profileId', 'date'])
+        ]
+      }
+    }
+  },
+  {
+    version: 7,
+    description: 'Submissões e respostas por meta gravadas apenas pelo servidor (POST /api/submissions)',
+    permissions: ['submissions', 'goal_answers']
+  },
+  {
+    version: 8,
+    description: 'Razão de recompensas: fechamento mensal imutável com lançamentos de ajuste',
+    collections: {
+      reward_ledger: {
+        attributes: [
+          string('closingPeriod', 7, required),
+          string('sector', 50, required),
+          string('profileId', 36, required),
+          string('userId', 36, required),
+          string('userName', 255, required),
+          string('goalId', 36, required),
+          string('goalTitle', 255, required),
+          enumeration('periodType', GOAL_PERIODS, required),
+          datetime('periodStart', required),
+          datetime('periodEnd', required),
+          integer('amount', required),
+          enumeration('entryType', REWARD_LEDGER_ENTRY_TYPES, required),
+          integer('ruleVersion', required),
+          string('details', 2000, required),
+          string('adjustsEntryId', 36),
+          string('reason', 500),
+          string('createdBy', 36, required),
+          string('createdByName', 255, required)
+        ],
+        indexes: [
+          index('idx_closingPeriod_sector', ['closingPeriod', 'sector']),
+          index('idx_profileId', ['profileId']),
+          index('idx_goalId', ['goalId'])
+        ]
+      },
+      reward_closings: {
+        attributes: [
+          string('closingPeriod', 7, required),
+          string('sector', 50, required),
+          integer('ruleVersion', required),
+          integer('entriesCount', required),
+          integer('totalAmount', required),
+          string('closedBy', 36, required),
+          string('closedByName', 255, required),
+          datetime('closedAt', required)
+        ],
+        indexes: [index('idx_closingPeriod', ['closingPeriod'])]
+      }
+    }
+  },
+  {
+    version: 9,
+    description: 'Aprovação das recompensas fechadas: gestor aprova, financeiro libera e registra o pagamento',
+    collections: {
+      reward_approvals: {
+        attributes: [
+          string('closingPeriod', 7, required),
+          string('sector', 50, required),
+          string('profileId', 36, required),
+          string('goalId', 36, required),
+          datetime('periodStart', required),
+          datetime('periodEnd', required),
+          enumeration('status', REWARD_APPROVAL_STATUSES, required),
+          integer('amount', required),
+          string('approvedBy', 36),
+          string('approvedByName', 255),
+          datetime('approvedAt'),
+          string('releasedBy', 36),
+          string('releasedByName', 255),
+          datetime('releasedAt'),
+          string('paidBy', 36),
+          string('paidByName', 255),
+          datetime('paidAt'),
+          string('rejectedBy', 36),
+          string('rejectedByName', 255),
+          datetime('rejectedAt'),
+          string('rejectionReason', 500)
+        ],
+        indexes: [
+          index('idx_closingPeriod_sector', ['closingPeriod', 'sector']),
+          index('idx_profileId', ['profileId']),
+          index('idx_status', ['status'])
+        ]
+      }
+    }
+  },
+  {
+    version: 10,
+    description: 'Faixas de pagamento por meta: sector_goals.rewardTiers',
+    collections: {
+      sector_goals: { attributes: [string('rewardTiers', 2000)] }
+    }
+  },
+  {
+    version: 11,
+    description: 'Regra de atingimento por meta: sector_goals.achievementRule e achievementThreshold',
+    collections: {
+      sector_goals: {
+        attributes: [
+          enumeration('achievementRule', ACHIEVEMENT_RULES),
+          integer('achievementThreshold')
+        ]
+      }
+    }
+  }
+];
+
+// Controle das versões aplicadas (ID fixo, criado pelo próprio script)
+const MIGRATIONS_COLLECTION = { id: 'schema_migrations', name: 'schema_migrations' };
+
+module.exports = { collections, buckets, migrations, MIGRATIONS_COLLECTION };
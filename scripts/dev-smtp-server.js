@@ -0,0 +1,64 @@
+/**
+ * Servidor SMTP mínimo para desenvolvimento
+ * Aceita qualquer mensagem na porta 1025 (ou SMTP_PORT) e imprime no terminal,
+ * permitindo testar os e-mails de redefinição de senha sem um provedor real
+ * Uso: npm run dev:smtp (com EMAIL_TRANSPORT=smtp no .env.local)
+ */
+
+const net = require('net');
+
+const port = Number(process.env.SMTP_PORT || 1025);
+
+const server = net.createServer((socket) => {
+  let buffer = '';
+  let readingData = false;
+  let message = [];
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  reply('220 metasti-dev-smtp pronto');
+
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8');
+
+    let index;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (readingData) {
+        if (line === '.') {
+          readingData = false;
+          console.log('\n===== Nova mensagem =====');
+          console.log(message.join('\n'));
+          console.log('=========================\n');
+          message = [];
+          reply('250 Mensagem recebida');
+        } else {
+          message.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.split(' ')[0].toUpperCase();
+      if (command === 'EHLO' || command === 'HELO') {
+        reply('250 metasti-dev-smtp');
+      } else if (command === 'DATA') {
+        readingData = true;
+        reply('354 Envie a mensagem terminando com <CRLF>.<CRLF>');
+      } else if (command === 'QUIT') {
+        reply('221 Até mais');
+        socket.end();
+      } else {
+        // MAIL FROM, RCPT TO, RSET, NOOP, AUTH...: aceita tudo
+        reply(command === 'AUTH' ? '235 Autenticado' : '250 OK');
+      }
+    }
+  });
+
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(port, () => {
+  console.log(`Servidor SMTP de desenvolvimento ouvindo na porta ${port}`);
+});
@@ -0,0 +1,19 @@
+/**
+ * Gera o valor de ADMIN_PASSWORD_HASH a partir de uma senha em texto
+ * Uso: npm run admin:hash-password -- "minha_senha_forte"
+ * Mantém o mesmo formato de lib/admin-auth.ts (scrypt:<salt>:<hash>)
+ */
+
+const { randomBytes, scryptSync } = require('crypto');
+
+const password = process.argv[2];
+
+if (!password) {
+  console.error('Uso: npm run admin:hash-password -- "<senha>"');
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const hash = scryptSync(password, salt, 64);
+
+console.log(`ADMIN_PASSWORD_HASH="scrypt:${salt.toString('hex')}:${hash.toString('hex')}"`);